@@ -2,6 +2,9 @@
 const nextConfig = {
   reactStrictMode: true,
   swcMinify: true,
+  experimental: {
+    instrumentationHook: true, // Starts background jobs (src/instrumentation.ts)
+  },
 };
 
 module.exports = nextConfig;
\ No newline at end of file
@@ -0,0 +1,59 @@
+// Shows and changes the schema version of the configured database (data/database.db or DATABASE_URL).
+//
+//   bun run db:migrate status          List migrations and whether they are applied
+//   bun run db:migrate up [version]    Apply pending migrations (up to version, default: all)
+//   bun run db:migrate down [version]  Roll back to version (default: undo the latest migration)
+//
+// The balancer applies pending migrations on startup, so `up` is only needed to migrate ahead of a deploy.
+import { connectDatabase } from '../src/lib/db';
+import { LATEST_VERSION, formatMigration, getMigrationStatus, migrateDown, migrateUp } from '../src/lib/migrations';
+
+function parseVersion(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 0) {
+    throw new Error(`Invalid version '${value}'`);
+  }
+  return version;
+}
+
+async function main() {
+  const [command = 'status', versionArg] = process.argv.slice(2);
+  const db = await connectDatabase();
+
+  try {
+    if (command === 'status') {
+      const status = await getMigrationStatus(db);
+      for (const migration of status) {
+        const state = migration.appliedAt ? `applied ${migration.appliedAt}` : 'pending';
+        console.log(`${formatMigration(migration)}  ${state}${migration.known ? '' : '  (not part of this build)'}`);
+      }
+      const pending = status.filter(migration => !migration.appliedAt).length;
+      console.log(pending > 0 ? `${pending} pending migration(s).` : 'Database is up to date.');
+    } else if (command === 'up') {
+      const applied = await migrateUp(db, parseVersion(versionArg) ?? LATEST_VERSION);
+      console.log(applied.length > 0 ? `Applied ${applied.length} migration(s).` : 'Nothing to apply.');
+    } else if (command === 'down') {
+      let target = parseVersion(versionArg);
+      if (target === undefined) {
+        // One step back: the version below the latest applied one
+        const applied = (await getMigrationStatus(db)).filter(migration => migration.appliedAt);
+        target = applied.length > 1 ? applied[applied.length - 2].version : 0;
+      }
+      if (target === 0) {
+        console.warn('Rolling back to version 0 drops every table of the balancer.');
+      }
+      const rolledBack = await migrateDown(db, target);
+      console.log(rolledBack.length > 0 ? `Rolled back ${rolledBack.length} migration(s).` : 'Nothing to roll back.');
+    } else {
+      throw new Error(`Unknown command '${command}' (expected status, up or down)`);
+    }
+  } finally {
+    await db.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('Migration failed:', error.message || error);
+  process.exit(1);
+});
@@ -3,6 +3,7 @@ import fs from 'fs/promises';
 import path from 'path';
 import { readSettings } from '@/lib/settings'; // Import readSettings from lib
 import { logError, logKeyEvent } from '@/lib/services/logger'; // Use logKeyEvent for now
+import { forgetIndex, getIndexPath } from '@/lib/utils/logFiles';
 
 // Function to parse date from log filename (similar to stats route)
 function parseDateFromFilename(filename: string): Date | null {
@@ -53,7 +54,7 @@ export async function POST() { // Use POST for actions with side effects
         continue;
       }
       // Now only process request and error logs
-      if (!file.match(/^(requests|errors)-\d{4}-\d{2}-\d{2}\.log$/)) {
+      if (!file.match(/^(requests|errors)-\d{4}-\d{2}-\d{2}(\.\d+)?\.log(\.\d+)?$/)) {
           continue; // Skip non-request/error log files
       }
 
@@ -63,6 +64,9 @@ export async function POST() { // Use POST for actions with side effects
         const filePath = path.join(logsDir, file);
         try {
           await fs.unlink(filePath);
+          // The requestId index of the file is useless without it
+          await fs.rm(getIndexPath(filePath), { force: true });
+          forgetIndex(filePath);
           deletedCount++;
           logKeyEvent('Admin Action', { action: 'Deleted old log file', file: file });
         } catch (error: any) {
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ClientKey, parseClientKeyInput } from '@/lib/models/ClientKey';
+import { KeyPool } from '@/lib/models/KeyPool';
+import { logError, logKeyEvent } from '@/lib/services/logger';
+
+// DELETE /api/admin/client-keys/:id - Delete a client key (its request logs are kept)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const deleted = await ClientKey.deleteById(params.id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Client key not found' },
+        { status: 404 }
+      );
+    }
+
+    logKeyEvent('Client Key Deleted', { clientKeyId: params.id });
+    return NextResponse.json({
+      message: 'Client key deleted successfully'
+    });
+  } catch (error: any) {
+    logError(error, { context: 'DELETE /api/admin/client-keys' });
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete client key' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/admin/client-keys/:id - Toggle the enabled flag
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const clientKey = await ClientKey.findById(params.id);
+
+    if (!clientKey) {
+      return NextResponse.json(
+        { error: 'Client key not found' },
+        { status: 404 }
+      );
+    }
+
+    clientKey.isEnabled = !clientKey.isEnabled;
+    await clientKey.save();
+    logKeyEvent(clientKey.isEnabled ? 'Client Key Enabled' : 'Client Key Disabled', { clientKeyId: clientKey._id });
+
+    return NextResponse.json({
+      message: `Client key ${clientKey.isEnabled ? 'enabled' : 'disabled'} successfully`,
+      isEnabled: clientKey.isEnabled
+    });
+  } catch (error: any) {
+    logError(error, { context: 'PATCH /api/admin/client-keys' });
+    return NextResponse.json(
+      { error: error.message || 'Failed to update client key' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/admin/client-keys/:id - Update name, enabled flag, allowed models, quotas, expiry or pool
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const parsed = parseClientKeyInput(body);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    if (parsed.input.poolId && !(await KeyPool.findById(parsed.input.poolId))) {
+      return NextResponse.json({ error: 'Key pool not found' }, { status: 400 });
+    }
+
+    const clientKey = await ClientKey.findById(params.id);
+
+    if (!clientKey) {
+      return NextResponse.json(
+        { error: 'Client key not found' },
+        { status: 404 }
+      );
+    }
+
+    const updatedFields = Object.keys(parsed.input) as (keyof typeof parsed.input)[];
+    Object.assign(clientKey, parsed.input);
+    await clientKey.save();
+
+    if (updatedFields.length > 0) {
+      logKeyEvent('Client Key Updated', { clientKeyId: clientKey._id, updatedFields });
+    }
+
+    return NextResponse.json({
+      message: 'Client key updated successfully',
+      clientKey: clientKey.toPublicObject()
+    });
+  } catch (error: any) {
+    logError(error, { context: 'PUT /api/admin/client-keys' });
+    return NextResponse.json(
+      { error: error.message || 'Failed to update client key' },
+      { status: 500 }
+    );
+  }
+}
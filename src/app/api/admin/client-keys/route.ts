@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ClientKey, parseClientKeyInput } from "@/lib/models/ClientKey";
+import { KeyPool } from "@/lib/models/KeyPool";
+import { logError, logKeyEvent } from "@/lib/services/logger";
+
+// GET /api/admin/client-keys - Get all client keys
+export async function GET() {
+  try {
+    const clientKeys = await ClientKey.findAll();
+    const now = new Date();
+    // Daily counters from a previous day are shown as reset
+    clientKeys.forEach((clientKey) => clientKey.applyDailyReset(now));
+    return NextResponse.json(clientKeys.map((clientKey) => clientKey.toPublicObject()));
+  } catch (error: any) {
+    logError(error, { context: "GET /api/admin/client-keys" });
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch client keys" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/client-keys - Create a client key; the secret is only returned in this response
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = parseClientKeyInput(body);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    if (!parsed.input.name) {
+      return NextResponse.json({ error: "Name is required" }, { status: 400 });
+    }
+    if (parsed.input.poolId && !(await KeyPool.findById(parsed.input.poolId))) {
+      return NextResponse.json({ error: "Key pool not found" }, { status: 400 });
+    }
+
+    const { clientKey, secret } = await ClientKey.create(parsed.input);
+    logKeyEvent("Client Key Created", { clientKeyId: clientKey._id, name: clientKey.name });
+
+    return NextResponse.json({
+      message: "Client key created successfully",
+      clientKey: clientKey.toPublicObject(),
+      secret,
+    });
+  } catch (error: any) {
+    logError(error, { context: "POST /api/admin/client-keys" });
+    return NextResponse.json(
+      { error: error.message || "Failed to create client key" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { ApiKey } from '@/lib/models/ApiKey';
 import { RequestLogData } from '@/lib/models/RequestLog'; // Import RequestLogData type
+import { KeyModelUsageData } from '@/lib/models/KeyModelUsage';
 import { Settings } from '@/lib/db'; // Import Settings type
 import { logError } from '@/lib/services/logger';
 import { getIronSession } from 'iron-session';
@@ -24,6 +25,9 @@ export async function GET(req: Request) {
     const apiKeysData = await db.all<ApiKey[]>('SELECT * FROM api_keys');
     const settingsData = await db.get< { id: number; config: string } >('SELECT * FROM settings WHERE id = 1');
     const requestLogsData = await db.all<RequestLogData[]>('SELECT * FROM request_logs ORDER BY timestamp ASC'); // Order for potential consistency
+    const keyModelUsageData = await db.all<KeyModelUsageData[]>('SELECT * FROM key_model_usage');
+    const clientKeysData = await db.all('SELECT * FROM client_keys'); // Only secret hashes are stored
+    const keyPoolsData = await db.all('SELECT * FROM key_pools');
 
     // Structure the export data
     const exportData = {
@@ -34,6 +38,9 @@ export async function GET(req: Request) {
         // Parse settings JSON string before exporting
         settings: settingsData ? JSON.parse(settingsData.config) : {},
         request_logs: requestLogsData || [],
+        key_model_usage: keyModelUsageData || [],
+        client_keys: clientKeysData || [],
+        key_pools: keyPoolsData || [],
       }
     };
 
@@ -42,7 +42,7 @@ export async function POST(req: NextRequest) {
     }
 
     const fileContent = await file.text();
-    let importData: { version?: number; exportedAt?: string; data?: { api_keys?: any[], settings?: any, request_logs?: any[] } };
+    let importData: { version?: number; exportedAt?: string; data?: { api_keys?: any[], settings?: any, request_logs?: any[], key_model_usage?: any[], client_keys?: any[], key_pools?: any[] } };
 
     try {
       importData = JSON.parse(fileContent);
@@ -59,6 +59,18 @@ export async function POST(req: NextRequest) {
        if (!Array.isArray(importData.data.request_logs)) {
            throw new Error('Invalid JSON structure: "data.request_logs" is not an array.');
        }
+       // key_model_usage is optional (older backups do not contain it)
+       if (importData.data.key_model_usage !== undefined && !Array.isArray(importData.data.key_model_usage)) {
+           throw new Error('Invalid JSON structure: "data.key_model_usage" is not an array.');
+       }
+       // client_keys is optional (older backups do not contain it)
+       if (importData.data.client_keys !== undefined && !Array.isArray(importData.data.client_keys)) {
+           throw new Error('Invalid JSON structure: "data.client_keys" is not an array.');
+       }
+       // key_pools is optional (older backups do not contain it)
+       if (importData.data.key_pools !== undefined && !Array.isArray(importData.data.key_pools)) {
+           throw new Error('Invalid JSON structure: "data.key_pools" is not an array.');
+       }
        // Add version check if needed in the future
        // if (importData.version !== 1) { ... }
 
@@ -70,67 +82,142 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    const data = importData.data!; // Validated above
     const db = await getDb();
-    await db.run('BEGIN TRANSACTION'); // Start transaction
-
     try {
-      // Clear existing data
-      await db.run('DELETE FROM request_logs');
-      await db.run('DELETE FROM api_keys');
-      await db.run('DELETE FROM settings'); // Should only be one row, but DELETE is safe
-
-      // Import Settings (only one row expected)
-      if (importData.data.settings) {
-          const settingsString = JSON.stringify(importData.data.settings);
-          await db.run('INSERT INTO settings (id, config) VALUES (?, ?)', 1, settingsString);
-          results.settings = 1;
-      }
+      await db.transaction(async () => {
+        // Clear existing data
+        await db.run('DELETE FROM request_logs');
+        await db.run('DELETE FROM request_attempts'); // Not exported, and they belong to the replaced logs
+        await db.run('DELETE FROM request_payloads');
+        await db.run('DELETE FROM key_model_usage');
+        await db.run('DELETE FROM key_minute_usage');
+        await db.run('DELETE FROM key_probes'); // Not exported, and they belong to the replaced keys
+        await db.run('DELETE FROM client_keys');
+        await db.run('DELETE FROM key_rotation');
+        await db.run('DELETE FROM api_keys');
+        await db.run('DELETE FROM key_pools');
+        // Keep counting settings versions up, so other instances notice the imported settings
+        const previousSettings = await db.get<{ version: number }>('SELECT version FROM settings WHERE id = 1');
+        await db.run('DELETE FROM settings'); // Should only be one row, but DELETE is safe
+
+        // Import Settings (only one row expected)
+        if (data.settings) {
+            const settingsString = JSON.stringify(data.settings);
+            await db.run('INSERT INTO settings (id, config, version) VALUES (?, ?, ?)', 1, settingsString, (previousSettings?.version ?? 0) + 1);
+            results.settings = 1;
+        }
 
-      // Import API Keys
-      if (importData.data.api_keys) {
-        const stmtKeys = await db.prepare(
-          `INSERT INTO api_keys (_id, key, name, isActive, lastUsed, rateLimitResetAt, failureCount, requestCount, dailyRateLimit, dailyRequestsUsed, lastResetDate, isDisabledByRateLimit)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
-        );
-        for (const key of importData.data.api_keys) {
-          // Add basic validation if needed, or rely on DB constraints
-          await stmtKeys.run(
-            key._id, key.key, key.name,
-            booleanToDb(key.isActive), // Convert boolean
-            key.lastUsed, key.rateLimitResetAt,
-            key.failureCount ?? 0, key.requestCount ?? 0,
-            key.dailyRateLimit, key.dailyRequestsUsed ?? 0,
-            key.lastResetDate,
-            booleanToDb(key.isDisabledByRateLimit) // Convert boolean
+        // Import key pools before the keys assigned to them
+        if (data.key_pools) {
+          const stmtPools = await db.prepare(
+            `INSERT INTO key_pools (_id, name, keySelectionStrategy, parallelKeyCount, keyRotationRequestCount, models, createdAt)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`
           );
-          results.keys++;
+          for (const pool of data.key_pools) {
+            await stmtPools.run(
+              pool._id, pool.name,
+              pool.keySelectionStrategy ?? null, pool.parallelKeyCount ?? null, pool.keyRotationRequestCount ?? null,
+              pool.models ?? null, // Exported as the raw JSON string
+              pool.createdAt || new Date().toISOString()
+            );
+          }
+          await stmtPools.finalize();
         }
-        await stmtKeys.finalize();
-      }
 
-      // Import Request Logs
-      if (importData.data.request_logs) {
-        const stmtLogs = await db.prepare(
-          `INSERT INTO request_logs (_id, apiKeyId, timestamp, modelUsed, responseTime, statusCode, isError, errorType, errorMessage, ipAddress)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
-        );
-        for (const log of importData.data.request_logs) {
-           // Add basic validation if needed
-           await stmtLogs.run(
-             log._id, log.apiKeyId, log.timestamp,
-             log.modelUsed, log.responseTime, log.statusCode,
-             booleanToDb(log.isError), // Convert boolean
-             log.errorType, log.errorMessage, log.ipAddress
-           );
-           results.logs++;
+        // Import API Keys
+        if (data.api_keys) {
+          const stmtKeys = await db.prepare(
+            `INSERT INTO api_keys (_id, key, name, isActive, lastUsed, rateLimitResetAt, failureCount, requestCount, dailyRateLimit, dailyRequestsUsed, lastResetDate, isDisabledByRateLimit, rpmLimit, tpmLimit, poolId, isRevoked, rateLimitQuota, quotaResetTimezone)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+          );
+          for (const key of data.api_keys) {
+            // Add basic validation if needed, or rely on DB constraints
+            await stmtKeys.run(
+              key._id, key.key, key.name,
+              booleanToDb(key.isActive), // Convert boolean
+              key.lastUsed, key.rateLimitResetAt,
+              key.failureCount ?? 0, key.requestCount ?? 0,
+              key.dailyRateLimit, key.dailyRequestsUsed ?? 0,
+              key.lastResetDate,
+              booleanToDb(key.isDisabledByRateLimit), // Convert boolean
+              key.rpmLimit ?? null, key.tpmLimit ?? null,
+              key.poolId ?? null,
+              booleanToDb(key.isRevoked), // Missing in older backups
+              key.rateLimitQuota ?? null,
+              key.quotaResetTimezone ?? null
+            );
+            results.keys++;
+          }
+          await stmtKeys.finalize();
         }
-        await stmtLogs.finalize();
-      }
 
-      await db.run('COMMIT'); // Commit transaction
+        // Import per-model key usage
+        if (data.key_model_usage) {
+          const stmtUsage = await db.prepare(
+            `INSERT INTO key_model_usage (apiKeyId, model, dailyRateLimit, dailyRequestsUsed, lastResetDate, rateLimitResetAt, isDisabledByRateLimit, rateLimitQuota)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+          );
+          for (const usage of data.key_model_usage) {
+            await stmtUsage.run(
+              usage.apiKeyId, usage.model,
+              usage.dailyRateLimit, usage.dailyRequestsUsed ?? 0,
+              usage.lastResetDate, usage.rateLimitResetAt,
+              booleanToDb(usage.isDisabledByRateLimit), // Convert boolean
+              usage.rateLimitQuota ?? null
+            );
+          }
+          await stmtUsage.finalize();
+        }
+
+        // Import client keys (hashed secrets, so existing consumers keep working)
+        if (data.client_keys) {
+          const stmtClientKeys = await db.prepare(
+            `INSERT INTO client_keys (_id, name, keyHash, keyPrefix, isEnabled, allowedModels, dailyRequestLimit, dailyTokenLimit, dailyRequestsUsed, dailyTokensUsed, lastResetDate, expiresAt, lastUsed, createdAt, payloadCaptureRate, poolId)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+          );
+          for (const clientKey of data.client_keys) {
+            await stmtClientKeys.run(
+              clientKey._id, clientKey.name, clientKey.keyHash, clientKey.keyPrefix,
+              booleanToDb(clientKey.isEnabled), // Convert boolean
+              clientKey.allowedModels ?? null, // Exported as the raw JSON string
+              clientKey.dailyRequestLimit ?? null, clientKey.dailyTokenLimit ?? null,
+              clientKey.dailyRequestsUsed ?? 0, clientKey.dailyTokensUsed ?? 0,
+              clientKey.lastResetDate, clientKey.expiresAt, clientKey.lastUsed,
+              clientKey.createdAt || new Date().toISOString(),
+              clientKey.payloadCaptureRate ?? null,
+              clientKey.poolId ?? null
+            );
+          }
+          await stmtClientKeys.finalize();
+        }
+
+        // Import Request Logs
+        if (data.request_logs) {
+          const stmtLogs = await db.prepare(
+            `INSERT INTO request_logs (_id, apiKeyId, timestamp, modelUsed, responseTime, statusCode, isError, errorType, errorMessage, ipAddress, promptTokens, completionTokens, totalTokens, clientKeyId, requestedModel, routing, poolId, requestId)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+          );
+          for (const log of data.request_logs) {
+             // Add basic validation if needed
+             await stmtLogs.run(
+               log._id, log.apiKeyId, log.timestamp,
+               log.modelUsed, log.responseTime, log.statusCode,
+               booleanToDb(log.isError), // Convert boolean
+               log.errorType, log.errorMessage, log.ipAddress,
+               log.promptTokens ?? null, log.completionTokens ?? null, log.totalTokens ?? null,
+               log.clientKeyId ?? null,
+               log.requestedModel ?? null, log.routing ?? null,
+               log.poolId ?? null,
+               log.requestId ?? null
+             );
+             results.logs++;
+          }
+          await stmtLogs.finalize();
+        }
 
+      });
     } catch (importError: any) {
-        await db.run('ROLLBACK'); // Rollback on any error during import
         logError(importError, { context: 'Import All Data - DB Operation' });
         results.errors.push(`Database import failed: ${importError.message}`);
         // Re-throw or handle differently if needed
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { KeyPool, parseKeyPoolInput } from '@/lib/models/KeyPool';
+import { logError, logKeyEvent } from '@/lib/services/logger';
+
+// DELETE /api/admin/key-pools/:id - Delete a key pool (its keys move back to the default pool)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const deleted = await KeyPool.deleteById(params.id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Key pool not found' },
+        { status: 404 }
+      );
+    }
+
+    logKeyEvent('Key Pool Deleted', { poolId: params.id });
+    return NextResponse.json({
+      message: 'Key pool deleted successfully'
+    });
+  } catch (error: any) {
+    logError(error, { context: 'DELETE /api/admin/key-pools' });
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete key pool' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/admin/key-pools/:id - Update name, rotation settings or routed models
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const parsed = parseKeyPoolInput(body);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const pool = await KeyPool.findById(params.id);
+
+    if (!pool) {
+      return NextResponse.json(
+        { error: 'Key pool not found' },
+        { status: 404 }
+      );
+    }
+
+    if (parsed.input.name) {
+      const existing = await KeyPool.findByName(parsed.input.name);
+      if (existing && existing._id !== pool._id) {
+        return NextResponse.json({ error: 'A pool with this name already exists' }, { status: 400 });
+      }
+    }
+
+    const updatedFields = Object.keys(parsed.input) as (keyof typeof parsed.input)[];
+    Object.assign(pool, parsed.input);
+    await pool.save();
+
+    if (updatedFields.length > 0) {
+      logKeyEvent('Key Pool Updated', { poolId: pool._id, updatedFields });
+    }
+
+    return NextResponse.json({
+      message: 'Key pool updated successfully',
+      pool
+    });
+  } catch (error: any) {
+    logError(error, { context: 'PUT /api/admin/key-pools' });
+    return NextResponse.json(
+      { error: error.message || 'Failed to update key pool' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { KeyPool, parseKeyPoolInput } from "@/lib/models/KeyPool";
+import { logError, logKeyEvent } from "@/lib/services/logger";
+
+// GET /api/admin/key-pools - Get all key pools
+export async function GET() {
+  try {
+    const pools = await KeyPool.findAll();
+    return NextResponse.json(pools);
+  } catch (error: any) {
+    logError(error, { context: "GET /api/admin/key-pools" });
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch key pools" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/key-pools - Create a key pool
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = parseKeyPoolInput(body);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    if (!parsed.input.name) {
+      return NextResponse.json({ error: "Name is required" }, { status: 400 });
+    }
+    if (await KeyPool.findByName(parsed.input.name)) {
+      return NextResponse.json({ error: "A pool with this name already exists" }, { status: 400 });
+    }
+
+    const pool = await KeyPool.create(parsed.input);
+    logKeyEvent("Key Pool Created", { poolId: pool._id, name: pool.name });
+
+    return NextResponse.json({
+      message: "Key pool created successfully",
+      pool,
+    });
+  } catch (error: any) {
+    logError(error, { context: "POST /api/admin/key-pools" });
+    return NextResponse.json(
+      { error: error.message || "Failed to create key pool" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiKey } from '@/lib/models/ApiKey';
+import { KeyProbe } from '@/lib/models/KeyProbe';
+import keyHealthChecker from '@/lib/services/keyHealthChecker';
+import { logError } from '@/lib/services/logger';
+
+// GET /api/admin/keys/:id/probes - Health probe history of a key, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const key = await ApiKey.findOne({ _id: params.id });
+
+    if (!key) {
+      return NextResponse.json(
+        { error: 'API key not found' },
+        { status: 404 }
+      );
+    }
+
+    const probes = await KeyProbe.findByKey(key._id);
+    return NextResponse.json(probes);
+  } catch (error: any) {
+    logError(error, { context: 'GET /api/admin/keys/probes' });
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch probe history' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/keys/:id/probes - Probe a key now (restores or revokes it like the background check)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const key = await ApiKey.findOne({ _id: params.id });
+
+    if (!key) {
+      return NextResponse.json(
+        { error: 'API key not found' },
+        { status: 404 }
+      );
+    }
+
+    const probe = await keyHealthChecker.probeKey(key);
+    return NextResponse.json({
+      message: `Probe finished: ${probe.outcome}${probe.action ? ` (key ${probe.action})` : ''}`,
+      probe
+    });
+  } catch (error: any) {
+    logError(error, { context: 'POST /api/admin/keys/probes' });
+    return NextResponse.json(
+      { error: error.message || 'Failed to probe API key' },
+      { status: 500 }
+    );
+  }
+}
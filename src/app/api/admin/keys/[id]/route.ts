@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ApiKey } from '@/lib/models/ApiKey';
+import { KeyModelUsage, normalizeModelName } from '@/lib/models/KeyModelUsage';
+import { KeyPool } from '@/lib/models/KeyPool';
 import { logError, logKeyEvent } from '@/lib/services/logger'; // Import logKeyEvent
+import keyManager from '@/lib/services/keyManager';
+import { isValidTimeZone } from '@/lib/utils/quotaDay';
 
 // DELETE /api/admin/keys/:id - Delete an API key
 export async function DELETE(
@@ -72,6 +76,7 @@ export async function PATCH(
       key.failureCount = 0; // Reset failure count
       key.rateLimitResetAt = null; // Clear global rate limit cooldown
       key.isDisabledByRateLimit = false; // Ensure it's not marked as disabled by daily limit
+      key.isRevoked = false; // Manual activation overrides a revocation by the health checker
       logKeyEvent('Key Reactivated', { keyId: key._id, reason: 'Manual activation' });
     } else if (wasActive && !key.isActive) {
       logKeyEvent('Key Deactivated', { keyId: key._id, reason: 'Manual deactivation' });
@@ -101,7 +106,7 @@ export async function PUT(
   try {
     const id = params.id;
     const body = await request.json();
-    const { name, dailyRateLimit } = body; // Expecting 'name' and optionally 'dailyRateLimit'
+    const { name, dailyRateLimit, modelRateLimits, rpmLimit, tpmLimit, poolId, quotaResetTimezone } = body; // Expecting 'name' and optionally the limits, pool and reset time zone
 
     if (!id) {
       return NextResponse.json(
@@ -132,6 +137,55 @@ export async function PUT(
         );
       }
     }
+
+    // --- Validate rpmLimit / tpmLimit (non-negative integer or null, 0 means no limit) ---
+    for (const [field, value] of [['rpmLimit', rpmLimit], ['tpmLimit', tpmLimit]] as const) {
+      if (value !== undefined && value !== null && (typeof value !== 'number' || !Number.isInteger(value) || value < 0)) {
+        return NextResponse.json(
+          { error: `Invalid ${field} format. Must be a non-negative integer or null.` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // --- Validate quotaResetTimezone (IANA time zone, or null/empty for the global setting) ---
+    if (quotaResetTimezone !== undefined && quotaResetTimezone !== null && quotaResetTimezone !== '' && !isValidTimeZone(quotaResetTimezone)) {
+      return NextResponse.json(
+        { error: `Unknown time zone '${quotaResetTimezone}'. Use an IANA name such as America/Los_Angeles.` },
+        { status: 400 }
+      );
+    }
+
+    // --- Validate poolId (existing pool ID, or null for the default pool) ---
+    if (poolId !== undefined && poolId !== null) {
+      if (typeof poolId !== 'string' || !(await KeyPool.findById(poolId))) {
+        return NextResponse.json(
+          { error: 'Key pool not found' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // --- Validate modelRateLimits ({ [model]: non-negative integer | null }) ---
+    const validatedModelLimits = new Map<string, number | null>();
+    if (modelRateLimits !== undefined) {
+      if (typeof modelRateLimits !== 'object' || modelRateLimits === null || Array.isArray(modelRateLimits)) {
+        return NextResponse.json(
+          { error: 'Invalid modelRateLimits format. Must be an object mapping model names to limits.' },
+          { status: 400 }
+        );
+      }
+      for (const [modelName, limit] of Object.entries(modelRateLimits)) {
+        const model = normalizeModelName(modelName);
+        if (!model || (limit !== null && (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 0))) {
+          return NextResponse.json(
+            { error: `Invalid per-model limit for '${modelName}'. Must be a non-negative integer or null.` },
+            { status: 400 }
+          );
+        }
+        validatedModelLimits.set(model, limit as number | null);
+      }
+    }
     // --- End Validation ---
 
     // Find the key
@@ -161,8 +215,52 @@ export async function PUT(
       }
     }
 
+    if (rpmLimit !== undefined) {
+      key.rpmLimit = rpmLimit || null; // 0 means no limit
+      updatedFields.push('rpmLimit');
+    }
+    if (tpmLimit !== undefined) {
+      key.tpmLimit = tpmLimit || null; // 0 means no limit
+      updatedFields.push('tpmLimit');
+    }
+    if (poolId !== undefined && (poolId || null) !== (key.poolId ?? null)) {
+      key.poolId = poolId || null;
+      updatedFields.push('poolId');
+    }
+    if (quotaResetTimezone !== undefined) {
+      key.quotaResetTimezone = quotaResetTimezone ? quotaResetTimezone.trim() : null;
+      updatedFields.push('quotaResetTimezone');
+    }
+
     // Save the changes
     await key.save();
+    await keyManager.refreshKeyLimits(key); // Apply new limits (or pool) to the key if it is in rotation
+
+    // Per-model limits: models missing from the payload lose their limit, unused rows are removed
+    if (modelRateLimits !== undefined) {
+      const existingUsage = await KeyModelUsage.findByKey(key._id);
+      for (const usage of existingUsage) {
+        if (!validatedModelLimits.has(usage.model)) {
+          if (usage.dailyRequestsUsed === 0 && !usage.rateLimitResetAt) {
+            await usage.delete();
+          } else if (usage.dailyRateLimit !== null && usage.dailyRateLimit !== undefined) {
+            usage.dailyRateLimit = null;
+            usage.isDisabledByRateLimit = false;
+            await usage.save();
+          }
+        }
+      }
+      for (const [model, limit] of Array.from(validatedModelLimits.entries())) {
+        const usage = existingUsage.find(u => u.model === model) || await KeyModelUsage.findOrBuild(key._id, model);
+        usage.dailyRateLimit = limit;
+        // Re-enable the key for this model if the new limit is no longer reached
+        if (limit === null || limit === 0 || usage.dailyRequestsUsed < limit) {
+          usage.isDisabledByRateLimit = false;
+        }
+        await usage.save();
+      }
+      updatedFields.push('modelRateLimits');
+    }
     
     if (updatedFields.length > 0) {
       logKeyEvent('Key Updated', { keyId: key._id, updatedFields: updatedFields });
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/db';
 import { ApiKey } from '@/lib/models/ApiKey';
+import { KeyPool } from '@/lib/models/KeyPool';
+import keyManager from '@/lib/services/keyManager';
 import { logError } from '@/lib/services/logger';
 // Removed iron-session imports - assuming middleware handles auth
 
@@ -11,11 +13,11 @@ export async function PATCH(req: NextRequest) {
     const body = await req.json();
     // Assign action from body inside the try block
     action = body.action;
-    const { keyIds, dailyRequestLimit } = body;
+    const { keyIds, dailyRequestLimit, poolId } = body;
 
     // --- Input Validation ---
-    if (!action || (action !== 'setLimit' && action !== 'delete')) {
-        return NextResponse.json({ error: 'Invalid or missing action specified. Must be "setLimit" or "delete".' }, { status: 400 });
+    if (!action || (action !== 'setLimit' && action !== 'setPool' && action !== 'delete')) {
+        return NextResponse.json({ error: 'Invalid or missing action specified. Must be "setLimit", "setPool" or "delete".' }, { status: 400 });
     }
     if (!Array.isArray(keyIds) || keyIds.length === 0) {
       return NextResponse.json({ error: 'keyIds must be a non-empty array' }, { status: 400 });
@@ -31,6 +33,12 @@ export async function PATCH(req: NextRequest) {
             return NextResponse.json({ error: 'dailyRequestLimit must be a non-negative integer or null' }, { status: 400 });
         }
     }
+    if (action === 'setPool') {
+        // Validate poolId (null moves the keys to the default pool)
+        if (poolId !== null && (typeof poolId !== 'string' || !(await KeyPool.findById(poolId)))) {
+            return NextResponse.json({ error: 'poolId must be an existing pool ID or null' }, { status: 400 });
+        }
+    }
     // --- End Validation ---
 
     const db = await getDb();
@@ -54,7 +62,19 @@ export async function PATCH(req: NextRequest) {
             console.warn(`Bulk update limit attempted for key IDs [${keyIds.join(', ')}] but no rows were changed.`);
         }
 
+    } else if (action === 'setPool') {
+        result = await db.run(`UPDATE api_keys SET poolId = ? WHERE _id IN (${placeholders})`, poolId, ...keyIds);
+        count = result.changes || 0;
+        successMessage = `Successfully assigned ${count} keys to the ${poolId ? 'selected' : 'default'} pool.`;
+        // Keys in rotation re-enter it through their new pool
+        for (const keyId of keyIds) {
+            const key = await ApiKey.findOne({ _id: keyId });
+            if (key) await keyManager.refreshKeyLimits(key);
+        }
+
     } else if (action === 'delete') {
+        // Remove per-model usage rows of the deleted keys as well
+        await db.run(`DELETE FROM key_model_usage WHERE apiKeyId IN (${placeholders})`, ...keyIds);
         const stmt = await db.prepare(
             `DELETE FROM api_keys WHERE _id IN (${placeholders})`
         );
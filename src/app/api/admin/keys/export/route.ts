@@ -33,6 +33,8 @@ export async function GET(req: Request) {
         dailyRequestsUsed: keyInstance.dailyRequestsUsed,
         lastResetDate: keyInstance.lastResetDate,
         isDisabledByRateLimit: keyInstance.isDisabledByRateLimit,
+        rpmLimit: keyInstance.rpmLimit,
+        tpmLimit: keyInstance.tpmLimit,
     }));
 
 
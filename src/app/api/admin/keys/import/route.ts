@@ -49,9 +49,8 @@ export async function POST(req: NextRequest) {
     }
 
     const db = await getDb();
-    await db.run('BEGIN TRANSACTION'); // Start transaction
-
-    try {
+    // Models called inside take part in the transaction; an error escaping it rolls back the import
+    await db.transaction(async () => {
       for (const keyData of importedKeys) {
         // Basic validation
         if (!keyData.key || typeof keyData.key !== 'string') {
@@ -72,6 +71,8 @@ export async function POST(req: NextRequest) {
             existingKey.name = keyData.name !== undefined ? keyData.name : existingKey.name;
             existingKey.isActive = keyData.isActive !== undefined ? keyData.isActive : existingKey.isActive;
             existingKey.dailyRateLimit = keyData.dailyRateLimit !== undefined ? keyData.dailyRateLimit : existingKey.dailyRateLimit;
+            existingKey.rpmLimit = keyData.rpmLimit !== undefined ? keyData.rpmLimit : existingKey.rpmLimit;
+            existingKey.tpmLimit = keyData.tpmLimit !== undefined ? keyData.tpmLimit : existingKey.tpmLimit;
             // Add other fields as needed, be cautious about overwriting stats like requestCount unless intended
 
             await existingKey.save(); // Assumes save() works within transaction
@@ -106,13 +107,7 @@ export async function POST(req: NextRequest) {
           // Continue processing other keys
         }
       }
-
-      await db.run('COMMIT'); // Commit transaction if all loops succeed
-
-    } catch (transactionError: any) {
-        await db.run('ROLLBACK'); // Rollback on error during loop/commit
-        throw transactionError; // Re-throw to be caught by outer catch
-    }
+    });
 
     return NextResponse.json({
       message: 'Import process completed.',
@@ -1,15 +1,34 @@
 import { NextRequest, NextResponse } from "next/server";
 import { ApiKey } from "@/lib/models/ApiKey";
+import { KeyModelUsage } from "@/lib/models/KeyModelUsage";
+import { KeyPool } from "@/lib/models/KeyPool";
+import { KeyProbe } from "@/lib/models/KeyProbe";
 import keyManager from "@/lib/services/keyManager";
 import { logError } from "@/lib/services/logger";
+import { readSettings } from "@/lib/settings";
+import { getNextQuotaReset } from "@/lib/utils/quotaDay";
+
+// Parses an optional per-minute limit: undefined when absent, null for no limit, false when invalid
+function parseMinuteLimit(value: any): number | null | undefined | false {
+  if (value === undefined) return undefined;
+  if (value === null || String(value).trim() === '') return null;
+  const numLimit = Number(value);
+  if (!Number.isInteger(numLimit) || numLimit < 0) return false;
+  return numLimit === 0 ? null : numLimit; // 0 means no limit
+}
 
 // GET /api/admin/keys - Get all API keys
 export async function GET() {
   try {
     const keys = await ApiKey.findAll({});
+    const modelUsageByKey = await KeyModelUsage.findAllGroupedByKey();
+    const latestProbes = await KeyProbe.findLatestByKey();
+    const settings = await readSettings();
+    const now = new Date();
 
     // Explicitly create plain objects and mask keys
-    const responseKeys = keys.map((keyInstance) => {
+    const responseKeys = await Promise.all(keys.map(async (keyInstance) => {
+      const timeZone = keyInstance.getQuotaTimeZone(settings.quotaResetTimezone);
       // Ensure all expected fields are present, using defaults from the instance
       const plainKeyObject = {
         _id: keyInstance._id,
@@ -18,15 +37,36 @@ export async function GET() {
         isActive: keyInstance.isActive,
         lastUsed: keyInstance.lastUsed,
         rateLimitResetAt: keyInstance.rateLimitResetAt,
+        rateLimitQuota: keyInstance.rateLimitQuota ?? null,
         failureCount: keyInstance.failureCount,
         requestCount: keyInstance.requestCount,
         dailyRateLimit: keyInstance.dailyRateLimit,
         dailyRequestsUsed: keyInstance.dailyRequestsUsed,
         lastResetDate: keyInstance.lastResetDate,
+        quotaResetTimezone: keyInstance.quotaResetTimezone ?? null, // Per-key override, null means the setting
+        nextDailyResetAt: getNextQuotaReset(now, timeZone).toISOString(),
         isDisabledByRateLimit: keyInstance.isDisabledByRateLimit,
+        rpmLimit: keyInstance.rpmLimit,
+        tpmLimit: keyInstance.tpmLimit,
+        poolId: keyInstance.poolId ?? null,
+        isRevoked: keyInstance.isRevoked,
+        lastProbe: latestProbes.get(keyInstance._id) || null, // Most recent health probe, if any
+        minuteUsage: await keyManager.getMinuteUsage(keyInstance._id), // Requests/tokens in the last minute, all instances
+        // Per-model usage, with daily counters from a previous day shown as reset
+        modelUsage: (modelUsageByKey.get(keyInstance._id) || []).map((usage) => {
+          usage.applyDailyReset(now, timeZone);
+          return {
+            model: usage.model,
+            dailyRateLimit: usage.dailyRateLimit,
+            dailyRequestsUsed: usage.dailyRequestsUsed,
+            rateLimitResetAt: usage.rateLimitResetAt,
+            isDisabledByRateLimit: usage.isDisabledByRateLimit,
+            rateLimitQuota: usage.rateLimitQuota ?? null,
+          };
+        }),
       };
       return plainKeyObject;
-    });
+    }));
 
     return NextResponse.json(responseKeys);
   } catch (error: any) {
@@ -42,7 +82,7 @@ export async function GET() {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { key, name, dailyRateLimit } = body; // Extract dailyRateLimit as well
+    const { key, name, dailyRateLimit, rpmLimit, tpmLimit, poolId } = body; // Extract the limits and pool as well
 
     if (!key) {
       return NextResponse.json(
@@ -72,8 +112,33 @@ export async function POST(request: NextRequest) {
     }
     // If undefined, it remains undefined, letting the backend assign default (which is null)
 
-    // Pass key, name, and validated dailyRateLimit to the keyManager method
-    const newKey = await keyManager.addKey({ key, name, dailyRateLimit: validatedRateLimit });
+    // Validate RPM/TPM limits (optional, positive integer or null/empty for no limit)
+    const validatedRpmLimit = parseMinuteLimit(rpmLimit);
+    const validatedTpmLimit = parseMinuteLimit(tpmLimit);
+    if (validatedRpmLimit === false || validatedTpmLimit === false) {
+      return NextResponse.json(
+        { error: "Invalid value provided for RPM/TPM limit. Must be a non-negative integer or empty." },
+        { status: 400 }
+      );
+    }
+
+    // Validate poolId (optional, must reference an existing pool; null/empty means the default pool)
+    if (poolId && !(await KeyPool.findById(String(poolId)))) {
+      return NextResponse.json(
+        { error: "Key pool not found" },
+        { status: 400 }
+      );
+    }
+
+    // Pass key, name, validated limits and pool to the keyManager method
+    const newKey = await keyManager.addKey({
+      key,
+      name,
+      dailyRateLimit: validatedRateLimit,
+      rpmLimit: validatedRpmLimit,
+      tpmLimit: validatedTpmLimit,
+      poolId: poolId ? String(poolId) : null,
+    });
 
     // Mask the key for the response
     const maskedKey = {
@@ -0,0 +1,24 @@
+export const dynamic = 'force-dynamic'; // Force dynamic rendering
+
+import { NextResponse } from "next/server";
+import keyManager from "@/lib/services/keyManager";
+import { readSettings } from "@/lib/settings";
+import { logError } from "@/lib/services/logger";
+
+// GET /api/admin/queue - Requests waiting for a key, with the configured queue limits
+export async function GET() {
+  try {
+    const settings = await readSettings();
+    return NextResponse.json({
+      ...keyManager.getQueueStats(),
+      maxDepth: settings.queueMaxDepth,
+      maxWaitSeconds: settings.queueMaxWaitSeconds,
+    });
+  } catch (error: any) {
+    logError(error, { context: "GET /api/admin/queue" });
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch queue stats" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+export const dynamic = 'force-dynamic'; // Force dynamic rendering
+import { NextRequest, NextResponse } from 'next/server';
+import { LogType, MAX_LOG_PAGE_SIZE, getLogs, logError } from '@/lib/services/logger';
+import { RequestLog } from '@/lib/models/RequestLog';
+import { RequestAttempt } from '@/lib/models/RequestAttempt';
+import { RequestPayload } from '@/lib/models/RequestPayload';
+
+const LOG_TYPES: LogType[] = ['requests', 'errors', 'keys'];
+
+// GET /api/logs/{requestId} - Everything recorded for one proxy request: its RequestLog row(s),
+// its upstream attempts, its captured payloads (if any) and the file log entries tagged with the requestId (oldest first)
+export async function GET(_request: NextRequest, { params }: { params: { requestId: string } }) {
+  try {
+    const requestId = params.requestId?.trim();
+    if (!requestId || requestId.length > 100) {
+      return NextResponse.json({ error: 'Invalid request ID.' }, { status: 400 });
+    }
+
+    const [requestLogs, attempts, payloads, ...pages] = await Promise.all([
+      RequestLog.findByRequestId(requestId),
+      RequestAttempt.findByRequestId(requestId),
+      RequestPayload.findByRequestId(requestId),
+      ...LOG_TYPES.map(type => getLogs(type, { requestId, limit: MAX_LOG_PAGE_SIZE })),
+    ]);
+
+    const logEntries = pages
+      .flatMap((page, index) => page.logs.map(entry => ({ ...entry, logType: LOG_TYPES[index] })))
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+    return NextResponse.json({ requestId, requestLogs, attempts, payloads, logEntries });
+  } catch (error: any) {
+    logError(error, { context: 'GET /api/logs/[requestId]' });
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch request trace' },
+      { status: 500 }
+    );
+  }
+}
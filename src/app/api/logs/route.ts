@@ -1,7 +1,10 @@
 export const dynamic = 'force-dynamic'; // Force dynamic rendering
 import { NextRequest, NextResponse } from 'next/server';
-import { getLogs, logError } from '@/lib/services/logger';
+import { LogQuery, MAX_LOG_PAGE_SIZE, decodeLogCursor, getLogs, logError } from '@/lib/services/logger';
 
+// GET /api/logs - Page through the winston log files, newest first
+// Query: type, limit, startDate, endDate (YYYY-MM-DD), search, level, context, keyId, requestId,
+//        cursor (nextCursor of the previous page)
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
@@ -15,16 +18,21 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid or missing log type specified. Use "requests", "errors", or "keys".' }, { status: 400 });
     }
 
-    const options = {
+    const options: LogQuery = {
       limit: limit ? parseInt(limit, 10) : undefined,
       startDate: startDate || undefined,
       endDate: endDate || undefined,
       search: search || undefined,
+      level: searchParams.get('level') || undefined,
+      context: searchParams.get('context') || undefined,
+      keyId: searchParams.get('keyId') || undefined,
+      requestId: searchParams.get('requestId') || undefined,
+      cursor: searchParams.get('cursor') || undefined,
     };
 
     // Validate limit if provided
-    if (options.limit !== undefined && (isNaN(options.limit) || options.limit <= 0)) {
-        return NextResponse.json({ error: 'Invalid limit specified. Must be a positive number.' }, { status: 400 });
+    if (options.limit !== undefined && (isNaN(options.limit) || options.limit <= 0 || options.limit > MAX_LOG_PAGE_SIZE)) {
+        return NextResponse.json({ error: `Invalid limit specified. Must be between 1 and ${MAX_LOG_PAGE_SIZE}.` }, { status: 400 });
     }
 
     // Basic date validation (YYYY-MM-DD format)
@@ -36,6 +44,10 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ error: 'Invalid endDate format. Use YYYY-MM-DD.' }, { status: 400 });
     }
 
+    if (options.cursor && !decodeLogCursor(options.cursor, type)) {
+        return NextResponse.json({ error: 'Invalid cursor. Start again from the first page.' }, { status: 400 });
+    }
+
     const logsData = await getLogs(type, options);
     return NextResponse.json(logsData);
 
@@ -0,0 +1,37 @@
+export const dynamic = 'force-dynamic'; // Force dynamic rendering
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { renderMetrics } from '@/lib/services/metrics';
+import { getBearerToken } from '@/lib/services/proxy';
+import { logError } from '@/lib/services/logger';
+
+// Compares in constant time; hashing first gives both sides the same length
+function isScrapeToken(token: string | null, scrapeToken: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return token !== null && timingSafeEqual(digest(token), digest(scrapeToken));
+}
+
+// GET /api/metrics - Prometheus metrics of this instance (text exposition format).
+// Outside the admin session: scrapers authenticate with METRICS_TOKEN as a Bearer token.
+export async function GET(request: NextRequest) {
+  const scrapeToken = process.env.METRICS_TOKEN;
+  if (!scrapeToken) {
+    return NextResponse.json({ error: 'Metrics are disabled. Set METRICS_TOKEN to enable them.' }, { status: 404 });
+  }
+  if (!isScrapeToken(getBearerToken(request), scrapeToken)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return new NextResponse(await renderMetrics(), {
+      headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' },
+    });
+  } catch (error: any) {
+    logError(error, { context: 'GET /api/metrics' });
+    return NextResponse.json(
+      { error: error.message || 'Failed to collect metrics' },
+      { status: 500 }
+    );
+  }
+}
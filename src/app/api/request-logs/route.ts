@@ -0,0 +1,85 @@
+export const dynamic = 'force-dynamic'; // Force dynamic rendering
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  MAX_REQUEST_LOG_PAGE_SIZE,
+  REQUEST_LOG_SORTS,
+  RequestLog,
+  RequestLogQuery,
+  RequestLogSort,
+  decodeRequestLogCursor,
+} from "@/lib/models/RequestLog";
+import { logError } from "@/lib/services/logger";
+
+// GET /api/request-logs - Page through the request_logs table
+// Query: from, to (ISO 8601), keyId, model, status ('429', '5xx', 'error' or 'success'), errorType, ip,
+//        sort ('timestamp' | 'responseTime'), order ('asc' | 'desc'), limit, cursor (nextCursor of the previous page)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const param = (name: string) => searchParams.get(name)?.trim() || null;
+
+    const query: RequestLogQuery = {
+      apiKeyId: param('keyId'),
+      model: param('model'),
+      errorType: param('errorType'),
+      ipAddress: param('ip'),
+    };
+
+    for (const name of ['from', 'to'] as const) {
+      const value = param(name);
+      if (value === null) continue;
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        return NextResponse.json({ error: `Invalid ${name} date. Use an ISO 8601 timestamp.` }, { status: 400 });
+      }
+      query[name] = date.toISOString();
+    }
+
+    const status = param('status')?.toLowerCase() ?? null;
+    if (status === 'error' || status === 'success') {
+      query.isError = status === 'error';
+    } else if (status && /^[1-5]xx$/.test(status)) {
+      query.statusClass = Number(status[0]);
+    } else if (status && /^[1-5]\d\d$/.test(status)) {
+      query.statusCode = Number(status);
+    } else if (status) {
+      return NextResponse.json({ error: "Invalid status. Use a status code (e.g. 429), a class (e.g. 5xx), 'error' or 'success'." }, { status: 400 });
+    }
+
+    const sort = param('sort') ?? 'timestamp';
+    if (!REQUEST_LOG_SORTS.includes(sort as RequestLogSort)) {
+      return NextResponse.json({ error: `Invalid sort. Use one of: ${REQUEST_LOG_SORTS.join(', ')}.` }, { status: 400 });
+    }
+    query.sort = sort as RequestLogSort;
+
+    const order = param('order') ?? 'desc';
+    if (order !== 'asc' && order !== 'desc') {
+      return NextResponse.json({ error: "Invalid order. Use 'asc' or 'desc'." }, { status: 400 });
+    }
+    query.order = order;
+
+    const limit = param('limit');
+    if (limit !== null) {
+      const numLimit = Number(limit);
+      if (!Number.isInteger(numLimit) || numLimit <= 0 || numLimit > MAX_REQUEST_LOG_PAGE_SIZE) {
+        return NextResponse.json({ error: `Invalid limit. Must be between 1 and ${MAX_REQUEST_LOG_PAGE_SIZE}.` }, { status: 400 });
+      }
+      query.limit = numLimit;
+    }
+
+    query.cursor = param('cursor');
+    if (query.cursor && !decodeRequestLogCursor(query.cursor, query.sort)) {
+      return NextResponse.json({ error: 'Invalid cursor. Start again from the first page.' }, { status: 400 });
+    }
+
+    const page = await RequestLog.query(query);
+    return NextResponse.json(page);
+  } catch (error: any) {
+    logError(error, { context: "GET /api/request-logs" });
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch request logs" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { logError } from '@/lib/services/logger';
 import { Settings, readSettings, writeSettings } from '@/lib/settings';
+import { isKeySelectionStrategyName } from '@/lib/services/keySelection';
+import { parseModelRoutes } from '@/lib/services/modelRouting';
+import { isValidTimeZone } from '@/lib/utils/quotaDay';
+import { compileRedactionPatterns } from '@/lib/utils/sanitize';
 
 // GET /api/settings - Get application settings
 export async function GET() {
@@ -22,6 +26,19 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const currentSettings = await readSettings();
 
+    let payloadRedactionPatterns = currentSettings.payloadRedactionPatterns;
+    if (body.payloadRedactionPatterns !== undefined) {
+      if (!Array.isArray(body.payloadRedactionPatterns) || body.payloadRedactionPatterns.some((p: any) => typeof p !== 'string')) {
+        return NextResponse.json({ error: 'payloadRedactionPatterns must be an array of regular expressions' }, { status: 400 });
+      }
+      payloadRedactionPatterns = body.payloadRedactionPatterns.map((p: string) => p.trim()).filter(Boolean);
+      // A pattern that silently matched nothing would leave the data it was meant to hide in the captures
+      const { invalid } = compileRedactionPatterns(payloadRedactionPatterns);
+      if (invalid !== undefined) {
+        return NextResponse.json({ error: `Invalid redaction pattern: ${invalid}` }, { status: 400 });
+      }
+    }
+
     // Validate and update settings
     // Validate and update settings, including the new maxRetries
     const newSettings: Settings = {
@@ -29,8 +46,23 @@ export async function POST(request: NextRequest) {
       maxFailureCount: validateNumber(body.maxFailureCount, currentSettings.maxFailureCount, 1, 20),
       rateLimitCooldown: validateNumber(body.rateLimitCooldown, currentSettings.rateLimitCooldown, 10, 3600), // seconds
       logRetentionDays: validateNumber(body.logRetentionDays, currentSettings.logRetentionDays, 1, 90), // days
-      keyRotationDelaySeconds: validateNumber(body.keyRotationDelaySeconds, currentSettings.keyRotationDelaySeconds, 0, 300),
-      maxRetries: validateNumber(body.maxRetries, currentSettings.maxRetries, 0, 10) // 0-10 retries
+      queueMaxWaitSeconds: validateNumber(body.queueMaxWaitSeconds, currentSettings.queueMaxWaitSeconds, 0, 300), // seconds
+      queueMaxDepth: validateNumber(body.queueMaxDepth, currentSettings.queueMaxDepth, 0, 10000),
+      maxRetries: validateNumber(body.maxRetries, currentSettings.maxRetries, 0, 10), // 0-10 retries
+      retryBackoffMs: validateNumber(body.retryBackoffMs, currentSettings.retryBackoffMs, 0, 60000), // ms
+      retryBackoffMaxMs: validateNumber(body.retryBackoffMaxMs, currentSettings.retryBackoffMaxMs, 0, 300000), // ms
+      parallelKeyCount: validateNumber(body.parallelKeyCount, currentSettings.parallelKeyCount, 1, 50),
+      keySelectionStrategy: isKeySelectionStrategyName(body.keySelectionStrategy)
+        ? body.keySelectionStrategy
+        : currentSettings.keySelectionStrategy,
+      modelRoutes: parseModelRoutes(body.modelRoutes) ?? currentSettings.modelRoutes,
+      healthCheckEnabled: typeof body.healthCheckEnabled === 'boolean' ? body.healthCheckEnabled : currentSettings.healthCheckEnabled,
+      healthCheckIntervalSeconds: validateNumber(body.healthCheckIntervalSeconds, currentSettings.healthCheckIntervalSeconds, 30, 86400), // seconds
+      quotaResetTimezone: isValidTimeZone(body.quotaResetTimezone) ? body.quotaResetTimezone.trim() : currentSettings.quotaResetTimezone,
+      payloadCaptureEnabled: typeof body.payloadCaptureEnabled === 'boolean' ? body.payloadCaptureEnabled : currentSettings.payloadCaptureEnabled,
+      payloadCaptureSampleRate: validateNumber(body.payloadCaptureSampleRate, currentSettings.payloadCaptureSampleRate, 0, 1),
+      payloadRetentionHours: validateNumber(body.payloadRetentionHours, currentSettings.payloadRetentionHours, 1, 2160), // hours, up to 90 days
+      payloadRedactionPatterns
     };
 
     await writeSettings(newSettings);
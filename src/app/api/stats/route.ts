@@ -1,6 +1,7 @@
 export const dynamic = 'force-dynamic'; // Force dynamic rendering
 import { NextRequest, NextResponse } from 'next/server';
 import { ApiKey } from '@/lib/models/ApiKey';
+import { KeyPool } from '@/lib/models/KeyPool';
 import { RequestLogData } from '@/lib/models/RequestLog'; // Import RequestLogData
 import { getDb } from '@/lib/db'; // Import getDb
 import { logError } from '@/lib/services/logger';
@@ -155,19 +156,37 @@ async function generateStats(timeRange: string) {
     );
     avgResponseTime = avgTimeResult?.avg ? Math.round(avgTimeResult.avg) : 0;
 
+    // 3b. Token Totals (within selected timeRange)
+    const tokensResult = await db.get<{ prompt: number, completion: number, total: number }>(
+      `SELECT
+         SUM(COALESCE(promptTokens, 0)) as prompt,
+         SUM(COALESCE(completionTokens, 0)) as completion,
+         SUM(COALESCE(totalTokens, 0)) as total
+       FROM request_logs
+       WHERE timestamp >= ? AND timestamp <= ?`,
+      requestStartDateISO, requestEndDateISO
+    );
+    const totalPromptTokens = Number(tokensResult?.prompt) || 0;
+    const totalCompletionTokens = Number(tokensResult?.completion) || 0;
+    const totalTokens = Number(tokensResult?.total) || 0;
+
     // 4. Request Data (Grouped by period for chart)
     let groupByFormat = '';
     if (timeRange === '24h') {
-      groupByFormat = `strftime('%Y-%m-%d %H:00:00', timestamp)`; // Group by hour for 24h
+      // Group by hour for 24h ('YYYY-MM-DD HH:00:00'); substr works on both database backends
+      groupByFormat = `substr(timestamp, 1, 10) || ' ' || substr(timestamp, 12, 2) || ':00:00'`;
     } else {
-      groupByFormat = `strftime('%Y-%m-%d', timestamp)`; // Group by day otherwise
+      groupByFormat = `substr(timestamp, 1, 10)`; // Group by day otherwise ('YYYY-MM-DD')
     }
     const requestDataDbResult = await db.all<any[]>(
       `SELECT
          ${groupByFormat} as period,
          COUNT(*) as total_requests,
          SUM(CASE WHEN isError = 1 THEN 1 ELSE 0 END) as errors,
-         SUM(CASE WHEN isError = 1 AND errorType = 'ApiKeyError' THEN 1 ELSE 0 END) as apiKeyErrors
+         SUM(CASE WHEN isError = 1 AND errorType = 'ApiKeyError' THEN 1 ELSE 0 END) as apiKeyErrors,
+         SUM(COALESCE(promptTokens, 0)) as promptTokens,
+         SUM(COALESCE(completionTokens, 0)) as completionTokens,
+         SUM(COALESCE(totalTokens, 0)) as tokens
        FROM request_logs
        WHERE timestamp >= ? AND timestamp <= ?
        GROUP BY period
@@ -177,7 +196,7 @@ async function generateStats(timeRange: string) {
 
     // Map DB results to the expected chart format, filling gaps
     // Use UTC ISO string keys for 24h, local 'YYYY-MM-DD' keys for daily
-    const requestDataMap = new Map<string, { timestamp: string, name: string, requests: number, errors: number, apiKeyErrors: number, date: Date }>();
+    const requestDataMap = new Map<string, { timestamp: string, name: string, requests: number, errors: number, apiKeyErrors: number, promptTokens: number, completionTokens: number, tokens: number, date: Date }>();
 
     // Initialize map with generated periods.
     timePeriods.forEach(date => {
@@ -203,7 +222,7 @@ async function generateStats(timeRange: string) {
         key = `${year}-${month}-${day}`;
         name = formatDate(date, timeRange); // Format name for display
       }
-      requestDataMap.set(key, { timestamp, name, requests: 0, errors: 0, apiKeyErrors: 0, date });
+      requestDataMap.set(key, { timestamp, name, requests: 0, errors: 0, apiKeyErrors: 0, promptTokens: 0, completionTokens: 0, tokens: 0, date });
     });
 
     requestDataDbResult.forEach(row => {
@@ -225,7 +244,7 @@ async function generateStats(timeRange: string) {
           }
         } else {
           // For daily, match using local 'YYYY-MM-DD' keys
-          // The DB `row.period` is already in 'YYYY-MM-DD' format (from strftime)
+          // The DB `row.period` is already in 'YYYY-MM-DD' format (from substr)
           const dateKey = row.period;
           if (requestDataMap.has(dateKey)) {
             keyToUpdate = dateKey;
@@ -250,6 +269,9 @@ async function generateStats(timeRange: string) {
             entry.requests = totalRequests - errors; // Store successful requests
             entry.errors = errors;
             entry.apiKeyErrors = apiKeyErrors;
+            entry.promptTokens = Number(row.promptTokens) || 0;
+            entry.completionTokens = Number(row.completionTokens) || 0;
+            entry.tokens = Number(row.tokens) || 0;
         } else {
              // This case should ideally not happen if keyToUpdate is derived from map keys
              console.warn(`Entry not found for key ${keyToUpdate} derived from period ${row.period}`);
@@ -263,17 +285,17 @@ async function generateStats(timeRange: string) {
     // Prepare final array, sending timestamp for 24h and name for others
     const requestData = Array.from(requestDataMap.values())
       .sort((a, b) => a.date.getTime() - b.date.getTime()) // Sort by original Date object
-      .map(({ timestamp, name, requests, errors, apiKeyErrors }) =>
+      .map(({ timestamp, name, requests, errors, apiKeyErrors, promptTokens, completionTokens, tokens }) =>
         timeRange === '24h'
-          ? { timestamp, requests, errors, apiKeyErrors } // Send timestamp for 24h
-          : { name, requests, errors, apiKeyErrors } // Send name for other ranges
+          ? { timestamp, requests, errors, apiKeyErrors, promptTokens, completionTokens, tokens } // Send timestamp for 24h
+          : { name, requests, errors, apiKeyErrors, promptTokens, completionTokens, tokens } // Send name for other ranges
       );
 
 
     // 5. Hourly Data (Last 24h UTC)
     const hourlyDbResult = await db.all<{ hour: string, requests: number }[]>(
       `SELECT
-         strftime('%Y-%m-%dT%H:00:00.000Z', timestamp) as hour,
+         substr(timestamp, 1, 13) || ':00:00.000Z' as hour,
          COUNT(*) as requests
        FROM request_logs
        WHERE isError = 0 AND timestamp >= ? AND timestamp <= ?
@@ -304,15 +326,55 @@ async function generateStats(timeRange: string) {
 
 
     // 6. Model Usage (within selected timeRange)
-    const modelUsageDbResult = await db.all<{ modelUsed: string, count: number }[]>(
-      `SELECT modelUsed, COUNT(*) as count
+    const modelUsageDbResult = await db.all<{ modelUsed: string, count: number, tokens: number }[]>(
+      `SELECT modelUsed, COUNT(*) as count, SUM(COALESCE(totalTokens, 0)) as tokens
        FROM request_logs
        WHERE modelUsed IS NOT NULL AND timestamp >= ? AND timestamp <= ?
        GROUP BY modelUsed
        ORDER BY count DESC`,
       requestStartDateISO, requestEndDateISO
     );
-    const modelUsageData = modelUsageDbResult.map(row => ({ name: row.modelUsed, value: row.count }));
+    const modelUsageData = modelUsageDbResult.map(row => ({ name: row.modelUsed, value: row.count, tokens: Number(row.tokens) || 0 }));
+
+    // 7. Token Usage per Key (within selected timeRange)
+    const keyTokensDbResult = await db.all<{ apiKeyId: string, requests: number, tokens: number }[]>(
+      `SELECT apiKeyId, COUNT(*) as requests, SUM(COALESCE(totalTokens, 0)) as tokens
+       FROM request_logs
+       WHERE timestamp >= ? AND timestamp <= ?
+       GROUP BY apiKeyId
+       ORDER BY tokens DESC`,
+      requestStartDateISO, requestEndDateISO
+    );
+    const keysById = new Map(keys.map(key => [key._id, key]));
+    const keyTokenUsageData = keyTokensDbResult
+      .filter(row => keysById.has(row.apiKeyId)) // Skip 'N/A' / 'UNKNOWN' and deleted keys
+      .map(row => {
+        const key = keysById.get(row.apiKeyId)!;
+        return {
+          name: key.name || `Key ${key._id.substring(0, 4)}...`,
+          requests: Number(row.requests) || 0,
+          tokens: Number(row.tokens) || 0
+        };
+      });
+
+    // 8. Usage per Key Pool (within selected timeRange)
+    const poolUsageDbResult = await db.all<{ poolId: string | null, requests: number, errors: number, tokens: number }[]>(
+      `SELECT poolId, COUNT(*) as requests,
+         SUM(CASE WHEN isError = 1 THEN 1 ELSE 0 END) as errors,
+         SUM(COALESCE(totalTokens, 0)) as tokens
+       FROM request_logs
+       WHERE apiKeyId != 'N/A' AND timestamp >= ? AND timestamp <= ?
+       GROUP BY poolId
+       ORDER BY requests DESC`,
+      requestStartDateISO, requestEndDateISO
+    );
+    const poolsById = new Map((await KeyPool.findAll()).map(pool => [pool._id, pool]));
+    const poolUsageData = poolUsageDbResult.map(row => ({
+      name: row.poolId ? poolsById.get(row.poolId)?.name || 'Deleted pool' : 'Default',
+      requests: Number(row.requests) || 0,
+      errors: Number(row.errors) || 0,
+      tokens: Number(row.tokens) || 0
+    }));
 
     // --- End Database Queries ---
 
@@ -367,7 +429,12 @@ async function generateStats(timeRange: string) {
       requestData, // Calculated from request_logs data for timeRange
       hourlyData: finalHourlyData, // Calculated from request_logs data for last 24h UTC
       keyUsageData, // From ApiKey table
-      modelUsageData // Calculated from request_logs data for timeRange
+      modelUsageData, // Calculated from request_logs data for timeRange
+      keyTokenUsageData, // Requests and tokens per key from request_logs for timeRange
+      poolUsageData, // Requests, errors and tokens per key pool from request_logs for timeRange
+      totalPromptTokens, // Token totals from request_logs for timeRange
+      totalCompletionTokens,
+      totalTokens
     };
   // } catch (error: any) { // Remove the duplicate catch block start
   //   console.error('Error generating stats:', error);
@@ -388,7 +455,10 @@ function createEmptyStats(startDate: Date, endDate: Date, timeRange: string) {
     name: formatDate(date, timeRange),
     requests: 0,
     errors: 0,
-    apiKeyErrors: 0
+    apiKeyErrors: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    tokens: 0
   }));
 
   // Always generate empty hourly data for the rolling 24h window
@@ -416,7 +486,12 @@ function createEmptyStats(startDate: Date, endDate: Date, timeRange: string) {
     requestData,            // Empty structure based on time range
     hourlyData: emptyHourlyData, // Empty structure for 24h
     keyUsageData: [],       // Empty array
-    modelUsageData: []      // Empty array
+    modelUsageData: [],     // Empty array
+    keyTokenUsageData: [],  // Empty array
+    poolUsageData: [],      // Empty array
+    totalPromptTokens: 0,
+    totalCompletionTokens: 0,
+    totalTokens: 0
   };
 }
 
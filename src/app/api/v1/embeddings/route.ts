@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import axios from 'axios';
+import { requestLogger } from '@/lib/services/logger';
+import {
+  createProxyContext,
+  authenticateClient,
+  getBearerToken,
+  parseJsonBody,
+  writeRequestLog,
+  proxyUpstreamRequest,
+  fromOpenAiUsage,
+  withRequestId,
+} from '@/lib/services/proxy';
+
+export async function POST(req: NextRequest) {
+  const ctx = createProxyContext(req, 'Embeddings');
+
+  const unauthorized = await authenticateClient(ctx, getBearerToken(req));
+  if (unauthorized) return unauthorized;
+
+  const parsed = await parseJsonBody(req, ctx);
+  if ('response' in parsed) return parsed.response;
+  const body = parsed.body;
+
+  // OpenAI embeddings shape: input is a string or an array of strings (batched)
+  const input = body?.input;
+  const isValidInput = typeof input === 'string'
+    || (Array.isArray(input) && input.length > 0 && input.every((item: any) => typeof item === 'string'));
+  if (!body?.model || !isValidInput) {
+    const message = "'model' and 'input' (a string or an array of strings) are required";
+    await writeRequestLog(ctx, {
+      apiKeyId: 'N/A', // No key involved yet
+      statusCode: 400,
+      isError: true,
+      errorType: 'InvalidRequestError',
+      errorMessage: message,
+      modelUsed: typeof body?.model === 'string' ? body.model : null,
+    });
+    return withRequestId(ctx, NextResponse.json(ctx.formatError(400, message, 'invalid_request_error'), { status: 400 }));
+  }
+
+  // Log incoming request (inputs can be large, only log their count)
+  requestLogger.info('Incoming Request', {
+    requestId: ctx.requestId,
+    path: '/api/v1/embeddings',
+    method: 'POST',
+    model: body.model,
+    inputCount: Array.isArray(input) ? input.length : 1
+  });
+
+  return proxyUpstreamRequest({
+    ctx,
+    model: body.model,
+    payload: body,
+    send: (lease, model) => axios.post(
+      'https://generativelanguage.googleapis.com/v1beta/openai/embeddings',
+      { ...body, model },
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${lease.key}`,
+        }
+      }
+    ),
+    getUsage: response => fromOpenAiUsage(response.data?.usage),
+    respond: response => NextResponse.json(response.data),
+  });
+}
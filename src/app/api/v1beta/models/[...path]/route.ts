@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server';
+import axios from 'axios';
+import { requestLogger } from '@/lib/services/logger';
+import {
+  ErrorBodyFormatter,
+  createProxyContext,
+  authenticateClient,
+  getBearerToken,
+  parseJsonBody,
+  proxyUpstreamRequest,
+} from '@/lib/services/proxy';
+import type { TokenUsage } from '@/lib/models/RequestLog';
+
+// Native Gemini REST API, e.g. models/gemini-2.5-pro:generateContent
+const UPSTREAM_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+// Native Gemini error shape; upstream errors are passed through unchanged
+const geminiErrorBody: ErrorBodyFormatter = (statusCode, message, _type, upstreamError) => ({
+  error: upstreamError || {
+    code: statusCode,
+    message,
+    status: statusCode === 401 ? 'UNAUTHENTICATED' : statusCode === 400 ? 'INVALID_ARGUMENT' : statusCode === 429 ? 'RESOURCE_EXHAUSTED' : statusCode === 503 ? 'UNAVAILABLE' : 'INTERNAL'
+  }
+});
+
+// Maps a native usageMetadata block; thinking tokens are billed as output, so they count as completion tokens
+function fromUsageMetadata(usageMetadata: any): TokenUsage | null {
+  if (!usageMetadata || typeof usageMetadata !== 'object') return null;
+  const candidates = usageMetadata.candidatesTokenCount;
+  const thoughts = usageMetadata.thoughtsTokenCount;
+  return {
+    promptTokens: typeof usageMetadata.promptTokenCount === 'number' ? usageMetadata.promptTokenCount : null,
+    completionTokens: typeof candidates === 'number' || typeof thoughts === 'number'
+      ? (candidates || 0) + (thoughts || 0)
+      : null,
+    totalTokens: typeof usageMetadata.totalTokenCount === 'number' ? usageMetadata.totalTokenCount : null,
+  };
+}
+
+// Helper to pull the last value of a usageMetadata field out of a chunk of a native streaming response
+// (works for both the JSON array and the alt=sse format)
+function extractLastCount(text: string, field: string): number | null {
+  const matches = Array.from(text.matchAll(new RegExp(`"${field}"\\s*:\\s*(\\d+)`, 'g')));
+  return matches.length > 0 ? Number(matches[matches.length - 1][1]) : null;
+}
+
+// Helper to join the candidate text parts of a streaming response into the generated text, kept by payload
+// capture. The chunks are complete JSON objects in the alt=sse format, array elements otherwise.
+function assembleStreamText(raw: string, isSse: boolean): string {
+  let chunks: any[] = [];
+  if (isSse) {
+    for (const line of raw.split('\n')) {
+      if (!line.startsWith('data: ')) continue;
+      try {
+        chunks.push(JSON.parse(line.substring('data: '.length)));
+      } catch {
+        // Line cut off by the capture limit, ignore
+      }
+    }
+  } else {
+    try {
+      chunks = JSON.parse(raw);
+    } catch {
+      return raw; // Array cut off by the capture limit or an interruption, keep it as received
+    }
+  }
+  if (!Array.isArray(chunks)) return raw;
+  return chunks
+    .flatMap(chunk => chunk?.candidates?.[0]?.content?.parts ?? [])
+    .map((part: any) => (typeof part?.text === 'string' ? part.text : ''))
+    .join('');
+}
+
+// Native clients authenticate with ?key=, x-goog-api-key or a Bearer token; accept the master key in any of them
+function getIncomingKey(req: NextRequest): string | null {
+  return req.nextUrl.searchParams.get('key')
+    || req.headers.get('x-goog-api-key')
+    || getBearerToken(req);
+}
+
+async function handleRequest(req: NextRequest, params: { path: string[] }) {
+  const ctx = createProxyContext(req, 'Gemini native', geminiErrorBody);
+
+  const unauthorized = await authenticateClient(ctx, getIncomingKey(req));
+  if (unauthorized) return unauthorized;
+
+  // The first segment carries the model and the method, e.g. 'gemini-2.5-pro:streamGenerateContent'
+  const [model, action] = (params.path[0] || '').split(':');
+  // Rebuilds the path for the model chosen by the routing table
+  const buildModelPath = (upstreamModel: string | null) =>
+    [action ? `${upstreamModel}:${action}` : upstreamModel, ...params.path.slice(1)].join('/');
+  const isStreaming = action === 'streamGenerateContent';
+
+  // Forward the client's query parameters (e.g. alt=sse), but never its key
+  const upstreamParams = new URLSearchParams(req.nextUrl.searchParams);
+  upstreamParams.delete('key');
+
+  // Parse the request body (GET requests such as models/{model} have none)
+  let body: any = undefined;
+  if (req.method === 'POST') {
+    const parsed = await parseJsonBody(req, ctx);
+    if ('response' in parsed) return parsed.response;
+    body = parsed.body;
+  }
+
+  requestLogger.info('Incoming Request', {
+    requestId: ctx.requestId,
+    path: ctx.path,
+    method: req.method,
+    model,
+    contentCount: Array.isArray(body?.contents) ? body.contents.length : 0,
+    action,
+    streaming: isStreaming
+  });
+
+  const streamedUsageMetadata: { [field: string]: number } = {}; // Latest value of each usageMetadata count
+  let tail = ''; // Keep the end of the previous chunk in case a usage field is split across chunks
+  const isSse = req.nextUrl.searchParams.get('alt') === 'sse';
+
+  return proxyUpstreamRequest({
+    ctx,
+    model,
+    payload: body,
+    send: (lease, upstreamModel) => {
+      // Replace the client's key with the pool key
+      const attemptParams = new URLSearchParams(upstreamParams);
+      attemptParams.set('key', lease.key);
+
+      return axios.request({
+        method: req.method,
+        url: `${UPSTREAM_BASE_URL}/${buildModelPath(upstreamModel)}?${attemptParams.toString()}`,
+        data: body,
+        headers: { 'Content-Type': 'application/json' },
+        responseType: isStreaming ? 'stream' : 'json',
+      });
+    },
+    // countTokens reports the size of the input, nothing was generated
+    getUsage: response => action !== 'countTokens' ? fromUsageMetadata(response.data?.usageMetadata) : null,
+    respond: response => NextResponse.json(response.data),
+    stream: isStreaming ? {
+      contentType: response => String(response.headers?.['content-type'] || 'application/json'),
+      onText: text => {
+        const combined = tail + text;
+        for (const field of ['promptTokenCount', 'candidatesTokenCount', 'thoughtsTokenCount', 'totalTokenCount']) {
+          const count = extractLastCount(combined, field);
+          if (count !== null) streamedUsageMetadata[field] = count;
+        }
+        tail = combined.slice(-64);
+      },
+      // usageMetadata is cumulative, so only the last values count
+      getUsage: () => fromUsageMetadata(Object.keys(streamedUsageMetadata).length > 0 ? streamedUsageMetadata : null),
+      // Only the alt=sse format can carry an error event; the JSON array format is just cut off
+      formatInterruption: isSse
+        ? message => `\n\ndata: ${JSON.stringify(geminiErrorBody(500, message, 'stream_interrupted'))}\n\n`
+        : undefined,
+      assembleText: raw => assembleStreamText(raw, isSse),
+    } : undefined,
+  });
+}
+
+// POST /api/v1beta/models/{model}:generateContent | :streamGenerateContent | :countTokens
+export async function POST(req: NextRequest, { params }: { params: { path: string[] } }) {
+  return handleRequest(req, params);
+}
+
+// GET /api/v1beta/models/{model} - Model metadata
+export async function GET(req: NextRequest, { params }: { params: { path: string[] } }) {
+  return handleRequest(req, params);
+}
@@ -0,0 +1,503 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import {
+  Box,
+  Heading,
+  Text,
+  Button,
+  useDisclosure,
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalFooter,
+  ModalBody,
+  ModalCloseButton,
+  FormControl,
+  FormLabel,
+  FormHelperText,
+  Input,
+  Select,
+  useToast,
+  Flex,
+  Alert,
+  AlertIcon,
+  AlertTitle,
+  AlertDescription,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  Badge,
+  Skeleton,
+  Switch,
+  HStack,
+  IconButton,
+  Tooltip,
+  Code,
+  AlertDialog,
+  AlertDialogBody,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogContent,
+  AlertDialogOverlay,
+  useClipboard,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { FiPlus, FiEdit2, FiTrash2, FiRefreshCw, FiCopy } from 'react-icons/fi';
+import AppLayout from '@/components/layout/AppLayout';
+
+interface ClientKey {
+  _id: string;
+  name: string;
+  keyPrefix: string;
+  isEnabled: boolean;
+  isExpired: boolean;
+  allowedModels: string[] | null;
+  dailyRequestLimit: number | null;
+  dailyTokenLimit: number | null;
+  dailyRequestsUsed: number;
+  dailyTokensUsed: number;
+  payloadCaptureRate: number | null;
+  poolId: string | null;
+  expiresAt: string | null;
+  lastUsed: string | null;
+  createdAt: string;
+}
+
+// Form state shared by the create and edit modals (inputs are kept as strings)
+interface ClientKeyForm {
+  name: string;
+  allowedModels: string; // Comma-separated
+  dailyRequestLimit: string;
+  dailyTokenLimit: string;
+  payloadCaptureRate: string;
+  poolId: string; // Empty routes by model
+  expiresAt: string; // datetime-local value
+}
+
+interface KeyPool {
+  _id: string;
+  name: string;
+}
+
+const EMPTY_FORM: ClientKeyForm = { name: '', allowedModels: '', dailyRequestLimit: '', dailyTokenLimit: '', payloadCaptureRate: '', poolId: '', expiresAt: '' };
+
+// Converts an ISO date to the local 'YYYY-MM-DDTHH:mm' format of datetime-local inputs
+function toDateTimeLocal(iso: string | null): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+export default function ClientKeysPage() {
+  const [clientKeys, setClientKeys] = useState<ClientKey[]>([]);
+  const [pools, setPools] = useState<KeyPool[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isToggling, setIsToggling] = useState<{ [id: string]: boolean }>({});
+  const [editingKey, setEditingKey] = useState<ClientKey | null>(null); // null while creating a new key
+  const [form, setForm] = useState<ClientKeyForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [createdSecret, setCreatedSecret] = useState(''); // Shown once after creation
+  const [keyToDelete, setKeyToDelete] = useState<ClientKey | null>(null);
+  const { isOpen: isFormOpen, onOpen: onFormOpen, onClose: onFormClose } = useDisclosure();
+  const { isOpen: isSecretOpen, onOpen: onSecretOpen, onClose: onSecretClose } = useDisclosure();
+  const { isOpen: isDeleteOpen, onOpen: onDeleteOpen, onClose: onDeleteClose } = useDisclosure();
+  const cancelRefDelete = useRef<HTMLButtonElement>(null);
+  const { onCopy, hasCopied } = useClipboard(createdSecret);
+  const toast = useToast();
+  const tableBg = useColorModeValue('white', 'gray.800');
+  const borderColor = useColorModeValue('gray.200', 'gray.700');
+
+  const fetchClientKeys = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/client-keys');
+      if (!response.ok) {
+        throw new Error(`Error fetching client keys: ${response.statusText}`);
+      }
+      setClientKeys(await response.json());
+    } catch (err: any) {
+      setError(err.message || 'Failed to fetch client keys');
+      console.error('Error fetching client keys:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchPools = async () => {
+    try {
+      const response = await fetch('/api/admin/key-pools');
+      if (!response.ok) {
+        throw new Error(`Error fetching key pools: ${response.statusText}`);
+      }
+      setPools(await response.json());
+    } catch (err: any) {
+      setError(err.message || 'Failed to fetch key pools');
+      console.error('Error fetching key pools:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchClientKeys();
+    fetchPools();
+  }, []);
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return 'Never';
+    return new Date(dateString).toLocaleString();
+  };
+
+  const getStatusBadge = (clientKey: ClientKey) => {
+    if (!clientKey.isEnabled) return <Badge colorScheme="gray">Disabled</Badge>;
+    if (clientKey.isExpired) return <Badge colorScheme="red">Expired</Badge>;
+    const requestsExhausted = !!clientKey.dailyRequestLimit && clientKey.dailyRequestsUsed >= clientKey.dailyRequestLimit;
+    const tokensExhausted = !!clientKey.dailyTokenLimit && clientKey.dailyTokensUsed >= clientKey.dailyTokenLimit;
+    if (requestsExhausted || tokensExhausted) return <Badge colorScheme="orange">Quota Reached</Badge>;
+    return <Badge colorScheme="green">Active</Badge>;
+  };
+
+  const handleOpenCreate = () => {
+    setEditingKey(null);
+    setForm(EMPTY_FORM);
+    onFormOpen();
+  };
+
+  const handleOpenEdit = (clientKey: ClientKey) => {
+    setEditingKey(clientKey);
+    setForm({
+      name: clientKey.name,
+      allowedModels: (clientKey.allowedModels || []).join(', '),
+      dailyRequestLimit: clientKey.dailyRequestLimit?.toString() ?? '',
+      dailyTokenLimit: clientKey.dailyTokenLimit?.toString() ?? '',
+      payloadCaptureRate: clientKey.payloadCaptureRate?.toString() ?? '',
+      poolId: clientKey.poolId ?? '',
+      expiresAt: toDateTimeLocal(clientKey.expiresAt),
+    });
+    onFormOpen();
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast({ title: 'Invalid Input', description: 'Name cannot be empty.', status: 'error', duration: 4000, isClosable: true });
+      return;
+    }
+    // Empty limit inputs mean no limit
+    const parseLimit = (value: string) => (value.trim() === '' ? null : parseInt(value, 10));
+    const dailyRequestLimit = parseLimit(form.dailyRequestLimit);
+    const dailyTokenLimit = parseLimit(form.dailyTokenLimit);
+    if ([dailyRequestLimit, dailyTokenLimit].some(limit => limit !== null && (isNaN(limit) || limit < 0))) {
+      toast({ title: 'Invalid Input', description: 'Quotas must be non-negative numbers or empty.', status: 'error', duration: 4000, isClosable: true });
+      return;
+    }
+    // Empty means the key follows the global payload capture setting
+    const payloadCaptureRate = form.payloadCaptureRate.trim() === '' ? null : Number(form.payloadCaptureRate);
+    if (payloadCaptureRate !== null && (isNaN(payloadCaptureRate) || payloadCaptureRate < 0 || payloadCaptureRate > 1)) {
+      toast({ title: 'Invalid Input', description: 'Payload capture rate must be between 0 and 1 or empty.', status: 'error', duration: 4000, isClosable: true });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(editingKey ? `/api/admin/client-keys/${editingKey._id}` : '/api/admin/client-keys', {
+        method: editingKey ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name.trim(),
+          allowedModels: form.allowedModels.split(',').map(model => model.trim()).filter(Boolean),
+          dailyRequestLimit,
+          dailyTokenLimit,
+          payloadCaptureRate,
+          poolId: form.poolId || null,
+          expiresAt: form.expiresAt ? new Date(form.expiresAt).toISOString() : null,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save client key');
+      }
+
+      onFormClose();
+      if (!editingKey) {
+        setCreatedSecret(data.secret);
+        onSecretOpen();
+      } else {
+        toast({ title: 'Success', description: 'Client key updated successfully', status: 'success', duration: 3000, isClosable: true });
+      }
+      fetchClientKeys();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message || 'Failed to save client key', status: 'error', duration: 5000, isClosable: true });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (clientKey: ClientKey) => {
+    setIsToggling(prev => ({ ...prev, [clientKey._id]: true }));
+    try {
+      const response = await fetch(`/api/admin/client-keys/${clientKey._id}`, { method: 'PATCH' });
+      if (!response.ok) {
+        throw new Error('Failed to update client key status');
+      }
+      fetchClientKeys();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, status: 'error', duration: 5000, isClosable: true });
+    } finally {
+      setIsToggling(prev => ({ ...prev, [clientKey._id]: false }));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!keyToDelete) return;
+    try {
+      const response = await fetch(`/api/admin/client-keys/${keyToDelete._id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error('Failed to delete client key');
+      }
+      toast({ title: 'Success', description: 'Client key deleted successfully', status: 'success', duration: 3000, isClosable: true });
+      fetchClientKeys();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, status: 'error', duration: 5000, isClosable: true });
+    } finally {
+      setKeyToDelete(null);
+      onDeleteClose();
+    }
+  };
+
+  return (
+    <AppLayout>
+      <Flex justify="space-between" align="center" mb={6}>
+        <Box>
+          <Heading size="lg">Client Keys</Heading>
+          <Text color="gray.500">Issue keys to the consumers of this load balancer, with their own quotas</Text>
+        </Box>
+        <HStack spacing={2}>
+          <Button leftIcon={<FiRefreshCw />} onClick={fetchClientKeys} isLoading={isLoading}>
+            Refresh
+          </Button>
+          <Button leftIcon={<FiPlus />} colorScheme="blue" onClick={handleOpenCreate}>
+            Add Client Key
+          </Button>
+        </HStack>
+      </Flex>
+
+      {error && (
+        <Alert status="error" mb={6} borderRadius="md">
+          <AlertIcon />
+          <AlertTitle>Error!</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Box overflowX="auto">
+        <Table variant="simple" size="sm" bg={tableBg} borderWidth="1px" borderColor={borderColor} borderRadius="md">
+          <Thead>
+            <Tr>
+              <Th>Name</Th>
+              <Th>Key</Th>
+              <Th>Status</Th>
+              <Th>Allowed Models</Th>
+              <Th>Key Pool</Th>
+              <Th>Requests Today / Quota</Th>
+              <Th>Tokens Today / Quota</Th>
+              <Th>Expires</Th>
+              <Th>Last Used</Th>
+              <Th>Enabled</Th>
+              <Th>Actions</Th>
+            </Tr>
+          </Thead>
+          <Tbody>
+            {isLoading ? (
+              Array.from({ length: 3 }).map((_, index) => (
+                <Tr key={`skeleton-${index}`}>
+                  {Array.from({ length: 11 }).map((__, cell) => (
+                    <Td key={cell}><Skeleton height="20px" /></Td>
+                  ))}
+                </Tr>
+              ))
+            ) : clientKeys.length === 0 ? (
+              <Tr>
+                <Td colSpan={11} textAlign="center" py={4}>
+                  No client keys yet. Until one is added, requests authenticate with MASTER_API_KEY (or are open if it is not set).
+                </Td>
+              </Tr>
+            ) : (
+              clientKeys.map((clientKey) => (
+                <Tr key={clientKey._id}>
+                  <Td>{clientKey.name}</Td>
+                  <Td fontFamily="mono">{clientKey.keyPrefix}...</Td>
+                  <Td>{getStatusBadge(clientKey)}</Td>
+                  <Td>{clientKey.allowedModels?.join(', ') || <Text as="i" color="gray.500">All</Text>}</Td>
+                  <Td>{pools.find(pool => pool._id === clientKey.poolId)?.name || <Text as="i" color="gray.500">By model</Text>}</Td>
+                  <Td>{clientKey.dailyRequestsUsed} / {clientKey.dailyRequestLimit ?? '∞'}</Td>
+                  <Td>{clientKey.dailyTokensUsed.toLocaleString()} / {clientKey.dailyTokenLimit?.toLocaleString() ?? '∞'}</Td>
+                  <Td>{clientKey.expiresAt ? formatDate(clientKey.expiresAt) : 'Never'}</Td>
+                  <Td>{formatDate(clientKey.lastUsed)}</Td>
+                  <Td>
+                    <Switch isChecked={clientKey.isEnabled} isDisabled={isToggling[clientKey._id]} onChange={() => handleToggle(clientKey)} size="sm" />
+                  </Td>
+                  <Td>
+                    <HStack spacing={2}>
+                      <Tooltip label="Edit Client Key">
+                        <IconButton aria-label="Edit client key" icon={<FiEdit2 />} size="sm" variant="ghost" colorScheme="blue" onClick={() => handleOpenEdit(clientKey)} />
+                      </Tooltip>
+                      <Tooltip label="Delete Client Key">
+                        <IconButton aria-label="Delete client key" icon={<FiTrash2 />} size="sm" variant="ghost" colorScheme="red" onClick={() => { setKeyToDelete(clientKey); onDeleteOpen(); }} />
+                      </Tooltip>
+                    </HStack>
+                  </Td>
+                </Tr>
+              ))
+            )}
+          </Tbody>
+        </Table>
+      </Box>
+
+      {/* Create / Edit Modal */}
+      <Modal isOpen={isFormOpen} onClose={onFormClose}>
+        <ModalOverlay />
+        <ModalContent>
+          <ModalHeader>{editingKey ? 'Edit Client Key' : 'Add Client Key'}</ModalHeader>
+          <ModalCloseButton />
+          <ModalBody>
+            <FormControl isRequired mb={4}>
+              <FormLabel>Name</FormLabel>
+              <Input
+                placeholder="e.g., Search Team"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </FormControl>
+            <FormControl mb={4}>
+              <FormLabel>Allowed Models (Optional)</FormLabel>
+              <Input
+                placeholder="e.g., gemini-2.5-flash, gemini-2.5-pro"
+                value={form.allowedModels}
+                onChange={(e) => setForm({ ...form, allowedModels: e.target.value })}
+              />
+              <FormHelperText>Comma-separated. Leave empty to allow all models.</FormHelperText>
+            </FormControl>
+            <FormControl mb={4}>
+              <FormLabel>Key Pool (Optional)</FormLabel>
+              <Select value={form.poolId} onChange={(e) => setForm({ ...form, poolId: e.target.value })}>
+                <option value="">Route by model</option>
+                {pools.map(pool => (
+                  <option key={pool._id} value={pool._id}>{pool.name}</option>
+                ))}
+              </Select>
+              <FormHelperText>All requests of this client are served from the pool. X-Key-Pool may only name this pool.</FormHelperText>
+            </FormControl>
+            <FormControl mb={4}>
+              <FormLabel>Daily Request Quota (Optional)</FormLabel>
+              <Input
+                type="number"
+                placeholder="Leave empty for no limit"
+                value={form.dailyRequestLimit}
+                onChange={(e) => setForm({ ...form, dailyRequestLimit: e.target.value })}
+                min="0"
+              />
+            </FormControl>
+            <FormControl mb={4}>
+              <FormLabel>Daily Token Quota (Optional)</FormLabel>
+              <Input
+                type="number"
+                placeholder="Leave empty for no limit"
+                value={form.dailyTokenLimit}
+                onChange={(e) => setForm({ ...form, dailyTokenLimit: e.target.value })}
+                min="0"
+              />
+            </FormControl>
+            <FormControl mb={4}>
+              <FormLabel>Payload Capture Rate (Optional)</FormLabel>
+              <Input
+                type="number"
+                placeholder="Leave empty to use the global setting"
+                value={form.payloadCaptureRate}
+                onChange={(e) => setForm({ ...form, payloadCaptureRate: e.target.value })}
+                min="0"
+                max="1"
+                step="0.1"
+              />
+              <FormHelperText>Share of this key&apos;s requests whose payloads are stored (0 to never capture, 1 for all).</FormHelperText>
+            </FormControl>
+            <FormControl>
+              <FormLabel>Expires At (Optional)</FormLabel>
+              <Input
+                type="datetime-local"
+                value={form.expiresAt}
+                onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+              />
+            </FormControl>
+          </ModalBody>
+
+          <ModalFooter>
+            <Button variant="ghost" mr={3} onClick={onFormClose}>
+              Cancel
+            </Button>
+            <Button colorScheme="blue" onClick={handleSave} isLoading={isSaving}>
+              {editingKey ? 'Save Changes' : 'Create Key'}
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+
+      {/* Secret Modal: the secret cannot be retrieved again */}
+      <Modal isOpen={isSecretOpen} onClose={() => { setCreatedSecret(''); onSecretClose(); }}>
+        <ModalOverlay />
+        <ModalContent>
+          <ModalHeader>Client Key Created</ModalHeader>
+          <ModalBody>
+            <Alert status="warning" mb={4} borderRadius="md">
+              <AlertIcon />
+              Copy this key now. It is stored hashed and will not be shown again.
+            </Alert>
+            <Flex align="center" gap={2}>
+              <Code p={2} flex="1" wordBreak="break-all">{createdSecret}</Code>
+              <IconButton aria-label="Copy client key" icon={<FiCopy />} onClick={onCopy} />
+            </Flex>
+            {hasCopied && <Text fontSize="sm" color="green.500" mt={2}>Copied to clipboard</Text>}
+          </ModalBody>
+          <ModalFooter>
+            <Button colorScheme="blue" onClick={() => { setCreatedSecret(''); onSecretClose(); }}>
+              Done
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog
+        isOpen={isDeleteOpen}
+        leastDestructiveRef={cancelRefDelete}
+        onClose={onDeleteClose}
+      >
+        <AlertDialogOverlay>
+          <AlertDialogContent>
+            <AlertDialogHeader fontSize="lg" fontWeight="bold">
+              Delete Client Key
+            </AlertDialogHeader>
+
+            <AlertDialogBody>
+              Are you sure you want to delete &quot;{keyToDelete?.name}&quot;? Requests using this key will be rejected. Its request logs are kept.
+            </AlertDialogBody>
+
+            <AlertDialogFooter>
+              <Button ref={cancelRefDelete} onClick={onDeleteClose}>
+                Cancel
+              </Button>
+              <Button colorScheme="red" onClick={handleDelete} ml={3}>
+                Delete
+              </Button>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialogOverlay>
+      </AlertDialog>
+    </AppLayout>
+  );
+}
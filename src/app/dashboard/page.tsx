@@ -24,7 +24,7 @@ import {
   AlertDescription,
   useToast
 } from '@chakra-ui/react';
-import { FiKey, FiActivity, FiCpu, FiAlertCircle, FiRefreshCw } from 'react-icons/fi';
+import { FiKey, FiActivity, FiCpu, FiAlertCircle, FiRefreshCw, FiList, FiClock } from 'react-icons/fi';
 import AppLayout from '@/components/layout/AppLayout';
 import KeyStats from '@/components/keys/KeyStats';
 
@@ -39,6 +39,16 @@ export default function Dashboard() {
     totalRequests24h: 0, // Last 24h from logs
     errorRate: 0
   });
+  // Live admission queue of requests waiting for a key
+  const [queue, setQueue] = useState({
+    depth: 0,
+    maxDepth: 0,
+    oldestWaitMs: 0,
+    averageWaitMs: 0,
+    maxWaitSeconds: 0,
+    rejected: 0,
+    timedOut: 0
+  });
 
   const bgColor = useColorModeValue('white', 'gray.800');
   const borderColor = useColorModeValue('gray.200', 'gray.700');
@@ -61,6 +71,12 @@ export default function Dashboard() {
         throw new Error(`Error fetching stats: ${statsResponse.statusText}`);
       }
       const statsData = await statsResponse.json();
+
+      const queueResponse = await fetch('/api/admin/queue');
+      if (!queueResponse.ok) {
+        throw new Error(`Error fetching queue: ${queueResponse.statusText}`);
+      }
+      setQueue(await queueResponse.json());
       
       // Calculate stats
       const totalKeys = keysData.length;
@@ -127,7 +143,7 @@ export default function Dashboard() {
         </Alert>
       )}
 
-      <SimpleGrid columns={{ base: 1, md: 2, lg: 3, xl: 6 }} spacing={6} mb={8}> {/* Adjusted grid columns */}
+      <SimpleGrid columns={{ base: 1, md: 2, lg: 4 }} spacing={6} mb={8}>
         <Card bg={bgColor} borderWidth="1px" borderColor={borderColor} borderRadius="lg" shadow="sm">
           <CardBody>
             <Flex align="center" mb={2}>
@@ -206,6 +222,36 @@ export default function Dashboard() {
     </Flex>
   </CardBody>
 </Card>
+
+        <Card bg={bgColor} borderWidth="1px" borderColor={borderColor} borderRadius="lg" shadow="sm">
+          <CardBody>
+            <Flex align="center" mb={2}>
+              <Icon as={FiList} boxSize={6} color="yellow.500" mr={2} />
+              <Stat>
+                <StatLabel>Queued Requests</StatLabel>
+                <StatNumber>{isLoading ? '-' : queue.depth}</StatNumber>
+                <StatHelpText>
+                  {queue.maxDepth > 0 ? `Max ${queue.maxDepth} · ${queue.rejected} rejected` : 'Queuing disabled'}
+                </StatHelpText>
+              </Stat>
+            </Flex>
+          </CardBody>
+        </Card>
+
+        <Card bg={bgColor} borderWidth="1px" borderColor={borderColor} borderRadius="lg" shadow="sm">
+          <CardBody>
+            <Flex align="center" mb={2}>
+              <Icon as={FiClock} boxSize={6} color="pink.500" mr={2} />
+              <Stat>
+                <StatLabel>Average Queue Wait</StatLabel>
+                <StatNumber>{isLoading ? '-' : `${(queue.averageWaitMs / 1000).toFixed(1)}s`}</StatNumber>
+                <StatHelpText>
+                  Oldest {(queue.oldestWaitMs / 1000).toFixed(1)}s · {queue.timedOut} timed out (max {queue.maxWaitSeconds}s)
+                </StatHelpText>
+              </Stat>
+            </Flex>
+          </CardBody>
+        </Card>
 </SimpleGrid>
 
       <Card bg={bgColor} borderWidth="1px" borderColor={borderColor} borderRadius="lg" shadow="sm" mb={8}>
@@ -24,10 +24,12 @@ import {
   AlertIcon,
   AlertTitle,
   AlertDescription,
+  Select,
 } from '@chakra-ui/react';
 import { FiPlus } from 'react-icons/fi';
 import AppLayout from '@/components/layout/AppLayout';
 import KeyStats from '@/components/keys/KeyStats';
+import KeyPools, { KeyPool } from '@/components/keys/KeyPools';
 
 interface ApiKey {
   _id: string;
@@ -43,6 +45,15 @@ interface ApiKey {
   dailyRequestsUsed: number;
   lastResetDate: string | null;
   isDisabledByRateLimit: boolean;
+  poolId?: string | null; // null means the default pool
+  // Per-model daily usage and cooldowns
+  modelUsage?: {
+    model: string;
+    dailyRateLimit?: number | null;
+    dailyRequestsUsed: number;
+    rateLimitResetAt: string | null;
+    isDisabledByRateLimit: boolean;
+  }[];
 }
 
 export default function KeysPage() {
@@ -52,11 +63,14 @@ export default function KeysPage() {
   const [newKey, setNewKey] = useState('');
   const [newKeyName, setNewKeyName] = useState('');
   const [newKeyDailyRateLimit, setNewKeyDailyRateLimit] = useState(''); // State for daily rate limit
+  const [newKeyPoolId, setNewKeyPoolId] = useState(''); // Empty means the default pool
+  const [pools, setPools] = useState<KeyPool[]>([]);
   const { isOpen, onOpen, onClose } = useDisclosure();
   const toast = useToast();
 
-  const fetchKeys = async () => {
-    setIsLoading(true);
+  // showSpinner remounts KeyStats (which refetches); pool assignments only need the counts refreshed
+  const fetchKeys = async (showSpinner = true) => {
+    if (showSpinner) setIsLoading(true);
     setError(null);
     try {
       const response = await fetch('/api/admin/keys');
@@ -73,10 +87,30 @@ export default function KeysPage() {
     }
   };
 
+  const fetchPools = async () => {
+    try {
+      const response = await fetch('/api/admin/key-pools');
+      if (!response.ok) {
+        throw new Error(`Error fetching key pools: ${response.statusText}`);
+      }
+      setPools(await response.json());
+    } catch (err: any) {
+      setError(err.message || 'Failed to fetch key pools');
+      console.error('Error fetching key pools:', err);
+    }
+  };
+
   useEffect(() => {
     fetchKeys();
+    fetchPools();
   }, []);
 
+  // Number of keys assigned to each pool
+  const poolKeyCounts = keys.reduce((counts, key) => {
+    if (key.poolId) counts[key.poolId] = (counts[key.poolId] || 0) + 1;
+    return counts;
+  }, {} as { [poolId: string]: number });
+
   const handleAddKey = async () => {
     if (!newKey.trim()) {
       toast({
@@ -98,7 +132,8 @@ export default function KeysPage() {
         body: JSON.stringify({
           key: newKey,
           name: newKeyName,
-          dailyRateLimit: newKeyDailyRateLimit.trim() === '' ? null : newKeyDailyRateLimit // Send null if empty, otherwise the value
+          dailyRateLimit: newKeyDailyRateLimit.trim() === '' ? null : newKeyDailyRateLimit, // Send null if empty, otherwise the value
+          poolId: newKeyPoolId || null,
         }),
       });
 
@@ -118,6 +153,7 @@ export default function KeysPage() {
       setNewKey('');
       setNewKeyName('');
       setNewKeyDailyRateLimit(''); // Reset daily rate limit state
+      setNewKeyPoolId('');
       onClose();
       fetchKeys();
     } catch (err: any) {
@@ -156,7 +192,14 @@ export default function KeysPage() {
           <Spinner size="xl" color="blue.500" />
         </Flex>
       ) : (
-        <KeyStats />
+        <>
+          <KeyPools
+            pools={pools}
+            keyCounts={poolKeyCounts}
+            onChange={() => { fetchPools(); fetchKeys(); }}
+          />
+          <KeyStats pools={pools} onKeysChange={() => fetchKeys(false)} />
+        </>
       )}
 
       {/* Add Key Modal */}
@@ -192,6 +235,15 @@ export default function KeysPage() {
                 min="0" // Prevent negative numbers
               />
             </FormControl>
+            <FormControl mt={4}>
+              <FormLabel>Key Pool</FormLabel>
+              <Select value={newKeyPoolId} onChange={(e) => setNewKeyPoolId(e.target.value)}>
+                <option value="">Default pool</option>
+                {pools.map(pool => (
+                  <option key={pool._id} value={pool._id}>{pool.name}</option>
+                ))}
+              </Select>
+            </FormControl>
           </ModalBody>
 
           <ModalFooter>
@@ -0,0 +1,287 @@
+"use client";
+
+import React, { useState, useEffect, useMemo } from "react";
+import Link from "next/link";
+import {
+  Box,
+  Heading,
+  Text,
+  Badge,
+  HStack,
+  VStack,
+  Button,
+  Spinner,
+  Alert,
+  AlertIcon,
+  Code,
+  Card,
+  CardBody,
+  SimpleGrid,
+  Stat,
+  StatLabel,
+  StatNumber,
+  StatHelpText,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  useColorModeValue,
+} from "@chakra-ui/react";
+import AppLayout from "@/components/layout/AppLayout";
+import LogEntryItem from "@/components/logs/LogEntryItem";
+
+// Response of /api/logs/{requestId}
+interface RequestTrace {
+  requestId: string;
+  requestLogs: any[];
+  attempts: any[];
+  payloads: any[];
+  logEntries: any[];
+}
+
+// One row of the timeline: an upstream attempt, a file log entry or the final RequestLog row
+type TimelineEvent =
+  | { kind: "attempt"; time: number; data: any }
+  | { kind: "log"; time: number; data: any }
+  | { kind: "result"; time: number; data: any };
+
+const statusColor = (statusCode?: number | null) => {
+  if (!statusCode) return "gray";
+  if (statusCode >= 500) return "red";
+  if (statusCode === 429) return "orange";
+  if (statusCode >= 400) return "yellow";
+  return "green";
+};
+
+// Pretty-prints a captured body; the assembled text of a stream (or a truncated body) is not JSON
+const formatBody = (body?: string | null) => {
+  if (body === null || body === undefined) return "(empty)";
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+};
+
+const RequestTracePage = ({ params }: { params: { requestId: string } }) => {
+  const requestId = decodeURIComponent(params.requestId);
+  const [trace, setTrace] = useState<RequestTrace | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const cardBg = useColorModeValue("white", "gray.800");
+  const borderColor = useColorModeValue("gray.200", "gray.700");
+
+  useEffect(() => {
+    const fetchTrace = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/logs/${encodeURIComponent(requestId)}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || `HTTP error! status: ${response.status}`);
+        }
+        setTrace(data);
+      } catch (err: any) {
+        setError(err.message || "Failed to fetch the request trace.");
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchTrace();
+  }, [requestId]);
+
+  const timeline = useMemo<TimelineEvent[]>(() => {
+    if (!trace) return [];
+    const events: TimelineEvent[] = [
+      ...trace.attempts.map((data) => ({ kind: "attempt" as const, time: new Date(data.timestamp).getTime(), data })),
+      ...trace.logEntries.map((data) => ({ kind: "log" as const, time: new Date(data.timestamp).getTime(), data })),
+      ...trace.requestLogs.map((data) => ({ kind: "result" as const, time: new Date(data.timestamp).getTime(), data })),
+    ];
+    return events.sort((a, b) => a.time - b.time);
+  }, [trace]);
+
+  const result = trace?.requestLogs[trace.requestLogs.length - 1];
+  const startTime = timeline.length > 0 ? timeline[0].time : 0;
+  const isEmpty = trace && timeline.length === 0;
+
+  return (
+    <AppLayout>
+      <VStack align="stretch" spacing={6}>
+        <HStack justify="space-between">
+          <Box>
+            <Heading size="lg">Request Trace</Heading>
+            <Code mt={1}>{requestId}</Code>
+          </Box>
+          <Link href="/logs">
+            <Button variant="outline">Back to Logs</Button>
+          </Link>
+        </HStack>
+
+        {loading && <Spinner />}
+        {error && (
+          <Alert status="error">
+            <AlertIcon />
+            {error}
+          </Alert>
+        )}
+        {isEmpty && (
+          <Alert status="info">
+            <AlertIcon />
+            Nothing was recorded for this request ID. Its logs may have been cleaned up already.
+          </Alert>
+        )}
+
+        {result && (
+          <Card bg={cardBg} borderWidth="1px" borderColor={borderColor} borderRadius="lg" shadow="sm">
+            <CardBody>
+              <SimpleGrid columns={{ base: 2, md: 4 }} spacing={4}>
+                <Stat>
+                  <StatLabel>Status</StatLabel>
+                  <StatNumber>
+                    <Badge colorScheme={statusColor(result.statusCode)} fontSize="lg">{result.statusCode}</Badge>
+                  </StatNumber>
+                  <StatHelpText>{result.errorType || "Success"}</StatHelpText>
+                </Stat>
+                <Stat>
+                  <StatLabel>Model</StatLabel>
+                  <StatNumber fontSize="md">{result.modelUsed || result.requestedModel || "-"}</StatNumber>
+                  <StatHelpText>{result.routing ? `${result.routing} from ${result.requestedModel}` : " "}</StatHelpText>
+                </Stat>
+                <Stat>
+                  <StatLabel>Response Time</StatLabel>
+                  <StatNumber>{result.responseTime ?? "-"} ms</StatNumber>
+                  <StatHelpText>{trace!.attempts.length} attempt(s)</StatHelpText>
+                </Stat>
+                <Stat>
+                  <StatLabel>Tokens</StatLabel>
+                  <StatNumber>{result.totalTokens ?? "-"}</StatNumber>
+                  <StatHelpText>{new Date(result.timestamp).toLocaleString()}</StatHelpText>
+                </Stat>
+              </SimpleGrid>
+            </CardBody>
+          </Card>
+        )}
+
+        {trace && trace.attempts.length > 0 && (
+          <Box>
+            <Heading size="md" mb={3}>Attempts</Heading>
+            <Table size="sm">
+              <Thead>
+                <Tr>
+                  <Th isNumeric>#</Th>
+                  <Th>Sent</Th>
+                  <Th>Key</Th>
+                  <Th>Model</Th>
+                  <Th>Upstream Status</Th>
+                  <Th isNumeric>Latency (ms)</Th>
+                  <Th>Error</Th>
+                </Tr>
+              </Thead>
+              <Tbody>
+                {trace.attempts.map((attempt) => (
+                  <Tr key={attempt._id}>
+                    <Td isNumeric>{attempt.attempt}</Td>
+                    <Td whiteSpace="nowrap">{new Date(attempt.timestamp).toLocaleTimeString()}</Td>
+                    <Td><Code fontSize="xs">{attempt.apiKeyId.substring(0, 8)}...</Code></Td>
+                    <Td>{attempt.model || "-"}</Td>
+                    <Td>
+                      <Badge colorScheme={statusColor(attempt.statusCode)}>{attempt.statusCode ?? "No response"}</Badge>
+                    </Td>
+                    <Td isNumeric>{attempt.latency ?? "-"}</Td>
+                    <Td maxW="320px">
+                      {attempt.errorClass && <Badge mr={2}>{attempt.errorClass}</Badge>}
+                      {attempt.errorMessage && <Text as="span" fontSize="sm">{attempt.errorMessage}</Text>}
+                    </Td>
+                  </Tr>
+                ))}
+              </Tbody>
+            </Table>
+          </Box>
+        )}
+
+        {trace && trace.payloads.length > 0 && (
+          <Box>
+            <Heading size="md" mb={3}>Payloads</Heading>
+            <VStack align="stretch" spacing={4}>
+              {trace.payloads.map((payload) => (
+                <Card key={payload._id} bg={cardBg} borderWidth="1px" borderColor={borderColor} borderRadius="lg" shadow="sm">
+                  <CardBody>
+                    <HStack spacing={3} mb={3} wrap="wrap">
+                      <Badge colorScheme={statusColor(payload.statusCode)}>{payload.statusCode}</Badge>
+                      <Text fontSize="sm">{payload.model || "-"}</Text>
+                      {payload.isStreamed && <Badge colorScheme="blue">Streamed</Badge>}
+                      {payload.isTruncated && <Badge colorScheme="orange">Truncated</Badge>}
+                      <Text fontSize="sm" color="gray.500">
+                        Expires {new Date(payload.expiresAt).toLocaleString()}
+                      </Text>
+                    </HStack>
+                    <SimpleGrid columns={{ base: 1, lg: 2 }} spacing={4}>
+                      <Box minW={0}>
+                        <Text fontWeight="bold" fontSize="sm" mb={1}>Request</Text>
+                        <Code display="block" whiteSpace="pre-wrap" wordBreak="break-word" p={3} maxH="400px" overflowY="auto" fontSize="xs">
+                          {formatBody(payload.requestBody)}
+                        </Code>
+                      </Box>
+                      <Box minW={0}>
+                        <Text fontWeight="bold" fontSize="sm" mb={1}>{payload.isStreamed ? "Response (assembled stream)" : "Response"}</Text>
+                        <Code display="block" whiteSpace="pre-wrap" wordBreak="break-word" p={3} maxH="400px" overflowY="auto" fontSize="xs">
+                          {formatBody(payload.responseBody)}
+                        </Code>
+                      </Box>
+                    </SimpleGrid>
+                  </CardBody>
+                </Card>
+              ))}
+            </VStack>
+          </Box>
+        )}
+
+        {timeline.length > 0 && (
+          <Box>
+            <Heading size="md" mb={3}>Timeline</Heading>
+            <VStack align="stretch" spacing={0}>
+              {timeline.map((event, index) => (
+                <HStack key={index} align="start" spacing={4}>
+                  <Text fontSize="sm" color="gray.500" minW="80px" textAlign="right" pt={3}>
+                    +{event.time - startTime} ms
+                  </Text>
+                  <Box flex={1}>
+                    {event.kind === "log" ? (
+                      <LogEntryItem log={event.data} />
+                    ) : (
+                      <Box borderWidth="1px" borderColor={borderColor} borderRadius="md" p={3} mb={3} bg={cardBg}>
+                        {event.kind === "attempt" ? (
+                          <HStack spacing={3} wrap="wrap">
+                            <Badge colorScheme="purple">Attempt {event.data.attempt}</Badge>
+                            <Badge colorScheme={statusColor(event.data.statusCode)}>{event.data.statusCode ?? "No response"}</Badge>
+                            <Text fontSize="sm">
+                              {event.data.model || "-"} with key {event.data.apiKeyId.substring(0, 8)}... in {event.data.latency ?? "-"} ms
+                            </Text>
+                            {event.data.errorClass && <Text fontSize="sm" color="gray.500">({event.data.errorClass})</Text>}
+                          </HStack>
+                        ) : (
+                          <HStack spacing={3} wrap="wrap">
+                            <Badge colorScheme="teal">Response</Badge>
+                            <Badge colorScheme={statusColor(event.data.statusCode)}>{event.data.statusCode}</Badge>
+                            <Text fontSize="sm">
+                              {event.data.errorType ? `${event.data.errorType}: ${event.data.errorMessage || ""}` : "Completed"}
+                            </Text>
+                          </HStack>
+                        )}
+                      </Box>
+                    )}
+                  </Box>
+                </HStack>
+              ))}
+            </VStack>
+          </Box>
+        )}
+      </VStack>
+    </AppLayout>
+  );
+};
+
+export default RequestTracePage;
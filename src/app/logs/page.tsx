@@ -33,6 +33,7 @@ import {
 } from "@chakra-ui/react";
 import AppLayout from "@/components/layout/AppLayout";
 import LogEntryItem from "@/components/logs/LogEntryItem"; // Import the new component
+import RequestLogsPanel from "@/components/logs/RequestLogsPanel";
 
 type LogType = "requests" | "errors" | "keys";
 
@@ -45,11 +46,18 @@ const LogsPage = () => {
   const [limit, setLimit] = useState<number>(100);
   const [search, setSearch] = useState<string>("");
   const [searchTerm, setSearchTerm] = useState<string>(""); // Debounced search term
+  const [level, setLevel] = useState<string>("");
+  const [requestId, setRequestId] = useState<string>("");
+  const [requestIdTerm, setRequestIdTerm] = useState<string>(""); // Debounced request ID
+  const [total, setTotal] = useState<number>(0); // Entries matching the filters across all pages
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState<boolean>(false);
   const toast = useToast();
   const [appErrorStats, setAppErrorStats] = useState<{ totalErrors: number, apiKeyErrors: number } | null>(null);
   const [statsLoading, setStatsLoading] = useState<boolean>(true);
   const [statsError, setStatsError] = useState<string | null>(null);
   const [isClient, setIsClient] = useState<boolean>(false); // State to track client-side mount
+  const [isDbTab, setIsDbTab] = useState<boolean>(false); // 'Requests (DB)' tab has its own filters
 
   // Define colors for light/dark mode
   const logBoxBg = useColorModeValue("gray.50", "gray.700");
@@ -58,10 +66,44 @@ const LogsPage = () => {
   const cardBg = useColorModeValue("white", "gray.800"); // For the new card
   const borderColor = useColorModeValue("gray.200", "gray.700"); // For the new card
 
+  const buildLogParams = useCallback((cursor?: string) => {
+    const params = new URLSearchParams({
+      type: logType,
+      limit: limit.toString(),
+    });
+    if (searchTerm) {
+      params.append("search", searchTerm);
+    }
+    if (level) {
+      params.append("level", level);
+    }
+    if (requestIdTerm) {
+      params.append("requestId", requestIdTerm);
+    }
+    if (cursor) {
+      params.append("cursor", cursor);
+    }
+    // Add startDate and endDate params here if date pickers were implemented
+    return params;
+  }, [logType, limit, searchTerm, level, requestIdTerm]);
+
+  const requestLogPage = async (params: URLSearchParams) => {
+    const response = await fetch(`/api/logs?${params.toString()}`);
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(
+        errorData.error || `HTTP error! status: ${response.status}`
+      );
+    }
+    return response.json();
+  };
+
   const fetchLogs = useCallback(async () => {
     // Prevent automatic fetching for 'requests' tab unless triggered by button
     if (logType === 'requests' && !requestLogsTriggered) {
       setLogs([]); // Clear logs for requests tab if not triggered
+      setTotal(0);
+      setNextCursor(null);
       setLoading(false); // Ensure loading spinner stops
       return;
     }
@@ -69,28 +111,16 @@ const LogsPage = () => {
     setLoading(true);
     setError(null);
     try {
-      const params = new URLSearchParams({
-        type: logType,
-        limit: limit.toString(),
-      });
-      if (searchTerm) {
-        params.append("search", searchTerm);
-      }
-      // Add startDate and endDate params here if date pickers were implemented
-
-      const response = await fetch(`/api/logs?${params.toString()}`);
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(
-          errorData.error || `HTTP error! status: ${response.status}`
-        );
-      }
-      const data = await response.json();
+      const data = await requestLogPage(buildLogParams());
       setLogs(data.logs || []);
+      setTotal(data.total ?? 0);
+      setNextCursor(data.nextCursor ?? null);
     } catch (err: any) {
       console.error("Failed to fetch logs:", err);
       setError(err.message || "Failed to fetch logs.");
       setLogs([]);
+      setTotal(0);
+      setNextCursor(null);
       toast({
         title: "Error fetching logs",
         description: err.message || "An unexpected error occurred.",
@@ -101,7 +131,30 @@ const LogsPage = () => {
     } finally {
       setLoading(false);
     }
-  }, [logType, limit, searchTerm, toast, requestLogsTriggered]); // Add requestLogsTriggered dependency
+  }, [logType, buildLogParams, toast, requestLogsTriggered]); // Add requestLogsTriggered dependency
+
+  // Appends the next page (older entries) to the list
+  const loadMoreLogs = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const data = await requestLogPage(buildLogParams(nextCursor));
+      setLogs((current) => [...current, ...(data.logs || [])]);
+      setTotal(data.total ?? 0);
+      setNextCursor(data.nextCursor ?? null);
+    } catch (err: any) {
+      console.error("Failed to fetch more logs:", err);
+      toast({
+        title: "Error fetching logs",
+        description: err.message || "An unexpected error occurred.",
+        status: "error",
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
   // Fetch logs whenever fetchLogs function reference changes (due to dependencies like logType, limit, searchTerm, requestLogsTriggered changing)
   useEffect(() => {
@@ -145,12 +198,13 @@ const LogsPage = () => {
   useEffect(() => {
     const handler = setTimeout(() => {
       setSearchTerm(search);
+      setRequestIdTerm(requestId.trim());
     }, 500); // Adjust delay as needed
 
     return () => {
       clearTimeout(handler);
     };
-  }, [search]);
+  }, [search, requestId]);
 
   // Set isClient to true after mounting
   useEffect(() => {
@@ -159,6 +213,8 @@ const LogsPage = () => {
 
   const handleTabChange = (index: number) => {
     const types: LogType[] = ["requests", "errors", "keys"];
+    setIsDbTab(index === types.length); // The last tab reads the request_logs table instead of log files
+    if (index === types.length) return;
     const newType = types[index];
     setLogType(newType);
     // Fetching is now handled by the useEffect hook reacting to logType change
@@ -173,6 +229,7 @@ const LogsPage = () => {
 
   const handleSearch = () => {
     setSearchTerm(search); // Trigger search immediately on button click
+    setRequestIdTerm(requestId.trim());
     // fetchLogs(); // fetchLogs is already triggered by searchTerm change via useEffect
   };
 
@@ -182,6 +239,20 @@ const LogsPage = () => {
     return Math.max(0, appErrorStats.totalErrors - appErrorStats.apiKeyErrors);
   }, [appErrorStats]);
 
+  // Match count and the button that pages further back, shown under each file-based log list
+  const renderLogFooter = () => (
+    <HStack justify="space-between" mt={4}>
+      <Text fontSize="sm" color="gray.500">
+        Showing {logs.length} of {total} matching entries
+      </Text>
+      {nextCursor && (
+        <Button size="sm" onClick={loadMoreLogs} isLoading={loadingMore}>
+          Load more
+        </Button>
+      )}
+    </HStack>
+  );
+
   return (
     <AppLayout>
         <VStack align="stretch" spacing={6}> {/* Increased spacing */}
@@ -200,13 +271,31 @@ const LogsPage = () => {
             </CardBody>
           </Card>
 
-          <HStack spacing={4}>
+          <HStack spacing={4} display={isDbTab ? "none" : "flex"}>
             <Input
               placeholder="Search logs..."
               value={search}
               onChange={(e) => setSearch(e.target.value)}
               onKeyPress={(e) => e.key === "Enter" && handleSearch()}
             />
+            <Input
+              placeholder="Request ID"
+              value={requestId}
+              onChange={(e) => setRequestId(e.target.value)}
+              onKeyPress={(e) => e.key === "Enter" && handleSearch()}
+              width="320px"
+            />
+            <Select
+              value={level}
+              onChange={(e) => setLevel(e.target.value)}
+              width="150px"
+            >
+              <option value="">All levels</option>
+              <option value="error">error</option>
+              <option value="warn">warn</option>
+              <option value="info">info</option>
+              <option value="debug">debug</option>
+            </Select>
             <Select
               value={limit}
               onChange={(e) => setLimit(Number(e.target.value))}
@@ -233,6 +322,7 @@ const LogsPage = () => {
               <Tab>Requests</Tab>
               <Tab>Errors</Tab>
               <Tab>Keys</Tab>
+              <Tab>Requests (DB)</Tab>
             </TabList>
             <TabPanels>
               <TabPanel>
@@ -278,6 +368,7 @@ const LogsPage = () => {
                         ) : (
                           <Text>No request logs found matching criteria.</Text>
                         )}
+                        {logs.length > 0 && renderLogFooter()}
                       </Box>
                     )}
                   </>
@@ -306,6 +397,7 @@ const LogsPage = () => {
                     ) : (
                       <Text>No error logs found matching criteria.</Text>
                     )}
+                    {logs.length > 0 && renderLogFooter()}
                   </Box>
                 )}
               </TabPanel>
@@ -332,9 +424,13 @@ const LogsPage = () => {
                     ) : (
                       <Text>No key logs found matching criteria.</Text>
                     )}
+                    {logs.length > 0 && renderLogFooter()}
                   </Box>
                 )}
               </TabPanel>
+              <TabPanel>
+                {isDbTab && <RequestLogsPanel />}
+              </TabPanel>
             </TabPanels>
           </Tabs>
         </VStack>
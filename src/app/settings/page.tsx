@@ -33,8 +33,10 @@ import {
   Tooltip,
   Spinner,
   SimpleGrid, // Import SimpleGrid
+  HStack,
+  Textarea,
 } from '@chakra-ui/react';
-import { FiSave, FiRefreshCw, FiDownload, FiUpload } from 'react-icons/fi';
+import { FiSave, FiRefreshCw, FiDownload, FiUpload, FiPlus, FiX } from 'react-icons/fi';
 import AppLayout from '@/components/layout/AppLayout'; // Import AppLayout
 import { useContext } from 'react';
 import { ThemeContext } from '@/contexts/ThemeContext';
@@ -44,17 +46,75 @@ interface Settings {
   maxFailureCount: number;
   rateLimitCooldown: number;
   logRetentionDays: number;
-  keyRotationDelaySeconds: number;
+  queueMaxWaitSeconds: number;
+  queueMaxDepth: number;
+  keySelectionStrategy: string;
+  parallelKeyCount: number;
+  maxRetries: number;
+  retryBackoffMs: number;
+  retryBackoffMaxMs: number;
+  modelRoutes: { alias: string; target: string; fallbacks: string[] }[];
+  healthCheckEnabled: boolean;
+  healthCheckIntervalSeconds: number;
+  quotaResetTimezone: string;
+  payloadCaptureEnabled: boolean;
+  payloadCaptureSampleRate: number;
+  payloadRetentionHours: number;
+  payloadRedactionPatterns: string[];
 }
 
+// Editable row of the model routing table (fallbacks as comma-separated text)
+interface ModelRouteRow {
+  alias: string;
+  target: string;
+  fallbacks: string;
+}
+
+const toModelRouteRows = (routes: Settings['modelRoutes'] = []): ModelRouteRow[] =>
+  routes.map(route => ({ alias: route.alias, target: route.target, fallbacks: route.fallbacks.join(', ') }));
+
+const fromModelRouteRows = (rows: ModelRouteRow[]): Settings['modelRoutes'] =>
+  rows
+    .filter(row => row.alias.trim() && row.target.trim())
+    .map(row => ({
+      alias: row.alias.trim(),
+      target: row.target.trim(),
+      fallbacks: row.fallbacks.split(',').map(model => model.trim()).filter(Boolean),
+    }));
+
+// Options for the key selection strategy dropdown (values match the server-side strategy names)
+const KEY_SELECTION_STRATEGY_OPTIONS = [
+  { value: 'lru', label: 'Least Recently Used', description: 'Unused keys first, then the key that was used longest ago.' },
+  { value: 'round-robin', label: 'Round Robin', description: 'Cycle through the available keys in a fixed order.' },
+  { value: 'weighted-random', label: 'Weighted Random', description: 'Random pick weighted by each key\'s remaining daily quota.' },
+  { value: 'least-usage-ratio', label: 'Least Daily Usage Ratio', description: 'Key with the lowest daily requests used / daily limit.' },
+  { value: 'lowest-error-rate', label: 'Lowest Recent Error Rate', description: 'Key with the fewest errors over the last hour.' },
+];
+
 export default function SettingsPage() {
   const [settings, setSettings] = useState<Settings>({
     keyRotationRequestCount: 5,
     maxFailureCount: 5,
     rateLimitCooldown: 60,
     logRetentionDays: 14,
-    keyRotationDelaySeconds: 5, // Default value, will be updated on fetch
+    queueMaxWaitSeconds: 30,
+    queueMaxDepth: 100,
+    keySelectionStrategy: 'lru',
+    parallelKeyCount: 1,
+    maxRetries: 3,
+    retryBackoffMs: 500,
+    retryBackoffMaxMs: 8000,
+    modelRoutes: [],
+    healthCheckEnabled: true,
+    healthCheckIntervalSeconds: 300,
+    quotaResetTimezone: 'America/Los_Angeles',
+    payloadCaptureEnabled: false,
+    payloadCaptureSampleRate: 1,
+    payloadRetentionHours: 72,
+    payloadRedactionPatterns: [],
   });
+  const [modelRouteRows, setModelRouteRows] = useState<ModelRouteRow[]>([]);
+  const [redactionPatternsText, setRedactionPatternsText] = useState(''); // One pattern per line
   
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
@@ -84,6 +144,8 @@ export default function SettingsPage() {
       
       const data = await response.json();
       setSettings(data);
+      setModelRouteRows(toModelRouteRows(data.modelRoutes));
+      setRedactionPatternsText((data.payloadRedactionPatterns || []).join('\n'));
     } catch (err: any) {
       setError(err.message || 'Failed to fetch settings');
       console.error('Error fetching settings:', err);
@@ -114,7 +176,11 @@ export default function SettingsPage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(settings),
+        body: JSON.stringify({
+          ...settings,
+          modelRoutes: fromModelRouteRows(modelRouteRows),
+          payloadRedactionPatterns: redactionPatternsText.split('\n').map(pattern => pattern.trim()).filter(Boolean),
+        }),
       });
       
       if (!response.ok) {
@@ -124,6 +190,8 @@ export default function SettingsPage() {
       
       const data = await response.json();
       setSettings(data.settings);
+      setModelRouteRows(toModelRouteRows(data.settings.modelRoutes));
+      setRedactionPatternsText((data.settings.payloadRedactionPatterns || []).join('\n'));
       setIsSaved(true);
       
       toast({
@@ -322,6 +390,41 @@ export default function SettingsPage() {
             </CardHeader>
             <Divider borderColor={borderColor} />
             <CardBody>
+              <FormControl mb={4}>
+                <FormLabel>Key Selection Strategy</FormLabel>
+                <Select
+                  value={settings.keySelectionStrategy}
+                  onChange={(e) => setSettings({ ...settings, keySelectionStrategy: e.target.value })}
+                >
+                  {KEY_SELECTION_STRATEGY_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </Select>
+                <Text fontSize="sm" color="gray.500" mt={1}>
+                  {KEY_SELECTION_STRATEGY_OPTIONS.find(option => option.value === settings.keySelectionStrategy)?.description
+                    || 'How the next API key is chosen when rotating'}
+                </Text>
+              </FormControl>
+
+              <FormControl mb={4}>
+                <FormLabel>Parallel Keys</FormLabel>
+                <NumberInput
+                  value={settings.parallelKeyCount}
+                  onChange={(_, value) => setSettings({ ...settings, parallelKeyCount: value })}
+                  min={1}
+                  max={50}
+                >
+                  <NumberInputField />
+                  <NumberInputStepper>
+                    <NumberIncrementStepper />
+                    <NumberDecrementStepper />
+                  </NumberInputStepper>
+                </NumberInput>
+                <Text fontSize="sm" color="gray.500" mt={1}>
+                  Number of API keys serving requests at the same time
+                </Text>
+              </FormControl>
+
               <FormControl mb={4}>
                 <FormLabel>Key Rotation Request Count</FormLabel>
                 <NumberInput
@@ -360,6 +463,45 @@ export default function SettingsPage() {
                 </Text>
               </FormControl>
 
+              <FormControl display="flex" alignItems="center" mb={2}>
+                <FormLabel mb="0">Key Health Checks</FormLabel>
+                <Switch
+                  isChecked={settings.healthCheckEnabled}
+                  onChange={(e) => setSettings({ ...settings, healthCheckEnabled: e.target.checked })}
+                />
+              </FormControl>
+              <FormControl mb={4} isDisabled={!settings.healthCheckEnabled}>
+                <FormLabel>Health Check Interval (seconds)</FormLabel>
+                <NumberInput
+                  value={settings.healthCheckIntervalSeconds}
+                  onChange={(_, value) => setSettings({ ...settings, healthCheckIntervalSeconds: value })}
+                  min={30}
+                  max={86400}
+                  step={60}
+                >
+                  <NumberInputField />
+                  <NumberInputStepper>
+                    <NumberIncrementStepper />
+                    <NumberDecrementStepper />
+                  </NumberInputStepper>
+                </NumberInput>
+                <Text fontSize="sm" color="gray.500" mt={1}>
+                  Keys deactivated after repeated failures are probed by listing models; keys that respond are restored, invalid keys are revoked
+                </Text>
+              </FormControl>
+
+              <FormControl mb={4}>
+                <FormLabel>Daily Reset Time Zone</FormLabel>
+                <Input
+                  value={settings.quotaResetTimezone}
+                  onChange={(e) => setSettings({ ...settings, quotaResetTimezone: e.target.value })}
+                  placeholder="America/Los_Angeles"
+                />
+                <Text fontSize="sm" color="gray.500" mt={1}>
+                  IANA time zone whose midnight resets daily key usage. Google resets Gemini quotas at midnight Pacific time; keys can override this.
+                </Text>
+              </FormControl>
+
               <FormControl mb={4}>
                 <FormLabel>Rate Limit Cooldown (seconds)</FormLabel>
                 <NumberInput
@@ -379,12 +521,31 @@ export default function SettingsPage() {
 
 
               <FormControl mb={4}>
-                <FormLabel>Key Rotation Delay (seconds)</FormLabel>
+                <FormLabel>Queue Max Wait (seconds)</FormLabel>
+                <NumberInput
+                  value={settings.queueMaxWaitSeconds}
+                  onChange={(_, value) => setSettings({ ...settings, queueMaxWaitSeconds: value })}
+                  min={0} // 0 disables queuing
+                  max={300}
+                >
+                  <NumberInputField />
+                  <NumberInputStepper>
+                    <NumberIncrementStepper />
+                    <NumberDecrementStepper />
+                  </NumberInputStepper>
+                </NumberInput>
+                <Text fontSize="sm" color="gray.500" mt={1}>
+                  How long a request waits for a key with capacity before it fails with 503. 0 fails immediately.
+                </Text>
+              </FormControl>
+
+              <FormControl mb={4}>
+                <FormLabel>Queue Max Depth</FormLabel>
                 <NumberInput
-                  value={settings.keyRotationDelaySeconds}
-                  onChange={(_, value) => setSettings({ ...settings, keyRotationDelaySeconds: value })}
-                  min={0} // Allow 0 for no delay
-                  max={300} // Set a reasonable max, e.g., 5 minutes
+                  value={settings.queueMaxDepth}
+                  onChange={(_, value) => setSettings({ ...settings, queueMaxDepth: value })}
+                  min={0} // 0 disables queuing
+                  max={10000}
                 >
                   <NumberInputField />
                   <NumberInputStepper>
@@ -393,7 +554,7 @@ export default function SettingsPage() {
                   </NumberInputStepper>
                 </NumberInput>
                 <Text fontSize="sm" color="gray.500" mt={1}>
-                  Delay after a key hits rate limit before trying the next key.
+                  Requests that may wait at the same time. Further requests get a 429 with Retry-After.
                 </Text>
               </FormControl>
                 </Text>
@@ -426,6 +587,65 @@ export default function SettingsPage() {
                 </Text>
               </FormControl>
 
+              <FormControl mb={4}>
+                <FormLabel>Max Retries</FormLabel>
+                <NumberInput
+                  value={settings.maxRetries}
+                  onChange={(_, value) => setSettings({ ...settings, maxRetries: value })}
+                  min={0}
+                  max={10}
+                >
+                  <NumberInputField />
+                  <NumberInputStepper>
+                    <NumberIncrementStepper />
+                    <NumberDecrementStepper />
+                  </NumberInputStepper>
+                </NumberInput>
+                <Text fontSize="sm" color="gray.500" mt={1}>
+                  Maximum upstream attempts per request (rate limits and server errors are retried)
+                </Text>
+              </FormControl>
+
+              <FormControl mb={4}>
+                <FormLabel>Retry Backoff (ms)</FormLabel>
+                <NumberInput
+                  value={settings.retryBackoffMs}
+                  onChange={(_, value) => setSettings({ ...settings, retryBackoffMs: value })}
+                  min={0}
+                  max={60000}
+                  step={100}
+                >
+                  <NumberInputField />
+                  <NumberInputStepper>
+                    <NumberIncrementStepper />
+                    <NumberDecrementStepper />
+                  </NumberInputStepper>
+                </NumberInput>
+                <Text fontSize="sm" color="gray.500" mt={1}>
+                  Wait before retrying after an upstream server error, doubled on every retry (0 to retry immediately)
+                </Text>
+              </FormControl>
+
+              <FormControl mb={4}>
+                <FormLabel>Max Retry Backoff (ms)</FormLabel>
+                <NumberInput
+                  value={settings.retryBackoffMaxMs}
+                  onChange={(_, value) => setSettings({ ...settings, retryBackoffMaxMs: value })}
+                  min={0}
+                  max={300000}
+                  step={1000}
+                >
+                  <NumberInputField />
+                  <NumberInputStepper>
+                    <NumberIncrementStepper />
+                    <NumberDecrementStepper />
+                  </NumberInputStepper>
+                </NumberInput>
+                <Text fontSize="sm" color="gray.500" mt={1}>
+                  Upper bound for the retry backoff
+                </Text>
+              </FormControl>
+
               <FormControl display="flex" alignItems="center" mb={4}>
                 <FormLabel mb="0">Dark Mode</FormLabel>
                 <Switch 
@@ -460,6 +680,140 @@ export default function SettingsPage() {
          </Card>
        </SimpleGrid>
 
+       {/* Model Routing Card */}
+       <Card bg={cardBg} borderWidth="1px" borderColor={borderColor} borderRadius="lg" shadow="sm" mb={6}>
+         <CardHeader>
+           <Heading size="md">Model Routing</Heading>
+           <Text fontSize="sm" color="gray.500" mt={1}>
+             Map aliases to Gemini models. Fallbacks are tried in order when no key can serve the model or it stays rate-limited. Aliases are listed by /api/v1/models.
+           </Text>
+         </CardHeader>
+         <Divider borderColor={borderColor} />
+         <CardBody>
+           {modelRouteRows.length === 0 && (
+             <Text fontSize="sm" color="gray.500" mb={4}>
+               No routes configured: models are forwarded as requested.
+             </Text>
+           )}
+           {modelRouteRows.map((row, index) => (
+             <HStack key={index} mb={2} align="flex-start">
+               <Input
+                 size="sm"
+                 placeholder="Alias, e.g. fast"
+                 value={row.alias}
+                 onChange={(e) => setModelRouteRows(rows => rows.map((r, i) => (i === index ? { ...r, alias: e.target.value } : r)))}
+               />
+               <Input
+                 size="sm"
+                 placeholder="Target, e.g. gemini-2.5-pro"
+                 value={row.target}
+                 onChange={(e) => setModelRouteRows(rows => rows.map((r, i) => (i === index ? { ...r, target: e.target.value } : r)))}
+               />
+               <Input
+                 size="sm"
+                 placeholder="Fallbacks, e.g. gemini-2.5-flash"
+                 value={row.fallbacks}
+                 onChange={(e) => setModelRouteRows(rows => rows.map((r, i) => (i === index ? { ...r, fallbacks: e.target.value } : r)))}
+               />
+               <IconButton
+                 aria-label="Remove route"
+                 icon={<FiX />}
+                 size="sm"
+                 variant="ghost"
+                 colorScheme="red"
+                 onClick={() => setModelRouteRows(rows => rows.filter((_, i) => i !== index))}
+               />
+             </HStack>
+           ))}
+           <Button
+             leftIcon={<FiPlus />}
+             size="sm"
+             variant="outline"
+             mt={2}
+             onClick={() => setModelRouteRows(rows => [...rows, { alias: '', target: '', fallbacks: '' }])}
+           >
+             Add Route
+           </Button>
+         </CardBody>
+       </Card>
+
+       {/* Payload Capture Card */}
+       <Card bg={cardBg} borderWidth="1px" borderColor={borderColor} borderRadius="lg" shadow="sm" mb={6}>
+         <CardHeader>
+           <Heading size="md">Payload Capture</Heading>
+           <Text fontSize="sm" color="gray.500" mt={1}>
+             Store the prompts and completions of sampled requests for debugging, viewable from the request trace. Secrets are redacted and payloads are deleted once they expire. Client keys can set their own capture rate.
+           </Text>
+         </CardHeader>
+         <Divider borderColor={borderColor} />
+         <CardBody>
+           <SimpleGrid columns={{ base: 1, md: 3 }} spacing={6}>
+             <FormControl display="flex" alignItems="center">
+               <FormLabel mb="0">Capture Payloads</FormLabel>
+               <Switch
+                 isChecked={settings.payloadCaptureEnabled}
+                 onChange={(e) => setSettings({ ...settings, payloadCaptureEnabled: e.target.checked })}
+               />
+             </FormControl>
+
+             <FormControl>
+               <FormLabel>Sample Rate</FormLabel>
+               <NumberInput
+                 value={settings.payloadCaptureSampleRate}
+                 onChange={(_, value) => setSettings({ ...settings, payloadCaptureSampleRate: value })}
+                 min={0}
+                 max={1}
+                 step={0.1}
+                 precision={2}
+               >
+                 <NumberInputField />
+                 <NumberInputStepper>
+                   <NumberIncrementStepper />
+                   <NumberDecrementStepper />
+                 </NumberInputStepper>
+               </NumberInput>
+               <Text fontSize="sm" color="gray.500" mt={1}>
+                 Share of requests captured when capture is on (1 = every request)
+               </Text>
+             </FormControl>
+
+             <FormControl>
+               <FormLabel>Retention (hours)</FormLabel>
+               <NumberInput
+                 value={settings.payloadRetentionHours}
+                 onChange={(_, value) => setSettings({ ...settings, payloadRetentionHours: value })}
+                 min={1}
+                 max={2160}
+               >
+                 <NumberInputField />
+                 <NumberInputStepper>
+                   <NumberIncrementStepper />
+                   <NumberDecrementStepper />
+                 </NumberInputStepper>
+               </NumberInput>
+               <Text fontSize="sm" color="gray.500" mt={1}>
+                 Captured payloads are deleted after this time
+               </Text>
+             </FormControl>
+           </SimpleGrid>
+
+           <FormControl mt={6}>
+             <FormLabel>Extra Redaction Patterns</FormLabel>
+             <Textarea
+               fontFamily="mono"
+               fontSize="sm"
+               rows={4}
+               placeholder={'One regular expression per line, e.g. \\b\\d{3}-\\d{2}-\\d{4}\\b'}
+               value={redactionPatternsText}
+               onChange={(e) => setRedactionPatternsText(e.target.value)}
+             />
+             <Text fontSize="sm" color="gray.500" mt={1}>
+               Matches are replaced with REDACTED. API keys, bearer tokens and credential fields are always redacted.
+             </Text>
+           </FormControl>
+         </CardBody>
+       </Card>
+
        {/* Import/Export Card */}
        <Card bg={cardBg} borderWidth="1px" borderColor={borderColor} borderRadius="lg" shadow="sm" mb={6}>
          <CardHeader>
@@ -173,7 +173,7 @@ export default function StatsPage() {
           </Flex>
         ) : stats ? (
           <>
-            <SimpleGrid columns={{ base: 1, md: 2, lg: 4 }} spacing={6} mb={6}>
+            <SimpleGrid columns={{ base: 1, md: 2, lg: 5 }} spacing={6} mb={6}>
               <Card
                 bg={cardBg}
                 borderWidth="1px"
@@ -228,6 +228,24 @@ export default function StatsPage() {
                 </CardBody>
               </Card>
 
+              <Card
+                bg={cardBg}
+                borderWidth="1px"
+                borderColor={borderColor}
+                borderRadius="lg"
+                shadow="sm"
+              >
+                <CardBody>
+                  <Stat>
+                    <StatLabel>Tokens Used</StatLabel>
+                    <StatNumber>{(stats.totalTokens ?? 0).toLocaleString()}</StatNumber>
+                    <StatHelpText>
+                      {(stats.totalPromptTokens ?? 0).toLocaleString()} prompt / {(stats.totalCompletionTokens ?? 0).toLocaleString()} completion
+                    </StatHelpText>
+                  </Stat>
+                </CardBody>
+              </Card>
+
               <Card
                 bg={cardBg}
                 borderWidth="1px"
@@ -250,6 +268,7 @@ export default function StatsPage() {
                 <Tab>Request Volume</Tab>
                 <Tab>Key Usage</Tab>
                 <Tab>Model Usage</Tab>
+                <Tab>Pool Usage</Tab>
               </TabList>
 
               <TabPanels>
@@ -362,6 +381,76 @@ export default function StatsPage() {
                     </CardBody>
                   </Card>
 
+                  {/* --- Token Usage Over Time (Stacked Bar Chart) --- */}
+                  <Card
+                    bg={cardBg}
+                    borderWidth="1px"
+                    borderColor={borderColor}
+                    borderRadius="lg"
+                    shadow="sm"
+                    mb={6}
+                  >
+                    <CardHeader>
+                      <Heading size="md">Token Usage Over Time</Heading>
+                      <Text fontSize="sm" color="gray.500">Prompt and completion tokens reported by the upstream API.</Text>
+                    </CardHeader>
+                    <Divider borderColor={borderColor} />
+                    <CardBody>
+                      {stats.requestData?.some((entry: any) => entry.tokens > 0) ? (
+                        <Box h="300px">
+                          <ResponsiveContainer width="100%" height="100%">
+                            <BarChart
+                              data={stats.requestData}
+                              margin={{ top: 5, right: 30, left: 0, bottom: 5 }}
+                            >
+                              <CartesianGrid strokeDasharray="3 3" stroke={borderColor} />
+                              <XAxis
+                                dataKey={timeRange === '24h' ? 'timestamp' : 'name'}
+                                stroke={useColorModeValue("gray.600", "gray.400")}
+                                tick={{ fill: axisTickColor, fontSize: 12 }}
+                                tickFormatter={(value) => {
+                                  if (timeRange === '24h') {
+                                    const date = new Date(value);
+                                    if (!isNaN(date.getTime())) {
+                                      return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
+                                    }
+                                  }
+                                  return value;
+                                }}
+                              />
+                              <YAxis stroke={useColorModeValue("gray.600", "gray.400")} tick={{ fill: axisTickColor, fontSize: 12 }}/>
+                              <RechartsTooltip
+                                contentStyle={{
+                                  backgroundColor: cardBg,
+                                  borderColor: borderColor,
+                                }}
+                                labelFormatter={(label) => {
+                                  if (timeRange === '24h') {
+                                    const date = new Date(label);
+                                    if (!isNaN(date.getTime())) {
+                                      return date.toLocaleString('en-US', { dateStyle: 'short', timeStyle: 'short', hour12: false });
+                                    }
+                                  }
+                                  return label;
+                                }}
+                                formatter={(value: number, name: string) => [value.toLocaleString(), name]}
+                              />
+                              <Legend />
+                              <Bar dataKey="promptTokens" stackId="tokens" fill={COLORS[0]} name="Prompt Tokens" />
+                              <Bar dataKey="completionTokens" stackId="tokens" fill={COLORS[1]} name="Completion Tokens" />
+                            </BarChart>
+                          </ResponsiveContainer>
+                        </Box>
+                      ) : (
+                        <Flex justify="center" align="center" h="200px">
+                          <Text color="gray.500">
+                            No token usage recorded for this period.
+                          </Text>
+                        </Flex>
+                      )}
+                    </CardBody>
+                  </Card>
+
                   {/* --- Hourly Request Distribution (Bar Chart - Primarily for 24h view) --- */}
                   <Card
                     bg={cardBg}
@@ -502,6 +591,54 @@ export default function StatsPage() {
                       )}
                     </CardBody>
                   </Card>
+
+                  <Card
+                    bg={cardBg}
+                    borderWidth="1px"
+                    borderColor={borderColor}
+                    borderRadius="lg"
+                    shadow="sm"
+                    mt={6}
+                  >
+                    <CardHeader>
+                      <Heading size="md">Requests and Tokens per Key</Heading>
+                      <Text fontSize="sm" color="gray.500">Requests and tokens per key in the selected time range.</Text>
+                    </CardHeader>
+                    <Divider borderColor={borderColor} />
+                    <CardBody>
+                      {stats.keyTokenUsageData?.length > 0 ? (
+                        <Box h="300px">
+                          <ResponsiveContainer width="100%" height="100%">
+                            <BarChart
+                              data={stats.keyTokenUsageData}
+                              margin={{ top: 5, right: 30, left: 0, bottom: 5 }}
+                            >
+                              <CartesianGrid strokeDasharray="3 3" stroke={borderColor} />
+                              <XAxis dataKey="name" stroke={useColorModeValue("gray.600", "gray.400")} tick={{ fill: axisTickColor, fontSize: 12 }} />
+                              <YAxis yAxisId="requests" stroke={useColorModeValue("gray.600", "gray.400")} tick={{ fill: axisTickColor, fontSize: 12 }} />
+                              <YAxis yAxisId="tokens" orientation="right" stroke={useColorModeValue("gray.600", "gray.400")} tick={{ fill: axisTickColor, fontSize: 12 }} />
+                              <RechartsTooltip
+                                contentStyle={{
+                                  backgroundColor: cardBg,
+                                  borderColor: borderColor,
+                                }}
+                                formatter={(value: number, name: string) => [value.toLocaleString(), name]}
+                              />
+                              <Legend />
+                              <Bar yAxisId="requests" dataKey="requests" fill={lineColor} name="Requests" />
+                              <Bar yAxisId="tokens" dataKey="tokens" fill={COLORS[1]} name="Tokens" />
+                            </BarChart>
+                          </ResponsiveContainer>
+                        </Box>
+                      ) : (
+                        <Flex justify="center" align="center" h="200px">
+                          <Text color="gray.500">
+                            No key usage recorded for this period.
+                          </Text>
+                        </Flex>
+                      )}
+                    </CardBody>
+                  </Card>
                 </TabPanel>
 
                 <TabPanel p={0} pt={4}>
@@ -557,6 +694,104 @@ export default function StatsPage() {
                       )}
                     </CardBody>
                   </Card>
+
+                  <Card
+                    bg={cardBg}
+                    borderWidth="1px"
+                    borderColor={borderColor}
+                    borderRadius="lg"
+                    shadow="sm"
+                    mt={6}
+                  >
+                    <CardHeader>
+                      <Heading size="md">Requests and Tokens per Model</Heading>
+                      <Text fontSize="sm" color="gray.500">Requests and tokens per model in the selected time range.</Text>
+                    </CardHeader>
+                    <Divider borderColor={borderColor} />
+                    <CardBody>
+                      {stats.modelUsageData?.length > 0 ? (
+                        <Box h="300px">
+                          <ResponsiveContainer width="100%" height="100%">
+                            <BarChart
+                              data={stats.modelUsageData}
+                              margin={{ top: 5, right: 30, left: 0, bottom: 5 }}
+                            >
+                              <CartesianGrid strokeDasharray="3 3" stroke={borderColor} />
+                              <XAxis dataKey="name" stroke={useColorModeValue("gray.600", "gray.400")} tick={{ fill: axisTickColor, fontSize: 12 }} />
+                              <YAxis yAxisId="requests" stroke={useColorModeValue("gray.600", "gray.400")} tick={{ fill: axisTickColor, fontSize: 12 }} />
+                              <YAxis yAxisId="tokens" orientation="right" stroke={useColorModeValue("gray.600", "gray.400")} tick={{ fill: axisTickColor, fontSize: 12 }} />
+                              <RechartsTooltip
+                                contentStyle={{
+                                  backgroundColor: cardBg,
+                                  borderColor: borderColor,
+                                }}
+                                formatter={(value: number, name: string) => [value.toLocaleString(), name]}
+                              />
+                              <Legend />
+                              <Bar yAxisId="requests" dataKey="value" fill={lineColor} name="Requests" />
+                              <Bar yAxisId="tokens" dataKey="tokens" fill={COLORS[1]} name="Tokens" />
+                            </BarChart>
+                          </ResponsiveContainer>
+                        </Box>
+                      ) : (
+                        <Flex justify="center" align="center" h="200px">
+                          <Text color="gray.500">
+                            No model usage data available
+                          </Text>
+                        </Flex>
+                      )}
+                    </CardBody>
+                  </Card>
+                </TabPanel>
+
+                <TabPanel p={0} pt={4}>
+                  <Card
+                    bg={cardBg}
+                    borderWidth="1px"
+                    borderColor={borderColor}
+                    borderRadius="lg"
+                    shadow="sm"
+                  >
+                    <CardHeader>
+                      <Heading size="md">Requests and Tokens per Pool</Heading>
+                      <Text fontSize="sm" color="gray.500">Requests, errors and tokens per key pool in the selected time range.</Text>
+                    </CardHeader>
+                    <Divider borderColor={borderColor} />
+                    <CardBody>
+                      {stats.poolUsageData?.length > 0 ? (
+                        <Box h="300px">
+                          <ResponsiveContainer width="100%" height="100%">
+                            <BarChart
+                              data={stats.poolUsageData}
+                              margin={{ top: 5, right: 30, left: 0, bottom: 5 }}
+                            >
+                              <CartesianGrid strokeDasharray="3 3" stroke={borderColor} />
+                              <XAxis dataKey="name" stroke={useColorModeValue("gray.600", "gray.400")} tick={{ fill: axisTickColor, fontSize: 12 }} />
+                              <YAxis yAxisId="requests" stroke={useColorModeValue("gray.600", "gray.400")} tick={{ fill: axisTickColor, fontSize: 12 }} />
+                              <YAxis yAxisId="tokens" orientation="right" stroke={useColorModeValue("gray.600", "gray.400")} tick={{ fill: axisTickColor, fontSize: 12 }} />
+                              <RechartsTooltip
+                                contentStyle={{
+                                  backgroundColor: cardBg,
+                                  borderColor: borderColor,
+                                }}
+                                formatter={(value: number, name: string) => [value.toLocaleString(), name]}
+                              />
+                              <Legend />
+                              <Bar yAxisId="requests" dataKey="requests" fill={lineColor} name="Requests" />
+                              <Bar yAxisId="requests" dataKey="errors" fill={errorColor} name="Errors" />
+                              <Bar yAxisId="tokens" dataKey="tokens" fill={COLORS[1]} name="Tokens" />
+                            </BarChart>
+                          </ResponsiveContainer>
+                        </Box>
+                      ) : (
+                        <Flex justify="center" align="center" h="200px">
+                          <Text color="gray.500">
+                            No pool usage recorded for this period.
+                          </Text>
+                        </Flex>
+                      )}
+                    </CardBody>
+                  </Card>
                 </TabPanel>
               </TabPanels>
             </Tabs>
@@ -0,0 +1,340 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import {
+  Box,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  Badge,
+  Text,
+  useColorModeValue,
+  Flex,
+  Button,
+  IconButton,
+  Tooltip,
+  HStack,
+  Heading,
+  useToast,
+  useDisclosure,
+  AlertDialog,
+  AlertDialogBody,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogContent,
+  AlertDialogOverlay,
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalFooter,
+  ModalBody,
+  ModalCloseButton,
+  FormControl,
+  FormLabel,
+  Input,
+  Select,
+  Wrap,
+  WrapItem,
+} from '@chakra-ui/react';
+import { FiPlus, FiEdit2, FiTrash2 } from 'react-icons/fi';
+
+export interface KeyPool {
+  _id: string;
+  name: string;
+  keySelectionStrategy?: string | null; // null means the global setting
+  parallelKeyCount?: number | null;
+  keyRotationRequestCount?: number | null;
+  models: string[]; // Models routed to this pool
+  createdAt: string;
+}
+
+// Strategies a pool can override the global setting with
+const KEY_SELECTION_STRATEGY_OPTIONS = [
+  { value: 'lru', label: 'Least Recently Used' },
+  { value: 'round-robin', label: 'Round Robin' },
+  { value: 'weighted-random', label: 'Weighted Random' },
+  { value: 'least-usage-ratio', label: 'Least Daily Usage Ratio' },
+  { value: 'lowest-error-rate', label: 'Lowest Recent Error Rate' },
+];
+
+// Form state of the create/edit modal (numbers as strings, empty = use the global setting)
+interface PoolForm {
+  name: string;
+  keySelectionStrategy: string;
+  parallelKeyCount: string;
+  keyRotationRequestCount: string;
+  models: string; // Comma-separated
+}
+
+const EMPTY_FORM: PoolForm = { name: '', keySelectionStrategy: '', parallelKeyCount: '', keyRotationRequestCount: '', models: '' };
+
+interface KeyPoolsProps {
+  pools: KeyPool[];
+  keyCounts: { [poolId: string]: number }; // Keys assigned to each pool
+  onChange: () => void; // Called after a pool was created, updated or deleted
+}
+
+export default function KeyPools({ pools, keyCounts, onChange }: KeyPoolsProps) {
+  const [editingPool, setEditingPool] = useState<KeyPool | null>(null); // null while creating
+  const [form, setForm] = useState<PoolForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [poolToDelete, setPoolToDelete] = useState<KeyPool | null>(null);
+  const { isOpen: isFormOpen, onOpen: onFormOpen, onClose: onFormClose } = useDisclosure();
+  const { isOpen: isDeleteOpen, onOpen: onDeleteOpen, onClose: onDeleteClose } = useDisclosure();
+  const cancelRefDelete = useRef<HTMLButtonElement>(null);
+  const toast = useToast();
+  const tableBg = useColorModeValue('white', 'gray.800');
+  const borderColor = useColorModeValue('gray.200', 'gray.700');
+
+  const handleOpenForm = (pool: KeyPool | null) => {
+    setEditingPool(pool);
+    setForm(pool ? {
+      name: pool.name,
+      keySelectionStrategy: pool.keySelectionStrategy || '',
+      parallelKeyCount: pool.parallelKeyCount?.toString() ?? '',
+      keyRotationRequestCount: pool.keyRotationRequestCount?.toString() ?? '',
+      models: pool.models.join(', '),
+    } : EMPTY_FORM);
+    onFormOpen();
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast({ title: 'Invalid Input', description: 'Pool name cannot be empty', status: 'error', duration: 4000, isClosable: true });
+      return;
+    }
+    const toNumber = (value: string) => (value.trim() === '' ? null : parseInt(value, 10));
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(editingPool ? `/api/admin/key-pools/${editingPool._id}` : '/api/admin/key-pools', {
+        method: editingPool ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name.trim(),
+          keySelectionStrategy: form.keySelectionStrategy || null,
+          parallelKeyCount: toNumber(form.parallelKeyCount),
+          keyRotationRequestCount: toNumber(form.keyRotationRequestCount),
+          models: form.models.split(',').map(model => model.trim()).filter(Boolean),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save key pool');
+      }
+
+      toast({ title: 'Success', description: data.message, status: 'success', duration: 3000, isClosable: true });
+      onFormClose();
+      onChange();
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message || 'Failed to save key pool', status: 'error', duration: 5000, isClosable: true });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!poolToDelete) return;
+    try {
+      const response = await fetch(`/api/admin/key-pools/${poolToDelete._id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error('Failed to delete key pool');
+      }
+      toast({ title: 'Success', description: 'Key pool deleted successfully', status: 'success', duration: 3000, isClosable: true });
+      onChange();
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message || 'Failed to delete key pool', status: 'error', duration: 5000, isClosable: true });
+    } finally {
+      onDeleteClose();
+      setPoolToDelete(null);
+    }
+  };
+
+  const strategyLabel = (value?: string | null) =>
+    value ? KEY_SELECTION_STRATEGY_OPTIONS.find(option => option.value === value)?.label || value : 'Global';
+
+  return (
+    <Box mb={8}>
+      <Flex justify="space-between" align="center" mb={4}>
+        <Box>
+          <Heading size="md">Key Pools</Heading>
+          <Text fontSize="sm" color="gray.500">
+            Route requests to a pool with the X-Key-Pool header or by model. Keys without a pool form the default pool.
+          </Text>
+        </Box>
+        <Button size="sm" leftIcon={<FiPlus />} onClick={() => handleOpenForm(null)}>
+          Add Pool
+        </Button>
+      </Flex>
+
+      <Box overflowX="auto">
+        <Table variant="simple" size="sm" bg={tableBg} borderWidth="1px" borderColor={borderColor} borderRadius="md">
+          <Thead>
+            <Tr>
+              <Th>Name</Th>
+              <Th>Routed Models</Th>
+              <Th>Strategy</Th>
+              <Th>Parallel Keys</Th>
+              <Th>Rotate After</Th>
+              <Th>Keys</Th>
+              <Th>Actions</Th>
+            </Tr>
+          </Thead>
+          <Tbody>
+            {pools.length === 0 ? (
+              <Tr>
+                <Td colSpan={7} textAlign="center" py={4}>
+                  No key pools yet. All keys are in the default pool.
+                </Td>
+              </Tr>
+            ) : pools.map(pool => (
+              <Tr key={pool._id}>
+                <Td fontWeight="medium">{pool.name}</Td>
+                <Td>
+                  {pool.models.length === 0 ? (
+                    <Text as="i" color="gray.500">Header only</Text>
+                  ) : (
+                    <Wrap spacing={1}>
+                      {pool.models.map(model => (
+                        <WrapItem key={model}><Badge>{model}</Badge></WrapItem>
+                      ))}
+                    </Wrap>
+                  )}
+                </Td>
+                <Td>{strategyLabel(pool.keySelectionStrategy)}</Td>
+                <Td>{pool.parallelKeyCount ?? 'Global'}</Td>
+                <Td>{pool.keyRotationRequestCount ? `${pool.keyRotationRequestCount} requests` : 'Global'}</Td>
+                <Td>{keyCounts[pool._id] || 0}</Td>
+                <Td>
+                  <HStack spacing={2}>
+                    <Tooltip label="Edit Pool">
+                      <IconButton aria-label="Edit pool" icon={<FiEdit2 />} size="sm" variant="ghost" colorScheme="blue" onClick={() => handleOpenForm(pool)} />
+                    </Tooltip>
+                    <Tooltip label="Delete Pool">
+                      <IconButton aria-label="Delete pool" icon={<FiTrash2 />} size="sm" variant="ghost" colorScheme="red" onClick={() => { setPoolToDelete(pool); onDeleteOpen(); }} />
+                    </Tooltip>
+                  </HStack>
+                </Td>
+              </Tr>
+            ))}
+          </Tbody>
+        </Table>
+      </Box>
+
+      {/* Create/Edit Pool Modal */}
+      <Modal isOpen={isFormOpen} onClose={onFormClose}>
+        <ModalOverlay />
+        <ModalContent>
+          <ModalHeader>{editingPool ? 'Edit Key Pool' : 'Add Key Pool'}</ModalHeader>
+          <ModalCloseButton />
+          <ModalBody>
+            <FormControl isRequired>
+              <FormLabel>Name</FormLabel>
+              <Input
+                placeholder="e.g., paid-tier"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+              <Text fontSize="xs" color="gray.500" mt={1}>
+                Clients select the pool by sending this name in the X-Key-Pool header.
+              </Text>
+            </FormControl>
+
+            <FormControl mt={4}>
+              <FormLabel>Routed Models</FormLabel>
+              <Input
+                placeholder="e.g., gemini-2.5-pro, gemini-2.5-flash"
+                value={form.models}
+                onChange={(e) => setForm({ ...form, models: e.target.value })}
+              />
+              <Text fontSize="xs" color="gray.500" mt={1}>
+                Comma-separated. Requests for these models use this pool unless the header names another one.
+              </Text>
+            </FormControl>
+
+            <FormControl mt={4}>
+              <FormLabel>Key Selection Strategy</FormLabel>
+              <Select
+                value={form.keySelectionStrategy}
+                onChange={(e) => setForm({ ...form, keySelectionStrategy: e.target.value })}
+              >
+                <option value="">Use global setting</option>
+                {KEY_SELECTION_STRATEGY_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </Select>
+            </FormControl>
+
+            <HStack mt={4} align="flex-start">
+              <FormControl>
+                <FormLabel>Parallel Keys</FormLabel>
+                <Input
+                  type="number"
+                  min="1"
+                  max="50"
+                  placeholder="Global"
+                  value={form.parallelKeyCount}
+                  onChange={(e) => setForm({ ...form, parallelKeyCount: e.target.value })}
+                />
+              </FormControl>
+              <FormControl>
+                <FormLabel>Rotate After</FormLabel>
+                <Input
+                  type="number"
+                  min="1"
+                  max="100"
+                  placeholder="Global"
+                  value={form.keyRotationRequestCount}
+                  onChange={(e) => setForm({ ...form, keyRotationRequestCount: e.target.value })}
+                />
+              </FormControl>
+            </HStack>
+            <Text fontSize="xs" color="gray.500" mt={1}>
+              Leave empty to use the values from the settings page.
+            </Text>
+          </ModalBody>
+          <ModalFooter>
+            <Button variant="ghost" mr={3} onClick={onFormClose}>
+              Cancel
+            </Button>
+            <Button colorScheme="blue" onClick={handleSave} isLoading={isSaving}>
+              {editingPool ? 'Save Changes' : 'Add Pool'}
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog
+        isOpen={isDeleteOpen}
+        leastDestructiveRef={cancelRefDelete}
+        onClose={onDeleteClose}
+      >
+        <AlertDialogOverlay>
+          <AlertDialogContent>
+            <AlertDialogHeader fontSize="lg" fontWeight="bold">
+              Delete Key Pool
+            </AlertDialogHeader>
+
+            <AlertDialogBody>
+              Are you sure you want to delete the pool <strong>{poolToDelete?.name}</strong>? Its keys move back to the default pool.
+            </AlertDialogBody>
+
+            <AlertDialogFooter>
+              <Button ref={cancelRefDelete} onClick={onDeleteClose}>
+                Cancel
+              </Button>
+              <Button colorScheme="red" onClick={handleDelete} ml={3}>
+                Delete
+              </Button>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialogOverlay>
+      </AlertDialog>
+    </Box>
+  );
+}
@@ -35,8 +35,12 @@ import {
   NumberDecrementStepper,
   // Add Checkbox
   Checkbox,
+  // Per-model usage bars
+  Progress,
+  VStack,
+  Select,
 } from '@chakra-ui/react';
-import { FiRefreshCw, FiTrash2, FiEdit2, FiSettings, FiAlertTriangle } from 'react-icons/fi'; // Add FiEdit2, FiSettings, FiAlertTriangle
+import { FiRefreshCw, FiTrash2, FiEdit2, FiSettings, FiAlertTriangle, FiPlus, FiX, FiLayers, FiActivity } from 'react-icons/fi'; // Add FiEdit2, FiSettings, FiAlertTriangle
 import { useRef, useMemo } from 'react'; // Add useMemo
 // Import modal components for editing
 import {
@@ -51,6 +55,26 @@ import {
   FormLabel,
   Input,
 } from '@chakra-ui/react';
+import type { KeyPool } from './KeyPools';
+
+interface ModelUsage {
+  model: string;
+  dailyRateLimit?: number | null;
+  dailyRequestsUsed: number;
+  rateLimitResetAt: string | null; // Per-model cooldown
+  isDisabledByRateLimit: boolean;
+  rateLimitQuota?: string | null; // Quota named by the last 429
+}
+
+interface KeyProbe {
+  _id: string;
+  timestamp: string;
+  outcome: 'healthy' | 'failed' | 'revoked';
+  statusCode?: number | null;
+  message?: string | null;
+  responseTime?: number | null;
+  action?: 'restored' | 'revoked' | null; // What the probe changed on the key
+}
 
 interface ApiKey {
   _id: string;
@@ -59,16 +83,33 @@ interface ApiKey {
   isActive: boolean;
   lastUsed: string | null;
   rateLimitResetAt: string | null; // Global rate limit reset time
+  rateLimitQuota?: string | null; // Quota named by the last 429
   failureCount: number;
   requestCount: number; // Total requests
   // New fields for daily rate limiting
   dailyRateLimit?: number | null;
   dailyRequestsUsed: number;
   lastResetDate: string | null; // We might not display this, but it's good to have
+  quotaResetTimezone?: string | null; // Per-key reset time zone, null means the global setting
+  nextDailyResetAt?: string; // When the daily counters reset next
   isDisabledByRateLimit: boolean;
+  modelUsage?: ModelUsage[]; // Per-model daily usage and cooldowns
+  rpmLimit?: number | null; // Requests per minute
+  tpmLimit?: number | null; // Tokens per minute
+  minuteUsage?: { requests: number; tokens: number }; // Usage over the last minute
+  poolId?: string | null; // null means the default pool
+  isRevoked?: boolean; // Rejected as invalid by a health probe
+  lastProbe?: KeyProbe | null; // Most recent health probe
+}
+
+const PROBE_OUTCOME_COLORS: { [outcome: string]: string } = { healthy: 'green', failed: 'orange', revoked: 'red' };
+
+interface KeyStatsProps {
+  pools?: KeyPool[];
+  onKeysChange?: () => void; // Called after keys were moved to another pool
 }
 
-export default function KeyStats() {
+export default function KeyStats({ pools = [], onKeysChange }: KeyStatsProps) {
   const [keys, setKeys] = useState<ApiKey[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [selectedKeyId, setSelectedKeyId] = useState<string | null>(null);
@@ -88,6 +129,11 @@ export default function KeyStats() {
   const [editingKey, setEditingKey] = useState<ApiKey | null>(null);
   const [editNameValue, setEditNameValue] = useState('');
   const [editRateLimitValue, setEditRateLimitValue] = useState<string>(''); // Store as string for input flexibility
+  const [editRpmLimitValue, setEditRpmLimitValue] = useState<string>('');
+  const [editTpmLimitValue, setEditTpmLimitValue] = useState<string>('');
+  const [editModelLimits, setEditModelLimits] = useState<{ model: string; limit: string }[]>([]); // Per-model limit rows
+  const [editPoolId, setEditPoolId] = useState(''); // Empty means the default pool
+  const [editQuotaTimezoneValue, setEditQuotaTimezoneValue] = useState(''); // Empty means the global setting
   const [isSavingChanges, setIsSavingChanges] = useState(false); // Renamed state
 
   // State for bulk selection
@@ -98,6 +144,21 @@ export default function KeyStats() {
   const [bulkLimitValue, setBulkLimitValue] = useState<string>('');
   const [isApplyingBulkLimit, setIsApplyingBulkLimit] = useState(false);
 
+  // State for Bulk Pool Modal
+  const { isOpen: isBulkPoolOpen, onOpen: onBulkPoolOpen, onClose: onBulkPoolClose } = useDisclosure();
+  const [bulkPoolId, setBulkPoolId] = useState('');
+  const [isApplyingBulkPool, setIsApplyingBulkPool] = useState(false);
+
+  // State for Probe History modal
+  const { isOpen: isProbesOpen, onOpen: onProbesOpen, onClose: onProbesClose } = useDisclosure();
+  const [probeKey, setProbeKey] = useState<ApiKey | null>(null);
+  const [probes, setProbes] = useState<KeyProbe[]>([]);
+  const [isLoadingProbes, setIsLoadingProbes] = useState(false);
+  const [isProbing, setIsProbing] = useState(false);
+
+  // Pool filter: 'all', 'default' or a pool ID
+  const [poolFilter, setPoolFilter] = useState('all');
+
   // State for Bulk Delete Modal
   const { isOpen: isBulkDeleteOpen, onOpen: onBulkDeleteOpen, onClose: onBulkDeleteClose } = useDisclosure();
   const [isDeletingBulk, setIsDeletingBulk] = useState(false);
@@ -137,6 +198,13 @@ export default function KeyStats() {
     fetchKeys();
   }, []);
 
+  // Ticks the daily reset countdowns
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
   // Removed useEffect hook for fetchDailyRequests
 
   // Refresh keys data
@@ -147,18 +215,67 @@ export default function KeyStats() {
   // Function to get status badge
   const getStatusBadge = (key: ApiKey) => {
     // Order of checks matters: Disabled > Daily Limited > Globally Limited > Active
+    if (key.isRevoked) {
+      return <Badge colorScheme="red">Revoked</Badge>; // Rejected as invalid, only re-enabled manually
+    }
     if (!key.isActive) {
       return <Badge colorScheme="gray">Disabled</Badge>;
     }
     if (key.isDisabledByRateLimit) {
-      return <Badge colorScheme="orange">Daily Limited</Badge>; // New status
+      return (
+        <Tooltip label={key.rateLimitQuota ? `Quota exhausted: ${key.rateLimitQuota}` : 'Daily limit reached'}>
+          <Badge colorScheme="orange">Daily Limited</Badge>
+        </Tooltip>
+      );
     }
     if (key.rateLimitResetAt && new Date(key.rateLimitResetAt) > new Date()) {
-      return <Badge colorScheme="yellow">Rate Limited</Badge>; // Global limit
+      return (
+        <Tooltip label={`Until ${formatDate(key.rateLimitResetAt)}${key.rateLimitQuota ? ` · ${key.rateLimitQuota}` : ''}`}>
+          <Badge colorScheme="yellow">Rate Limited</Badge>
+        </Tooltip>
+      ); // Global limit
     }
     return <Badge colorScheme="green">Active</Badge>;
   };
 
+  // Function to render one per-model usage bar
+  const renderModelUsage = (usage: ModelUsage) => {
+    const hasLimit = usage.dailyRateLimit !== null && usage.dailyRateLimit !== undefined && usage.dailyRateLimit > 0;
+    const isCoolingDown = usage.rateLimitResetAt !== null && new Date(usage.rateLimitResetAt) > new Date();
+    const percent = hasLimit ? Math.min(100, (usage.dailyRequestsUsed / usage.dailyRateLimit!) * 100) : 0;
+    const colorScheme = usage.isDisabledByRateLimit || percent >= 100 ? 'red' : isCoolingDown ? 'yellow' : percent >= 80 ? 'orange' : 'green';
+    const label = `${usage.model}: ${usage.dailyRequestsUsed} / ${hasLimit ? usage.dailyRateLimit : '∞'}${isCoolingDown ? ' (cooling down)' : ''}`;
+
+    return (
+      <Tooltip key={usage.model} label={isCoolingDown ? `Rate limited until ${formatDate(usage.rateLimitResetAt)}${usage.rateLimitQuota ? ` · ${usage.rateLimitQuota}` : ''}` : label}>
+        <Box>
+          <Text fontSize="xs" color="gray.500" noOfLines={1}>{label}</Text>
+          <Progress value={hasLimit ? percent : 0} size="xs" colorScheme={colorScheme} borderRadius="sm" />
+        </Box>
+      </Tooltip>
+    );
+  };
+
+  // Name of the pool a key belongs to
+  const getPoolName = (poolId?: string | null) => {
+    if (!poolId) return null;
+    return pools.find(pool => pool._id === poolId)?.name || 'Unknown pool';
+  };
+
+  // Function to render the last health probe of a key
+  const renderLastProbe = (key: ApiKey) => {
+    const probe = key.lastProbe;
+    if (!probe) return <Text as="i" color="gray.500">Never probed</Text>;
+    return (
+      <Tooltip label={`${formatDate(probe.timestamp)}${probe.statusCode ? ` · HTTP ${probe.statusCode}` : ''} · ${probe.message || ''}`}>
+        <Box>
+          <Badge colorScheme={PROBE_OUTCOME_COLORS[probe.outcome]}>{probe.outcome}</Badge>
+          <Text fontSize="xs" color="gray.500">{formatDate(probe.timestamp)}</Text>
+        </Box>
+      </Tooltip>
+    );
+  };
+
   // Function to format date
   const formatDate = (dateString: string | null) => {
     if (!dateString) return 'Never';
@@ -167,6 +284,13 @@ export default function KeyStats() {
     return date.toLocaleString();
   };
 
+  // Time left until the daily reset, e.g. "5h 12m"
+  const formatCountdown = (dateString: string) => {
+    const minutes = Math.max(0, Math.ceil((new Date(dateString).getTime() - now) / 60000));
+    const hours = Math.floor(minutes / 60);
+    return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+  };
+
   // Function to delete a key
   const handleDeleteKey = async () => {
     if (!selectedKeyId) return;
@@ -266,6 +390,16 @@ export default function KeyStats() {
     setEditNameValue(key.name || '');
     // Pre-fill rate limit, handle null/undefined by setting to empty string for the input
     setEditRateLimitValue(key.dailyRateLimit?.toString() ?? '');
+    setEditRpmLimitValue(key.rpmLimit?.toString() ?? '');
+    setEditTpmLimitValue(key.tpmLimit?.toString() ?? '');
+    setEditPoolId(key.poolId || '');
+    setEditQuotaTimezoneValue(key.quotaResetTimezone || '');
+    // Only models with a configured limit are editable rows
+    setEditModelLimits(
+      (key.modelUsage || [])
+        .filter(usage => usage.dailyRateLimit !== null && usage.dailyRateLimit !== undefined)
+        .map(usage => ({ model: usage.model, limit: usage.dailyRateLimit!.toString() }))
+    );
     onEditOpen();
   };
 
@@ -293,12 +427,55 @@ export default function KeyStats() {
       }
       rateLimitToSend = parsedLimit;
     }
+
+    // RPM/TPM: empty or 0 means no limit
+    const minuteLimitsToSend: { rpmLimit: number | null; tpmLimit: number | null } = { rpmLimit: null, tpmLimit: null };
+    for (const [field, label, value] of [['rpmLimit', 'RPM limit', editRpmLimitValue], ['tpmLimit', 'TPM limit', editTpmLimitValue]] as const) {
+      if (value.trim() === '') continue;
+      const parsedMinuteLimit = parseInt(value, 10);
+      if (isNaN(parsedMinuteLimit) || parsedMinuteLimit < 0) {
+        toast({
+          title: 'Invalid Input',
+          description: `${label} must be a non-negative number or empty.`,
+          status: 'error',
+          duration: 4000,
+          isClosable: true,
+        });
+        setIsSavingChanges(false);
+        return; // Stop execution
+      }
+      minuteLimitsToSend[field] = parsedMinuteLimit || null;
+    }
+
+    const modelLimitsToSend: { [model: string]: number | null } = {};
+    for (const row of editModelLimits) {
+      const model = row.model.trim();
+      if (!model) continue; // Ignore empty rows
+      const parsedModelLimit = row.limit.trim() === '' ? null : parseInt(row.limit, 10);
+      if (parsedModelLimit !== null && (isNaN(parsedModelLimit) || parsedModelLimit < 0)) {
+        toast({
+          title: 'Invalid Input',
+          description: `Daily limit for ${model} must be a non-negative number or empty.`,
+          status: 'error',
+          duration: 4000,
+          isClosable: true,
+        });
+        setIsSavingChanges(false);
+        return; // Stop execution
+      }
+      modelLimitsToSend[model] = parsedModelLimit;
+    }
     // --- End Validation ---
 
     try {
       const bodyToSend = {
         name: editNameValue.trim() || undefined, // Send undefined if name is empty after trimming
         dailyRateLimit: rateLimitToSend,
+        rpmLimit: minuteLimitsToSend.rpmLimit,
+        tpmLimit: minuteLimitsToSend.tpmLimit,
+        modelRateLimits: modelLimitsToSend,
+        poolId: editPoolId || null,
+        quotaResetTimezone: editQuotaTimezoneValue.trim() || null,
       };
 
       const response = await fetch(`/api/admin/keys/${editingKey._id}`, {
@@ -322,6 +499,7 @@ export default function KeyStats() {
 
       onEditClose();
       fetchKeys(); // Refresh list
+      if ((editingKey.poolId || '') !== editPoolId) onKeysChange?.();
 
     } catch (error: any) {
       console.error('Error updating key:', error);
@@ -337,6 +515,69 @@ export default function KeyStats() {
     }
   };
 
+  // Loads the probe history of a key into the history modal
+  const fetchProbes = async (keyId: string) => {
+    setIsLoadingProbes(true);
+    try {
+      const response = await fetch(`/api/admin/keys/${keyId}/probes`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch probe history');
+      }
+      setProbes(await response.json());
+    } catch (error: any) {
+      console.error('Error fetching probe history:', error);
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to fetch probe history',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setIsLoadingProbes(false);
+    }
+  };
+
+  const handleOpenProbes = (key: ApiKey) => {
+    setProbeKey(key);
+    setProbes([]);
+    onProbesOpen();
+    fetchProbes(key._id);
+  };
+
+  // Probes the key now; the server restores or revokes it just like the background check
+  const handleProbeNow = async () => {
+    if (!probeKey) return;
+    setIsProbing(true);
+    try {
+      const response = await fetch(`/api/admin/keys/${probeKey._id}/probes`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to probe API key');
+      }
+      toast({
+        title: 'Probe Finished',
+        description: result.message,
+        status: result.probe?.outcome === 'healthy' ? 'success' : 'warning',
+        duration: 4000,
+        isClosable: true,
+      });
+      fetchProbes(probeKey._id);
+      fetchKeys(); // Status may have changed
+    } catch (error: any) {
+      console.error('Error probing key:', error);
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to probe API key',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setIsProbing(false);
+    }
+  };
+
 // --- Bulk Action Handlers ---
 
 const handleSelectKey = (keyId: string, isSelected: boolean) => {
@@ -351,17 +592,22 @@ const handleSelectKey = (keyId: string, isSelected: boolean) => {
   });
 };
 
+// Keys matching the pool filter
+const visibleKeys = useMemo(() => keys.filter(key =>
+  poolFilter === 'all' || (poolFilter === 'default' ? !key.poolId : key.poolId === poolFilter)
+), [keys, poolFilter]);
+
 const handleSelectAll = (isSelected: boolean) => {
   if (isSelected) {
-    setSelectedKeyIds(new Set(keys.map(key => key._id)));
+    setSelectedKeyIds(new Set(visibleKeys.map(key => key._id)));
   } else {
     setSelectedKeyIds(new Set());
   }
 };
 
 // Memoize values for "select all" checkbox state
-const isAllSelected = useMemo(() => keys.length > 0 && selectedKeyIds.size === keys.length, [selectedKeyIds, keys]);
-const isIndeterminate = useMemo(() => selectedKeyIds.size > 0 && selectedKeyIds.size < keys.length, [selectedKeyIds, keys]);
+const isAllSelected = useMemo(() => visibleKeys.length > 0 && selectedKeyIds.size === visibleKeys.length, [selectedKeyIds, visibleKeys]);
+const isIndeterminate = useMemo(() => selectedKeyIds.size > 0 && selectedKeyIds.size < visibleKeys.length, [selectedKeyIds, visibleKeys]);
 
 const handleApplyBulkLimit = async () => {
     if (selectedKeyIds.size === 0) return;
@@ -432,6 +678,55 @@ const handleApplyBulkLimit = async () => {
     }
 };
 
+const handleApplyBulkPool = async () => {
+    if (selectedKeyIds.size === 0) return;
+    setIsApplyingBulkPool(true);
+
+    try {
+        const response = await fetch('/api/admin/keys/bulk', {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                action: 'setPool',
+                keyIds: Array.from(selectedKeyIds),
+                poolId: bulkPoolId || null,
+            }),
+        });
+
+        const result = await response.json();
+
+        if (!response.ok) {
+            throw new Error(result.error || 'Failed to assign pool');
+        }
+
+        toast({
+            title: 'Success',
+            description: result.message || `Successfully assigned ${result.count} keys.`,
+            status: 'success',
+            duration: 3000,
+            isClosable: true,
+        });
+
+        onBulkPoolClose();
+        setSelectedKeyIds(new Set()); // Clear selection
+        setBulkPoolId(''); // Reset modal input
+        fetchKeys(); // Refresh list
+        onKeysChange?.();
+
+    } catch (error: any) {
+        console.error('Error assigning pool:', error);
+        toast({
+            title: 'Error',
+            description: error.message || 'Failed to assign pool',
+            status: 'error',
+            duration: 5000,
+            isClosable: true,
+        });
+    } finally {
+        setIsApplyingBulkPool(false);
+    }
+};
+
 const handleBulkDelete = async () => {
     if (selectedKeyIds.size === 0) return;
     setIsDeletingBulk(true);
@@ -503,6 +798,19 @@ return (
                  Set Limit
                </Button>
              </Tooltip>
+             {pools.length > 0 && (
+               <Tooltip label="Move Selected Keys to a Pool">
+                 <Button
+                   size="sm"
+                   leftIcon={<FiLayers />}
+                   colorScheme="purple"
+                   variant="outline"
+                   onClick={onBulkPoolOpen} // Open the bulk pool modal
+                 >
+                   Assign Pool
+                 </Button>
+               </Tooltip>
+             )}
              <Tooltip label="Delete Selected Keys">
                <Button
                  size="sm"
@@ -518,10 +826,24 @@ return (
          )}
       </HStack>
 
-      {/* Right side: Total count and refresh */}
+      {/* Right side: Pool filter, total count and refresh */}
       <HStack spacing={4}>
+         {pools.length > 0 && (
+           <Select
+             size="sm"
+             width="180px"
+             value={poolFilter}
+             onChange={(e) => { setPoolFilter(e.target.value); setSelectedKeyIds(new Set()); }}
+           >
+             <option value="all">All pools</option>
+             <option value="default">Default pool</option>
+             {pools.map(pool => (
+               <option key={pool._id} value={pool._id}>{pool.name}</option>
+             ))}
+           </Select>
+         )}
          <Text fontSize="sm" color="gray.500">
-           Total: {keys.length} keys
+           {poolFilter === 'all' ? `Total: ${keys.length} keys` : `Showing ${visibleKeys.length} of ${keys.length} keys`}
          </Text>
          <Button
            size="sm"
@@ -544,12 +866,14 @@ return (
                    isChecked={isAllSelected}
                    isIndeterminate={isIndeterminate}
                    onChange={(e) => handleSelectAll(e.target.checked)}
-                   isDisabled={keys.length === 0}
+                   isDisabled={visibleKeys.length === 0}
                  />
                </Th>
                <Th>Name</Th>
                <Th>API Key</Th>
+               <Th>Pool</Th>
                <Th>Status</Th>
+               <Th>Last Probe</Th>
                <Th>Last Used</Th>
                <Th>Daily Usage / Limit</Th>
                <Th>Requests (Total)</Th>
@@ -568,6 +892,8 @@ return (
                     <Td><Skeleton height="20px" width="100px" /></Td>
                     <Td><Skeleton height="20px" /></Td>
                     <Td><Skeleton height="20px" width="80px" /></Td>
+                    <Td><Skeleton height="20px" width="80px" /></Td>
+                    <Td><Skeleton height="20px" width="80px" /></Td>
                     <Td><Skeleton height="20px" width="150px" /></Td>
                     <Td><Skeleton height="20px" width="100px" /></Td>
                     <Td><Skeleton height="20px" width="60px" /></Td>
@@ -576,15 +902,15 @@ return (
                     <Td><Skeleton height="20px" width="100px" /></Td>
                   </Tr>
                 ))
-              : keys.length === 0
+              : visibleKeys.length === 0
               ? /* No Keys State */
                 <Tr>
-                  <Td colSpan={10} textAlign="center" py={4}>
-                    No API keys found. Add a key to get started.
+                  <Td colSpan={12} textAlign="center" py={4}>
+                    {keys.length === 0 ? 'No API keys found. Add a key to get started.' : 'No API keys in this pool.'}
                   </Td>
                 </Tr>
               : /* Keys Available State */
-                keys.map((key) => (
+                visibleKeys.map((key) => (
                   <Tr key={key._id}>
                     <Td paddingRight={2}>
                       <Checkbox
@@ -594,9 +920,30 @@ return (
                     </Td>
                     <Td>{key.name || <Text as="i" color="gray.500">N/A</Text>}</Td>
                     <Td fontFamily="mono">{`${key.key.substring(0, 10)}...${key.key.substring(key.key.length - 4)}`}</Td>
+                    <Td>{key.poolId ? <Badge colorScheme="purple">{getPoolName(key.poolId)}</Badge> : <Text as="i" color="gray.500">Default</Text>}</Td>
                     <Td>{getStatusBadge(key)}</Td>
+                    <Td>{renderLastProbe(key)}</Td>
                     <Td>{formatDate(key.lastUsed)}</Td>
-                    <Td>{key.dailyRequestsUsed} / {(key.dailyRateLimit === null || key.dailyRateLimit === undefined) ? '∞' : key.dailyRateLimit}</Td>
+                    <Td>
+                      <Text>{key.dailyRequestsUsed} / {(key.dailyRateLimit === null || key.dailyRateLimit === undefined) ? '∞' : key.dailyRateLimit}</Text>
+                      {key.nextDailyResetAt && (
+                        <Tooltip label={`${formatDate(key.nextDailyResetAt)}${key.quotaResetTimezone ? ` · ${key.quotaResetTimezone}` : ''}`}>
+                          <Text fontSize="xs" color="gray.500">Resets in {formatCountdown(key.nextDailyResetAt)}</Text>
+                        </Tooltip>
+                      )}
+                      {!!(key.rpmLimit || key.tpmLimit) && (
+                        <Text fontSize="xs" color="gray.500">
+                          {key.rpmLimit ? `RPM ${key.minuteUsage?.requests ?? 0}/${key.rpmLimit}` : ''}
+                          {key.rpmLimit && key.tpmLimit ? ' · ' : ''}
+                          {key.tpmLimit ? `TPM ${key.minuteUsage?.tokens ?? 0}/${key.tpmLimit}` : ''}
+                        </Text>
+                      )}
+                      {(key.modelUsage || []).length > 0 && (
+                        <VStack align="stretch" spacing={1} mt={2} minW="160px">
+                          {key.modelUsage!.map(usage => renderModelUsage(usage))}
+                        </VStack>
+                      )}
+                    </Td>
                     <Td>{key.requestCount}</Td>
                     <Td>{key.failureCount}</Td>
                     <Td><Switch isChecked={key.isActive} isDisabled={isToggling[key._id]} onChange={() => handleToggleKey(key._id, key.isActive, key.isDisabledByRateLimit)} size="sm" /></Td>
@@ -605,6 +952,9 @@ return (
                         <Tooltip label="Edit Name & Limit">
                           <IconButton aria-label="Edit key name and limit" icon={<FiEdit2 />} size="sm" variant="ghost" colorScheme="blue" onClick={() => handleOpenEditModal(key)} />
                         </Tooltip>
+                        <Tooltip label="Health Probes">
+                          <IconButton aria-label="Show health probes" icon={<FiActivity />} size="sm" variant="ghost" onClick={() => handleOpenProbes(key)} />
+                        </Tooltip>
                         <Tooltip label="Delete Key">
                           <IconButton aria-label="Delete key" icon={<FiTrash2 />} size="sm" variant="ghost" colorScheme="red" onClick={() => { setSelectedKeyId(key._id); onDeleteOpen(); }} />
                         </Tooltip>
@@ -666,6 +1016,20 @@ return (
               </Text>
             </FormControl>
 
+            {/* Key Pool */}
+            <FormControl mt={4}>
+              <FormLabel>Key Pool</FormLabel>
+              <Select value={editPoolId} onChange={(e) => setEditPoolId(e.target.value)}>
+                <option value="">Default pool</option>
+                {pools.map(pool => (
+                  <option key={pool._id} value={pool._id}>{pool.name}</option>
+                ))}
+              </Select>
+              <Text fontSize="xs" color="gray.500" mt={1}>
+                The key only serves requests routed to this pool.
+              </Text>
+            </FormControl>
+
             {/* Daily Rate Limit Input */}
             <FormControl mt={4}>
               <FormLabel>Daily Rate Limit (Requests)</FormLabel>
@@ -685,6 +1049,101 @@ return (
                 Max requests per key per day (UTC). Leave empty or set to 0 for unlimited.
               </Text>
             </FormControl>
+
+            {/* Per-Minute Limits */}
+            <HStack mt={4} align="flex-start">
+              <FormControl>
+                <FormLabel>RPM Limit</FormLabel>
+                <NumberInput
+                  value={editRpmLimitValue}
+                  onChange={(valueAsString) => setEditRpmLimitValue(valueAsString)}
+                  min={0}
+                  allowMouseWheel
+                >
+                  <NumberInputField placeholder="No limit" />
+                  <NumberInputStepper>
+                    <NumberIncrementStepper />
+                    <NumberDecrementStepper />
+                  </NumberInputStepper>
+                </NumberInput>
+              </FormControl>
+              <FormControl>
+                <FormLabel>TPM Limit</FormLabel>
+                <NumberInput
+                  value={editTpmLimitValue}
+                  onChange={(valueAsString) => setEditTpmLimitValue(valueAsString)}
+                  min={0}
+                  step={1000}
+                  allowMouseWheel
+                >
+                  <NumberInputField placeholder="No limit" />
+                  <NumberInputStepper>
+                    <NumberIncrementStepper />
+                    <NumberDecrementStepper />
+                  </NumberInputStepper>
+                </NumberInput>
+              </FormControl>
+            </HStack>
+            <Text fontSize="xs" color="gray.500" mt={1}>
+              Requests and tokens per minute (sliding window). Traffic moves to another key before these are reached. Leave empty or set to 0 for unlimited.
+            </Text>
+
+            <FormControl mt={4}>
+              <FormLabel>Daily Reset Time Zone</FormLabel>
+              <Input
+                value={editQuotaTimezoneValue}
+                onChange={(e) => setEditQuotaTimezoneValue(e.target.value)}
+                placeholder="Global setting"
+              />
+              <Text fontSize="xs" color="gray.500" mt={1}>
+                IANA time zone (e.g. America/Los_Angeles) whose midnight resets this key's daily counters. Leave empty to use the global setting.
+              </Text>
+            </FormControl>
+
+            {/* Per-Model Daily Limits */}
+            <FormControl mt={4}>
+              <FormLabel>Per-Model Daily Limits</FormLabel>
+              <VStack align="stretch" spacing={2}>
+                {editModelLimits.map((row, index) => (
+                  <HStack key={index}>
+                    <Input
+                      size="sm"
+                      placeholder="e.g., gemini-2.5-pro"
+                      value={row.model}
+                      onChange={(e) => setEditModelLimits(prev => prev.map((r, i) => i === index ? { ...r, model: e.target.value } : r))}
+                    />
+                    <Input
+                      size="sm"
+                      type="number"
+                      min="0"
+                      width="140px"
+                      placeholder="No limit"
+                      value={row.limit}
+                      onChange={(e) => setEditModelLimits(prev => prev.map((r, i) => i === index ? { ...r, limit: e.target.value } : r))}
+                    />
+                    <IconButton
+                      aria-label="Remove model limit"
+                      icon={<FiX />}
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setEditModelLimits(prev => prev.filter((_, i) => i !== index))}
+                    />
+                  </HStack>
+                ))}
+                <Button
+                  size="sm"
+                  leftIcon={<FiPlus />}
+                  variant="outline"
+                  alignSelf="flex-start"
+                  onClick={() => setEditModelLimits(prev => [...prev, { model: '', limit: '' }])}
+                >
+                  Add Model Limit
+                </Button>
+              </VStack>
+              <Text fontSize="xs" color="gray.500" mt={1}>
+                Max requests per day for a specific model on this key. Rate limits (429) only bench the key for the model that hit them.
+              </Text>
+            </FormControl>
           </ModalBody>
           <ModalFooter>
             <Button variant="ghost" mr={3} onClick={onEditClose}>
@@ -773,6 +1232,93 @@ return (
           </ModalContent>
       </Modal>
 
+      {/* Probe History Modal */}
+      <Modal isOpen={isProbesOpen} onClose={onProbesClose} size="3xl">
+        <ModalOverlay />
+        <ModalContent>
+          <ModalHeader>Health Probes{probeKey?.name ? ` · ${probeKey.name}` : ''}</ModalHeader>
+          <ModalCloseButton />
+          <ModalBody>
+            <Text fontSize="sm" color="gray.500" mb={4}>
+              Keys deactivated after repeated failures are probed in the background by listing models (rate limit cooldowns expire on their own). Keys that respond are restored; keys rejected as invalid are revoked until re-enabled manually.
+            </Text>
+            {isLoadingProbes ? (
+              <Skeleton height="120px" />
+            ) : probes.length === 0 ? (
+              <Text color="gray.500" textAlign="center" py={6}>This key has not been probed yet.</Text>
+            ) : (
+              <Box overflowX="auto" maxH="400px" overflowY="auto">
+                <Table variant="simple" size="sm">
+                  <Thead>
+                    <Tr>
+                      <Th>Time</Th>
+                      <Th>Result</Th>
+                      <Th>Status</Th>
+                      <Th>Latency</Th>
+                      <Th>Action</Th>
+                      <Th>Message</Th>
+                    </Tr>
+                  </Thead>
+                  <Tbody>
+                    {probes.map(probe => (
+                      <Tr key={probe._id}>
+                        <Td whiteSpace="nowrap">{formatDate(probe.timestamp)}</Td>
+                        <Td><Badge colorScheme={PROBE_OUTCOME_COLORS[probe.outcome]}>{probe.outcome}</Badge></Td>
+                        <Td>{probe.statusCode ?? '-'}</Td>
+                        <Td>{probe.responseTime !== null && probe.responseTime !== undefined ? `${probe.responseTime} ms` : '-'}</Td>
+                        <Td>{probe.action || '-'}</Td>
+                        <Td><Text fontSize="xs" noOfLines={2}>{probe.message}</Text></Td>
+                      </Tr>
+                    ))}
+                  </Tbody>
+                </Table>
+              </Box>
+            )}
+          </ModalBody>
+          <ModalFooter>
+            <Button variant="ghost" mr={3} onClick={onProbesClose}>
+              Close
+            </Button>
+            <Button leftIcon={<FiActivity />} colorScheme="blue" onClick={handleProbeNow} isLoading={isProbing}>
+              Probe Now
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+
+      {/* Bulk Pool Assignment Modal */}
+      <Modal isOpen={isBulkPoolOpen} onClose={onBulkPoolClose}>
+          <ModalOverlay />
+          <ModalContent>
+              <ModalHeader>Assign Pool to Selected Keys ({selectedKeyIds.size})</ModalHeader>
+              <ModalCloseButton />
+              <ModalBody>
+                  <FormControl>
+                      <FormLabel>Key Pool</FormLabel>
+                      <Select value={bulkPoolId} onChange={(e) => setBulkPoolId(e.target.value)}>
+                          <option value="">Default pool</option>
+                          {pools.map(pool => (
+                              <option key={pool._id} value={pool._id}>{pool.name}</option>
+                          ))}
+                      </Select>
+                  </FormControl>
+              </ModalBody>
+              <ModalFooter>
+                  <Button variant="ghost" mr={3} onClick={onBulkPoolClose} isDisabled={isApplyingBulkPool}>
+                      Cancel
+                  </Button>
+                  <Button
+                      colorScheme="purple"
+                      onClick={handleApplyBulkPool}
+                      isLoading={isApplyingBulkPool}
+                      isDisabled={selectedKeyIds.size === 0}
+                  >
+                      Assign Pool
+                  </Button>
+              </ModalFooter>
+          </ModalContent>
+      </Modal>
+
       {/* Bulk Delete Confirmation Dialog */}
       <AlertDialog
         isOpen={isBulkDeleteOpen}
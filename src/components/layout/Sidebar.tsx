@@ -19,6 +19,7 @@ import {
 import { 
   FiHome, 
   FiKey, 
+  FiUsers,
   FiSettings, 
   FiFileText, 
   FiBarChart2, 
@@ -216,6 +217,15 @@ export default function Sidebar({ onResize }: SidebarProps) {
             >
               API Keys
             </NavItem>
+
+            <NavItem 
+              icon={FiUsers} 
+              href="/client-keys" 
+              isActive={pathname === '/client-keys'}
+              isCollapsed={isCollapsed}
+            >
+              Client Keys
+            </NavItem>
             
             <NavItem 
               icon={FiFileText} 
@@ -1,4 +1,5 @@
 import React from "react";
+import Link from "next/link";
 import {
   Box,
   Text,
@@ -80,7 +81,11 @@ const LogEntryItem: React.FC<LogEntryItemProps> = ({ log }) => {
         {(context || requestId || keyEventDetails) && (
            <HStack spacing={3} wrap="wrap" pt={1}>
             {context && <Text fontSize="xs" color="gray.500">[Context: {context}]</Text>}
-            {requestId && <Text fontSize="xs" color="gray.500">[Request ID: {requestId}]</Text>}
+            {requestId && (
+              <Link href={`/logs/${encodeURIComponent(requestId)}`}>
+                <Text fontSize="xs" color="blue.500" _hover={{ textDecoration: "underline" }}>[Request ID: {requestId}]</Text>
+              </Link>
+            )}
             {keyEventDetails && <Text fontSize="xs" color="gray.500">[{keyEventDetails}]</Text>}
             {/* Add other relevant fields here */}
            </HStack>
@@ -0,0 +1,358 @@
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import Link from "next/link";
+import {
+  Box,
+  Text,
+  Badge,
+  HStack,
+  VStack,
+  Input,
+  Select,
+  Button,
+  Spinner,
+  Alert,
+  AlertIcon,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  Tag,
+  TagLabel,
+  TagCloseButton,
+  Wrap,
+  WrapItem,
+  Tooltip,
+  useColorModeValue,
+} from "@chakra-ui/react";
+
+// Row of /api/request-logs
+interface RequestLogRow {
+  _id: string;
+  apiKeyId: string;
+  timestamp: string;
+  modelUsed?: string | null;
+  requestedModel?: string | null;
+  routing?: string | null;
+  responseTime?: number | null;
+  statusCode: number;
+  isError: boolean;
+  errorType?: string | null;
+  errorMessage?: string | null;
+  ipAddress?: string | null;
+  totalTokens?: number | null;
+  requestId?: string | null;
+}
+
+interface KeyOption {
+  _id: string;
+  name?: string | null;
+}
+
+type TimeRange = "1h" | "24h" | "7d" | "30d" | "all";
+
+// Active filters; each one is shown as a removable chip
+interface Filters {
+  range: TimeRange;
+  keyId: string;
+  model: string;
+  status: string;
+  errorType: string;
+  ip: string;
+}
+
+const EMPTY_FILTERS: Filters = { range: "24h", keyId: "", model: "", status: "", errorType: "", ip: "" };
+
+const RANGE_MS: Record<Exclude<TimeRange, "all">, number> = {
+  "1h": 60 * 60 * 1000,
+  "24h": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+  "30d": 30 * 24 * 60 * 60 * 1000,
+};
+
+const RANGE_LABELS: Record<TimeRange, string> = {
+  "1h": "Last hour",
+  "24h": "Last 24 hours",
+  "7d": "Last 7 days",
+  "30d": "Last 30 days",
+  all: "All time",
+};
+
+const PAGE_SIZE = 50;
+
+const statusColor = (statusCode: number) => {
+  if (statusCode >= 500) return "red";
+  if (statusCode === 429) return "orange";
+  if (statusCode >= 400) return "yellow";
+  return "green";
+};
+
+const RequestLogsPanel: React.FC = () => {
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [sort, setSort] = useState<"timestamp" | "responseTime">("timestamp");
+  const [order, setOrder] = useState<"desc" | "asc">("desc");
+  // Free-text filters are typed here and applied as chips on Enter
+  const [draft, setDraft] = useState({ model: "", errorType: "", ip: "" });
+  const [keys, setKeys] = useState<KeyOption[]>([]);
+
+  const [logs, setLogs] = useState<RequestLogRow[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+  // Bumped on every filter change so responses of an older query are dropped
+  const queryIdRef = useRef(0);
+  // Lower bound of the time range, fixed when the filters change so every page uses the same window
+  const fromRef = useRef<string | null>(null);
+
+  const boxBg = useColorModeValue("gray.50", "gray.700");
+  const headBg = useColorModeValue("gray.100", "gray.800");
+
+  const keyName = useCallback(
+    (id: string) => {
+      const key = keys.find((k) => k._id === id);
+      return key ? key.name || `${key._id.substring(0, 8)}...` : id === "N/A" ? "No key" : `${id.substring(0, 8)}...`;
+    },
+    [keys]
+  );
+
+  useEffect(() => {
+    fetch("/api/admin/keys")
+      .then((response) => (response.ok ? response.json() : []))
+      .then((data) => setKeys(Array.isArray(data) ? data : []))
+      .catch(() => setKeys([]));
+  }, []);
+
+  const fetchPage = useCallback(
+    async (cursor: string | null) => {
+      const queryId = queryIdRef.current;
+      setLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams({ sort, order, limit: String(PAGE_SIZE) });
+        if (fromRef.current) params.set("from", fromRef.current);
+        if (filters.keyId) params.set("keyId", filters.keyId);
+        if (filters.model) params.set("model", filters.model);
+        if (filters.status) params.set("status", filters.status);
+        if (filters.errorType) params.set("errorType", filters.errorType);
+        if (filters.ip) params.set("ip", filters.ip);
+        if (cursor) params.set("cursor", cursor);
+
+        const response = await fetch(`/api/request-logs?${params.toString()}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || `HTTP error! status: ${response.status}`);
+        }
+        if (queryId !== queryIdRef.current) return; // Filters changed while loading
+        setLogs((previous) => (cursor ? [...previous, ...data.logs] : data.logs));
+        setNextCursor(data.nextCursor);
+      } catch (err: any) {
+        if (queryId !== queryIdRef.current) return;
+        setError(err.message || "Failed to fetch request logs.");
+      } finally {
+        if (queryId === queryIdRef.current) setLoading(false);
+      }
+    },
+    [filters, sort, order]
+  );
+
+  // Start over from the first page whenever the query changes
+  useEffect(() => {
+    queryIdRef.current += 1;
+    fromRef.current = filters.range === "all" ? null : new Date(Date.now() - RANGE_MS[filters.range]).toISOString();
+    setLogs([]);
+    setNextCursor(null);
+    scrollRef.current?.scrollTo({ top: 0 });
+    fetchPage(null);
+  }, [fetchPage, filters.range]);
+
+  // Infinite scroll: load the next page when the sentinel below the last row becomes visible
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor || loading || error) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) fetchPage(nextCursor);
+      },
+      { root: scrollRef.current, rootMargin: "200px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loading, error, fetchPage]);
+
+  const setFilter = (name: keyof Filters, value: string) => {
+    setFilters((previous) => ({ ...previous, [name]: value }));
+  };
+
+  const applyDraft = (name: keyof typeof draft) => {
+    setFilter(name, draft[name].trim());
+    setDraft((previous) => ({ ...previous, [name]: "" }));
+  };
+
+  const chips: { name: keyof Filters; label: string }[] = [];
+  if (filters.range !== "all") chips.push({ name: "range", label: RANGE_LABELS[filters.range] });
+  if (filters.keyId) chips.push({ name: "keyId", label: `Key: ${keyName(filters.keyId)}` });
+  if (filters.model) chips.push({ name: "model", label: `Model: ${filters.model}` });
+  if (filters.status) chips.push({ name: "status", label: `Status: ${filters.status}` });
+  if (filters.errorType) chips.push({ name: "errorType", label: `Error: ${filters.errorType}` });
+  if (filters.ip) chips.push({ name: "ip", label: `IP: ${filters.ip}` });
+
+  return (
+    <VStack align="stretch" spacing={4}>
+      <Wrap spacing={3}>
+        <WrapItem>
+          <Select size="sm" width="160px" value={filters.range} onChange={(e) => setFilter("range", e.target.value)}>
+            {(Object.keys(RANGE_LABELS) as TimeRange[]).map((range) => (
+              <option key={range} value={range}>{RANGE_LABELS[range]}</option>
+            ))}
+          </Select>
+        </WrapItem>
+        <WrapItem>
+          <Select size="sm" width="180px" placeholder="Any key" value={filters.keyId} onChange={(e) => setFilter("keyId", e.target.value)}>
+            <option value="N/A">No key (rejected)</option>
+            {keys.map((key) => (
+              <option key={key._id} value={key._id}>{key.name || `${key._id.substring(0, 8)}...`}</option>
+            ))}
+          </Select>
+        </WrapItem>
+        <WrapItem>
+          <Select size="sm" width="150px" placeholder="Any status" value={filters.status} onChange={(e) => setFilter("status", e.target.value)}>
+            <option value="success">Success</option>
+            <option value="error">Error</option>
+            <option value="2xx">2xx</option>
+            <option value="4xx">4xx</option>
+            <option value="429">429</option>
+            <option value="5xx">5xx</option>
+          </Select>
+        </WrapItem>
+        {(["model", "errorType", "ip"] as const).map((name) => (
+          <WrapItem key={name}>
+            <Input
+              size="sm"
+              width="170px"
+              placeholder={name === "model" ? "Model (Enter)" : name === "errorType" ? "Error type (Enter)" : "IP address (Enter)"}
+              value={draft[name]}
+              onChange={(e) => setDraft((previous) => ({ ...previous, [name]: e.target.value }))}
+              onKeyDown={(e) => e.key === "Enter" && applyDraft(name)}
+            />
+          </WrapItem>
+        ))}
+        <WrapItem>
+          <Select
+            size="sm"
+            width="200px"
+            value={`${sort}:${order}`}
+            onChange={(e) => {
+              const [newSort, newOrder] = e.target.value.split(":");
+              setSort(newSort as "timestamp" | "responseTime");
+              setOrder(newOrder as "desc" | "asc");
+            }}
+          >
+            <option value="timestamp:desc">Newest first</option>
+            <option value="timestamp:asc">Oldest first</option>
+            <option value="responseTime:desc">Slowest first</option>
+            <option value="responseTime:asc">Fastest first</option>
+          </Select>
+        </WrapItem>
+      </Wrap>
+
+      {chips.length > 0 && (
+        <Wrap spacing={2}>
+          {chips.map((chip) => (
+            <WrapItem key={chip.name}>
+              <Tag size="md" borderRadius="full" variant="subtle" colorScheme="blue">
+                <TagLabel>{chip.label}</TagLabel>
+                <TagCloseButton onClick={() => setFilter(chip.name, chip.name === "range" ? "all" : "")} />
+              </Tag>
+            </WrapItem>
+          ))}
+          <WrapItem>
+            <Button size="xs" variant="ghost" onClick={() => setFilters({ ...EMPTY_FILTERS, range: "all" })}>
+              Clear all
+            </Button>
+          </WrapItem>
+        </Wrap>
+      )}
+
+      {error && (
+        <Alert status="error">
+          <AlertIcon />
+          {error}
+        </Alert>
+      )}
+
+      <Box ref={scrollRef} bg={boxBg} borderRadius="md" maxHeight="70vh" overflowY="auto">
+        <Table size="sm">
+          <Thead position="sticky" top={0} bg={headBg} zIndex={1}>
+            <Tr>
+              <Th>Time</Th>
+              <Th>Status</Th>
+              <Th>Model</Th>
+              <Th>Key</Th>
+              <Th isNumeric>Time (ms)</Th>
+              <Th isNumeric>Tokens</Th>
+              <Th>IP</Th>
+              <Th>Error</Th>
+            </Tr>
+          </Thead>
+          <Tbody>
+            {logs.map((log) => (
+              <Tr key={log._id}>
+                <Td whiteSpace="nowrap">
+                  {log.requestId ? (
+                    <Link href={`/logs/${encodeURIComponent(log.requestId)}`}>
+                      <Text as="span" color="blue.500" _hover={{ textDecoration: "underline" }}>
+                        {new Date(log.timestamp).toLocaleString()}
+                      </Text>
+                    </Link>
+                  ) : (
+                    new Date(log.timestamp).toLocaleString()
+                  )}
+                </Td>
+                <Td>
+                  <Badge colorScheme={statusColor(log.statusCode)}>{log.statusCode}</Badge>
+                </Td>
+                <Td>
+                  <Text fontSize="sm">{log.modelUsed || log.requestedModel || "-"}</Text>
+                  {log.routing && log.requestedModel && (
+                    <Text fontSize="xs" color="gray.500">{log.routing} from {log.requestedModel}</Text>
+                  )}
+                </Td>
+                <Td>{keyName(log.apiKeyId)}</Td>
+                <Td isNumeric>{log.responseTime ?? "-"}</Td>
+                <Td isNumeric>{log.totalTokens ?? "-"}</Td>
+                <Td>{log.ipAddress || "-"}</Td>
+                <Td maxW="280px">
+                  {log.errorType && (
+                    <Tooltip label={log.errorMessage || ""} isDisabled={!log.errorMessage}>
+                      <Text fontSize="sm" noOfLines={1}>{log.errorType}</Text>
+                    </Tooltip>
+                  )}
+                </Td>
+              </Tr>
+            ))}
+          </Tbody>
+        </Table>
+        <Box ref={sentinelRef} h="1px" />
+        {loading && (
+          <HStack justify="center" py={4}>
+            <Spinner size="sm" />
+          </HStack>
+        )}
+        {!loading && !error && logs.length === 0 && (
+          <Text p={4}>No requests found matching the filters.</Text>
+        )}
+        {!loading && logs.length > 0 && !nextCursor && (
+          <Text p={3} fontSize="sm" color="gray.500" textAlign="center">
+            End of results ({logs.length} requests)
+          </Text>
+        )}
+      </Box>
+    </VStack>
+  );
+};
+
+export default RequestLogsPanel;
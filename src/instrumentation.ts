@@ -0,0 +1,14 @@
+// Runs once when the Next.js server starts: background jobs live here
+export async function register() {
+  // Background jobs need Node.js (timers, SQLite), so skip the Edge runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { default: keyHealthChecker } = await import('@/lib/services/keyHealthChecker');
+    keyHealthChecker.start();
+
+    const { default: quotaResetScheduler } = await import('@/lib/services/quotaResetScheduler');
+    quotaResetScheduler.start();
+
+    const { default: payloadPurger } = await import('@/lib/services/payloadCapture');
+    payloadPurger.start();
+  }
+}
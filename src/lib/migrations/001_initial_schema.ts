@@ -0,0 +1,62 @@
+import { Migration, columnTypes } from './helpers';
+
+// Keys, settings and request logs as the first release created them
+const migration: Migration = {
+  version: 1,
+  name: 'initial_schema',
+
+  async up(db) {
+    const { bool, references } = columnTypes(db.dialect);
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        _id TEXT PRIMARY KEY,
+        key TEXT NOT NULL UNIQUE,
+        name TEXT,
+        isActive ${bool(true)},
+        lastUsed TEXT, -- ISO 8601 date string
+        rateLimitResetAt TEXT, -- ISO 8601 date string
+        failureCount INTEGER NOT NULL DEFAULT 0,
+        requestCount INTEGER NOT NULL DEFAULT 0,
+        dailyRateLimit INTEGER, -- NULL means no limit
+        dailyRequestsUsed INTEGER NOT NULL DEFAULT 0,
+        lastResetDate TEXT, -- ISO 8601 date string
+        isDisabledByRateLimit ${bool(false)}
+      );
+    `);
+
+    // Using a single row with a fixed ID for simplicity
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS settings (
+        id INTEGER PRIMARY KEY CHECK (id = 1), -- Enforce single row
+        config TEXT NOT NULL
+      );
+    `);
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS request_logs (
+        _id TEXT PRIMARY KEY,
+        apiKeyId TEXT NOT NULL,
+        timestamp TEXT NOT NULL, -- ISO 8601 format string
+        modelUsed TEXT,
+        responseTime INTEGER, -- Milliseconds
+        statusCode INTEGER NOT NULL,
+        isError ${bool(false)},
+        errorType TEXT,
+        errorMessage TEXT,
+        ipAddress TEXT
+        ${references('FOREIGN KEY (apiKeyId) REFERENCES api_keys(_id) ON DELETE CASCADE')}
+      );
+    `);
+    await db.exec(`CREATE INDEX IF NOT EXISTS idx_request_logs_timestamp ON request_logs (timestamp);`);
+    await db.exec(`CREATE INDEX IF NOT EXISTS idx_request_logs_apiKeyId ON request_logs (apiKeyId);`);
+  },
+
+  async down(db) {
+    await db.exec('DROP TABLE IF EXISTS request_logs;');
+    await db.exec('DROP TABLE IF EXISTS settings;');
+    await db.exec('DROP TABLE IF EXISTS api_keys;');
+  },
+};
+
+export default migration;
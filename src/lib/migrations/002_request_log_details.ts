@@ -0,0 +1,27 @@
+import { Migration, addColumn, dropColumn } from './helpers';
+
+// Token usage, client key and model routing of each logged request
+const migration: Migration = {
+  version: 2,
+  name: 'request_log_details',
+
+  async up(db) {
+    await addColumn(db, 'request_logs', 'promptTokens', 'INTEGER'); // From the upstream usage block, NULL if not reported
+    await addColumn(db, 'request_logs', 'completionTokens', 'INTEGER');
+    await addColumn(db, 'request_logs', 'totalTokens', 'INTEGER');
+    await addColumn(db, 'request_logs', 'clientKeyId', 'TEXT'); // NULL for the master key or open access
+    await addColumn(db, 'request_logs', 'requestedModel', 'TEXT'); // Model sent by the client, before alias/fallback routing
+    await addColumn(db, 'request_logs', 'routing', 'TEXT'); // 'alias' or 'fallback' when modelUsed differs from requestedModel
+    await addColumn(db, 'request_logs', 'poolId', 'TEXT'); // Key pool that served the request, NULL for the default pool
+    await db.exec(`CREATE INDEX IF NOT EXISTS idx_request_logs_clientKeyId ON request_logs (clientKeyId);`);
+  },
+
+  async down(db) {
+    await db.exec('DROP INDEX IF EXISTS idx_request_logs_clientKeyId;');
+    for (const column of ['poolId', 'routing', 'requestedModel', 'clientKeyId', 'totalTokens', 'completionTokens', 'promptTokens']) {
+      await dropColumn(db, 'request_logs', column);
+    }
+  },
+};
+
+export default migration;
@@ -0,0 +1,35 @@
+import { Migration, columnTypes } from './helpers';
+
+// Inbound keys of the proxy's consumers
+const migration: Migration = {
+  version: 3,
+  name: 'client_keys',
+
+  async up(db) {
+    const { bool } = columnTypes(db.dialect);
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS client_keys (
+        _id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        keyHash TEXT UNIQUE NOT NULL, -- SHA-256 of the secret, the secret itself is never stored
+        keyPrefix TEXT NOT NULL, -- Start of the secret, shown in the UI
+        isEnabled ${bool(true)},
+        allowedModels TEXT, -- JSON array of model names, NULL means all models
+        dailyRequestLimit INTEGER, -- NULL means no limit
+        dailyTokenLimit INTEGER, -- NULL means no limit
+        dailyRequestsUsed INTEGER NOT NULL DEFAULT 0,
+        dailyTokensUsed INTEGER NOT NULL DEFAULT 0,
+        lastResetDate TEXT, -- ISO 8601 date string
+        expiresAt TEXT, -- ISO 8601 date string, NULL means no expiry
+        lastUsed TEXT, -- ISO 8601 date string
+        createdAt TEXT NOT NULL -- ISO 8601 date string
+      );
+    `);
+  },
+
+  async down(db) {
+    await db.exec('DROP TABLE IF EXISTS client_keys;');
+  },
+};
+
+export default migration;
@@ -0,0 +1,38 @@
+import { Migration, addColumn, dropColumn } from './helpers';
+
+// Named key pools and per-minute limits of each key
+const migration: Migration = {
+  version: 4,
+  name: 'key_pools_and_limits',
+
+  async up(db) {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS key_pools (
+        _id TEXT PRIMARY KEY,
+        name TEXT NOT NULL${db.dialect === 'sqlite' ? ' UNIQUE COLLATE NOCASE' : ''},
+        keySelectionStrategy TEXT, -- NULL means the global setting
+        parallelKeyCount INTEGER, -- NULL means the global setting
+        keyRotationRequestCount INTEGER, -- NULL means the global setting
+        models TEXT, -- JSON array of model names routed to this pool
+        createdAt TEXT NOT NULL -- ISO 8601 date string
+      );
+    `);
+    if (db.dialect === 'postgres') {
+      // Pool names are unique regardless of case, like COLLATE NOCASE in sqlite
+      await db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_key_pools_name ON key_pools (LOWER(name));`);
+    }
+
+    await addColumn(db, 'api_keys', 'rpmLimit', 'INTEGER'); // Requests per minute, NULL means no limit
+    await addColumn(db, 'api_keys', 'tpmLimit', 'INTEGER'); // Tokens per minute, NULL means no limit
+    await addColumn(db, 'api_keys', 'poolId', 'TEXT'); // key_pools._id, NULL means the default pool
+  },
+
+  async down(db) {
+    await dropColumn(db, 'api_keys', 'poolId');
+    await dropColumn(db, 'api_keys', 'tpmLimit');
+    await dropColumn(db, 'api_keys', 'rpmLimit');
+    await db.exec('DROP TABLE IF EXISTS key_pools;');
+  },
+};
+
+export default migration;
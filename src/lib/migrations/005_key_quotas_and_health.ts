@@ -0,0 +1,56 @@
+import { Migration, addColumn, columnTypes, dropColumn } from './helpers';
+
+// Per-model quotas, named 429 quotas, quota time zones and the health probe history of each key
+const migration: Migration = {
+  version: 5,
+  name: 'key_quotas_and_health',
+
+  async up(db) {
+    const { bool, references } = columnTypes(db.dialect);
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS key_model_usage (
+        apiKeyId TEXT NOT NULL,
+        model TEXT NOT NULL, -- Normalized model name (without 'models/' prefix)
+        dailyRateLimit INTEGER, -- NULL means no per-model limit
+        dailyRequestsUsed INTEGER NOT NULL DEFAULT 0,
+        lastResetDate TEXT, -- ISO 8601 date string
+        rateLimitResetAt TEXT, -- ISO 8601 date string
+        isDisabledByRateLimit ${bool(false)},
+        rateLimitQuota TEXT, -- Quota named by the last 429 for this model
+        PRIMARY KEY (apiKeyId, model)
+        ${references('FOREIGN KEY (apiKeyId) REFERENCES api_keys(_id) ON DELETE CASCADE')}
+      );
+    `);
+    await addColumn(db, 'key_model_usage', 'rateLimitQuota', 'TEXT');
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS key_probes (
+        _id TEXT PRIMARY KEY,
+        apiKeyId TEXT NOT NULL,
+        timestamp TEXT NOT NULL, -- ISO 8601 date string
+        outcome TEXT NOT NULL, -- 'healthy', 'failed' or 'revoked'
+        statusCode INTEGER, -- Upstream status, NULL on network errors
+        message TEXT,
+        responseTime INTEGER, -- Milliseconds
+        action TEXT -- What the probe changed: 'restored', 'revoked' or NULL
+        ${references('FOREIGN KEY (apiKeyId) REFERENCES api_keys(_id) ON DELETE CASCADE')}
+      );
+    `);
+    await db.exec(`CREATE INDEX IF NOT EXISTS idx_key_probes_apiKeyId_timestamp ON key_probes (apiKeyId, timestamp);`);
+
+    await addColumn(db, 'api_keys', 'isRevoked', bool(false)); // Rejected as invalid by a health probe
+    await addColumn(db, 'api_keys', 'rateLimitQuota', 'TEXT'); // Quota named by the last 429
+    await addColumn(db, 'api_keys', 'quotaResetTimezone', 'TEXT'); // NULL means the global setting
+  },
+
+  async down(db) {
+    await dropColumn(db, 'api_keys', 'quotaResetTimezone');
+    await dropColumn(db, 'api_keys', 'rateLimitQuota');
+    await dropColumn(db, 'api_keys', 'isRevoked');
+    await db.exec('DROP TABLE IF EXISTS key_probes;');
+    await db.exec('DROP TABLE IF EXISTS key_model_usage;');
+  },
+};
+
+export default migration;
@@ -0,0 +1,55 @@
+import { Migration, addColumn, columnTypes, dropColumn } from './helpers';
+
+// State shared by all balancer instances (see services/coordination.ts) and the settings version
+const migration: Migration = {
+  version: 6,
+  name: 'coordination',
+
+  async up(db) {
+    const { epochMs } = columnTypes(db.dialect);
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS key_minute_usage (
+        apiKeyId TEXT NOT NULL,
+        at ${epochMs} NOT NULL, -- Epoch ms
+        requests INTEGER NOT NULL DEFAULT 0, -- 1 for a leased request, -1 for a released one, 0 for a token report
+        tokens INTEGER NOT NULL DEFAULT 0
+      );
+    `);
+    await db.exec(`CREATE INDEX IF NOT EXISTS idx_key_minute_usage_apiKeyId_at ON key_minute_usage (apiKeyId, at);`);
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS key_rotation (
+        apiKeyId TEXT PRIMARY KEY, -- Key currently in rotation
+        poolId TEXT, -- Pool whose rotation the key belongs to, NULL for the default pool
+        requestCounter INTEGER NOT NULL DEFAULT 0, -- Requests served since the key entered rotation
+        enteredAt TEXT NOT NULL -- ISO 8601 date string
+      );
+    `);
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS coordination_counters (
+        name TEXT PRIMARY KEY,
+        value INTEGER NOT NULL DEFAULT 0
+      );
+    `);
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS coordination_locks (
+        name TEXT PRIMARY KEY,
+        owner TEXT NOT NULL, -- Instance ID holding the lock
+        expiresAt ${epochMs} NOT NULL -- Epoch ms
+      );
+    `);
+
+    // Bumped on every write so other instances reload their cache
+    await addColumn(db, 'settings', 'version', 'INTEGER NOT NULL DEFAULT 0');
+  },
+
+  async down(db) {
+    await dropColumn(db, 'settings', 'version');
+    await db.exec('DROP TABLE IF EXISTS coordination_locks;');
+    await db.exec('DROP TABLE IF EXISTS coordination_counters;');
+    await db.exec('DROP TABLE IF EXISTS key_rotation;');
+    await db.exec('DROP TABLE IF EXISTS key_minute_usage;');
+  },
+};
+
+export default migration;
@@ -0,0 +1,41 @@
+import { Migration, addColumn, columnTypes, dropColumn } from './helpers';
+
+// Ties request logs to the requestId of the proxy request and records every upstream attempt
+const migration: Migration = {
+  version: 7,
+  name: 'request_tracing',
+
+  async up(db) {
+    const { references } = columnTypes(db.dialect);
+
+    await addColumn(db, 'request_logs', 'requestId', 'TEXT'); // Also sent as X-Request-Id, NULL for older rows
+    await db.exec(`CREATE INDEX IF NOT EXISTS idx_request_logs_requestId ON request_logs (requestId);`);
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS request_attempts (
+        _id TEXT PRIMARY KEY,
+        requestId TEXT NOT NULL,
+        attempt INTEGER NOT NULL, -- 1-based, counted across fallback models
+        apiKeyId TEXT NOT NULL,
+        model TEXT,
+        poolId TEXT, -- NULL for the default pool
+        timestamp TEXT NOT NULL, -- ISO 8601, when the attempt was sent
+        statusCode INTEGER, -- Upstream status, NULL when no response arrived
+        latency INTEGER, -- Milliseconds until the response (or the first chunk of a stream)
+        errorClass TEXT, -- 'key-fatal', 'key-transient', 'upstream-transient' or 'client-error', NULL on success
+        errorMessage TEXT
+        ${references('FOREIGN KEY (apiKeyId) REFERENCES api_keys(_id) ON DELETE CASCADE')}
+      );
+    `);
+    await db.exec(`CREATE INDEX IF NOT EXISTS idx_request_attempts_requestId ON request_attempts (requestId);`);
+    await db.exec(`CREATE INDEX IF NOT EXISTS idx_request_attempts_timestamp ON request_attempts (timestamp);`);
+  },
+
+  async down(db) {
+    await db.exec('DROP TABLE IF EXISTS request_attempts;');
+    await db.exec('DROP INDEX IF EXISTS idx_request_logs_requestId;');
+    await dropColumn(db, 'request_logs', 'requestId');
+  },
+};
+
+export default migration;
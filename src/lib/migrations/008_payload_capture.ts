@@ -0,0 +1,39 @@
+import { Migration, addColumn, columnTypes, dropColumn } from './helpers';
+
+// Opt-in capture of request and response payloads, and the per-client-key capture rate
+const migration: Migration = {
+  version: 8,
+  name: 'payload_capture',
+
+  async up(db) {
+    const { bool } = columnTypes(db.dialect);
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS request_payloads (
+        _id TEXT PRIMARY KEY,
+        requestId TEXT NOT NULL,
+        clientKeyId TEXT, -- NULL for the master key or open access
+        model TEXT,
+        statusCode INTEGER NOT NULL, -- Status returned to the client
+        timestamp TEXT NOT NULL, -- ISO 8601 date string
+        expiresAt TEXT NOT NULL, -- ISO 8601 date string, the row is deleted afterwards
+        requestBody TEXT, -- Redacted JSON
+        responseBody TEXT, -- Redacted JSON, or the assembled text of a stream
+        isStreamed ${bool(false)},
+        isTruncated ${bool(false)} -- A body was cut to the size limit
+      );
+    `);
+    await db.exec(`CREATE INDEX IF NOT EXISTS idx_request_payloads_requestId ON request_payloads (requestId);`);
+    await db.exec(`CREATE INDEX IF NOT EXISTS idx_request_payloads_expiresAt ON request_payloads (expiresAt);`);
+
+    // Share of the client's requests to capture (0-1), NULL follows the global setting
+    await addColumn(db, 'client_keys', 'payloadCaptureRate', 'REAL');
+  },
+
+  async down(db) {
+    await dropColumn(db, 'client_keys', 'payloadCaptureRate');
+    await db.exec('DROP TABLE IF EXISTS request_payloads;');
+  },
+};
+
+export default migration;
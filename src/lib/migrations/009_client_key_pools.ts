@@ -0,0 +1,18 @@
+import { Migration, addColumn, dropColumn } from './helpers';
+
+// Pool assignment of client keys: a client is served from its own pool, whatever X-Key-Pool says
+const migration: Migration = {
+  version: 9,
+  name: 'client_key_pools',
+
+  async up(db) {
+    // KeyPool._id, NULL routes the client's requests by model to any pool
+    await addColumn(db, 'client_keys', 'poolId', 'TEXT');
+  },
+
+  async down(db) {
+    await dropColumn(db, 'client_keys', 'poolId');
+  },
+};
+
+export default migration;
@@ -0,0 +1,105 @@
+import type { Dialect, StorageDatabase } from '../storage/types';
+
+// A numbered schema change. `up` must tolerate databases that already have its tables and columns:
+// installs from before versioned migrations were created by CREATE TABLE IF NOT EXISTS and ensureColumn.
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: StorageDatabase): Promise<void>;
+  down(db: StorageDatabase): Promise<void>;
+}
+
+// Column definitions that differ between the backends; the tables are otherwise identical
+export function columnTypes(dialect: Dialect) {
+  const postgres = dialect === 'postgres';
+  return {
+    // Booleans are stored as 0/1 in both databases
+    bool: (defaultValue: boolean) => postgres
+      ? `SMALLINT NOT NULL DEFAULT ${defaultValue ? 1 : 0}`
+      : `BOOLEAN NOT NULL DEFAULT ${defaultValue ? 'TRUE' : 'FALSE'}`,
+    epochMs: postgres ? 'BIGINT' : 'INTEGER',
+    // sqlite does not enforce foreign keys (and logs reference 'N/A' keys), so Postgres skips them too
+    references: (clause: string) => postgres ? '' : `, ${clause}`,
+  };
+}
+
+export async function hasColumn(db: StorageDatabase, table: string, column: string): Promise<boolean> {
+  if (db.dialect === 'postgres') {
+    // camelCase column names are quoted by the Postgres backend, so they keep their case
+    const row = await db.get(
+      'SELECT 1 AS found FROM information_schema.columns WHERE table_schema = current_schema() AND table_name = ? AND column_name = ?',
+      table.toLowerCase(),
+      column
+    );
+    return !!row;
+  }
+  const columns = await db.all<{ name: string }[]>(`PRAGMA table_info(${table})`);
+  return columns.some(c => c.name === column);
+}
+
+// Adds a column unless it already exists
+export async function addColumn(db: StorageDatabase, table: string, column: string, definition: string) {
+  if (!(await hasColumn(db, table, column))) {
+    await db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+// Drops a column if it exists (indexes on it must be dropped first)
+export async function dropColumn(db: StorageDatabase, table: string, column: string) {
+  if (await hasColumn(db, table, column)) {
+    if (db.dialect === 'sqlite') await stripSqliteComments(db, table);
+    await db.exec(`ALTER TABLE ${table} DROP COLUMN ${column}`);
+  }
+}
+
+// sqlite's DROP COLUMN edits the stored CREATE TABLE text and fails on the trailing `--` comments
+// that tables created before versioned migrations have. Rebuilds such a table once without them.
+async function stripSqliteComments(db: StorageDatabase, table: string) {
+  const row = await db.get<{ sql: string }>(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?`, table);
+  if (!row || !row.sql.includes('--')) return;
+  const indexes = await db.all<{ sql: string }[]>(
+    `SELECT sql FROM sqlite_master WHERE type = 'index' AND tbl_name = ? AND sql IS NOT NULL`,
+    table
+  );
+  const rebuilt = `${table}_rebuild`;
+  const createSql = row.sql
+    .replace(/--[^\n]*/g, '')
+    .replace(/^CREATE TABLE\s+("?)\w+\1/i, `CREATE TABLE ${rebuilt}`);
+
+  await db.exec(createSql);
+  await db.exec(`INSERT INTO ${rebuilt} SELECT * FROM ${table}`);
+  await db.exec(`DROP TABLE ${table}`);
+  await db.exec(`ALTER TABLE ${rebuilt} RENAME TO ${table}`);
+  for (const index of indexes) await db.exec(index.sql);
+}
+
+// camelCase columns of the databases that were created on Postgres before camelCase identifiers were
+// quoted, where they were folded to lower case. New columns keep their case, so this list is final.
+const FOLDED_POSTGRES_COLUMNS = [
+  'allowedModels', 'apiKeyId', 'appliedAt', 'clientKeyId', 'completionTokens', 'createdAt', 'dailyRateLimit',
+  'dailyRequestLimit', 'dailyRequestsUsed', 'dailyTokenLimit', 'dailyTokensUsed', 'enteredAt', 'errorClass',
+  'errorMessage', 'errorType', 'expiresAt', 'failureCount', 'ipAddress', 'isActive', 'isDisabledByRateLimit',
+  'isEnabled', 'isError', 'isRevoked', 'isStreamed', 'isTruncated', 'keyHash', 'keyPrefix', 'keyRotationRequestCount',
+  'keySelectionStrategy', 'lastResetDate', 'lastUsed', 'modelUsed', 'parallelKeyCount', 'payloadCaptureRate',
+  'poolId', 'promptTokens', 'quotaResetTimezone', 'rateLimitQuota', 'rateLimitResetAt', 'requestBody',
+  'requestCount', 'requestCounter', 'requestId', 'requestedModel', 'responseBody', 'responseTime', 'rpmLimit',
+  'statusCode', 'totalTokens', 'tpmLimit',
+];
+
+// Gives the folded columns of such a database their camelCase names back. Runs before the migrations
+// on every start (a single catalog query once nothing is left to rename).
+export async function restoreFoldedColumnNames(db: StorageDatabase) {
+  if (db.dialect !== 'postgres') return;
+  const byFoldedName = new Map(FOLDED_POSTGRES_COLUMNS.map(column => [column.toLowerCase(), column]));
+  const findFolded = async () => (await db.all<{ tableName: string; columnName: string }[]>(
+    'SELECT table_name AS tableName, column_name AS columnName FROM information_schema.columns WHERE table_schema = current_schema()'
+  )).filter(row => byFoldedName.has(row.columnName));
+  if ((await findFolded()).length === 0) return;
+
+  await db.transaction(async () => {
+    await db.get(`SELECT pg_advisory_xact_lock(hashtext('schema_migrations'))`);
+    for (const { tableName, columnName } of await findFolded()) { // Again under the lock: another instance may have renamed them
+      await db.exec(`ALTER TABLE ${tableName} RENAME COLUMN ${columnName} TO ${byFoldedName.get(columnName)}`);
+    }
+  });
+}
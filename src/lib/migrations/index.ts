@@ -0,0 +1,135 @@
+import type { StorageDatabase } from '../storage/types';
+import type { Migration } from './helpers';
+import { restoreFoldedColumnNames } from './helpers';
+import initialSchema from './001_initial_schema';
+import requestLogDetails from './002_request_log_details';
+import clientKeys from './003_client_keys';
+import keyPoolsAndLimits from './004_key_pools_and_limits';
+import keyQuotasAndHealth from './005_key_quotas_and_health';
+import coordination from './006_coordination';
+import requestTracing from './007_request_tracing';
+import payloadCapture from './008_payload_capture';
+import clientKeyPools from './009_client_key_pools';
+
+// Every schema change, in order. New migrations get the next number and are appended here;
+// applied migrations are never edited, since existing databases will not run them again.
+export const MIGRATIONS: Migration[] = [
+  initialSchema,
+  requestLogDetails,
+  clientKeys,
+  keyPoolsAndLimits,
+  keyQuotasAndHealth,
+  coordination,
+  requestTracing,
+  payloadCapture,
+  clientKeyPools,
+];
+
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: string | null; // ISO 8601 date string, null while pending
+  known: boolean; // false for versions applied by a newer build that this build does not ship
+}
+
+async function ensureMigrationsTable(db: StorageDatabase) {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      appliedAt TEXT NOT NULL -- ISO 8601 date string
+    );
+  `);
+  await restoreFoldedColumnNames(db);
+}
+
+async function getAppliedVersions(db: StorageDatabase): Promise<Map<number, { name: string; appliedAt: string }>> {
+  await ensureMigrationsTable(db);
+  const rows = await db.all<{ version: number; name: string; appliedAt: string }[]>(
+    'SELECT version, name, appliedAt FROM schema_migrations ORDER BY version ASC'
+  );
+  return new Map(rows.map(row => [row.version, { name: row.name, appliedAt: row.appliedAt }]));
+}
+
+// Runs one migration step in its own transaction. The write lock is taken up front and the
+// migration table re-checked, so instances starting at the same time apply each step only once.
+async function runStep(db: StorageDatabase, migration: Migration, direction: 'up' | 'down'): Promise<boolean> {
+  return await db.transaction(async () => {
+    if (db.dialect === 'postgres') {
+      await db.get(`SELECT pg_advisory_xact_lock(hashtext('schema_migrations'))`);
+    }
+    const applied = !!(await db.get('SELECT version FROM schema_migrations WHERE version = ?', migration.version));
+    if (applied === (direction === 'up')) return false; // Another instance got there first
+
+    await migration[direction](db);
+    if (direction === 'up') {
+      await db.run(
+        'INSERT INTO schema_migrations (version, name, appliedAt) VALUES (?, ?, ?)',
+        migration.version, migration.name, new Date().toISOString()
+      );
+    } else {
+      await db.run('DELETE FROM schema_migrations WHERE version = ?', migration.version);
+    }
+    return true;
+  });
+}
+
+export async function getMigrationStatus(db: StorageDatabase): Promise<MigrationStatus[]> {
+  const applied = await getAppliedVersions(db);
+  const status: MigrationStatus[] = MIGRATIONS.map(migration => ({
+    version: migration.version,
+    name: migration.name,
+    appliedAt: applied.get(migration.version)?.appliedAt ?? null,
+    known: true,
+  }));
+  for (const [version, row] of applied) {
+    if (!MIGRATIONS.some(migration => migration.version === version)) {
+      status.push({ version, name: row.name, appliedAt: row.appliedAt, known: false });
+    }
+  }
+  return status.sort((a, b) => a.version - b.version);
+}
+
+// Applies the pending migrations up to targetVersion (default: all). Returns the applied ones.
+export async function migrateUp(db: StorageDatabase, targetVersion: number = LATEST_VERSION): Promise<Migration[]> {
+  const applied = await getAppliedVersions(db);
+  const newer = [...applied.keys()].filter(version => version > LATEST_VERSION);
+  if (newer.length > 0) {
+    console.warn(`Database has migrations this build does not know (${newer.join(', ')}); it was migrated by a newer version.`);
+  }
+
+  const done: Migration[] = [];
+  for (const migration of MIGRATIONS) {
+    if (migration.version > targetVersion || applied.has(migration.version)) continue;
+    if (await runStep(db, migration, 'up')) {
+      console.log(`Applied migration ${formatMigration(migration)}`);
+      done.push(migration);
+    }
+  }
+  return done;
+}
+
+// Rolls back the applied migrations above targetVersion, newest first. Returns the rolled back ones.
+export async function migrateDown(db: StorageDatabase, targetVersion: number): Promise<Migration[]> {
+  const applied = await getAppliedVersions(db);
+  const unknown = [...applied.keys()].filter(version => version > targetVersion && !MIGRATIONS.some(m => m.version === version));
+  if (unknown.length > 0) {
+    throw new Error(`Cannot roll back migrations ${unknown.join(', ')}: they are not part of this build`);
+  }
+
+  const done: Migration[] = [];
+  for (const migration of [...MIGRATIONS].reverse()) {
+    if (migration.version <= targetVersion || !applied.has(migration.version)) continue;
+    if (await runStep(db, migration, 'down')) {
+      console.log(`Rolled back migration ${formatMigration(migration)}`);
+      done.push(migration);
+    }
+  }
+  return done;
+}
+
+export function formatMigration(migration: Pick<Migration, 'version' | 'name'>): string {
+  return `${String(migration.version).padStart(3, '0')}_${migration.name}`;
+}
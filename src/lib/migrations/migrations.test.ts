@@ -0,0 +1,39 @@
+import { describe, expect, test } from 'bun:test';
+import { connectDatabase, getDb } from '../db';
+import { LATEST_VERSION, MIGRATIONS, getMigrationStatus, migrateDown, migrateUp } from './index';
+import { hasColumn } from './helpers';
+
+// Runs on the backend the suite was started with (see src/test/setup.ts)
+describe('migrations', () => {
+  test('bring a fresh database to the latest version', async () => {
+    const db = await getDb();
+    const status = await getMigrationStatus(db);
+    expect(status.map(migration => migration.version)).toEqual(MIGRATIONS.map(migration => migration.version));
+    expect(status.every(migration => migration.appliedAt !== null)).toBe(true);
+    expect(await hasColumn(db, 'client_keys', 'poolId')).toBe(true);
+  });
+
+  test('roll back to any version and apply again', async () => {
+    const db = await getDb();
+    const rolledBack = await migrateDown(db, 0);
+    expect(rolledBack.map(migration => migration.version)).toEqual(MIGRATIONS.map(migration => migration.version).reverse());
+    expect(await hasColumn(db, 'api_keys', 'isActive')).toBe(false);
+
+    const applied = await migrateUp(db, LATEST_VERSION);
+    expect(applied).toHaveLength(MIGRATIONS.length);
+    expect(await hasColumn(db, 'api_keys', 'isActive')).toBe(true);
+  });
+
+  test('apply each step once when instances migrate at the same time', async () => {
+    const db = await getDb();
+    await migrateDown(db, 5);
+    const other = await connectDatabase();
+    try {
+      const [first, second] = await Promise.all([migrateUp(db), migrateUp(other)]);
+      expect(first.length + second.length).toBe(MIGRATIONS.length - 5);
+    } finally {
+      await other.close();
+    }
+    expect((await getMigrationStatus(db)).every(migration => migration.appliedAt !== null)).toBe(true);
+  });
+});
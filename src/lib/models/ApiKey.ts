@@ -1,5 +1,6 @@
 import { getDb } from '../db'; // Import the database connection function
 import { v4 as uuidv4 } from 'uuid'; // For generating IDs if needed
+import { isValidTimeZone } from '../utils/quotaDay';
 
 // Define the ApiKey interface (matches the table schema)
 export interface ApiKeyData {
@@ -15,6 +16,12 @@ export interface ApiKeyData {
   dailyRequestsUsed: number;
   lastResetDate: string | null;
   isDisabledByRateLimit: boolean;
+  rpmLimit?: number | null; // Requests per minute, null means no limit
+  tpmLimit?: number | null; // Tokens per minute, null means no limit
+  poolId?: string | null; // KeyPool._id, null means the default pool
+  isRevoked?: boolean; // Rejected as invalid by a health probe; cleared when the key is re-enabled manually
+  rateLimitQuota?: string | null; // Quota named by the last 429 (e.g. a per-day quota), null if none was given
+  quotaResetTimezone?: string | null; // Time zone of the daily reset, null means Settings.quotaResetTimezone
 }
 
 // Helper to convert DB result (0/1) to boolean
@@ -27,6 +34,19 @@ function booleanToDb(value: boolean): number {
   return value ? 1 : 0;
 }
 
+function fromRow(row: ApiKeyData): ApiKey {
+  return new ApiKey({
+    ...row,
+    isActive: dbToBoolean(row.isActive),
+    isDisabledByRateLimit: dbToBoolean(row.isDisabledByRateLimit),
+    isRevoked: dbToBoolean(row.isRevoked),
+  });
+}
+
+// Columns ApiKey.patch() may change
+const PATCHABLE_COLUMNS = ['isActive', 'rateLimitResetAt', 'failureCount', 'isDisabledByRateLimit', 'isRevoked', 'rateLimitQuota'] as const;
+type PatchableColumn = typeof PATCHABLE_COLUMNS[number];
+
 
 export class ApiKey implements ApiKeyData {
   _id: string;
@@ -41,6 +61,12 @@ export class ApiKey implements ApiKeyData {
   dailyRequestsUsed: number;
   lastResetDate: string | null;
   isDisabledByRateLimit: boolean;
+  rpmLimit?: number | null;
+  tpmLimit?: number | null;
+  poolId?: string | null;
+  isRevoked: boolean;
+  rateLimitQuota?: string | null;
+  quotaResetTimezone?: string | null;
 
   constructor(data: ApiKeyData) {
     this._id = data._id;
@@ -55,6 +81,17 @@ export class ApiKey implements ApiKeyData {
     this.dailyRequestsUsed = data.dailyRequestsUsed;
     this.lastResetDate = data.lastResetDate;
     this.isDisabledByRateLimit = data.isDisabledByRateLimit;
+    this.rpmLimit = data.rpmLimit;
+    this.tpmLimit = data.tpmLimit;
+    this.poolId = data.poolId;
+    this.isRevoked = data.isRevoked ?? false;
+    this.rateLimitQuota = data.rateLimitQuota;
+    this.quotaResetTimezone = data.quotaResetTimezone;
+  }
+
+  // Time zone whose midnight resets this key's daily counters (an unknown override falls back to the default)
+  getQuotaTimeZone(defaultTimeZone: string): string {
+    return isValidTimeZone(this.quotaResetTimezone) ? this.quotaResetTimezone : defaultTimeZone;
   }
 
   // Static method to find one key by query object
@@ -86,6 +123,7 @@ export class ApiKey implements ApiKeyData {
         ...row,
         isActive: dbToBoolean(row.isActive),
         isDisabledByRateLimit: dbToBoolean(row.isDisabledByRateLimit),
+        isRevoked: dbToBoolean(row.isRevoked),
     });
   }
 
@@ -132,9 +170,84 @@ export class ApiKey implements ApiKeyData {
         ...row,
         isActive: dbToBoolean(row.isActive),
         isDisabledByRateLimit: dbToBoolean(row.isDisabledByRateLimit),
+        isRevoked: dbToBoolean(row.isRevoked),
     }));
   }
 
+  // Static method to find the keys with the given IDs (missing IDs are skipped)
+  static async findByIds(ids: string[]): Promise<ApiKey[]> {
+    if (ids.length === 0) return [];
+    const db = await getDb();
+    const rows = await db.all<ApiKeyData[]>(
+      `SELECT * FROM api_keys WHERE _id IN (${ids.map(() => '?').join(', ')})`,
+      ids
+    );
+    return rows.map(fromRow);
+  }
+
+  // The methods below change single columns in place instead of writing back a whole (possibly stale)
+  // instance, so concurrent updates from other balancer instances are never lost.
+
+  // Counts a successful request. Returns the updated key, or null if it no longer exists.
+  static async recordUse(id: string, usedAt: string): Promise<ApiKey | null> {
+    const db = await getDb();
+    const row = await db.get<ApiKeyData>(
+      `UPDATE api_keys SET lastUsed = ?, requestCount = requestCount + 1, dailyRequestsUsed = dailyRequestsUsed + 1
+       WHERE _id = ? RETURNING *`,
+      usedAt,
+      id
+    );
+    return row ? fromRow(row) : null;
+  }
+
+  // Counts a failed request. Returns the new failure count, or null if the key no longer exists.
+  static async incrementFailureCount(id: string): Promise<number | null> {
+    const db = await getDb();
+    const row = await db.get<{ failureCount: number }>(
+      'UPDATE api_keys SET failureCount = failureCount + 1 WHERE _id = ? RETURNING failureCount',
+      id
+    );
+    return row ? row.failureCount : null;
+  }
+
+  // Updates the given status columns of a key and of this instance
+  async patch(changes: Partial<Pick<ApiKeyData, PatchableColumn>>): Promise<ApiKey> {
+    const columns = PATCHABLE_COLUMNS.filter(column => changes[column] !== undefined);
+    if (columns.length === 0) return this;
+    const db = await getDb();
+    await db.run(
+      `UPDATE api_keys SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE _id = ?`,
+      ...columns.map(column => {
+        const value = changes[column];
+        return typeof value === 'boolean' ? booleanToDb(value) : value;
+      }),
+      this._id
+    );
+    Object.assign(this, changes);
+    return this;
+  }
+
+  // Starts a new quota day: clears the daily usage unless another instance already did.
+  // Returns true if this call performed the reset.
+  async resetDailyUsage(now: string): Promise<boolean> {
+    const db = await getDb();
+    const previous = this.lastResetDate ?? null;
+    const result = await db.run(
+      `UPDATE api_keys SET dailyRequestsUsed = 0, isDisabledByRateLimit = 0, lastResetDate = ?
+       WHERE _id = ? AND ${previous === null ? 'lastResetDate IS NULL' : 'lastResetDate = ?'}`,
+      now,
+      this._id,
+      ...(previous === null ? [] : [previous])
+    );
+    const didReset = (result.changes ?? 0) > 0;
+    if (didReset) {
+      this.dailyRequestsUsed = 0;
+      this.isDisabledByRateLimit = false;
+      this.lastResetDate = now;
+    }
+    return didReset;
+  }
+
   // Static method to create a new key
   static async create(data: Partial<ApiKeyData>): Promise<ApiKey> {
     const db = await getDb();
@@ -152,13 +265,19 @@ export class ApiKey implements ApiKeyData {
       dailyRequestsUsed: data.dailyRequestsUsed ?? 0,
       lastResetDate: data.lastResetDate || null,
       isDisabledByRateLimit: data.isDisabledByRateLimit ?? false,
+      rpmLimit: data.rpmLimit === undefined ? null : data.rpmLimit,
+      tpmLimit: data.tpmLimit === undefined ? null : data.tpmLimit,
+      poolId: data.poolId ?? null,
+      isRevoked: data.isRevoked ?? false,
+      rateLimitQuota: data.rateLimitQuota ?? null,
+      quotaResetTimezone: data.quotaResetTimezone ?? null,
     };
 
     if (!keyData.key) throw new Error("API key value cannot be empty");
 
     await db.run(
-      `INSERT INTO api_keys (_id, key, name, isActive, lastUsed, rateLimitResetAt, failureCount, requestCount, dailyRateLimit, dailyRequestsUsed, lastResetDate, isDisabledByRateLimit)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO api_keys (_id, key, name, isActive, lastUsed, rateLimitResetAt, failureCount, requestCount, dailyRateLimit, dailyRequestsUsed, lastResetDate, isDisabledByRateLimit, rpmLimit, tpmLimit, poolId, isRevoked, rateLimitQuota, quotaResetTimezone)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       keyData._id,
       keyData.key,
       keyData.name,
@@ -170,7 +289,13 @@ export class ApiKey implements ApiKeyData {
       keyData.dailyRateLimit,
       keyData.dailyRequestsUsed,
       keyData.lastResetDate,
-      booleanToDb(keyData.isDisabledByRateLimit)
+      booleanToDb(keyData.isDisabledByRateLimit),
+      keyData.rpmLimit,
+      keyData.tpmLimit,
+      keyData.poolId,
+      booleanToDb(keyData.isRevoked ?? false),
+      keyData.rateLimitQuota,
+      keyData.quotaResetTimezone
     );
 
     return new ApiKey(keyData);
@@ -181,7 +306,7 @@ export class ApiKey implements ApiKeyData {
     const db = await getDb();
     await db.run(
       `UPDATE api_keys
-       SET key = ?, name = ?, isActive = ?, lastUsed = ?, rateLimitResetAt = ?, failureCount = ?, requestCount = ?, dailyRateLimit = ?, dailyRequestsUsed = ?, lastResetDate = ?, isDisabledByRateLimit = ?
+       SET key = ?, name = ?, isActive = ?, lastUsed = ?, rateLimitResetAt = ?, failureCount = ?, requestCount = ?, dailyRateLimit = ?, dailyRequestsUsed = ?, lastResetDate = ?, isDisabledByRateLimit = ?, rpmLimit = ?, tpmLimit = ?, poolId = ?, isRevoked = ?, rateLimitQuota = ?, quotaResetTimezone = ?
        WHERE _id = ?`,
       this.key,
       this.name,
@@ -194,6 +319,12 @@ export class ApiKey implements ApiKeyData {
       this.dailyRequestsUsed,
       this.lastResetDate,
       booleanToDb(this.isDisabledByRateLimit),
+      this.rpmLimit ?? null,
+      this.tpmLimit ?? null,
+      this.poolId ?? null,
+      booleanToDb(this.isRevoked),
+      this.rateLimitQuota ?? null,
+      this.quotaResetTimezone ?? null,
       this._id
     );
     return this; // Return the instance
@@ -202,12 +333,15 @@ export class ApiKey implements ApiKeyData {
   // Instance method to delete the current key
   async delete(): Promise<void> {
     const db = await getDb();
+    await db.run('DELETE FROM key_model_usage WHERE apiKeyId = ?', this._id);
     await db.run('DELETE FROM api_keys WHERE _id = ?', this._id);
   }
 
   // Static method to delete a key by ID
   static async deleteById(id: string): Promise<boolean> {
     const db = await getDb();
+    await db.run('DELETE FROM key_model_usage WHERE apiKeyId = ?', id);
+    await db.run('DELETE FROM key_probes WHERE apiKeyId = ?', id);
     const result = await db.run('DELETE FROM api_keys WHERE _id = ?', id);
     return result.changes !== undefined && result.changes > 0; // Return true if a row was deleted
   }
@@ -220,29 +354,34 @@ export class ApiKey implements ApiKeyData {
 
     const db = await getDb();
     try {
-      await db.run('BEGIN TRANSACTION');
-      for (const keyInstance of updatedKeysMap.values()) {
-        await db.run(
-          `UPDATE api_keys
-           SET key = ?, name = ?, isActive = ?, lastUsed = ?, rateLimitResetAt = ?, failureCount = ?, requestCount = ?, dailyRateLimit = ?, dailyRequestsUsed = ?, lastResetDate = ?, isDisabledByRateLimit = ?
-           WHERE _id = ?`,
-          keyInstance.key,
-          keyInstance.name,
-          booleanToDb(keyInstance.isActive),
-          keyInstance.lastUsed,
-          keyInstance.rateLimitResetAt,
-          keyInstance.failureCount,
-          keyInstance.requestCount,
-          keyInstance.dailyRateLimit,
-          keyInstance.dailyRequestsUsed,
-          keyInstance.lastResetDate,
-          booleanToDb(keyInstance.isDisabledByRateLimit),
-          keyInstance._id
-        );
-      }
-      await db.run('COMMIT');
+      await db.transaction(async () => {
+        for (const keyInstance of updatedKeysMap.values()) {
+          await db.run(
+            `UPDATE api_keys
+             SET key = ?, name = ?, isActive = ?, lastUsed = ?, rateLimitResetAt = ?, failureCount = ?, requestCount = ?, dailyRateLimit = ?, dailyRequestsUsed = ?, lastResetDate = ?, isDisabledByRateLimit = ?, rpmLimit = ?, tpmLimit = ?, poolId = ?, isRevoked = ?, rateLimitQuota = ?, quotaResetTimezone = ?
+             WHERE _id = ?`,
+            keyInstance.key,
+            keyInstance.name,
+            booleanToDb(keyInstance.isActive),
+            keyInstance.lastUsed,
+            keyInstance.rateLimitResetAt,
+            keyInstance.failureCount,
+            keyInstance.requestCount,
+            keyInstance.dailyRateLimit,
+            keyInstance.dailyRequestsUsed,
+            keyInstance.lastResetDate,
+            booleanToDb(keyInstance.isDisabledByRateLimit),
+            keyInstance.rpmLimit ?? null,
+            keyInstance.tpmLimit ?? null,
+            keyInstance.poolId ?? null,
+            booleanToDb(keyInstance.isRevoked),
+            keyInstance.rateLimitQuota ?? null,
+            keyInstance.quotaResetTimezone ?? null,
+            keyInstance._id
+          );
+        }
+      });
     } catch (error) {
-      await db.run('ROLLBACK'); // Rollback on error
       console.error("Bulk update failed:", error);
       throw error; // Re-throw the error
     }
@@ -0,0 +1,360 @@
+import { createHash, randomBytes } from 'crypto';
+import { getDb } from '../db';
+import { v4 as uuidv4 } from 'uuid';
+import { normalizeModelName } from './KeyModelUsage';
+
+// Define the ClientKey interface (matches the client_keys table schema)
+// A client key authenticates one consumer of the proxy; only a hash of the secret is stored.
+export interface ClientKeyData {
+  _id: string;
+  name: string;
+  keyHash: string; // SHA-256 of the secret
+  keyPrefix: string; // First characters of the secret, to recognise the key in the UI
+  isEnabled: boolean;
+  allowedModels: string[] | null; // Normalized model names, NULL means all models
+  dailyRequestLimit?: number | null; // NULL means no limit
+  dailyTokenLimit?: number | null; // NULL means no limit
+  dailyRequestsUsed: number;
+  dailyTokensUsed: number;
+  lastResetDate: string | null; // ISO 8601 date string
+  expiresAt: string | null; // ISO 8601 date string, NULL means the key never expires
+  lastUsed: string | null;
+  createdAt: string;
+  payloadCaptureRate?: number | null; // Share of requests whose payloads are captured (0-1), NULL follows the global setting
+  poolId?: string | null; // KeyPool._id serving all of the client's requests, NULL routes by model
+}
+
+// Raw row shape: booleans as 0/1, allowedModels as a JSON string
+type ClientKeyRow = Omit<ClientKeyData, 'isEnabled' | 'allowedModels'> & { isEnabled: number; allowedModels: string | null };
+
+const SECRET_PREFIX = 'glb-';
+
+// Helper to convert DB result (0/1) to boolean
+function dbToBoolean(value: any): boolean {
+  return value === 1;
+}
+
+// Helper to convert boolean to DB value (0/1)
+function booleanToDb(value: boolean): number {
+  return value ? 1 : 0;
+}
+
+// Helper to check if two date objects represent the same day in the server's local timezone
+function isSameLocalDay(date1: Date, date2: Date): boolean {
+  return (
+    date1.getFullYear() === date2.getFullYear() &&
+    date1.getMonth() === date2.getMonth() &&
+    date1.getDate() === date2.getDate()
+  );
+}
+
+// Secrets are long random strings, so a plain SHA-256 is enough to look them up without storing them
+export function hashClientSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+export class ClientKey implements ClientKeyData {
+  _id: string;
+  name: string;
+  keyHash: string;
+  keyPrefix: string;
+  isEnabled: boolean;
+  allowedModels: string[] | null;
+  dailyRequestLimit?: number | null;
+  dailyTokenLimit?: number | null;
+  dailyRequestsUsed: number;
+  dailyTokensUsed: number;
+  lastResetDate: string | null;
+  expiresAt: string | null;
+  lastUsed: string | null;
+  createdAt: string;
+  payloadCaptureRate?: number | null;
+  poolId?: string | null;
+
+  constructor(data: ClientKeyData) {
+    this._id = data._id;
+    this.name = data.name;
+    this.keyHash = data.keyHash;
+    this.keyPrefix = data.keyPrefix;
+    this.isEnabled = data.isEnabled;
+    this.allowedModels = data.allowedModels;
+    this.dailyRequestLimit = data.dailyRequestLimit;
+    this.dailyTokenLimit = data.dailyTokenLimit;
+    this.dailyRequestsUsed = data.dailyRequestsUsed;
+    this.dailyTokensUsed = data.dailyTokensUsed;
+    this.lastResetDate = data.lastResetDate;
+    this.expiresAt = data.expiresAt;
+    this.lastUsed = data.lastUsed;
+    this.createdAt = data.createdAt;
+    this.payloadCaptureRate = data.payloadCaptureRate;
+    this.poolId = data.poolId;
+  }
+
+  private static fromRow(row: ClientKeyRow): ClientKey {
+    let allowedModels: string[] | null = null;
+    if (row.allowedModels) {
+      try {
+        const parsed = JSON.parse(row.allowedModels);
+        allowedModels = Array.isArray(parsed) ? parsed : null;
+      } catch {
+        allowedModels = null; // Treat a corrupt value as "all models" rather than locking the client out
+      }
+    }
+    return new ClientKey({
+      ...row,
+      isEnabled: dbToBoolean(row.isEnabled),
+      allowedModels,
+    });
+  }
+
+  // Resets the daily counters in memory if the last reset was before today (local time).
+  // Returns true if anything changed and the row should be saved.
+  applyDailyReset(now: Date = new Date()): boolean {
+    const lastReset = this.lastResetDate ? new Date(this.lastResetDate) : null;
+    if (lastReset && isSameLocalDay(lastReset, now)) return false;
+    this.dailyRequestsUsed = 0;
+    this.dailyTokensUsed = 0;
+    this.lastResetDate = now.toISOString();
+    return true;
+  }
+
+  isExpired(now: Date = new Date()): boolean {
+    return !!this.expiresAt && new Date(this.expiresAt) <= now;
+  }
+
+  // Whether the client may call this model; requests without a model (e.g. listing models) are always allowed
+  allowsModel(model: string | null | undefined): boolean {
+    if (!this.allowedModels || this.allowedModels.length === 0) return true;
+    const normalized = normalizeModelName(model);
+    return !normalized || this.allowedModels.includes(normalized);
+  }
+
+  // Which daily quota is used up, if any. Assumes applyDailyReset() was called for today.
+  // Like TPM limits, the token quota only blocks once it has been reached.
+  getExceededQuota(): 'requests' | 'tokens' | null {
+    const requestLimit = this.dailyRequestLimit;
+    if (typeof requestLimit === 'number' && requestLimit > 0 && this.dailyRequestsUsed >= requestLimit) return 'requests';
+    const tokenLimit = this.dailyTokenLimit;
+    if (typeof tokenLimit === 'number' && tokenLimit > 0 && this.dailyTokensUsed >= tokenLimit) return 'tokens';
+    return null;
+  }
+
+  // Plain object for the admin API, without the secret hash
+  toPublicObject() {
+    return {
+      _id: this._id,
+      name: this.name,
+      keyPrefix: this.keyPrefix,
+      isEnabled: this.isEnabled,
+      isExpired: this.isExpired(),
+      allowedModels: this.allowedModels,
+      dailyRequestLimit: this.dailyRequestLimit ?? null,
+      dailyTokenLimit: this.dailyTokenLimit ?? null,
+      dailyRequestsUsed: this.dailyRequestsUsed,
+      dailyTokensUsed: this.dailyTokensUsed,
+      expiresAt: this.expiresAt,
+      lastUsed: this.lastUsed,
+      createdAt: this.createdAt,
+      payloadCaptureRate: this.payloadCaptureRate ?? null,
+      poolId: this.poolId ?? null,
+    };
+  }
+
+  // Static method to find all client keys
+  static async findAll(): Promise<ClientKey[]> {
+    const db = await getDb();
+    const rows = await db.all<ClientKeyRow[]>('SELECT * FROM client_keys ORDER BY createdAt ASC');
+    return rows.map(row => ClientKey.fromRow(row));
+  }
+
+  // Static method to find one client key by ID
+  static async findById(id: string): Promise<ClientKey | null> {
+    const db = await getDb();
+    const row = await db.get<ClientKeyRow>('SELECT * FROM client_keys WHERE _id = ?', id);
+    return row ? ClientKey.fromRow(row) : null;
+  }
+
+  // Static method to find the client key a secret belongs to
+  static async findBySecret(secret: string): Promise<ClientKey | null> {
+    const db = await getDb();
+    const row = await db.get<ClientKeyRow>('SELECT * FROM client_keys WHERE keyHash = ?', hashClientSecret(secret));
+    return row ? ClientKey.fromRow(row) : null;
+  }
+
+  // Static method to count client keys (once any exist, unauthenticated requests are rejected)
+  static async count(): Promise<number> {
+    const db = await getDb();
+    const row = await db.get<{ count: number }>('SELECT COUNT(*) as count FROM client_keys');
+    return Number(row?.count) || 0;
+  }
+
+  // Static method to create a new client key with a freshly generated secret.
+  // The secret is only returned here; afterwards only its hash is known.
+  static async create(data: Partial<ClientKeyData>): Promise<{ clientKey: ClientKey; secret: string }> {
+    const db = await getDb();
+    const secret = SECRET_PREFIX + randomBytes(24).toString('hex');
+    const keyData: ClientKeyData = {
+      _id: data._id || uuidv4(),
+      name: data.name?.trim() || '',
+      keyHash: hashClientSecret(secret),
+      keyPrefix: secret.substring(0, SECRET_PREFIX.length + 6),
+      isEnabled: data.isEnabled ?? true,
+      allowedModels: data.allowedModels && data.allowedModels.length > 0 ? data.allowedModels : null,
+      dailyRequestLimit: data.dailyRequestLimit ?? null,
+      dailyTokenLimit: data.dailyTokenLimit ?? null,
+      dailyRequestsUsed: 0,
+      dailyTokensUsed: 0,
+      lastResetDate: null,
+      expiresAt: data.expiresAt || null,
+      lastUsed: null,
+      createdAt: new Date().toISOString(),
+      payloadCaptureRate: data.payloadCaptureRate ?? null,
+      poolId: data.poolId ?? null,
+    };
+
+    if (!keyData.name) throw new Error('Client key name cannot be empty');
+
+    await db.run(
+      `INSERT INTO client_keys (_id, name, keyHash, keyPrefix, isEnabled, allowedModels, dailyRequestLimit, dailyTokenLimit, dailyRequestsUsed, dailyTokensUsed, lastResetDate, expiresAt, lastUsed, createdAt, payloadCaptureRate, poolId)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      keyData._id,
+      keyData.name,
+      keyData.keyHash,
+      keyData.keyPrefix,
+      booleanToDb(keyData.isEnabled),
+      keyData.allowedModels ? JSON.stringify(keyData.allowedModels) : null,
+      keyData.dailyRequestLimit,
+      keyData.dailyTokenLimit,
+      keyData.dailyRequestsUsed,
+      keyData.dailyTokensUsed,
+      keyData.lastResetDate,
+      keyData.expiresAt,
+      keyData.lastUsed,
+      keyData.createdAt,
+      keyData.payloadCaptureRate,
+      keyData.poolId
+    );
+
+    return { clientKey: new ClientKey(keyData), secret };
+  }
+
+  // Instance method to save (update) the current client key
+  async save(): Promise<ClientKey> {
+    const db = await getDb();
+    await db.run(
+      `UPDATE client_keys
+       SET name = ?, isEnabled = ?, allowedModels = ?, dailyRequestLimit = ?, dailyTokenLimit = ?, dailyRequestsUsed = ?, dailyTokensUsed = ?, lastResetDate = ?, expiresAt = ?, lastUsed = ?, payloadCaptureRate = ?, poolId = ?
+       WHERE _id = ?`,
+      this.name,
+      booleanToDb(this.isEnabled),
+      this.allowedModels && this.allowedModels.length > 0 ? JSON.stringify(this.allowedModels) : null,
+      this.dailyRequestLimit ?? null,
+      this.dailyTokenLimit ?? null,
+      this.dailyRequestsUsed,
+      this.dailyTokensUsed,
+      this.lastResetDate,
+      this.expiresAt,
+      this.lastUsed,
+      this.payloadCaptureRate ?? null,
+      this.poolId ?? null,
+      this._id
+    );
+    return this;
+  }
+
+  // Static method to add one request (and its tokens) to the daily counters.
+  // Increments in SQL so concurrent requests of the same client do not overwrite each other.
+  static async recordUsage(id: string, tokens: number | null | undefined, now: Date = new Date()): Promise<void> {
+    const db = await getDb();
+    await db.run(
+      `UPDATE client_keys
+       SET dailyRequestsUsed = dailyRequestsUsed + 1, dailyTokensUsed = dailyTokensUsed + ?, lastUsed = ?
+       WHERE _id = ?`,
+      typeof tokens === 'number' && tokens > 0 ? tokens : 0,
+      now.toISOString(),
+      id
+    );
+  }
+
+  // Static method to delete a client key by ID (its request logs are kept)
+  static async deleteById(id: string): Promise<boolean> {
+    const db = await getDb();
+    const result = await db.run('DELETE FROM client_keys WHERE _id = ?', id);
+    return result.changes !== undefined && result.changes > 0;
+  }
+}
+
+// Editable fields of a client key, as accepted by the admin API
+export type ClientKeyInput = Partial<Pick<ClientKeyData, 'name' | 'isEnabled' | 'allowedModels' | 'dailyRequestLimit' | 'dailyTokenLimit' | 'expiresAt' | 'payloadCaptureRate' | 'poolId'>>;
+
+// Validates the editable fields of an admin API payload. Fields missing from the payload stay undefined;
+// limits of 0 or empty are stored as null (no limit), an empty model list means all models.
+export function parseClientKeyInput(body: any): { input: ClientKeyInput } | { error: string } {
+  const input: ClientKeyInput = {};
+  if (!body || typeof body !== 'object') return { error: 'Invalid request body' };
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) return { error: 'Name must be a non-empty string' };
+    input.name = body.name.trim();
+  }
+
+  if (body.isEnabled !== undefined) {
+    if (typeof body.isEnabled !== 'boolean') return { error: 'isEnabled must be a boolean' };
+    input.isEnabled = body.isEnabled;
+  }
+
+  if (body.allowedModels !== undefined) {
+    if (body.allowedModels !== null && (!Array.isArray(body.allowedModels) || body.allowedModels.some((m: any) => typeof m !== 'string'))) {
+      return { error: 'allowedModels must be an array of model names or null' };
+    }
+    const models = (body.allowedModels || [])
+      .map((m: string) => normalizeModelName(m))
+      .filter((m: string | null): m is string => !!m);
+    input.allowedModels = models.length > 0 ? Array.from(new Set<string>(models)) : null;
+  }
+
+  for (const field of ['dailyRequestLimit', 'dailyTokenLimit'] as const) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (value === null || value === '' || value === 0) {
+      input[field] = null;
+    } else if (typeof value === 'number' && Number.isInteger(value) && value > 0) {
+      input[field] = value;
+    } else {
+      return { error: `${field} must be a non-negative integer or null` };
+    }
+  }
+
+  if (body.expiresAt !== undefined) {
+    if (body.expiresAt === null || body.expiresAt === '') {
+      input.expiresAt = null;
+    } else if (typeof body.expiresAt === 'string' && !isNaN(new Date(body.expiresAt).getTime())) {
+      input.expiresAt = new Date(body.expiresAt).toISOString();
+    } else {
+      return { error: 'expiresAt must be a date string or null' };
+    }
+  }
+
+  if (body.payloadCaptureRate !== undefined) {
+    if (body.payloadCaptureRate === null || body.payloadCaptureRate === '') {
+      input.payloadCaptureRate = null;
+    } else if (typeof body.payloadCaptureRate === 'number' && body.payloadCaptureRate >= 0 && body.payloadCaptureRate <= 1) {
+      input.payloadCaptureRate = body.payloadCaptureRate;
+    } else {
+      return { error: 'payloadCaptureRate must be a number between 0 and 1, or null' };
+    }
+  }
+
+  // The pool itself is checked by the routes, which can reach the database
+  if (body.poolId !== undefined) {
+    if (body.poolId === null || body.poolId === '') {
+      input.poolId = null;
+    } else if (typeof body.poolId === 'string') {
+      input.poolId = body.poolId;
+    } else {
+      return { error: 'poolId must be a key pool ID or null' };
+    }
+  }
+
+  return { input };
+}
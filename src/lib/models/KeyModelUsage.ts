@@ -0,0 +1,209 @@
+import { getDb } from '../db';
+import { isSameQuotaDay } from '../utils/quotaDay';
+
+// Define the KeyModelUsage interface (matches the key_model_usage table schema)
+// One row per (API key, model) pair, tracking the per-model quota of a key.
+export interface KeyModelUsageData {
+  apiKeyId: string; // Foreign key to ApiKey._id
+  model: string; // Normalized model name, e.g. 'gemini-2.5-pro'
+  dailyRateLimit?: number | null; // NULL means no per-model daily limit
+  dailyRequestsUsed: number;
+  lastResetDate: string | null; // ISO 8601 date string
+  rateLimitResetAt: string | null; // Per-model cooldown after a 429
+  isDisabledByRateLimit: boolean; // Per-model daily limit reached
+  rateLimitQuota?: string | null; // Quota named by the last 429, null if none was given
+}
+
+// Helper to convert DB result (0/1) to boolean
+function dbToBoolean(value: any): boolean {
+  return value === 1;
+}
+
+// Helper to convert boolean to DB value (0/1)
+function booleanToDb(value: boolean): number {
+  return value ? 1 : 0;
+}
+
+// Strips the optional 'models/' prefix so 'models/gemini-2.5-pro' and 'gemini-2.5-pro' share one row
+export function normalizeModelName(model: string | null | undefined): string | null {
+  if (!model || typeof model !== 'string') return null;
+  const trimmed = model.trim();
+  if (!trimmed) return null;
+  return trimmed.startsWith('models/') ? trimmed.substring('models/'.length) : trimmed;
+}
+
+export class KeyModelUsage implements KeyModelUsageData {
+  apiKeyId: string;
+  model: string;
+  dailyRateLimit?: number | null;
+  dailyRequestsUsed: number;
+  lastResetDate: string | null;
+  rateLimitResetAt: string | null;
+  isDisabledByRateLimit: boolean;
+  rateLimitQuota?: string | null;
+
+  constructor(data: KeyModelUsageData) {
+    this.apiKeyId = data.apiKeyId;
+    this.model = data.model;
+    this.dailyRateLimit = data.dailyRateLimit;
+    this.dailyRequestsUsed = data.dailyRequestsUsed;
+    this.lastResetDate = data.lastResetDate;
+    this.rateLimitResetAt = data.rateLimitResetAt;
+    this.isDisabledByRateLimit = data.isDisabledByRateLimit;
+    this.rateLimitQuota = data.rateLimitQuota;
+  }
+
+  private static fromRow(row: KeyModelUsageData): KeyModelUsage {
+    return new KeyModelUsage({
+      ...row,
+      isDisabledByRateLimit: dbToBoolean(row.isDisabledByRateLimit),
+    });
+  }
+
+  // Resets the daily counters in memory if the last reset was before today (in the key's quota time zone).
+  // Returns true if anything changed and the row should be saved.
+  applyDailyReset(now: Date, timeZone: string): boolean {
+    const lastReset = this.lastResetDate ? new Date(this.lastResetDate) : null;
+    if (lastReset && isSameQuotaDay(lastReset, now, timeZone)) return false;
+    this.dailyRequestsUsed = 0;
+    this.isDisabledByRateLimit = false;
+    this.lastResetDate = now.toISOString();
+    return true;
+  }
+
+  // Whether this key may not be used for this model right now
+  isExhausted(now: Date, timeZone: string): boolean {
+    if (this.rateLimitResetAt && new Date(this.rateLimitResetAt) > now) return true;
+    // Daily counters from a previous day no longer count
+    const lastReset = this.lastResetDate ? new Date(this.lastResetDate) : null;
+    if (!lastReset || !isSameQuotaDay(lastReset, now, timeZone)) return false;
+    if (this.isDisabledByRateLimit) return true;
+    const limit = this.dailyRateLimit;
+    return typeof limit === 'number' && limit > 0 && this.dailyRequestsUsed >= limit;
+  }
+
+  // Static method to find all model rows for one key
+  static async findByKey(apiKeyId: string): Promise<KeyModelUsage[]> {
+    const db = await getDb();
+    const rows = await db.all<KeyModelUsageData[]>(
+      'SELECT * FROM key_model_usage WHERE apiKeyId = ? ORDER BY model ASC',
+      apiKeyId
+    );
+    return rows.map(row => KeyModelUsage.fromRow(row));
+  }
+
+  // Static method to find all rows, grouped by key ID
+  static async findAllGroupedByKey(): Promise<Map<string, KeyModelUsage[]>> {
+    const db = await getDb();
+    const rows = await db.all<KeyModelUsageData[]>('SELECT * FROM key_model_usage ORDER BY model ASC');
+    const grouped = new Map<string, KeyModelUsage[]>();
+    for (const row of rows) {
+      const usage = KeyModelUsage.fromRow(row);
+      const list = grouped.get(usage.apiKeyId) || [];
+      list.push(usage);
+      grouped.set(usage.apiKeyId, list);
+    }
+    return grouped;
+  }
+
+  // Static method to find the rows for one model, keyed by API key ID
+  static async findByModel(model: string): Promise<Map<string, KeyModelUsage>> {
+    const db = await getDb();
+    const rows = await db.all<KeyModelUsageData[]>(
+      'SELECT * FROM key_model_usage WHERE model = ?',
+      model
+    );
+    return new Map(rows.map(row => [row.apiKeyId, KeyModelUsage.fromRow(row)]));
+  }
+
+  // Static method to find a row, or build a fresh (unsaved) one if none exists yet
+  static async findOrBuild(apiKeyId: string, model: string): Promise<KeyModelUsage> {
+    const db = await getDb();
+    const row = await db.get<KeyModelUsageData>(
+      'SELECT * FROM key_model_usage WHERE apiKeyId = ? AND model = ?',
+      apiKeyId,
+      model
+    );
+    if (row) return KeyModelUsage.fromRow(row);
+    return new KeyModelUsage({
+      apiKeyId,
+      model,
+      dailyRateLimit: null,
+      dailyRequestsUsed: 0,
+      lastResetDate: null,
+      rateLimitResetAt: null,
+      isDisabledByRateLimit: false,
+      rateLimitQuota: null,
+    });
+  }
+
+  // Counts a request in place, so counts from other balancer instances are never overwritten.
+  // Returns the updated row (created if the key had none for this model yet).
+  static async incrementDailyRequests(apiKeyId: string, model: string): Promise<KeyModelUsage> {
+    const db = await getDb();
+    const row = await db.get<KeyModelUsageData>(
+      `INSERT INTO key_model_usage (apiKeyId, model, dailyRequestsUsed, isDisabledByRateLimit)
+       VALUES (?, ?, 1, 0)
+       ON CONFLICT(apiKeyId, model) DO UPDATE SET dailyRequestsUsed = key_model_usage.dailyRequestsUsed + 1
+       RETURNING *`,
+      apiKeyId,
+      model
+    );
+    return KeyModelUsage.fromRow(row!);
+  }
+
+  // Updates only the cooldown/limit status columns of an existing row
+  async patch(changes: Partial<Pick<KeyModelUsageData, 'rateLimitResetAt' | 'isDisabledByRateLimit' | 'rateLimitQuota'>>): Promise<KeyModelUsage> {
+    const columns = (['rateLimitResetAt', 'isDisabledByRateLimit', 'rateLimitQuota'] as const).filter(column => changes[column] !== undefined);
+    if (columns.length === 0) return this;
+    const db = await getDb();
+    await db.run(
+      `UPDATE key_model_usage SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE apiKeyId = ? AND model = ?`,
+      ...columns.map(column => {
+        const value = changes[column];
+        return typeof value === 'boolean' ? booleanToDb(value) : value;
+      }),
+      this.apiKeyId,
+      this.model
+    );
+    Object.assign(this, changes);
+    return this;
+  }
+
+  // Instance method to insert or update the row
+  async save(): Promise<KeyModelUsage> {
+    const db = await getDb();
+    await db.run(
+      `INSERT INTO key_model_usage (apiKeyId, model, dailyRateLimit, dailyRequestsUsed, lastResetDate, rateLimitResetAt, isDisabledByRateLimit, rateLimitQuota)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(apiKeyId, model) DO UPDATE SET
+         dailyRateLimit = excluded.dailyRateLimit,
+         dailyRequestsUsed = excluded.dailyRequestsUsed,
+         lastResetDate = excluded.lastResetDate,
+         rateLimitResetAt = excluded.rateLimitResetAt,
+         isDisabledByRateLimit = excluded.isDisabledByRateLimit,
+         rateLimitQuota = excluded.rateLimitQuota`,
+      this.apiKeyId,
+      this.model,
+      this.dailyRateLimit ?? null,
+      this.dailyRequestsUsed,
+      this.lastResetDate,
+      this.rateLimitResetAt,
+      booleanToDb(this.isDisabledByRateLimit),
+      this.rateLimitQuota ?? null
+    );
+    return this;
+  }
+
+  // Instance method to delete the row
+  async delete(): Promise<void> {
+    const db = await getDb();
+    await db.run('DELETE FROM key_model_usage WHERE apiKeyId = ? AND model = ?', this.apiKeyId, this.model);
+  }
+
+  // Static method to delete all model rows of a key (used when the key itself is deleted)
+  static async deleteByKey(apiKeyId: string): Promise<void> {
+    const db = await getDb();
+    await db.run('DELETE FROM key_model_usage WHERE apiKeyId = ?', apiKeyId);
+  }
+}
@@ -0,0 +1,193 @@
+import { getDb } from '../db';
+import { v4 as uuidv4 } from 'uuid';
+import { normalizeModelName } from './KeyModelUsage';
+import { isKeySelectionStrategyName, KeySelectionStrategyName } from '../services/keySelection';
+
+// Define the KeyPool interface (matches the key_pools table schema)
+// A pool is a named group of API keys with its own rotation settings. Keys without a pool
+// form the default pool, which uses the global settings.
+export interface KeyPoolData {
+  _id: string;
+  name: string; // Unique, also the value of the X-Key-Pool request header (master key only, see resolve)
+  keySelectionStrategy?: KeySelectionStrategyName | null; // NULL means the global setting
+  parallelKeyCount?: number | null; // NULL means the global setting
+  keyRotationRequestCount?: number | null; // NULL means the global setting
+  models: string[]; // Requests for these (normalized) models are routed to this pool
+  createdAt: string; // ISO 8601 date string
+}
+
+// Raw row shape: models as a JSON string
+type KeyPoolRow = Omit<KeyPoolData, 'models'> & { models: string | null };
+
+// Request header that selects a pool by name. Client keys cannot use it to leave their assigned pool.
+export const KEY_POOL_HEADER = 'x-key-pool';
+
+export class KeyPool implements KeyPoolData {
+  _id: string;
+  name: string;
+  keySelectionStrategy?: KeySelectionStrategyName | null;
+  parallelKeyCount?: number | null;
+  keyRotationRequestCount?: number | null;
+  models: string[];
+  createdAt: string;
+
+  constructor(data: KeyPoolData) {
+    this._id = data._id;
+    this.name = data.name;
+    this.keySelectionStrategy = data.keySelectionStrategy;
+    this.parallelKeyCount = data.parallelKeyCount;
+    this.keyRotationRequestCount = data.keyRotationRequestCount;
+    this.models = data.models;
+    this.createdAt = data.createdAt;
+  }
+
+  private static fromRow(row: KeyPoolRow): KeyPool {
+    let models: string[] = [];
+    try {
+      const parsed = row.models ? JSON.parse(row.models) : [];
+      models = Array.isArray(parsed) ? parsed : [];
+    } catch {
+      models = [];
+    }
+    return new KeyPool({ ...row, models });
+  }
+
+  // Static method to find all pools
+  static async findAll(): Promise<KeyPool[]> {
+    const db = await getDb();
+    const rows = await db.all<KeyPoolRow[]>('SELECT * FROM key_pools ORDER BY name ASC');
+    return rows.map(row => KeyPool.fromRow(row));
+  }
+
+  // Static method to find one pool by ID
+  static async findById(id: string): Promise<KeyPool | null> {
+    const db = await getDb();
+    const row = await db.get<KeyPoolRow>('SELECT * FROM key_pools WHERE _id = ?', id);
+    return row ? KeyPool.fromRow(row) : null;
+  }
+
+  // Static method to find one pool by name (case-insensitive)
+  static async findByName(name: string): Promise<KeyPool | null> {
+    const db = await getDb();
+    const row = await db.get<KeyPoolRow>('SELECT * FROM key_pools WHERE LOWER(name) = LOWER(?)', name.trim());
+    return row ? KeyPool.fromRow(row) : null;
+  }
+
+  // Static method to pick the pool serving a request: the pool assigned to the client key, else the pool
+  // named in the X-Key-Pool header, else the first pool listing the model. Returns null for the default pool.
+  // The proxy rejects headers naming a pool other than the client key's own before getting here.
+  static async resolve(poolName: string | null, model: string | null, assignedPoolId: string | null = null): Promise<KeyPool | null> {
+    if (assignedPoolId) return await KeyPool.findById(assignedPoolId);
+    if (poolName) return await KeyPool.findByName(poolName);
+    const normalized = normalizeModelName(model);
+    if (!normalized) return null;
+    const pools = await KeyPool.findAll();
+    return pools.find(pool => pool.models.includes(normalized)) || null;
+  }
+
+  // Static method to create a new pool
+  static async create(data: Partial<KeyPoolData>): Promise<KeyPool> {
+    const db = await getDb();
+    const poolData: KeyPoolData = {
+      _id: data._id || uuidv4(),
+      name: data.name?.trim() || '',
+      keySelectionStrategy: data.keySelectionStrategy ?? null,
+      parallelKeyCount: data.parallelKeyCount ?? null,
+      keyRotationRequestCount: data.keyRotationRequestCount ?? null,
+      models: data.models || [],
+      createdAt: new Date().toISOString(),
+    };
+
+    if (!poolData.name) throw new Error('Pool name cannot be empty');
+
+    await db.run(
+      `INSERT INTO key_pools (_id, name, keySelectionStrategy, parallelKeyCount, keyRotationRequestCount, models, createdAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      poolData._id,
+      poolData.name,
+      poolData.keySelectionStrategy,
+      poolData.parallelKeyCount,
+      poolData.keyRotationRequestCount,
+      JSON.stringify(poolData.models),
+      poolData.createdAt
+    );
+
+    return new KeyPool(poolData);
+  }
+
+  // Instance method to save (update) the current pool
+  async save(): Promise<KeyPool> {
+    const db = await getDb();
+    await db.run(
+      `UPDATE key_pools
+       SET name = ?, keySelectionStrategy = ?, parallelKeyCount = ?, keyRotationRequestCount = ?, models = ?
+       WHERE _id = ?`,
+      this.name,
+      this.keySelectionStrategy ?? null,
+      this.parallelKeyCount ?? null,
+      this.keyRotationRequestCount ?? null,
+      JSON.stringify(this.models || []),
+      this._id
+    );
+    return this;
+  }
+
+  // Static method to delete a pool by ID; its keys move back to the default pool and its client keys are unassigned
+  static async deleteById(id: string): Promise<boolean> {
+    const db = await getDb();
+    await db.run('UPDATE api_keys SET poolId = NULL WHERE poolId = ?', id);
+    await db.run('UPDATE client_keys SET poolId = NULL WHERE poolId = ?', id);
+    const result = await db.run('DELETE FROM key_pools WHERE _id = ?', id);
+    return result.changes !== undefined && result.changes > 0;
+  }
+}
+
+// Editable fields of a pool, as accepted by the admin API
+export type KeyPoolInput = Partial<Pick<KeyPoolData, 'name' | 'keySelectionStrategy' | 'parallelKeyCount' | 'keyRotationRequestCount' | 'models'>>;
+
+// Validates the editable fields of an admin API payload. Fields missing from the payload stay undefined;
+// empty overrides are stored as null (use the global setting).
+export function parseKeyPoolInput(body: any): { input: KeyPoolInput } | { error: string } {
+  const input: KeyPoolInput = {};
+  if (!body || typeof body !== 'object') return { error: 'Invalid request body' };
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) return { error: 'Name must be a non-empty string' };
+    input.name = body.name.trim();
+  }
+
+  if (body.keySelectionStrategy !== undefined) {
+    if (body.keySelectionStrategy === null || body.keySelectionStrategy === '') {
+      input.keySelectionStrategy = null;
+    } else if (isKeySelectionStrategyName(body.keySelectionStrategy)) {
+      input.keySelectionStrategy = body.keySelectionStrategy;
+    } else {
+      return { error: 'keySelectionStrategy must be a known strategy or null' };
+    }
+  }
+
+  // Same ranges as the global settings
+  for (const [field, max] of [['parallelKeyCount', 50], ['keyRotationRequestCount', 100]] as const) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (value === null || value === '') {
+      input[field] = null;
+    } else if (typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= max) {
+      input[field] = value;
+    } else {
+      return { error: `${field} must be an integer between 1 and ${max}, or null` };
+    }
+  }
+
+  if (body.models !== undefined) {
+    if (!Array.isArray(body.models) || body.models.some((m: any) => typeof m !== 'string')) {
+      return { error: 'models must be an array of model names' };
+    }
+    const models = body.models
+      .map((m: string) => normalizeModelName(m))
+      .filter((m: string | null): m is string => !!m);
+    input.models = Array.from(new Set<string>(models));
+  }
+
+  return { input };
+}
@@ -0,0 +1,117 @@
+import { getDb } from '../db';
+import { v4 as uuidv4 } from 'uuid';
+
+// Result of a health probe: the key answered, failed for another reason, or was rejected as invalid
+export type KeyProbeOutcome = 'healthy' | 'failed' | 'revoked';
+
+// What a probe changed on the key
+export type KeyProbeAction = 'restored' | 'revoked';
+
+// Define the KeyProbe interface (matches the key_probes table schema)
+export interface KeyProbeData {
+  _id: string;
+  apiKeyId: string; // Foreign key to ApiKey._id
+  timestamp: string; // ISO 8601 date string
+  outcome: KeyProbeOutcome;
+  statusCode?: number | null; // Upstream HTTP status, null on network errors
+  message?: string | null;
+  responseTime?: number | null; // Milliseconds
+  action?: KeyProbeAction | null;
+}
+
+// Probes kept per key, older ones are deleted when a new probe is recorded
+const MAX_PROBES_PER_KEY = 50;
+// Probes older than this are deleted by deleteStale, whatever the number kept for the key
+const PROBE_RETENTION_DAYS = 30;
+
+export class KeyProbe implements KeyProbeData {
+  _id: string;
+  apiKeyId: string;
+  timestamp: string;
+  outcome: KeyProbeOutcome;
+  statusCode?: number | null;
+  message?: string | null;
+  responseTime?: number | null;
+  action?: KeyProbeAction | null;
+
+  constructor(data: KeyProbeData) {
+    this._id = data._id;
+    this.apiKeyId = data.apiKeyId;
+    this.timestamp = data.timestamp;
+    this.outcome = data.outcome;
+    this.statusCode = data.statusCode;
+    this.message = data.message;
+    this.responseTime = data.responseTime;
+    this.action = data.action;
+  }
+
+  // Static method to record a probe, trimming the key's history to the most recent entries
+  static async create(data: Omit<KeyProbeData, '_id' | 'timestamp'>): Promise<KeyProbe> {
+    const db = await getDb();
+    const probeData: KeyProbeData = {
+      _id: uuidv4(),
+      apiKeyId: data.apiKeyId,
+      timestamp: new Date().toISOString(),
+      outcome: data.outcome,
+      statusCode: data.statusCode ?? null,
+      message: data.message ?? null,
+      responseTime: data.responseTime ?? null,
+      action: data.action ?? null,
+    };
+
+    await db.run(
+      `INSERT INTO key_probes (_id, apiKeyId, timestamp, outcome, statusCode, message, responseTime, action)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      probeData._id,
+      probeData.apiKeyId,
+      probeData.timestamp,
+      probeData.outcome,
+      probeData.statusCode,
+      probeData.message,
+      probeData.responseTime,
+      probeData.action
+    );
+    await db.run(
+      `DELETE FROM key_probes
+       WHERE apiKeyId = ? AND _id NOT IN (
+         SELECT _id FROM key_probes WHERE apiKeyId = ? ORDER BY timestamp DESC LIMIT ?
+       )`,
+      probeData.apiKeyId, probeData.apiKeyId, MAX_PROBES_PER_KEY
+    );
+
+    return new KeyProbe(probeData);
+  }
+
+  // Static method to get the probe history of a key, newest first
+  static async findByKey(apiKeyId: string, limit: number = MAX_PROBES_PER_KEY): Promise<KeyProbe[]> {
+    const db = await getDb();
+    const rows = await db.all<KeyProbeData[]>(
+      'SELECT * FROM key_probes WHERE apiKeyId = ? ORDER BY timestamp DESC LIMIT ?',
+      apiKeyId, limit
+    );
+    return rows.map(row => new KeyProbe(row));
+  }
+
+  // Static method to get the most recent probe of every key that was probed, by key ID
+  static async findLatestByKey(): Promise<Map<string, KeyProbe>> {
+    const db = await getDb();
+    const rows = await db.all<KeyProbeData[]>(
+      `SELECT p.* FROM key_probes p
+       JOIN (SELECT apiKeyId, MAX(timestamp) as latest FROM key_probes GROUP BY apiKeyId) l
+         ON p.apiKeyId = l.apiKeyId AND p.timestamp = l.latest`
+    );
+    return new Map(rows.map(row => [row.apiKeyId, new KeyProbe(row)]));
+  }
+
+  // Static method to delete probes past the retention period and those of keys that no longer exist.
+  // Returns the number of rows deleted.
+  static async deleteStale(now: Date = new Date()): Promise<number> {
+    const db = await getDb();
+    const cutoff = new Date(now.getTime() - PROBE_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const result = await db.run(
+      'DELETE FROM key_probes WHERE timestamp < ? OR apiKeyId NOT IN (SELECT _id FROM api_keys)',
+      cutoff
+    );
+    return result.changes ?? 0;
+  }
+}
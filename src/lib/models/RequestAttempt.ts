@@ -0,0 +1,104 @@
+import { getDb } from '../db';
+import { v4 as uuidv4 } from 'uuid';
+
+// Define the RequestAttempt interface (matches the request_attempts table schema).
+// Every upstream call made for a proxy request is one attempt; retries and fallbacks add more.
+export interface RequestAttemptData {
+  _id: string;
+  requestId: string; // Proxy requestId, also in RequestLog.requestId
+  attempt: number; // 1-based, counted across fallback models
+  apiKeyId: string; // Foreign key to ApiKey._id
+  model?: string | null;
+  poolId?: string | null; // KeyPool._id the key was leased from, null for the default pool
+  timestamp: string; // ISO 8601 date string, when the attempt was sent
+  statusCode?: number | null; // Upstream HTTP status, null when no response arrived
+  latency?: number | null; // Milliseconds until the response (or the first chunk of a stream)
+  errorClass?: string | null; // KeyErrorClass of a failed attempt, null on success
+  errorMessage?: string | null;
+}
+
+export class RequestAttempt implements RequestAttemptData {
+  _id: string;
+  requestId: string;
+  attempt: number;
+  apiKeyId: string;
+  model?: string | null;
+  poolId?: string | null;
+  timestamp: string;
+  statusCode?: number | null;
+  latency?: number | null;
+  errorClass?: string | null;
+  errorMessage?: string | null;
+
+  constructor(data: RequestAttemptData) {
+    this._id = data._id;
+    this.requestId = data.requestId;
+    this.attempt = data.attempt;
+    this.apiKeyId = data.apiKeyId;
+    this.model = data.model;
+    this.poolId = data.poolId;
+    this.timestamp = data.timestamp;
+    this.statusCode = data.statusCode;
+    this.latency = data.latency;
+    this.errorClass = data.errorClass;
+    this.errorMessage = data.errorMessage;
+  }
+
+  // Static method to record an attempt
+  static async create(data: Omit<RequestAttemptData, '_id'>): Promise<RequestAttempt> {
+    const db = await getDb();
+    const attemptData: RequestAttemptData = {
+      _id: uuidv4(),
+      requestId: data.requestId,
+      attempt: data.attempt,
+      apiKeyId: data.apiKeyId,
+      model: data.model ?? null,
+      poolId: data.poolId ?? null,
+      timestamp: data.timestamp,
+      statusCode: data.statusCode ?? null,
+      latency: data.latency ?? null,
+      errorClass: data.errorClass ?? null,
+      errorMessage: data.errorMessage ?? null,
+    };
+
+    await db.run(
+      `INSERT INTO request_attempts (_id, requestId, attempt, apiKeyId, model, poolId, timestamp, statusCode, latency, errorClass, errorMessage)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      attemptData._id,
+      attemptData.requestId,
+      attemptData.attempt,
+      attemptData.apiKeyId,
+      attemptData.model,
+      attemptData.poolId,
+      attemptData.timestamp,
+      attemptData.statusCode,
+      attemptData.latency,
+      attemptData.errorClass,
+      attemptData.errorMessage
+    );
+
+    return new RequestAttempt(attemptData);
+  }
+
+  // Static method to record the failure of an attempt that was saved as a success,
+  // e.g. a stream that was interrupted after its headers arrived
+  static async recordFailure(id: string, errorClass: string | null, errorMessage: string | null): Promise<void> {
+    const db = await getDb();
+    await db.run(
+      'UPDATE request_attempts SET errorClass = ?, errorMessage = ? WHERE _id = ?',
+      errorClass,
+      errorMessage,
+      id
+    );
+  }
+
+  // Static method to get the attempts of a proxy request, in order
+  static async findByRequestId(requestId: string): Promise<RequestAttempt[]> {
+    const db = await getDb();
+    const rows = await db.all<RequestAttemptData[]>(
+      'SELECT * FROM request_attempts WHERE requestId = ? ORDER BY attempt ASC',
+      requestId
+    );
+    return rows.map(row => new RequestAttempt(row));
+  }
+}
@@ -13,6 +13,78 @@ export interface RequestLogData {
   errorType?: string | null; // e.g., 'ApiKeyError', 'UpstreamError', 'InternalError'
   errorMessage?: string | null;
   ipAddress?: string | null;
+  promptTokens?: number | null; // Token counts reported by the upstream response, if any
+  completionTokens?: number | null;
+  totalTokens?: number | null;
+  clientKeyId?: string | null; // ClientKey._id of the caller, NULL for the master key or open access
+  requestedModel?: string | null; // Model string sent by the client, before routing
+  routing?: string | null; // 'alias' or 'fallback' when modelUsed differs from requestedModel, NULL otherwise
+  poolId?: string | null; // KeyPool._id that served the request, NULL for the default pool
+  requestId?: string | null; // Proxy requestId (X-Request-Id), NULL for rows written before it was stored
+}
+
+// Token counts of a single request, as reported in the upstream `usage` block
+export interface TokenUsage {
+  promptTokens?: number | null;
+  completionTokens?: number | null;
+  totalTokens?: number | null;
+}
+
+// Filters of RequestLog.query; every filter is optional and they are combined with AND
+export interface RequestLogQuery {
+  from?: string | null; // ISO 8601, inclusive
+  to?: string | null; // ISO 8601, inclusive
+  apiKeyId?: string | null;
+  model?: string | null; // Matches the model used or the model requested by the client
+  statusCode?: number | null; // Exact HTTP status
+  statusClass?: number | null; // First digit of the HTTP status, e.g. 5 for 5xx
+  isError?: boolean | null;
+  errorType?: string | null;
+  ipAddress?: string | null;
+  sort?: RequestLogSort;
+  order?: 'asc' | 'desc';
+  cursor?: string | null; // nextCursor of the previous page
+  limit?: number;
+}
+
+export type RequestLogSort = 'timestamp' | 'responseTime';
+
+export interface RequestLogPage {
+  logs: RequestLog[];
+  nextCursor: string | null; // null on the last page
+}
+
+export const REQUEST_LOG_SORTS: RequestLogSort[] = ['timestamp', 'responseTime'];
+export const DEFAULT_REQUEST_LOG_PAGE_SIZE = 50;
+export const MAX_REQUEST_LOG_PAGE_SIZE = 200;
+
+// Sort expressions; requests without a response time sort below every measured one
+const SORT_EXPRESSIONS: Record<RequestLogSort, string> = {
+  timestamp: 'timestamp',
+  responseTime: 'COALESCE(responseTime, -1)',
+};
+
+// Position after the last row of a page: its sort value and _id (the tie-breaker)
+interface RequestLogCursor {
+  sort: RequestLogSort;
+  value: string | number;
+  id: string;
+}
+
+function encodeCursor(cursor: RequestLogCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+// Returns null for cursors that were not produced by the same sort
+export function decodeRequestLogCursor(value: string, sort: RequestLogSort): RequestLogCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (cursor?.sort !== sort || typeof cursor.id !== 'string') return null;
+    if (typeof cursor.value !== (sort === 'timestamp' ? 'string' : 'number')) return null;
+    return cursor as RequestLogCursor;
+  } catch {
+    return null;
+  }
 }
 
 // Helper to convert DB result (0/1) to boolean
@@ -36,6 +108,14 @@ export class RequestLog implements RequestLogData {
   errorType?: string | null;
   errorMessage?: string | null;
   ipAddress?: string | null;
+  promptTokens?: number | null;
+  completionTokens?: number | null;
+  totalTokens?: number | null;
+  clientKeyId?: string | null;
+  requestedModel?: string | null;
+  routing?: string | null;
+  poolId?: string | null;
+  requestId?: string | null;
 
   constructor(data: RequestLogData) {
     this._id = data._id;
@@ -48,6 +128,14 @@ export class RequestLog implements RequestLogData {
     this.errorType = data.errorType;
     this.errorMessage = data.errorMessage;
     this.ipAddress = data.ipAddress;
+    this.promptTokens = data.promptTokens;
+    this.completionTokens = data.completionTokens;
+    this.totalTokens = data.totalTokens;
+    this.clientKeyId = data.clientKeyId;
+    this.requestedModel = data.requestedModel;
+    this.routing = data.routing;
+    this.poolId = data.poolId;
+    this.requestId = data.requestId;
   }
 
   // Static method to create a new log entry
@@ -67,11 +155,19 @@ export class RequestLog implements RequestLogData {
       errorType: data.errorType === undefined ? null : data.errorType,
       errorMessage: data.errorMessage === undefined ? null : data.errorMessage,
       ipAddress: data.ipAddress === undefined ? null : data.ipAddress,
+      promptTokens: data.promptTokens ?? null,
+      completionTokens: data.completionTokens ?? null,
+      totalTokens: data.totalTokens ?? null,
+      clientKeyId: data.clientKeyId ?? null,
+      requestedModel: data.requestedModel ?? null,
+      routing: data.routing ?? null,
+      poolId: data.poolId ?? null,
+      requestId: data.requestId ?? null,
     };
 
     await db.run(
-      `INSERT INTO request_logs (_id, apiKeyId, timestamp, modelUsed, responseTime, statusCode, isError, errorType, errorMessage, ipAddress)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO request_logs (_id, apiKeyId, timestamp, modelUsed, responseTime, statusCode, isError, errorType, errorMessage, ipAddress, promptTokens, completionTokens, totalTokens, clientKeyId, requestedModel, routing, poolId, requestId)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       logData._id,
       logData.apiKeyId,
       logData.timestamp,
@@ -81,7 +177,15 @@ export class RequestLog implements RequestLogData {
       booleanToDb(logData.isError),
       logData.errorType,
       logData.errorMessage,
-      logData.ipAddress
+      logData.ipAddress,
+      logData.promptTokens,
+      logData.completionTokens,
+      logData.totalTokens,
+      logData.clientKeyId,
+      logData.requestedModel,
+      logData.routing,
+      logData.poolId,
+      logData.requestId
     );
 
     // We need to fetch the created record to get default values if any were applied by DB
@@ -90,5 +194,104 @@ export class RequestLog implements RequestLogData {
     return new RequestLog(logData);
   }
 
-  // Add static methods for querying (e.g., findByTimeRange) later as needed
+  // Static method to get the rows written for a proxy request (normally one), oldest first
+  static async findByRequestId(requestId: string): Promise<RequestLog[]> {
+    const db = await getDb();
+    const rows = await db.all<any[]>(
+      'SELECT * FROM request_logs WHERE requestId = ? ORDER BY timestamp ASC',
+      requestId
+    );
+    return rows.map(row => new RequestLog({ ...row, isError: dbToBoolean(row.isError) }));
+  }
+
+  // Static method to count total and failed requests per API key since a given time
+  static async getErrorCountsByKey(sinceIso: string): Promise<Map<string, { total: number; errors: number }>> {
+    const db = await getDb();
+    const rows = await db.all<{ apiKeyId: string; total: number; errors: number }[]>(
+      `SELECT apiKeyId, COUNT(*) as total, SUM(CASE WHEN isError = 1 THEN 1 ELSE 0 END) as errors
+       FROM request_logs
+       WHERE timestamp >= ?
+       GROUP BY apiKeyId`,
+      sinceIso
+    );
+
+    const counts = new Map<string, { total: number; errors: number }>();
+    for (const row of rows) {
+      counts.set(row.apiKeyId, { total: Number(row.total) || 0, errors: Number(row.errors) || 0 });
+    }
+    return counts;
+  }
+
+  // Filtered, sorted page of logs. Pages are cut by keyset (sort value, then _id), so rows
+  // written while paging never shift later pages. Throws on a cursor from another sort.
+  static async query(query: RequestLogQuery = {}): Promise<RequestLogPage> {
+    const db = await getDb();
+    const sort = query.sort ?? 'timestamp';
+    const order = query.order ?? 'desc';
+    const limit = Math.min(Math.max(1, query.limit ?? DEFAULT_REQUEST_LOG_PAGE_SIZE), MAX_REQUEST_LOG_PAGE_SIZE);
+    const sortExpression = SORT_EXPRESSIONS[sort];
+
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (query.from) {
+      conditions.push('timestamp >= ?');
+      params.push(query.from);
+    }
+    if (query.to) {
+      conditions.push('timestamp <= ?');
+      params.push(query.to);
+    }
+    if (query.apiKeyId) {
+      conditions.push('apiKeyId = ?');
+      params.push(query.apiKeyId);
+    }
+    if (query.model) {
+      conditions.push('(modelUsed = ? OR requestedModel = ?)');
+      params.push(query.model, query.model);
+    }
+    if (query.statusCode != null) {
+      conditions.push('statusCode = ?');
+      params.push(query.statusCode);
+    }
+    if (query.statusClass != null) {
+      conditions.push('statusCode >= ? AND statusCode < ?');
+      params.push(query.statusClass * 100, (query.statusClass + 1) * 100);
+    }
+    if (query.isError != null) {
+      conditions.push('isError = ?');
+      params.push(booleanToDb(query.isError));
+    }
+    if (query.errorType) {
+      conditions.push('errorType = ?');
+      params.push(query.errorType);
+    }
+    if (query.ipAddress) {
+      conditions.push('ipAddress = ?');
+      params.push(query.ipAddress);
+    }
+    if (query.cursor) {
+      const cursor = decodeRequestLogCursor(query.cursor, sort);
+      if (!cursor) throw new Error('Invalid cursor for this sort order');
+      const op = order === 'desc' ? '<' : '>';
+      conditions.push(`(${sortExpression} ${op} ? OR (${sortExpression} = ? AND _id ${op} ?))`);
+      params.push(cursor.value, cursor.value, cursor.id);
+    }
+
+    const direction = order === 'desc' ? 'DESC' : 'ASC';
+    const rows = await db.all<any[]>(
+      `SELECT * FROM request_logs
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY ${sortExpression} ${direction}, _id ${direction}
+       LIMIT ?`,
+      ...params,
+      limit + 1 // One extra row tells whether there is a next page
+    );
+
+    const logs = rows.slice(0, limit).map(row => new RequestLog({ ...row, isError: dbToBoolean(row.isError) }));
+    const last = logs[logs.length - 1];
+    const nextCursor = rows.length > limit && last
+      ? encodeCursor({ sort, value: sort === 'timestamp' ? last.timestamp : last.responseTime ?? -1, id: last._id })
+      : null;
+    return { logs, nextCursor };
+  }
 }
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { getDb } from '../db';
+import { v4 as uuidv4 } from 'uuid';
+
+// Define the RequestPayload interface (matches the request_payloads table schema).
+// Only written for requests picked by payload capture; bodies are redacted before they get here.
+export interface RequestPayloadData {
+  _id: string;
+  requestId: string; // Proxy requestId, also in RequestLog.requestId
+  clientKeyId?: string | null;
+  model?: string | null;
+  statusCode: number; // Status returned to the client
+  timestamp: string; // ISO 8601 date string
+  expiresAt: string; // ISO 8601 date string
+  requestBody?: string | null; // JSON
+  responseBody?: string | null; // JSON, or the assembled text of a stream
+  isStreamed: boolean;
+  isTruncated: boolean;
+}
+
+// Helper to convert DB result (0/1) to boolean
+function dbToBoolean(value: any): boolean {
+  return value === 1;
+}
+
+// Helper to convert boolean to DB value (0/1)
+function booleanToDb(value: boolean): number {
+  return value ? 1 : 0;
+}
+
+export class RequestPayload implements RequestPayloadData {
+  _id: string;
+  requestId: string;
+  clientKeyId?: string | null;
+  model?: string | null;
+  statusCode: number;
+  timestamp: string;
+  expiresAt: string;
+  requestBody?: string | null;
+  responseBody?: string | null;
+  isStreamed: boolean;
+  isTruncated: boolean;
+
+  constructor(data: RequestPayloadData) {
+    this._id = data._id;
+    this.requestId = data.requestId;
+    this.clientKeyId = data.clientKeyId;
+    this.model = data.model;
+    this.statusCode = data.statusCode;
+    this.timestamp = data.timestamp;
+    this.expiresAt = data.expiresAt;
+    this.requestBody = data.requestBody;
+    this.responseBody = data.responseBody;
+    this.isStreamed = data.isStreamed;
+    this.isTruncated = data.isTruncated;
+  }
+
+  // Static method to store a captured payload
+  static async create(data: Omit<RequestPayloadData, '_id' | 'timestamp'>): Promise<RequestPayload> {
+    const db = await getDb();
+    const payloadData: RequestPayloadData = {
+      _id: uuidv4(),
+      requestId: data.requestId,
+      clientKeyId: data.clientKeyId ?? null,
+      model: data.model ?? null,
+      statusCode: data.statusCode,
+      timestamp: new Date().toISOString(),
+      expiresAt: data.expiresAt,
+      requestBody: data.requestBody ?? null,
+      responseBody: data.responseBody ?? null,
+      isStreamed: data.isStreamed,
+      isTruncated: data.isTruncated,
+    };
+
+    await db.run(
+      `INSERT INTO request_payloads (_id, requestId, clientKeyId, model, statusCode, timestamp, expiresAt, requestBody, responseBody, isStreamed, isTruncated)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      payloadData._id,
+      payloadData.requestId,
+      payloadData.clientKeyId,
+      payloadData.model,
+      payloadData.statusCode,
+      payloadData.timestamp,
+      payloadData.expiresAt,
+      payloadData.requestBody,
+      payloadData.responseBody,
+      booleanToDb(payloadData.isStreamed),
+      booleanToDb(payloadData.isTruncated)
+    );
+
+    return new RequestPayload(payloadData);
+  }
+
+  // Static method to get the unexpired payloads of a proxy request
+  static async findByRequestId(requestId: string, now: Date = new Date()): Promise<RequestPayload[]> {
+    const db = await getDb();
+    const rows = await db.all<any[]>(
+      'SELECT * FROM request_payloads WHERE requestId = ? AND expiresAt > ? ORDER BY timestamp ASC',
+      requestId, now.toISOString()
+    );
+    return rows.map(row => new RequestPayload({
+      ...row,
+      isStreamed: dbToBoolean(row.isStreamed),
+      isTruncated: dbToBoolean(row.isTruncated),
+    }));
+  }
+
+  // Static method to delete expired payloads. Returns the number of rows deleted.
+  static async deleteExpired(now: Date = new Date()): Promise<number> {
+    const db = await getDb();
+    const result = await db.run('DELETE FROM request_payloads WHERE expiresAt <= ?', now.toISOString());
+    return result.changes ?? 0;
+  }
+}
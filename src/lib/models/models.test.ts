@@ -0,0 +1,135 @@
+import { describe, expect, test } from 'bun:test';
+import { getDb } from '../db';
+import { getCoordinationStore } from '../services/coordination';
+import { ApiKey } from './ApiKey';
+import { ClientKey } from './ClientKey';
+import { KeyModelUsage } from './KeyModelUsage';
+import { KeyPool } from './KeyPool';
+import { KeyProbe } from './KeyProbe';
+import { RequestAttempt } from './RequestAttempt';
+import { RequestLog } from './RequestLog';
+
+// Round trips through the models on the backend the suite was started with (see src/test/setup.ts).
+// On Postgres every camelCase column must come back under its own name, or fromRow reads undefined.
+describe('models', () => {
+  test('ApiKey keeps every column', async () => {
+    const pool = await KeyPool.create({ name: `pool-${Date.now()}`, models: ['gemini-2.0-flash'], parallelKeyCount: 2 });
+    const created = await ApiKey.create({
+      key: `AIza-${Date.now()}`, name: 'limits', rpmLimit: 10, tpmLimit: 1000, dailyRateLimit: 50,
+      poolId: pool._id, quotaResetTimezone: 'Europe/Berlin',
+    });
+    const [key] = await ApiKey.findByIds([created._id]);
+    expect(key).toMatchObject({
+      isActive: true, isDisabledByRateLimit: false, isRevoked: false, failureCount: 0, dailyRequestsUsed: 0,
+      rpmLimit: 10, tpmLimit: 1000, dailyRateLimit: 50, poolId: pool._id, quotaResetTimezone: 'Europe/Berlin',
+    });
+    expect((await ApiKey.findAll({ isActive: true })).some(found => found._id === created._id)).toBe(true);
+
+    key.isDisabledByRateLimit = true;
+    key.rateLimitResetAt = new Date(Date.now() + 60_000).toISOString();
+    await ApiKey.bulkUpdate(new Map([[key._id, key]]));
+    expect(await ApiKey.findOne({ _id: key._id })).toMatchObject({ isDisabledByRateLimit: true, rateLimitResetAt: key.rateLimitResetAt });
+
+    expect((await KeyPool.findByName(pool.name))).toMatchObject({ _id: pool._id, models: ['gemini-2.0-flash'], parallelKeyCount: 2 });
+  });
+
+  test('KeyModelUsage counts with ON CONFLICT ... RETURNING', async () => {
+    const key = await ApiKey.create({ key: `AIza-usage-${Date.now()}` });
+    expect((await KeyModelUsage.incrementDailyRequests(key._id, 'gemini-2.0-flash')).dailyRequestsUsed).toBe(1);
+    const usage = await KeyModelUsage.incrementDailyRequests(key._id, 'gemini-2.0-flash');
+    expect(usage).toMatchObject({ apiKeyId: key._id, model: 'gemini-2.0-flash', dailyRequestsUsed: 2, isDisabledByRateLimit: false });
+    expect((await KeyModelUsage.findByModel('gemini-2.0-flash')).get(key._id)?.dailyRequestsUsed).toBe(2);
+  });
+
+  test('ClientKey is found by its secret', async () => {
+    const { clientKey, secret } = await ClientKey.create({ name: 'client', allowedModels: ['gemini-2.0-flash'], dailyRequestLimit: 5 });
+    expect(await ClientKey.findBySecret(secret)).toMatchObject({
+      _id: clientKey._id, isEnabled: true, allowedModels: ['gemini-2.0-flash'], dailyRequestLimit: 5, dailyRequestsUsed: 0,
+    });
+  });
+
+  test('request logs, attempts and probes keep their columns', async () => {
+    const requestId = `req-${Date.now()}`;
+    await RequestLog.create({
+      apiKeyId: 'key-1', statusCode: 429, isError: true, errorType: 'RateLimitError', modelUsed: 'gemini-2.0-flash',
+      responseTime: 12, totalTokens: 30, requestId,
+    });
+    expect(await RequestLog.findByRequestId(requestId)).toEqual([
+      expect.objectContaining({ apiKeyId: 'key-1', statusCode: 429, isError: true, errorType: 'RateLimitError', responseTime: 12, totalTokens: 30 }),
+    ]);
+    const page = await RequestLog.query({ statusCode: 429, isError: true, limit: 1 });
+    expect(page.logs[0]).toMatchObject({ statusCode: 429, isError: true });
+
+    await RequestAttempt.create({
+      requestId, attempt: 1, apiKeyId: 'key-1', model: 'gemini-2.0-flash', timestamp: new Date().toISOString(),
+      statusCode: 429, latency: 5, errorClass: 'rate-limit', errorMessage: 'quota',
+    });
+    const streamed = await RequestAttempt.create({
+      requestId, attempt: 2, apiKeyId: 'key-2', model: 'gemini-2.0-flash', timestamp: new Date().toISOString(),
+      statusCode: 200, latency: 8,
+    });
+    await RequestAttempt.recordFailure(streamed._id, 'upstream-transient', 'socket hang up');
+    expect(await RequestAttempt.findByRequestId(requestId)).toEqual([
+      expect.objectContaining({ apiKeyId: 'key-1', statusCode: 429, errorClass: 'rate-limit', errorMessage: 'quota' }),
+      expect.objectContaining({ apiKeyId: 'key-2', statusCode: 200, errorClass: 'upstream-transient', errorMessage: 'socket hang up' }),
+    ]);
+
+    await KeyProbe.create({ apiKeyId: 'key-1', outcome: 'healthy', statusCode: 200, responseTime: 40 });
+    expect((await KeyProbe.findLatestByKey()).get('key-1')).toMatchObject({ apiKeyId: 'key-1', statusCode: 200, responseTime: 40 });
+
+    // key-1 does not exist, so its probes go; the existing key keeps its probe until it expires
+    const probed = await ApiKey.create({ key: `AIza-probed-${Date.now()}` });
+    await KeyProbe.create({ apiKeyId: probed._id, outcome: 'failed', statusCode: 500 });
+    expect(await KeyProbe.deleteStale()).toBeGreaterThanOrEqual(1);
+    expect(await KeyProbe.findByKey('key-1')).toEqual([]);
+    expect(await KeyProbe.findByKey(probed._id)).toHaveLength(1);
+    await KeyProbe.deleteStale(new Date(Date.now() + 31 * 24 * 60 * 60 * 1000));
+    expect(await KeyProbe.findByKey(probed._id)).toEqual([]);
+  });
+
+  test('transactions commit or roll back as a whole', async () => {
+    const db = await getDb();
+    await expect(db.transaction(async () => {
+      await ApiKey.create({ key: 'AIza-rolled-back' });
+      throw new Error('abort');
+    })).rejects.toThrow('abort');
+    expect(await ApiKey.findOne({ key: 'AIza-rolled-back' })).toBeNull();
+
+    await db.transaction(() => ApiKey.create({ key: 'AIza-committed' }));
+    expect(await ApiKey.findOne({ key: 'AIza-committed' })).not.toBeNull();
+  });
+
+  test('statements of other requests stay out of an open transaction', async () => {
+    const db = await getDb();
+    let markInserted!: () => void;
+    const inserted = new Promise<void>(resolve => { markInserted = resolve; });
+    const transaction = db.transaction(async () => {
+      await ApiKey.create({ key: 'AIza-inside' });
+      markInserted();
+      await new Promise(resolve => setTimeout(resolve, 50));
+      throw new Error('abort');
+    });
+    await inserted;
+    const outside = ApiKey.create({ key: 'AIza-outside' }); // Like a concurrent request, outside the transaction
+    await expect(transaction).rejects.toThrow('abort');
+    await outside;
+    expect(await ApiKey.findOne({ key: 'AIza-inside' })).toBeNull();
+    expect(await ApiKey.findOne({ key: 'AIza-outside' })).not.toBeNull();
+  });
+
+  test('the database coordination store claims atomically', async () => {
+    const store = getCoordinationStore();
+    const now = Date.now();
+    expect(await store.tryRecordRequest('rpm-key', { rpmLimit: 1, tpmLimit: null }, now)).toBe(true);
+    expect(await store.tryRecordRequest('rpm-key', { rpmLimit: 1, tpmLimit: null }, now + 1)).toBe(false);
+
+    expect(await store.joinRotation('rotating-key', null, 99)).toBe(true);
+    expect(await store.joinRotation('rotating-key', null, 99)).toBe(false);
+    expect(await store.incrementRotationCounter('rotating-key')).toBe(1);
+    expect((await store.getRotation()).find(entry => entry.keyId === 'rotating-key')).toEqual({ keyId: 'rotating-key', poolId: null, requestCounter: 1 });
+
+    const first = await store.nextRoundRobin('test-pool');
+    expect(await store.nextRoundRobin('test-pool')).toBe(first + 1);
+    expect(await store.acquireLock(`lock-${now}`, 60_000)).toBe(true);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, expect, test } from 'bun:test';
+import { AdmissionQueue, QueueFullError, QueueTimeoutError } from './admissionQueue';
+
+const LIMITS = { maxWaitMs: 1000, maxDepth: 10 };
+const noCapacity = () => new Error('No key available');
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Capacity handed out by the attempts: taking a slot admits a request, giving it back frees it again
+function slots(...initial: string[]) {
+  const free = [...initial];
+  return {
+    free,
+    take: async () => free.shift() ?? null,
+  };
+}
+
+describe('AdmissionQueue', () => {
+  test('admits right away while there is capacity', async () => {
+    const queue = new AdmissionQueue();
+    const pool = slots('a');
+    expect(await queue.admit(pool.take, LIMITS, noCapacity)).toBe('a');
+    expect(queue.getStats()).toMatchObject({ depth: 0, admitted: 0 });
+  });
+
+  test('serves waiters in arrival order', async () => {
+    const queue = new AdmissionQueue();
+    const pool = slots();
+    const admitted: string[] = [];
+    const first = queue.admit(pool.take, LIMITS, noCapacity).then(slot => admitted.push(`first:${slot}`));
+    const second = queue.admit(pool.take, LIMITS, noCapacity).then(slot => admitted.push(`second:${slot}`));
+    await sleep(10);
+    expect(queue.getStats().depth).toBe(2);
+
+    pool.free.push('a');
+    queue.notify();
+    await first;
+    expect(queue.getStats().depth).toBe(1);
+
+    pool.free.push('b');
+    queue.notify();
+    await second;
+    expect(admitted).toEqual(['first:a', 'second:b']);
+    expect(queue.getStats()).toMatchObject({ depth: 0, admitted: 2 });
+  });
+
+  test('queues a newcomer behind the waiters even when it could be served', async () => {
+    const queue = new AdmissionQueue();
+    const pool = slots();
+    const waiting = queue.admit(pool.take, LIMITS, noCapacity);
+    await sleep(10);
+
+    pool.free.push('a');
+    const newcomer = queue.admit(pool.take, LIMITS, noCapacity);
+    expect(await waiting).toBe('a');
+    expect(queue.getStats().depth).toBe(1);
+    pool.free.push('b');
+    queue.notify();
+    expect(await newcomer).toBe('b');
+  });
+
+  test('lets a waiter pass one that has no capacity', async () => {
+    const queue = new AdmissionQueue();
+    const pool = slots();
+    const blocked = queue.admit(async () => null, { maxWaitMs: 50, maxDepth: 10 }, noCapacity).catch(error => error);
+    const served = queue.admit(pool.take, LIMITS, noCapacity);
+    await sleep(10);
+
+    pool.free.push('a');
+    queue.notify();
+    expect(await served).toBe('a');
+    expect(await blocked).toBeInstanceOf(QueueTimeoutError);
+  });
+
+  test('times out waiters that got no capacity within maxWaitMs', async () => {
+    const queue = new AdmissionQueue();
+    const error = await queue.admit(async () => null, { maxWaitMs: 30, maxDepth: 10 }, noCapacity).catch(e => e);
+    expect(error).toBeInstanceOf(QueueTimeoutError);
+    expect(error.message).toContain('No key available');
+    expect(queue.getStats()).toMatchObject({ depth: 0, timedOut: 1 });
+  });
+
+  test('rejects requests once the queue is full', async () => {
+    const queue = new AdmissionQueue();
+    const limits = { maxWaitMs: 30, maxDepth: 1 };
+    const waiting = queue.admit(async () => null, limits, noCapacity).catch(e => e);
+    const error = await queue.admit(async () => null, limits, noCapacity).catch(e => e);
+    expect(error).toBeInstanceOf(QueueFullError);
+    expect(error.retryAfterSeconds).toBe(1);
+    expect(queue.getStats().rejected).toBe(1);
+    await waiting;
+  });
+
+  test('fails right away without queuing', async () => {
+    const queue = new AdmissionQueue();
+    await expect(queue.admit(async () => null, { maxWaitMs: 0, maxDepth: 10 }, noCapacity)).rejects.toThrow('No key available');
+    expect(queue.getStats().depth).toBe(0);
+  });
+
+  test('gives back capacity claimed for a waiter that timed out, to the next waiter', async () => {
+    const queue = new AdmissionQueue();
+    const pool = slots();
+    const released: string[] = [];
+    let calls = 0;
+    // The first attempt finds nothing; the next one is still running when the waiter times out
+    const slowTake = async () => {
+      if (calls++ === 0) return null;
+      await sleep(60);
+      return pool.take();
+    };
+    const release = async (slot: string) => {
+      released.push(slot);
+      pool.free.push(slot);
+    };
+
+    const timedOut = queue.admit(slowTake, { maxWaitMs: 30, maxDepth: 10 }, noCapacity, release).catch(e => e);
+    await sleep(5);
+    const next = queue.admit(pool.take, LIMITS, noCapacity);
+    pool.free.push('a');
+
+    expect(await timedOut).toBeInstanceOf(QueueTimeoutError);
+    expect(await next).toBe('a');
+    expect(released).toEqual(['a']);
+    expect(queue.getStats()).toMatchObject({ depth: 0, admitted: 1, timedOut: 1 });
+  });
+});
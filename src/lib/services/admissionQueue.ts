@@ -0,0 +1,197 @@
+import { logError } from './logger';
+
+// FIFO queue of requests waiting for a key with capacity. Waiters are retried in order whenever
+// capacity may have freed up (a key was added or restored) and on a short poll, since cooldowns
+// and per-minute windows run out with time. Kept in memory, like the per-minute windows.
+const POLL_INTERVAL_MS = 500;
+const RECENT_WAITS = 100; // Admitted waits kept for the average shown on the dashboard
+
+// The queue already holds maxDepth requests
+export class QueueFullError extends Error {
+  retryAfterSeconds: number; // Suggested delay before the client tries again
+
+  constructor(depth: number, retryAfterSeconds: number) {
+    super(`Request queue is full (${depth} requests waiting for a key)`);
+    this.name = 'QueueFullError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+// No key freed up within maxWaitMs
+export class QueueTimeoutError extends Error {
+  constructor(waitedMs: number, cause?: string) {
+    super(`No API key became available within ${Math.round(waitedMs / 1000)}s${cause ? `: ${cause}` : ''}`);
+    this.name = 'QueueTimeoutError';
+  }
+}
+
+export interface AdmissionLimits {
+  maxWaitMs: number; // 0 disables queuing
+  maxDepth: number; // 0 disables queuing
+}
+
+export interface QueueStats {
+  depth: number; // Requests waiting right now
+  oldestWaitMs: number; // How long the oldest waiter has been waiting
+  averageWaitMs: number; // Average wait of recently admitted requests that had to queue
+  admitted: number; // Requests served after waiting, since start
+  rejected: number; // Turned away because the queue was full
+  timedOut: number; // Gave up after maxWaitMs
+}
+
+// An attempt returns the admitted value, or null while there is no capacity
+export type AdmissionAttempt<T> = () => Promise<T | null>;
+
+// Gives back a value that was admitted after its waiter had already timed out
+export type AdmissionRelease<T> = (value: T) => Promise<void>;
+
+interface Waiter {
+  attempt: AdmissionAttempt<any>;
+  release?: AdmissionRelease<any>;
+  enqueuedAt: number;
+  resolve: (value: any) => void;
+  reject: (error: any) => void;
+  timer: NodeJS.Timeout;
+}
+
+export class AdmissionQueue {
+  private waiters: Waiter[] = [];
+  private pollTimer: NodeJS.Timeout | null = null;
+  private isPumping = false;
+  private pumpAgain = false; // Set when notify() is called during a pump
+  private recentWaits: number[] = [];
+  private counters = { admitted: 0, rejected: 0, timedOut: 0 };
+
+  // Runs the attempt right away when nobody is waiting, otherwise (or when it finds no capacity)
+  // queues it behind the earlier requests. Without queuing (a limit of 0) the attempt is made once and
+  // onNoCapacity builds the error thrown when it finds no capacity. release gives back a value whose
+  // waiter timed out while its attempt was running, so the capacity it claimed is not lost.
+  async admit<T>(
+    attempt: AdmissionAttempt<T>,
+    limits: AdmissionLimits,
+    onNoCapacity: () => Error,
+    release?: AdmissionRelease<T>
+  ): Promise<T> {
+    const mayQueue = limits.maxDepth > 0 && limits.maxWaitMs > 0;
+    if (this.waiters.length === 0 || !mayQueue) {
+      const value = await attempt();
+      if (value !== null) return value;
+    }
+
+    if (!mayQueue) throw onNoCapacity();
+    if (this.waiters.length >= limits.maxDepth) {
+      this.counters.rejected++;
+      throw new QueueFullError(this.waiters.length, this._retryAfterSeconds(limits.maxWaitMs));
+    }
+
+    return await new Promise<T>((resolve, reject) => {
+      const enqueuedAt = Date.now();
+      const waiter: Waiter = {
+        attempt,
+        release,
+        enqueuedAt,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this._remove(waiter);
+          this.counters.timedOut++;
+          reject(new QueueTimeoutError(Date.now() - enqueuedAt, onNoCapacity().message));
+        }, limits.maxWaitMs),
+      };
+      this.waiters.push(waiter);
+      this._schedulePoll();
+      this.notify(); // The newcomer may be servable right away, e.g. by another pool
+    });
+  }
+
+  // Retries the waiters now, e.g. after a key was added or restored
+  notify() {
+    if (this.waiters.length === 0) return;
+    if (this.isPumping) {
+      this.pumpAgain = true;
+      return;
+    }
+    this._pump();
+  }
+
+  getStats(now: number = Date.now()): QueueStats {
+    const total = this.recentWaits.reduce((sum, wait) => sum + wait, 0);
+    return {
+      depth: this.waiters.length,
+      oldestWaitMs: this.waiters.length > 0 ? now - this.waiters[0].enqueuedAt : 0,
+      averageWaitMs: this.recentWaits.length > 0 ? Math.round(total / this.recentWaits.length) : 0,
+      ...this.counters,
+    };
+  }
+
+  // Tries every waiter in arrival order. A waiter without capacity does not block the ones behind it,
+  // as those may want another model or pool.
+  private async _pump() {
+    this.isPumping = true;
+    try {
+      do {
+        this.pumpAgain = false;
+        for (const waiter of [...this.waiters]) {
+          if (!this.waiters.includes(waiter)) continue; // Timed out meanwhile
+          try {
+            const value = await waiter.attempt();
+            if (value === null) continue;
+            if (!this.waiters.includes(waiter)) {
+              // Timed out during the attempt: the client is gone, give the value back
+              await this._release(waiter, value);
+              continue;
+            }
+            this._remove(waiter);
+            this._recordWait(Date.now() - waiter.enqueuedAt);
+            waiter.resolve(value);
+          } catch (error) {
+            this._remove(waiter);
+            waiter.reject(error);
+          }
+        }
+      } while (this.pumpAgain && this.waiters.length > 0);
+    } finally {
+      this.isPumping = false;
+    }
+  }
+
+  private async _release(waiter: Waiter, value: any) {
+    if (!waiter.release) return;
+    try {
+      await waiter.release(value);
+    } catch (error) {
+      logError(error, { context: 'admissionQueue release' });
+    }
+    this.pumpAgain = true; // The released capacity may serve the next waiter
+  }
+
+  private _schedulePoll() {
+    if (this.pollTimer) return;
+    this.pollTimer = setInterval(() => {
+      if (this.waiters.length === 0) {
+        clearInterval(this.pollTimer!);
+        this.pollTimer = null;
+        return;
+      }
+      this.notify();
+    }, POLL_INTERVAL_MS);
+    this.pollTimer.unref?.();
+  }
+
+  private _remove(waiter: Waiter) {
+    clearTimeout(waiter.timer);
+    this.waiters = this.waiters.filter(w => w !== waiter);
+  }
+
+  private _recordWait(waitMs: number) {
+    this.counters.admitted++;
+    this.recentWaits.push(waitMs);
+    if (this.recentWaits.length > RECENT_WAITS) this.recentWaits.shift();
+  }
+
+  // What to tell a rejected client: the recent average wait, between 1 second and maxWait
+  private _retryAfterSeconds(maxWaitMs: number): number {
+    const averageWaitMs = this.getStats().averageWaitMs || maxWaitMs;
+    return Math.max(1, Math.ceil(Math.min(averageWaitMs, maxWaitMs) / 1000));
+  }
+}
@@ -0,0 +1,189 @@
+import os from 'os';
+import { getDb } from '../db';
+import { logKeyEvent } from './logger';
+import { MinuteLimits, MinuteUsage, WINDOW_MS, isLimited } from './rateLimiter';
+import { RedisCoordinationStore } from './redisCoordination';
+
+// Short-lived key state that every balancer instance must agree on: which keys are in rotation,
+// the per-minute request/token windows, the round-robin position and the locks of background jobs.
+// Each operation is a single atomic claim, so instances behind the same reverse proxy never
+// double-spend a key. Durable key state (daily counters, cooldowns) stays in the database.
+//
+// The backend is chosen with COORDINATION_BACKEND: 'database' (default, the shared SQLite file or
+// PostgreSQL database; 'sqlite' is accepted as an alias) or 'redis' (any Redis-compatible server at REDIS_URL).
+
+// Identifies this process in locks and logs
+export const INSTANCE_ID = process.env.INSTANCE_ID || `${os.hostname()}-${process.pid}`;
+
+export interface RotationEntry {
+  keyId: string;
+  poolId: string | null; // null for the default pool
+  requestCounter: number; // Requests served since the key entered rotation
+}
+
+export type RoundRobinSequence = 'requests' | 'rotation';
+
+export interface CoordinationStore {
+  readonly backend: 'database' | 'redis';
+
+  // Counts a request against the key's minute window if it still fits its RPM/TPM limits.
+  // Returns false (and counts nothing) when the key is at a limit.
+  tryRecordRequest(keyId: string, limits: MinuteLimits, now?: number): Promise<boolean>;
+  recordTokens(keyId: string, tokens: number, now?: number): Promise<void>;
+  getMinuteUsage(keyId: string, now?: number): Promise<MinuteUsage>;
+  // Undoes a request recorded at `at` by tryRecordRequest, and its count in rotation, when the
+  // lease was never used
+  releaseRequest(keyId: string, at: number): Promise<void>;
+
+  // Keys in rotation across all pools
+  getRotation(): Promise<RotationEntry[]>;
+  // Puts a key into its pool's rotation unless the pool already has maxKeys keys. Returns whether it joined.
+  joinRotation(keyId: string, poolId: string | null, maxKeys: number): Promise<boolean>;
+  leaveRotation(keyId: string): Promise<void>;
+  // Counts a request served by a key in rotation, returns the new count
+  incrementRotationCounter(keyId: string): Promise<number>;
+  // Next round-robin position of a pool: 'requests' spreads requests over the keys in rotation,
+  // 'rotation' is used by the round-robin strategy that picks the keys entering rotation
+  nextRoundRobin(poolId: string | null, sequence?: RoundRobinSequence): Promise<number>;
+
+  // Takes (or extends) a named lock for ttlMs. Returns false while another instance holds it.
+  acquireLock(name: string, ttlMs: number): Promise<boolean>;
+}
+
+// Prunes old window rows at most this often
+const PRUNE_INTERVAL_MS = 10 * 1000;
+
+class DatabaseCoordinationStore implements CoordinationStore {
+  readonly backend = 'database' as const;
+  private lastPruneAt = 0;
+
+  private async _prune(now: number) {
+    if (now - this.lastPruneAt < PRUNE_INTERVAL_MS) return;
+    this.lastPruneAt = now;
+    const db = await getDb();
+    await db.run('DELETE FROM key_minute_usage WHERE at <= ?', now - WINDOW_MS);
+  }
+
+  async tryRecordRequest(keyId: string, limits: MinuteLimits, now: number = Date.now()): Promise<boolean> {
+    await this._prune(now);
+    const db = await getDb();
+    const conditions: string[] = [];
+    const params: any[] = [keyId, now];
+    if (isLimited(limits.rpmLimit)) {
+      conditions.push('(SELECT COALESCE(SUM(requests), 0) FROM key_minute_usage WHERE apiKeyId = ? AND at > ?) < ?');
+      params.push(keyId, now - WINDOW_MS, limits.rpmLimit);
+    }
+    if (isLimited(limits.tpmLimit)) {
+      conditions.push('(SELECT COALESCE(SUM(tokens), 0) FROM key_minute_usage WHERE apiKeyId = ? AND at > ?) < ?');
+      params.push(keyId, now - WINDOW_MS, limits.tpmLimit);
+    }
+    // A single INSERT ... SELECT checks and claims under one write lock
+    const result = await db.run(
+      `INSERT INTO key_minute_usage (apiKeyId, at, requests, tokens)
+       SELECT ?, CAST(? AS BIGINT), 1, 0
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}`,
+      params
+    );
+    return result.changes > 0;
+  }
+
+  async recordTokens(keyId: string, tokens: number, now: number = Date.now()): Promise<void> {
+    if (!Number.isFinite(tokens) || tokens <= 0) return;
+    const db = await getDb();
+    await db.run('INSERT INTO key_minute_usage (apiKeyId, at, requests, tokens) VALUES (?, ?, 0, ?)', keyId, now, tokens);
+  }
+
+  async getMinuteUsage(keyId: string, now: number = Date.now()): Promise<MinuteUsage> {
+    const db = await getDb();
+    const row = await db.get<{ requests: number | null; tokens: number | null }>(
+      'SELECT SUM(requests) AS requests, SUM(tokens) AS tokens FROM key_minute_usage WHERE apiKeyId = ? AND at > ?',
+      keyId,
+      now - WINDOW_MS
+    );
+    return { requests: row?.requests ?? 0, tokens: row?.tokens ?? 0 };
+  }
+
+  async releaseRequest(keyId: string, at: number): Promise<void> {
+    const db = await getDb();
+    // A negative row cancels the claim in the window sums and is pruned together with it
+    await db.run('INSERT INTO key_minute_usage (apiKeyId, at, requests, tokens) VALUES (?, ?, -1, 0)', keyId, at);
+    await db.run('UPDATE key_rotation SET requestCounter = requestCounter - 1 WHERE apiKeyId = ? AND requestCounter > 0', keyId);
+  }
+
+  async getRotation(): Promise<RotationEntry[]> {
+    const db = await getDb();
+    const rows = await db.all<{ apiKeyId: string; poolId: string | null; requestCounter: number }[]>(
+      'SELECT apiKeyId, poolId, requestCounter FROM key_rotation ORDER BY enteredAt ASC'
+    );
+    return rows.map(row => ({ keyId: row.apiKeyId, poolId: row.poolId ?? null, requestCounter: row.requestCounter }));
+  }
+
+  async joinRotation(keyId: string, poolId: string | null, maxKeys: number): Promise<boolean> {
+    const db = await getDb();
+    const poolParams = poolId === null ? [] : [poolId];
+    const result = await db.run(
+      `INSERT INTO key_rotation (apiKeyId, poolId, requestCounter, enteredAt)
+       SELECT ?, ?, 0, ?
+       WHERE (SELECT COUNT(*) FROM key_rotation WHERE ${poolId === null ? 'poolId IS NULL' : 'poolId = ?'}) < ?
+       ON CONFLICT(apiKeyId) DO NOTHING`,
+      keyId, poolId, new Date().toISOString(), ...poolParams, maxKeys
+    );
+    return result.changes > 0;
+  }
+
+  async leaveRotation(keyId: string): Promise<void> {
+    const db = await getDb();
+    await db.run('DELETE FROM key_rotation WHERE apiKeyId = ?', keyId);
+  }
+
+  async incrementRotationCounter(keyId: string): Promise<number> {
+    const db = await getDb();
+    const row = await db.get<{ requestCounter: number }>(
+      'UPDATE key_rotation SET requestCounter = requestCounter + 1 WHERE apiKeyId = ? RETURNING requestCounter',
+      keyId
+    );
+    return row?.requestCounter ?? 0;
+  }
+
+  async nextRoundRobin(poolId: string | null, sequence: RoundRobinSequence = 'requests'): Promise<number> {
+    const db = await getDb();
+    const row = await db.get<{ value: number }>(
+      `INSERT INTO coordination_counters (name, value) VALUES (?, 0)
+       ON CONFLICT(name) DO UPDATE SET value = coordination_counters.value + 1
+       RETURNING value`,
+      `${sequence === 'rotation' ? 'rotation-round-robin' : 'round-robin'}:${poolId ?? ''}`
+    );
+    return row?.value ?? 0;
+  }
+
+  async acquireLock(name: string, ttlMs: number): Promise<boolean> {
+    const db = await getDb();
+    const now = Date.now();
+    const result = await db.run(
+      `INSERT INTO coordination_locks (name, owner, expiresAt) VALUES (?, ?, ?)
+       ON CONFLICT(name) DO UPDATE SET owner = excluded.owner, expiresAt = excluded.expiresAt
+       WHERE coordination_locks.expiresAt <= ? OR coordination_locks.owner = excluded.owner`,
+      name, INSTANCE_ID, now + ttlMs, now
+    );
+    return result.changes > 0;
+  }
+}
+
+let store: CoordinationStore | null = null;
+
+// Returns the configured store (created on first use)
+export function getCoordinationStore(): CoordinationStore {
+  if (!store) {
+    const backend = (process.env.COORDINATION_BACKEND || 'database').toLowerCase();
+    if (backend === 'redis') {
+      if (!process.env.REDIS_URL) throw new Error('COORDINATION_BACKEND=redis requires REDIS_URL');
+      store = new RedisCoordinationStore(process.env.REDIS_URL, INSTANCE_ID);
+    } else if (backend === 'database' || backend === 'sqlite') {
+      store = new DatabaseCoordinationStore();
+    } else {
+      throw new Error(`Unknown COORDINATION_BACKEND '${backend}' (expected 'database' or 'redis')`);
+    }
+    logKeyEvent('Key Coordination Started', { backend: store.backend, instanceId: INSTANCE_ID });
+  }
+  return store;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, test } from 'bun:test';
+import { classifyKeyError, parseRateLimitDetails } from './errorClassifier';
+
+// An axios-style error carrying a Gemini error body
+const upstreamError = (status: number, error: any, headers: Record<string, string> = {}) => ({
+  message: `Request failed with status code ${status}`,
+  response: { status, headers, data: { error } },
+});
+
+const retryInfo = (retryDelay: string) => ({ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay });
+const quotaFailure = (...violations: any[]) => ({ '@type': 'type.googleapis.com/google.rpc.QuotaFailure', violations });
+
+describe('parseRateLimitDetails', () => {
+  test('reads the delay from RetryInfo', () => {
+    const error = upstreamError(429, { code: 429, status: 'RESOURCE_EXHAUSTED', details: [retryInfo('43s')] });
+    expect(parseRateLimitDetails(error).retryAfterMs).toBe(43000);
+    expect(parseRateLimitDetails(upstreamError(429, { details: [retryInfo('1.5s')] })).retryAfterMs).toBe(1500);
+  });
+
+  test('falls back to the Retry-After header, in seconds or as a date', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+    expect(parseRateLimitDetails(upstreamError(429, { details: [] }, { 'retry-after': '12' }), now).retryAfterMs).toBe(12000);
+    expect(parseRateLimitDetails(upstreamError(429, {}, { 'retry-after': 'Wed, 01 Jan 2025 00:01:00 GMT' }), now).retryAfterMs).toBe(60000);
+    // RetryInfo wins over the header
+    expect(parseRateLimitDetails(upstreamError(429, { details: [retryInfo('5s')] }, { 'retry-after': '30' }), now).retryAfterMs).toBe(5000);
+  });
+
+  test('ignores malformed delays', () => {
+    expect(parseRateLimitDetails(upstreamError(429, { details: [retryInfo('soon')] }))).toEqual({ retryAfterMs: null, quota: null, window: null });
+  });
+
+  test('reads the violated quota and its window from QuotaFailure', () => {
+    const error = upstreamError(429, {
+      details: [quotaFailure({ quotaMetric: 'generativelanguage.googleapis.com/generate_content_free_tier_requests', quotaId: 'GenerateRequestsPerMinutePerProjectPerModel-FreeTier' })],
+    });
+    expect(parseRateLimitDetails(error)).toEqual({ retryAfterMs: null, quota: 'GenerateRequestsPerMinutePerProjectPerModel-FreeTier', window: 'minute' });
+  });
+
+  test('prefers a per-day violation over a per-minute one', () => {
+    const error = upstreamError(429, {
+      details: [
+        quotaFailure({ quotaId: 'GenerateRequestsPerMinutePerProjectPerModel-FreeTier' }),
+        quotaFailure({ quotaId: 'GenerateRequestsPerDayPerProjectPerModel-FreeTier' }),
+        retryInfo('20s'),
+      ],
+    });
+    expect(parseRateLimitDetails(error)).toEqual({ retryAfterMs: 20000, quota: 'GenerateRequestsPerDayPerProjectPerModel-FreeTier', window: 'day' });
+  });
+
+  test('falls back to the quota metric and reads bodies wrapped in an array', () => {
+    const error = {
+      response: { status: 429, headers: {}, data: [{ error: { details: [quotaFailure({ quotaMetric: 'requests_per_day' })] } }] },
+    };
+    expect(parseRateLimitDetails(error)).toEqual({ retryAfterMs: null, quota: 'requests_per_day', window: 'day' });
+  });
+
+  test('reports an unknown window for quotas without a period', () => {
+    expect(parseRateLimitDetails(upstreamError(429, { details: [quotaFailure({ subject: 'project:123' })] })).window).toBeNull();
+  });
+});
+
+describe('classifyKeyError', () => {
+  test('revokes keys only on an explicit invalid-key reason', () => {
+    const invalid = upstreamError(400, { message: 'API key not valid. Please pass a valid API key.', details: [{ reason: 'API_KEY_INVALID' }] });
+    expect(classifyKeyError(invalid)).toMatchObject({ errorClass: 'key-fatal', statusCode: 400, reason: 'API_KEY_INVALID' });
+    const denied = upstreamError(403, { message: 'Permission denied on tuned model', status: 'PERMISSION_DENIED' });
+    expect(classifyKeyError(denied)).toMatchObject({ errorClass: 'client-error', reason: 'PERMISSION_DENIED' });
+  });
+
+  test('classifies rate limits, server errors and network failures', () => {
+    expect(classifyKeyError(upstreamError(429, { status: 'RESOURCE_EXHAUSTED' })).errorClass).toBe('key-transient');
+    expect(classifyKeyError(upstreamError(503, { status: 'UNAVAILABLE' })).errorClass).toBe('upstream-transient');
+    expect(classifyKeyError(new Error('socket hang up'))).toMatchObject({ errorClass: 'upstream-transient', statusCode: null, message: 'socket hang up' });
+  });
+});
@@ -0,0 +1,156 @@
+// Classes of upstream failures, each handled differently by KeyManager.markKeyError:
+// - key-fatal: Gemini says the key itself is invalid or blocked (an explicit reason such as API_KEY_INVALID);
+//   it is revoked right away
+// - key-transient: the key is rate-limited; it cools down (or waits for the daily reset) and comes back on its own
+// - upstream-transient: Gemini or the network failed; counts towards maxFailureCount
+// - client-error: the request itself is wrong; the key is not touched and the error goes back to the client.
+//   This includes 401/403s without an invalid-key reason: PERMISSION_DENIED also comes back for a tuned model
+//   or cachedContent the project cannot access, so a client must not be able to revoke keys with one
+export type KeyErrorClass = 'key-fatal' | 'key-transient' | 'upstream-transient' | 'client-error';
+
+export interface KeyErrorClassification {
+  errorClass: KeyErrorClass;
+  statusCode: number | null; // Upstream HTTP status, null on network errors and timeouts
+  reason: string | null; // ErrorInfo reason (e.g. API_KEY_INVALID), else the RPC status (e.g. PERMISSION_DENIED)
+  message: string;
+  upstreamError?: any; // The upstream `error` object, when the body was readable
+}
+
+// Gemini rejects unknown, deleted or leaked keys with 400/401/403 and an "API key not valid" style message
+const INVALID_KEY_PATTERN = /API_KEY_INVALID|api key (not valid|invalid|expired|was reported as leaked)/i;
+
+// ErrorInfo reasons that mean the key (or its project) can never serve requests as it is
+const FATAL_KEY_REASONS = new Set([
+  'API_KEY_INVALID',
+  'API_KEY_EXPIRED',
+  'API_KEY_SERVICE_BLOCKED',
+  'API_KEY_HTTP_REFERRER_BLOCKED',
+  'API_KEY_IP_ADDRESS_BLOCKED',
+  'SERVICE_DISABLED',
+  'CONSUMER_SUSPENDED',
+  'BILLING_DISABLED',
+]);
+
+// Error bodies of streamed requests are read up to this size
+const MAX_STREAMED_ERROR_BYTES = 64 * 1024;
+
+// Returns the `error` object of a Gemini error body. The OpenAI-compatible endpoint
+// sometimes wraps the body in an array: [{ "error": { ... } }]
+export function getUpstreamError(data: any): any {
+  const body = Array.isArray(data) ? data[0] : data;
+  return body && typeof body.error === 'object' && body.error !== null ? body.error : undefined;
+}
+
+function getErrorReasons(upstreamError: any): string[] {
+  return Array.isArray(upstreamError?.details)
+    ? upstreamError.details.map((detail: any) => detail?.reason).filter(Boolean)
+    : [];
+}
+
+export function isInvalidKeyError(statusCode: number | null, upstreamError: any): boolean {
+  if (statusCode !== 400 && statusCode !== 401 && statusCode !== 403) return false;
+  return getErrorReasons(upstreamError).some(reason => FATAL_KEY_REASONS.has(reason))
+    || INVALID_KEY_PATTERN.test(upstreamError?.message || '');
+}
+
+// Classifies an axios error (or any other error thrown while talking to Gemini)
+export function classifyKeyError(error: any): KeyErrorClassification {
+  const statusCode: number | null = error?.response?.status ?? null;
+  const upstreamError = getUpstreamError(error?.response?.data);
+  const reason = getErrorReasons(upstreamError)[0] || upstreamError?.status || null;
+  const message = upstreamError?.message || error?.message || 'Unknown upstream error';
+
+  let errorClass: KeyErrorClass;
+  if (statusCode === null) {
+    errorClass = 'upstream-transient'; // Network error, timeout or a stream that broke off
+  } else if (isInvalidKeyError(statusCode, upstreamError)) {
+    errorClass = 'key-fatal'; // Only with an explicit invalid-key reason or message
+  } else if (statusCode === 429) {
+    errorClass = 'key-transient';
+  } else if (statusCode === 408 || statusCode >= 500) {
+    errorClass = 'upstream-transient';
+  } else if (statusCode >= 400) {
+    errorClass = 'client-error'; // Bad model name, invalid arguments, payload too large, ...
+  } else {
+    errorClass = 'upstream-transient';
+  }
+
+  return { errorClass, statusCode, reason, message, upstreamError };
+}
+
+// Streamed requests (responseType: 'stream') get their error body as a stream. Reads and parses it
+// in place so the classifier and the client response see the actual Gemini error.
+export async function readUpstreamErrorBody(error: any): Promise<void> {
+  const data = error?.response?.data;
+  if (!data || typeof data[Symbol.asyncIterator] !== 'function') return;
+
+  try {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of data) {
+      const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+      chunks.push(buffer);
+      size += buffer.length;
+      if (size >= MAX_STREAMED_ERROR_BYTES) break;
+    }
+    const text = Buffer.concat(chunks).toString('utf8');
+    try {
+      error.response.data = JSON.parse(text);
+    } catch {
+      error.response.data = text; // Not JSON, keep the raw text
+    }
+  } catch {
+    // The body could not be read; classify on the status code alone
+  }
+}
+
+// Quota window of a violated Gemini quota, e.g. GenerateRequestsPerMinutePerProjectPerModel
+export type QuotaWindow = 'minute' | 'day';
+
+// What a 429 says about when the key can be used again
+export interface RateLimitDetails {
+  retryAfterMs: number | null; // From RetryInfo.retryDelay, else the Retry-After header
+  quota: string | null; // Violated quota ID (or metric), e.g. 'GenerateRequestsPerDayPerProjectPerModel-FreeTier'
+  window: QuotaWindow | null; // null when the response names no quota
+}
+
+// Parses a protobuf Duration as rendered in JSON, e.g. "43s" or "1.5s"
+function parseDurationMs(value: any): number | null {
+  const match = typeof value === 'string' ? /^(\d+(?:\.\d+)?)s$/.exec(value.trim()) : null;
+  return match ? Math.round(parseFloat(match[1]) * 1000) : null;
+}
+
+// Parses a Retry-After header: delay in seconds or an HTTP date
+function parseRetryAfterMs(value: any, now: number): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+function getQuotaWindow(quota: string): QuotaWindow | null {
+  if (/per[_-]?day/i.test(quota)) return 'day';
+  if (/per[_-]?minute/i.test(quota)) return 'minute';
+  return null;
+}
+
+// Reads RetryInfo, QuotaFailure and Retry-After from a 429. A per-day violation wins over
+// a per-minute one when the response lists several.
+export function parseRateLimitDetails(error: any, now: number = Date.now()): RateLimitDetails {
+  const upstreamError = getUpstreamError(error?.response?.data);
+  const details: any[] = Array.isArray(upstreamError?.details) ? upstreamError.details : [];
+
+  const retryInfo = details.find(detail => detail?.['@type']?.endsWith('google.rpc.RetryInfo'));
+  const retryAfterMs = parseDurationMs(retryInfo?.retryDelay)
+    ?? parseRetryAfterMs(error?.response?.headers?.['retry-after'], now);
+
+  const quotas: string[] = details
+    .filter(detail => detail?.['@type']?.endsWith('google.rpc.QuotaFailure') && Array.isArray(detail.violations))
+    .flatMap(detail => detail.violations)
+    .map((violation: any) => violation?.quotaId || violation?.quotaMetric || violation?.subject)
+    .filter((quota: any): quota is string => typeof quota === 'string' && quota.length > 0);
+
+  const quota = quotas.find(q => getQuotaWindow(q) === 'day') || quotas.find(q => getQuotaWindow(q) === 'minute') || quotas[0] || null;
+  return { retryAfterMs, quota, window: quota ? getQuotaWindow(quota) : null };
+}
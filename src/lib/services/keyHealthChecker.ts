@@ -0,0 +1,125 @@
+import axios from 'axios';
+import { ApiKey } from '../models/ApiKey';
+import { KeyProbe, KeyProbeAction, KeyProbeOutcome } from '../models/KeyProbe';
+import keyManager from './keyManager';
+import { logKeyEvent, logError } from './logger';
+import { readSettings, Settings } from '@/lib/settings';
+import { classifyKeyError } from './errorClassifier';
+import { getCoordinationStore } from './coordination';
+
+// Listing a single model is the cheapest authenticated call and uses no generation quota
+const PROBE_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+const PROBE_TIMEOUT_MS = 10000;
+// Used when the settings cannot be read, so a database hiccup does not end the loop
+const FALLBACK_INTERVAL_SECONDS = 300;
+
+// Whether a key is out of service for a reason a successful probe can clear: deactivated after
+// reaching maxFailureCount. Revoked and manually disabled keys are left alone. Rate limit cooldowns
+// are not probed either: listing models uses no generation quota, so it succeeds while the key is
+// still rate-limited, and the cooldown (set from Gemini's RetryInfo) expires on its own.
+export function needsRecovery(key: ApiKey, settings: Settings): boolean {
+  if (key.isRevoked || key.isActive) return false;
+  return key.failureCount >= settings.maxFailureCount;
+}
+
+class KeyHealthChecker {
+  private timer: NodeJS.Timeout | null = null;
+  private isProbing = false; // Prevents overlapping runs
+
+  // Starts the background loop; the interval is re-read from the settings before every run
+  start() {
+    if (this.timer) return;
+    this._scheduleNext();
+  }
+
+  stop() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  // Never rejects: runOnce handles its own errors and a failed settings read falls back to a default interval
+  private async _scheduleNext() {
+    let intervalSeconds = FALLBACK_INTERVAL_SECONDS;
+    try {
+      intervalSeconds = (await readSettings()).healthCheckIntervalSeconds;
+    } catch (error: any) {
+      logError(error, { context: 'Key health check scheduling' });
+    }
+    this.timer = setTimeout(() => {
+      this.runOnce().finally(() => this._scheduleNext());
+    }, Math.max(30, intervalSeconds) * 1000);
+    this.timer.unref?.(); // Never keep the process alive just for probing
+  }
+
+  // Probes every key waiting for recovery, one at a time, then prunes the probe history.
+  // Returns the number of keys probed.
+  async runOnce(): Promise<number> {
+    if (this.isProbing) return 0;
+    this.isProbing = true;
+    try {
+      const settings = await readSettings();
+      if (!settings.healthCheckEnabled) return 0;
+
+      // With several balancer instances, only the one holding the lock probes during an interval
+      const lockTtlMs = Math.max(30, settings.healthCheckIntervalSeconds) * 1000;
+      if (!(await getCoordinationStore().acquireLock('key-health-check', lockTtlMs))) return 0;
+
+      const candidates = (await ApiKey.findAll({})).filter(key => needsRecovery(key, settings));
+      for (const key of candidates) {
+        await this.probeKey(key);
+      }
+
+      const pruned = await KeyProbe.deleteStale();
+      if (pruned > 0) logKeyEvent('Key Probes Pruned', { count: pruned });
+      return candidates.length;
+    } catch (error: any) {
+      logError(error, { context: 'Key health check' });
+      return 0;
+    } finally {
+      this.isProbing = false;
+    }
+  }
+
+  // Probes a single key and applies the result: keys waiting for recovery are restored when they
+  // answer, keys rejected as invalid are revoked. Other failures leave the key as it is.
+  async probeKey(key: ApiKey): Promise<KeyProbe> {
+    const startedAt = Date.now();
+    let outcome: KeyProbeOutcome;
+    let statusCode: number | null = null;
+    let message: string;
+
+    try {
+      const response = await axios.get(PROBE_URL, {
+        params: { pageSize: 1 },
+        headers: { 'x-goog-api-key': key.key },
+        timeout: PROBE_TIMEOUT_MS,
+      });
+      statusCode = response.status;
+      outcome = 'healthy';
+      message = 'Models listed successfully';
+    } catch (error: any) {
+      const classified = classifyKeyError(error);
+      statusCode = classified.statusCode;
+      message = classified.message;
+      outcome = classified.errorClass === 'key-fatal' ? 'revoked' : 'failed';
+    }
+    const responseTime = Date.now() - startedAt;
+
+    let action: KeyProbeAction | null = null;
+    if (outcome === 'revoked' && !key.isRevoked) {
+      await keyManager.revokeKey(key._id, message);
+      action = 'revoked';
+    } else if (outcome === 'healthy' && needsRecovery(key, await readSettings())) {
+      await keyManager.restoreKey(key._id);
+      action = 'restored';
+    }
+
+    const probe = await KeyProbe.create({ apiKeyId: key._id, outcome, statusCode, message, responseTime, action });
+    logKeyEvent('Key Probe', { keyId: key._id, outcome, statusCode, responseTime, action });
+    return probe;
+  }
+}
+
+// Export a singleton instance
+const keyHealthChecker = new KeyHealthChecker();
+export default keyHealthChecker;
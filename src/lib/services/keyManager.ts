@@ -1,343 +1,613 @@
 import { ApiKey } from '../models/ApiKey';
+import { KeyModelUsage, normalizeModelName } from '../models/KeyModelUsage';
+import { KeyPool } from '../models/KeyPool';
 import { logKeyEvent, logError } from './logger';
 import { readSettings } from '@/lib/settings';
+import { getKeySelectionStrategy, KeySelectionStrategyName } from './keySelection';
+import { MinuteUsage, fitsMinuteLimits } from './rateLimiter';
+import { getCoordinationStore } from './coordination';
+import { classifyKeyError, KeyErrorClass, parseRateLimitDetails } from './errorClassifier';
+import { AdmissionQueue, QueueStats } from './admissionQueue';
+import { getQuotaDay, isSameQuotaDay, getNextQuotaReset } from '@/lib/utils/quotaDay';
 import { Mutex } from 'async-mutex'; // Import Mutex
 
-// Helper function to check if two date objects represent the same day in the server's local timezone
-function isSameLocalDay(date1: Date | null, date2: Date | null): boolean {
-  if (!date1 || !date2) return false;
-  return (
-    date1.getFullYear() === date2.getFullYear() &&
-    date1.getMonth() === date2.getMonth() &&
-    date1.getDate() === date2.getDate()
-  );
+// A lease is handed out by getKey() for a single request.
+// The caller passes it back to markKeySuccess/markKeyError so the exact key that was used gets updated.
+export interface KeyLease {
+  id: string; // ApiKey._id
+  key: string; // The Gemini API key value
+  model: string | null; // Normalized model the key was leased for (null for model-agnostic calls)
+  poolId: string | null; // KeyPool._id the key was leased from (null for the default pool)
+  leasedAt: number; // Epoch ms when the lease was handed out
+  requestId: string | null; // Proxy request the key was leased for, added to the key events it causes
 }
+
+// A key that is currently in rotation, together with the requests served since it entered rotation.
+// Rotation is shared by all balancer instances through the coordination store; the ApiKey is
+// loaded fresh from the database for every lease, so cooldowns set by other instances are seen.
+interface ActiveKeySlot {
+  apiKey: ApiKey;
+  poolId: string | null; // Pool whose rotation the key belongs to
+  requestCounter: number;
+}
+
+// Rotation settings of a pool: its own overrides on top of the global settings
+interface PoolRotationSettings {
+  keySelectionStrategy: KeySelectionStrategyName;
+  parallelKeyCount: number;
+  keyRotationRequestCount: number;
+}
+
 class KeyManager {
-  private currentKey: ApiKey | null = null;
-  private requestCounter: number = 0;
-  private mutex = new Mutex(); // Create a mutex instance
+  private mutex = new Mutex(); // Serializes leases within this instance; instances coordinate through the store
+  private admissionQueue = new AdmissionQueue(); // Requests waiting for a key with capacity
 
-  constructor() {
-    // Constructor no longer needs to set rotationRequestCount
+  async initialize() {
+    // Fill the default pool's rotation without handing out a lease
+    await this.mutex.runExclusive(async () => {
+      const now = new Date();
+      await this._fillActiveKeys(null, await this._loadSlots(now), now);
+    });
   }
 
-  async initialize() {
-    // Call getKey() which will handle initial rotation if needed
-    if (!this.currentKey) {
-      await this.getKey();
+  // Resets daily counters on all active keys whose last reset was before today (in each key's quota time zone).
+  // Each reset is a compare-and-set on lastResetDate, so only one instance resets (and logs) a key.
+  private async _resetDailyCounters(now: Date): Promise<void> {
+    const settings = await readSettings();
+
+    // Check ALL active keys for daily resets, even rate-limited ones
+    const allActiveKeys = await ApiKey.findAll({
+      isActive: true // Only filter for generally active keys
+    });
+
+    for (const key of allActiveKeys) {
+      const lastReset = key.lastResetDate ? new Date(key.lastResetDate) : null;
+
+      // Check if last reset was before today (quota time zone)
+      const timeZone = key.getQuotaTimeZone(settings.quotaResetTimezone);
+      if (!lastReset || !isSameQuotaDay(lastReset, now, timeZone)) {
+         if (key.dailyRequestsUsed > 0 || key.isDisabledByRateLimit) { // Only reset if needed
+            if (await key.resetDailyUsage(now.toISOString())) {
+              logKeyEvent('Daily Limit Reset', { keyId: key._id, date: getQuotaDay(now, timeZone), timeZone });
+            }
+         } else if (!key.lastResetDate) {
+           // Set initial reset date if it's null
+           await key.resetDailyUsage(now.toISOString());
+         }
+      }
     }
   }
 
-  // Internal rotateKey logic, now wrapped by getKey's mutex
-  private async _internalRotateKey(): Promise<{ key: string; id: string }> {
-    // Note: This method assumes it's already being called within a mutex lock
-    try {
-      // Get a working key that's not in cooldown
-      const now = new Date();
-      const todayLocalString = now.toLocaleDateString('en-CA'); // YYYY-MM-DD format for local date
+  // Resolves the rotation settings of a pool (null for the default pool, which uses the global settings)
+  private async _getPoolSettings(poolId: string | null): Promise<PoolRotationSettings> {
+    const settings = await readSettings();
+    const pool = poolId ? await KeyPool.findById(poolId) : null;
+    return {
+      keySelectionStrategy: pool?.keySelectionStrategy ?? settings.keySelectionStrategy,
+      parallelKeyCount: pool?.parallelKeyCount ?? settings.parallelKeyCount,
+      keyRotationRequestCount: pool?.keyRotationRequestCount ?? settings.keyRotationRequestCount,
+    };
+  }
 
-      // --- FIRST: Check ALL active keys for daily resets, even rate-limited ones ---
-      const allActiveKeys = await ApiKey.findAll({
-        isActive: true // Only filter for generally active keys
-      });
+  // Loads the keys in rotation (all pools) from the coordination store, dropping entries of deleted keys
+  private async _loadSlots(now: Date): Promise<ActiveKeySlot[]> {
+    const store = getCoordinationStore();
+    const entries = await store.getRotation();
+    const keysById = new Map((await ApiKey.findByIds(entries.map(entry => entry.keyId))).map(key => [key._id, key]));
+
+    const slots: ActiveKeySlot[] = [];
+    for (const entry of entries) {
+      const apiKey = keysById.get(entry.keyId);
+      if (!apiKey) {
+        await store.leaveRotation(entry.keyId);
+        continue;
+      }
+      slots.push({ apiKey, poolId: entry.poolId, requestCounter: entry.requestCounter });
+    }
+    return slots;
+  }
 
-      // --- Daily Reset Logic ---
-      let keysWereReset = false; // Flag to track if any key was updated
-      const updatedKeysMap = new Map<string, ApiKey>(); // Store updated keys by ID
-
-      for (const key of allActiveKeys) {
-        const lastReset = key.lastResetDate ? new Date(key.lastResetDate) : null;
-        let needsUpdate = false;
-
-        // Check if last reset was before today (local time)
-        if (!lastReset || !isSameLocalDay(lastReset, now)) {
-           if (key.dailyRequestsUsed > 0 || key.isDisabledByRateLimit) { // Only reset if needed
-              key.dailyRequestsUsed = 0;
-              key.isDisabledByRateLimit = false; // Re-enable if it was disabled by rate limit
-              key.lastResetDate = now.toISOString();
-              needsUpdate = true;
-              logKeyEvent('Daily Limit Reset', { keyId: key._id, date: todayLocalString });
-           } else if (!key.lastResetDate) {
-             // Set initial reset date if it's null
-             key.lastResetDate = now.toISOString();
-             needsUpdate = true;
-           }
-        }
+  // Returns the keys of a pool that could enter rotation right now (after daily resets)
+  private async _findAvailableKeys(now: Date, poolId: string | null, slots: ActiveKeySlot[]): Promise<ApiKey[]> {
+    await this._resetDailyCounters(now);
+
+    // --- Get available keys for use (after potential resets) ---
+    const rotationIds = new Set(slots.map(slot => slot.apiKey._id));
+    const candidates = (await ApiKey.findAll({
+      isActive: true, // Must be generally active
+      isDisabledByRateLimit: false, // Must not be disabled by daily limit
+      $or: [ // Must not be in global rate limit cooldown
+        { rateLimitResetAt: null },
+        { rateLimitResetAt: { $lte: now.toISOString() } }
+      ]
+    } as any)).filter(key =>
+      (key.poolId ?? null) === poolId && // Only keys of the requested pool
+      !rotationIds.has(key._id) // Skip keys already in rotation
+    );
+
+    // Skip keys at their RPM/TPM limit
+    const store = getCoordinationStore();
+    const available: ApiKey[] = [];
+    for (const key of candidates) {
+      if (fitsMinuteLimits(await store.getMinuteUsage(key._id, now.getTime()), key)) available.push(key);
+    }
+    return available;
+  }
 
-        if (needsUpdate) {
-            keysWereReset = true;
-            updatedKeysMap.set(key._id, key); // Store the updated key instance
-        }
-      }
+  // Adds a key picked by the pool's selection strategy to rotation and logs the rotation.
+  // The pool's rotation may hold at most maxKeys keys; returns null when another instance filled it first.
+  private async _rotateIn(candidates: ApiKey[], rotationType: string, poolId: string | null, slots: ActiveKeySlot[], maxKeys: number): Promise<ActiveKeySlot | null> {
+    const poolSettings = await this._getPoolSettings(poolId);
+    const strategy = getKeySelectionStrategy(poolSettings.keySelectionStrategy);
+    const key = await strategy.select(candidates, poolId);
+    if (!key) return null;
+
+    if (!(await getCoordinationStore().joinRotation(key._id, poolId, maxKeys))) return null;
+    const slot: ActiveKeySlot = { apiKey: key, poolId, requestCounter: 0 };
+    slots.push(slot);
+
+    // Log key rotation
+    logKeyEvent('Key Rotation', {
+      keyId: key._id,
+      lastUsed: key.lastUsed,
+      failureCount: key.failureCount,
+      rotationType,
+      strategy: strategy.name,
+      poolId,
+      activeKeyCount: slots.filter(s => s.poolId === poolId).length
+    });
+    return slot;
+  }
 
-      // If any keys were reset, perform a single bulk write
-      if (keysWereReset) {
-          await ApiKey.bulkUpdate(updatedKeysMap);
-      }
-      // --- End Daily Reset Logic ---
-
-      // --- NOW: Get available keys for use (after potential resets) ---
-      let availableKeys = await ApiKey.findAll({
-        isActive: true, // Must be generally active
-        isDisabledByRateLimit: false, // Must not be disabled by daily limit
-        $or: [ // Must not be in global rate limit cooldown
-          { rateLimitResetAt: null },
-          { rateLimitResetAt: { $lte: now.toISOString() } }
-        ]
-      } as any); // <-- Type assertion added here
-
-      if (availableKeys.length === 0) {
-        const error = new Error('No available API keys (all active keys might be rate-limited or disabled)');
-        logError(error, { context: 'Key rotation - post daily reset' });
-        throw error;
-      }
+  // Picks new keys of a pool with its selection strategy until its number of
+  // parallel keys is in rotation (or no more keys are available). New slots are added to `slots`.
+  private async _fillActiveKeys(poolId: string | null, slots: ActiveKeySlot[], now: Date): Promise<void> {
+    const poolSettings = await this._getPoolSettings(poolId);
+    const targetCount = Math.max(1, poolSettings.parallelKeyCount || 1);
 
-      // --- Hybrid LRU + New Key Priority Logic ---
-      // 1. Prioritize unused keys
-      let key = availableKeys.find(k => k.lastUsed === null);
-
-      // 2. If no unused keys, fall back to LRU
-      if (!key) {
-        const sortedKeys = availableKeys.sort((a, b) => {
-          // Should not happen based on find above, but defensive check
-          if (!a.lastUsed) return -1;
-          if (!b.lastUsed) return 1;
-          return new Date(a.lastUsed).getTime() - new Date(b.lastUsed).getTime();
-        });
-        key = sortedKeys[0]; // Select the least recently used
+    let activeCount = slots.filter(slot => slot.poolId === poolId).length;
+    if (activeCount >= targetCount) return;
+
+    const availableKeys = await this._findAvailableKeys(now, poolId, slots);
+
+    while (activeCount < targetCount && availableKeys.length > 0) {
+      const slot = await this._rotateIn(availableKeys, 'scheduled', poolId, slots, targetCount);
+      if (!slot) break;
+      availableKeys.splice(availableKeys.indexOf(slot.apiKey), 1);
+      activeCount++;
+    }
+  }
+
+  // Checks whether a key in rotation may still serve requests, resetting its daily
+  // counters when a new day started. Returns false if the key must leave rotation.
+  private async _validateSlot(slot: ActiveKeySlot, now: Date): Promise<boolean> {
+    let key = slot.apiKey;
+    const timeZone = key.getQuotaTimeZone((await readSettings()).quotaResetTimezone);
+
+    // --- Check 0: Is the key still enabled and in this pool? (it may have been edited meanwhile) ---
+    if (!key.isActive || (key.poolId ?? null) !== slot.poolId) return false;
+
+    // --- Check 1: Does the key need daily reset? ---
+    const lastReset = key.lastResetDate ? new Date(key.lastResetDate) : null;
+    if (!lastReset || !isSameQuotaDay(lastReset, now, timeZone)) {
+      if (await key.resetDailyUsage(now.toISOString())) {
+        logKeyEvent('Daily Limit Reset (getKey)', { keyId: key._id, date: getQuotaDay(now, timeZone), timeZone });
+      } else {
+        // Another instance reset it first: continue with its state
+        const reloaded = await ApiKey.findOne({ _id: key._id });
+        if (!reloaded) return false;
+        key = slot.apiKey = reloaded;
       }
-      // --- End of Hybrid Logic ---
+    }
 
-      if (!key) {
-        // This should theoretically not be reached if availableKeys.length > 0 check passed
-        const error = new Error('Failed to select a key after filtering and sorting');
-        logError(error, { context: 'Key rotation - selection phase' });
-        throw error;
+    // --- Check 2: Did the key exhaust a per-day quota upstream? ---
+    if (key.isDisabledByRateLimit) {
+      logKeyEvent('Daily Quota Exhausted (getKey)', { keyId: key._id, quota: key.rateLimitQuota });
+      return false;
+    }
+
+    // --- Check 3: Is the key globally rate-limited? ---
+    const globalResetTime = key.rateLimitResetAt ? new Date(key.rateLimitResetAt) : null;
+    if (globalResetTime && globalResetTime > now) {
+      logKeyEvent('Global Rate Limit Active (getKey)', { keyId: key._id, resetTime: key.rateLimitResetAt });
+      return false;
+    }
+
+    // --- Check 4: Is the key daily rate-limited? ---
+    const limit = key.dailyRateLimit;
+    // Ensure limit is a positive number before checking usage
+    if (typeof limit === 'number' && limit > 0 && key.dailyRequestsUsed >= limit) {
+      logKeyEvent('Daily Rate Limit Hit (getKey)', {
+        keyId: key._id,
+        dailyRequestsUsed: key.dailyRequestsUsed,
+        dailyRateLimit: limit
+      });
+      await key.patch({ isDisabledByRateLimit: true });
+      return false;
+    }
+
+    // --- Check 5: Is the key at its requests/tokens per minute limit? ---
+    // Moving traffic to another key now avoids running into a 429
+    const minuteUsage = await getCoordinationStore().getMinuteUsage(key._id, now.getTime());
+    if (!fitsMinuteLimits(minuteUsage, key)) {
+      logKeyEvent('Minute Rate Limit Reached (getKey)', {
+        keyId: key._id,
+        requestsLastMinute: minuteUsage.requests,
+        tokensLastMinute: minuteUsage.tokens,
+        rpmLimit: key.rpmLimit,
+        tpmLimit: key.tpmLimit
+      });
+      return false;
+    }
+
+    // --- Check 6: Is rotation by request count needed? ---
+    const poolSettings = await this._getPoolSettings(slot.poolId);
+    const rotationThreshold = poolSettings.keyRotationRequestCount;
+    if (rotationThreshold > 0 && slot.requestCounter >= rotationThreshold) {
+      logKeyEvent('Request Count Rotation Triggered (getKey)', {
+        keyId: key._id,
+        requestCounter: slot.requestCounter,
+        rotationThreshold: rotationThreshold
+      });
+      return false;
+    }
+
+    return true;
+  }
+
+  // Removes a key from rotation on every instance (it can be picked again by a later rotation)
+  private async _releaseSlot(keyId: string) {
+    await getCoordinationStore().leaveRotation(keyId);
+  }
+
+  // Lets queued requests retry after a key was edited. Keys in rotation are reloaded on every lease,
+  // so new limits apply right away; a key moved to another pool re-enters rotation through its new pool.
+  async refreshKeyLimits(updatedKey: ApiKey) {
+    await this._withQueueNotify(async () => {
+      const entry = (await getCoordinationStore().getRotation()).find(e => e.keyId === updatedKey._id);
+      if (entry && entry.poolId !== (updatedKey.poolId ?? null)) {
+        await this._releaseSlot(updatedKey._id);
       }
+    });
+  }
+
+  // Brings a key back after a successful health probe: re-enables it and clears its failures and global cooldown
+  async restoreKey(keyId: string): Promise<ApiKey | null> {
+    return await this._withQueueNotify(async () => {
+      const key = await ApiKey.findOne({ _id: keyId });
+      if (!key) return null;
+      await key.patch({ isActive: true, failureCount: 0, rateLimitResetAt: null });
+      await this._releaseSlot(keyId); // The key re-enters through rotation
+
+      logKeyEvent('Key Restored', { keyId, reason: 'Health probe succeeded' });
+      return key;
+    });
+  }
+
+  // Takes a key out of service for good after upstream rejected it as invalid
+  async revokeKey(keyId: string, reason: string): Promise<ApiKey | null> {
+    return await this.mutex.runExclusive(async () => {
+      const key = await ApiKey.findOne({ _id: keyId });
+      if (!key) return null;
+      await this._revoke(key, reason);
+      return key;
+    });
+  }
+
+  private async _revoke(key: ApiKey, reason: string, requestId?: string | null): Promise<void> {
+    await key.patch({ isActive: false, isRevoked: true });
+    await this._releaseSlot(key._id);
 
-      this.currentKey = key;
-      this.requestCounter = 0; // Reset counter on key rotation
+    logKeyEvent('Key Revoked', { keyId: key._id, reason, requestId });
+  }
+
+  // Requests and tokens sent through a key during the last minute (by all instances)
+  async getMinuteUsage(keyId: string): Promise<MinuteUsage> {
+    return await getCoordinationStore().getMinuteUsage(keyId);
+  }
+
+  // Counts tokens reported by a response against the key's TPM window.
+  // Streaming responses report usage in their last chunk, after markKeySuccess was already called.
+  async recordTokenUsage(lease: KeyLease, totalTokens: number | null | undefined) {
+    if (typeof totalTokens !== 'number') return;
+    await getCoordinationStore().recordTokens(lease.id, totalTokens);
+  }
+
+  async markKeySuccess(lease: KeyLease, usage?: { totalTokens?: number | null }) {
+    try {
+      await this.recordTokenUsage(lease, usage?.totalTokens);
 
-      // Log key rotation
-      logKeyEvent('Key Rotation', {
+      // Counted in place, so concurrent successes on other instances are never lost
+      const key = await ApiKey.recordUse(lease.id, new Date().toISOString());
+      if (!key) return;
+
+      logKeyEvent('Key Success', {
         keyId: key._id,
+        requestId: lease.requestId,
+        model: lease.model,
+        totalTokens: usage?.totalTokens,
         lastUsed: key.lastUsed,
-        failureCount: key.failureCount,
-        rotationType: 'scheduled'
+        requestCount: key.requestCount,
+        dailyRequestsUsed: key.dailyRequestsUsed,
+        dailyRateLimit: key.dailyRateLimit
       });
 
-      return { key: key.key, id: key._id };
+      // Count the request against the per-model quota of the key as well
+      if (lease.model) {
+        const timeZone = key.getQuotaTimeZone((await readSettings()).quotaResetTimezone);
+        await this._recordModelRequest(key._id, lease.model, timeZone, lease.requestId);
+      }
     } catch (error: any) {
-      logError(error, { action: 'rotateKey' });
-      throw error;
+      logError(error, { action: 'markKeySuccess', keyId: lease.id, requestId: lease.requestId });
     }
   }
 
-  async markKeySuccess() {
-    if (this.currentKey) {
-      try {
-        const now = new Date().toISOString();
-        this.currentKey.lastUsed = now;
-        this.currentKey.requestCount += 1; // Increment total request count
-        this.currentKey.dailyRequestsUsed += 1; // Increment daily request count
-        await this.currentKey.save();
-
-        logKeyEvent('Key Success', {
-          keyId: this.currentKey._id,
-          lastUsed: this.currentKey.lastUsed,
-          requestCount: this.currentKey.requestCount,
-          dailyRequestsUsed: this.currentKey.dailyRequestsUsed,
-          dailyRateLimit: this.currentKey.dailyRateLimit
-        });
-      } catch (error: any) {
-        logError(error, { action: 'markKeySuccess' });
-      }
+  // Increments the per-model daily counter, disabling the key for that model once its limit is reached
+  private async _recordModelRequest(apiKeyId: string, model: string, timeZone: string, requestId: string | null): Promise<void> {
+    const current = await KeyModelUsage.findOrBuild(apiKeyId, model);
+    if (current.applyDailyReset(new Date(), timeZone)) await current.save();
+    const usage = await KeyModelUsage.incrementDailyRequests(apiKeyId, model);
+
+    const limit = usage.dailyRateLimit;
+    if (typeof limit === 'number' && limit > 0 && usage.dailyRequestsUsed >= limit && !usage.isDisabledByRateLimit) {
+      await usage.patch({ isDisabledByRateLimit: true });
+      logKeyEvent('Model Daily Rate Limit Hit', {
+        keyId: apiKeyId,
+        model,
+        requestId,
+        dailyRequestsUsed: usage.dailyRequestsUsed,
+        dailyRateLimit: limit
+      });
     }
   }
 
-  async markKeyError(error: any): Promise<boolean> {
-    // Acquire lock before potentially modifying currentKey
-    return await this.mutex.runExclusive(async () => {
-      if (!this.currentKey) return false;
+  // Applies a failed attempt to the leased key according to the error class (see errorClassifier):
+  // key-fatal revokes the key, key-transient starts a rate limit cooldown, upstream-transient counts
+  // towards maxFailureCount and client-error leaves the key alone. Returns the error class.
+  async markKeyError(lease: KeyLease, error: any): Promise<KeyErrorClass> {
+    const { errorClass, statusCode, reason, message } = classifyKeyError(error);
+    if (errorClass === 'client-error') return errorClass; // The request was wrong, not the key
 
-      const keyToUpdate = this.currentKey; // Work with a stable reference inside the lock
+    // Acquire lock before potentially modifying the active keys
+    return await this.mutex.runExclusive(async () => {
+      // Loaded fresh: another instance may have changed the key since it was leased
+      const keyToUpdate = await ApiKey.findOne({ _id: lease.id });
+      if (!keyToUpdate) return errorClass;
 
       try {
-      // Check if it's a rate limit error
-      if (error.response?.status === 429) {
-        const resetTime = error.response.headers['x-ratelimit-reset'];
+      if (errorClass === 'key-fatal') {
+        await this._revoke(keyToUpdate, `Upstream rejected the key (${statusCode}${reason ? ` ${reason}` : ''}): ${message}`, lease.requestId);
+        return errorClass;
+      }
+
+      if (errorClass === 'key-transient') {
         // Fetch settings to get the configured cooldown
         const settings = await readSettings();
-        const fallbackCooldownMs = settings.rateLimitCooldown * 1000; // Convert seconds to ms
-
-        this.currentKey.rateLimitResetAt = resetTime
-          ? new Date(resetTime * 1000).toISOString() // Use API provided reset time if available
-          : new Date(Date.now() + fallbackCooldownMs).toISOString(); // Use configured fallback
-
-        logKeyEvent('Rate Limit Hit', {
-          keyId: this.currentKey._id,
-          resetTime: this.currentKey.rateLimitResetAt
-        });
-
-        await keyToUpdate.save();
+        const now = new Date();
+        const rateLimit = parseRateLimitDetails(error, now.getTime());
+        const isDailyQuota = rateLimit.window === 'day';
+        const timeZone = keyToUpdate.getQuotaTimeZone(settings.quotaResetTimezone);
+        // A per-day quota only comes back with the daily reset, whatever RetryInfo says. Otherwise use
+        // the delay Gemini asked for (RetryInfo or Retry-After), else the configured fallback.
+        const resetAt = isDailyQuota
+          ? getNextQuotaReset(now, timeZone).toISOString()
+          : new Date(now.getTime() + (rateLimit.retryAfterMs ?? settings.rateLimitCooldown * 1000)).toISOString();
+
+        // Gemini quotas are per model: only bench the key for the model that hit the limit
+        if (lease.model) {
+          const usage = await KeyModelUsage.findOrBuild(keyToUpdate._id, lease.model);
+          // The flag below must belong to today's counters (saving also creates a missing row)
+          if (usage.applyDailyReset(now, timeZone)) await usage.save();
+          await usage.patch({
+            rateLimitResetAt: resetAt,
+            rateLimitQuota: rateLimit.quota,
+            ...(isDailyQuota ? { isDisabledByRateLimit: true } : {}),
+          });
 
-        // --- Add delay before clearing currentKey to force rotation ---
-        const delaySeconds = settings.keyRotationDelaySeconds || 0;
-        if (delaySeconds > 0) {
-          logKeyEvent('Rate Limit Delay Start', {
-             keyId: this.currentKey._id,
-             delaySeconds: delaySeconds,
-             reason: 'Global Rate Limit (429)'
+          logKeyEvent(isDailyQuota ? 'Model Daily Quota Exhausted' : 'Model Rate Limit Hit', {
+            keyId: keyToUpdate._id,
+            model: lease.model,
+            requestId: lease.requestId,
+            resetTime: usage.rateLimitResetAt,
+            quota: rateLimit.quota,
+            retryAfterMs: rateLimit.retryAfterMs
           });
-          await new Promise(resolve => setTimeout(resolve, delaySeconds * 1000));
-          logKeyEvent('Rate Limit Delay End', { keyId: this.currentKey._id });
+          return errorClass;
         }
-        // --- End Delay ---
 
-        // Clear current key ONLY if it's still the one we were working on
-        if (this.currentKey?._id === keyToUpdate._id) {
-            this.currentKey = null;
-        }
-        return true; // Indicate it was a rate limit error
+        await keyToUpdate.patch({
+          rateLimitResetAt: resetAt,
+          rateLimitQuota: rateLimit.quota,
+          ...(isDailyQuota ? { isDisabledByRateLimit: true } : {}), // Cleared by the daily reset
+        });
+        await this._releaseSlot(keyToUpdate._id);
+
+        logKeyEvent(isDailyQuota ? 'Daily Quota Exhausted' : 'Rate Limit Hit', {
+          keyId: keyToUpdate._id,
+          requestId: lease.requestId,
+          resetTime: keyToUpdate.rateLimitResetAt,
+          quota: rateLimit.quota,
+          retryAfterMs: rateLimit.retryAfterMs
+        });
+        return errorClass;
       }
 
-      keyToUpdate.failureCount += 1;
+      // upstream-transient: server errors, timeouts and broken streams
+      const failureCount = await ApiKey.incrementFailureCount(keyToUpdate._id);
+      if (failureCount === null) return errorClass;
 
       // Fetch current settings to get the threshold
       const settings = await readSettings();
       const maxFailures = settings.maxFailureCount;
 
       // If too many failures, deactivate the key
-      if (keyToUpdate.failureCount >= maxFailures) {
-        keyToUpdate.isActive = false;
+      if (failureCount >= maxFailures) {
+        await keyToUpdate.patch({ isActive: false });
+        await this._releaseSlot(keyToUpdate._id);
 
         logKeyEvent('Key Deactivated', {
-          keyId: keyToUpdate._id, // Corrected variable name
+          keyId: keyToUpdate._id,
+          requestId: lease.requestId,
           reason: `Failure count reached threshold (${maxFailures})`,
-          failureCount: keyToUpdate.failureCount
+          failureCount
         });
-
-        await keyToUpdate.save();
-        // Clear current key ONLY if it's still the one we were working on
-        if (this.currentKey?._id === keyToUpdate._id) {
-            this.currentKey = null;
-        }
-      } else {
-        // If not deactivated, save the incremented failure count
-        // If not deactivated, save the incremented failure count
-        await keyToUpdate.save();
       }
 
-      return false; // Indicate it was not a rate limit error
+      return errorClass;
       } catch (error: any) {
         logError(error, {
           action: 'markKeyError',
-          keyId: keyToUpdate._id // Use the stable reference
+          keyId: keyToUpdate._id, // Use the stable reference
+          requestId: lease.requestId
         });
-        // Ensure we still return false within the catch block
-        return false;
+        // The caller still needs the class to decide whether to retry
+        return errorClass;
       }
-      // Return false if it wasn't a rate limit error and didn't throw
-      return false;
     }); // End mutex runExclusive
   }
 
-  async getKey(): Promise<{ key: string; id: string }> {
+  // Leases a key of the pool for the model. When no key has capacity the request waits in the admission
+  // queue (up to queueMaxWaitSeconds, with at most queueMaxDepth waiters) unless options.queue is false,
+  // e.g. while a fallback model can still be tried. Throws QueueFullError, QueueTimeoutError or, without
+  // queuing, a plain Error when no key is available. options.requestId is carried by the lease.
+  async getKey(model?: string | null, poolId: string | null = null, options: { queue?: boolean; requestId?: string | null } = {}): Promise<KeyLease> {
+    const requestedModel = normalizeModelName(model);
+    const settings = await readSettings();
+    const limits = options.queue === false
+      ? { maxWaitMs: 0, maxDepth: 0 }
+      : { maxWaitMs: settings.queueMaxWaitSeconds * 1000, maxDepth: settings.queueMaxDepth };
+
+    try {
+      return await this.admissionQueue.admit(
+        () => this._leaseKey(requestedModel, poolId, options.requestId ?? null),
+        limits,
+        () => {
+          const poolLabel = poolId ? ` in pool ${poolId}` : '';
+          return new Error(requestedModel
+            ? `No available API keys${poolLabel} for model ${requestedModel} (all active keys might be rate-limited or disabled)`
+            : `No available API keys${poolLabel} (all active keys might be rate-limited, at their per-minute limits or disabled)`);
+        },
+        lease => this._releaseLease(lease)
+      );
+    } catch (error: any) {
+      logError(error, { action: 'getKey', model: requestedModel, poolId, requestId: options.requestId });
+      throw error;
+    }
+  }
+
+  // Runs the daily reset for every key and per-model usage row whose quota day has ended. Called by the
+  // reset scheduler at each boundary, so keys come back on time instead of at the next getKey() call.
+  async resetDailyCounters(now: Date = new Date()): Promise<void> {
+    await this._withQueueNotify(async () => {
+      const settings = await readSettings();
+      const timeZoneOf = (key: ApiKey | undefined) => key ? key.getQuotaTimeZone(settings.quotaResetTimezone) : settings.quotaResetTimezone;
+
+      await this._resetDailyCounters(now);
+
+      const keysById = new Map((await ApiKey.findAll({})).map(key => [key._id, key]));
+      for (const [apiKeyId, usages] of Array.from((await KeyModelUsage.findAllGroupedByKey()).entries())) {
+        for (const usage of usages) {
+          const wasDisabled = usage.isDisabledByRateLimit;
+          if (!usage.applyDailyReset(now, timeZoneOf(keysById.get(apiKeyId)))) continue;
+          await usage.save();
+          if (wasDisabled) logKeyEvent('Model Daily Limit Reset', { keyId: apiKeyId, model: usage.model });
+        }
+      }
+    });
+  }
+
+  // When the daily counters of a key reset next
+  async getNextDailyReset(key: ApiKey, now: Date = new Date()): Promise<Date> {
+    const settings = await readSettings();
+    return getNextQuotaReset(now, key.getQuotaTimeZone(settings.quotaResetTimezone));
+  }
+
+  // Requests currently waiting for a key, and how long they wait
+  getQueueStats(): QueueStats {
+    return this.admissionQueue.getStats();
+  }
+
+  // Runs an update under the lock, then lets queued requests retry since it may have freed capacity
+  private async _withQueueNotify<T>(update: () => Promise<T>): Promise<T> {
+    const result = await this.mutex.runExclusive(update);
+    this.admissionQueue.notify();
+    return result;
+  }
+
+  // Gives back a lease that was never used, e.g. because its request stopped waiting while it was leased
+  private async _releaseLease(lease: KeyLease): Promise<void> {
+    await this.mutex.runExclusive(() => getCoordinationStore().releaseRequest(lease.id, lease.leasedAt));
+    logKeyEvent('Lease Released', { keyId: lease.id, requestId: lease.requestId });
+  }
+
+  // Leases a key if one has capacity right now, null otherwise
+  private async _leaseKey(requestedModel: string | null, poolId: string | null, requestId: string | null): Promise<KeyLease | null> {
     // Wrap the entire key getting/rotation logic in a mutex
     return await this.mutex.runExclusive(async () => {
-      try {
       const now = new Date();
-      const todayLocalString = now.toLocaleDateString('en-CA'); // YYYY-MM-DD format for local date
-
-      // --- Check 1: Is there a current key? ---
-      if (this.currentKey) {
-        // --- Check 2: Does the current key need daily reset? ---
-        const lastReset = this.currentKey.lastResetDate ? new Date(this.currentKey.lastResetDate) : null;
-        if (!lastReset || !isSameLocalDay(lastReset, now)) {
-          logKeyEvent('Daily Limit Reset (getKey)', { keyId: this.currentKey._id, date: todayLocalString });
-          this.currentKey.dailyRequestsUsed = 0;
-          this.currentKey.isDisabledByRateLimit = false; // Ensure re-enabled
-          this.currentKey.lastResetDate = now.toISOString();
-          await this.currentKey.save(); // Save the reset state
-        }
+      const store = getCoordinationStore();
 
-        // --- Check 3: Is the current key globally rate-limited? ---
-        const globalResetTime = this.currentKey.rateLimitResetAt ? new Date(this.currentKey.rateLimitResetAt) : null;
-        if (globalResetTime && globalResetTime > now) {
-          // Globally rate-limited, force rotation
-          logKeyEvent('Global Rate Limit Active (getKey)', { keyId: this.currentKey._id, resetTime: this.currentKey.rateLimitResetAt });
-          this.currentKey = null; // Clear the invalid key
-          // Fall through to rotateKey below
+      // --- Drop keys from rotation that can no longer serve requests ---
+      const slots: ActiveKeySlot[] = [];
+      for (const slot of await this._loadSlots(now)) {
+        if (await this._validateSlot(slot, now)) {
+          slots.push(slot);
         } else {
-           // --- Check 4: Is the current key daily rate-limited? ---
-           const limit = this.currentKey.dailyRateLimit;
-           // Ensure limit is a positive number before checking usage
-           if (typeof limit === 'number' && limit > 0 && this.currentKey.dailyRequestsUsed >= limit) {
-             // Daily limit reached, disable and force rotation
-             logKeyEvent('Daily Rate Limit Hit (getKey)', {
-               keyId: this.currentKey._id,
-               dailyRequestsUsed: this.currentKey.dailyRequestsUsed,
-               dailyRateLimit: limit
-             });
-             // Fetch settings again for the delay value
-             const settings = await readSettings();
-
-             // --- Add delay before clearing currentKey to force rotation ---
-             const delaySeconds = settings.keyRotationDelaySeconds || 0;
-             if (delaySeconds > 0 && this.currentKey) { // Add null check for safety
-               logKeyEvent('Rate Limit Delay Start', {
-                  keyId: this.currentKey._id,
-                  delaySeconds: delaySeconds,
-                  reason: 'Daily Rate Limit'
-               });
-               await new Promise(resolve => setTimeout(resolve, delaySeconds * 1000));
-               logKeyEvent('Rate Limit Delay End', { keyId: this.currentKey._id });
-             }
-             // --- End Delay ---
-
-             this.currentKey.isDisabledByRateLimit = true;
-             await this.currentKey.save();
-             this.currentKey = null; // Clear the invalid key
-             // Fall through to rotateKey below
-           } else {
-              // --- Check 5: Is rotation by request count needed? ---
-              // Fetch current settings dynamically
-              const settings = await readSettings();
-              const rotationThreshold = settings.keyRotationRequestCount; // Assuming this is the setting name
-
-              if (rotationThreshold > 0 && this.requestCounter >= rotationThreshold) {
-                logKeyEvent('Request Count Rotation Triggered (getKey)', {
-                  keyId: this.currentKey._id,
-                  requestCounter: this.requestCounter,
-                  rotationThreshold: rotationThreshold
-                });
-                // Fall through to rotateKey below
-              } else {
-                 // --- Key is valid! ---
-                 this.requestCounter++; // Increment request counter for rotation logic
-                 return { key: this.currentKey.key, id: this.currentKey._id };
-              }
-           }
+          await this._releaseSlot(slot.apiKey._id);
         }
       }
 
-      // --- Rotation Needed ---
-      // Either no current key, or one of the checks above failed/triggered rotation
-      // Otherwise rotate to a new key
-      // Call the internal rotation logic which assumes lock is held
-      return await this._internalRotateKey();
-      } catch (error: any) {
-        logError(error, { action: 'getKey' });
-        throw error;
+      // --- Top up the pool's rotation to its number of parallel keys ---
+      await this._fillActiveKeys(poolId, slots, now);
+
+      // --- Skip keys exhausted or cooling down for the requested model ---
+      const modelUsage = requestedModel ? await KeyModelUsage.findByModel(requestedModel) : new Map<string, KeyModelUsage>();
+      const { quotaResetTimezone } = await readSettings();
+      const isUsableForModel = (key: ApiKey) => !modelUsage.get(key._id)?.isExhausted(now, key.getQuotaTimeZone(quotaResetTimezone));
+
+      let usableSlots = slots.filter(slot => slot.poolId === poolId && isUsableForModel(slot.apiKey));
+
+      let fallbackKeyId: string | null = null;
+      if (usableSlots.length === 0 && requestedModel) {
+        // Every key in rotation is exhausted for this model: bring in another key that still has quota for it.
+        // It serves this request only and leaves rotation right after, so the pool goes back to its
+        // parallel key count; at most one such key is added on top of it at a time.
+        const poolSettings = await this._getPoolSettings(poolId);
+        const maxKeys = Math.max(1, poolSettings.parallelKeyCount || 1) + 1;
+        const candidates = (await this._findAvailableKeys(now, poolId, slots)).filter(isUsableForModel);
+        const slot = await this._rotateIn(candidates, 'model-fallback', poolId, slots, maxKeys);
+        if (slot) {
+          usableSlots = [slot];
+          fallbackKeyId = slot.apiKey._id;
+        }
+      }
+
+      if (usableSlots.length === 0) return null; // The caller decides whether to wait
+
+      try {
+        // --- Spread requests across the pool's usable keys round-robin ---
+        // The request is claimed in the key's minute window; when another instance took the
+        // last request of that window first, the next key is tried.
+        const slotIndex = await store.nextRoundRobin(poolId);
+        for (let i = 0; i < usableSlots.length; i++) {
+          const slot = usableSlots[(slotIndex + i) % usableSlots.length];
+          if (!(await store.tryRecordRequest(slot.apiKey._id, slot.apiKey, now.getTime()))) continue;
+          await store.incrementRotationCounter(slot.apiKey._id); // Increment request counter for rotation logic
+          // leasedAt is the time the request was recorded at, so releaseRequest can find it
+          return { id: slot.apiKey._id, key: slot.apiKey.key, model: requestedModel, poolId, leasedAt: now.getTime(), requestId };
+        }
+        return null;
+      } finally {
+        if (fallbackKeyId) await this._releaseSlot(fallbackKeyId);
       }
     }); // End mutex runExclusive
   }
 
-  async addKey(data: { key: string, name?: string, dailyRateLimit?: number | null }): Promise<ApiKey> {
+  async addKey(data: { key: string, name?: string, dailyRateLimit?: number | null, rpmLimit?: number | null, tpmLimit?: number | null, poolId?: string | null }): Promise<ApiKey> {
     // Although less critical, lock addKey to prevent potential race conditions
     // if a rotation happens while adding/reactivating a key.
-    return await this.mutex.runExclusive(async () => {
-      const { key, name, dailyRateLimit } = data; // Destructure input, including dailyRateLimit
+    return await this._withQueueNotify(async () => {
+      const { key, name, dailyRateLimit, rpmLimit, tpmLimit, poolId } = data; // Destructure input, including the limits and pool
       try {
       const existingKey = await ApiKey.findOne({ key });
 
@@ -348,7 +618,9 @@ class KeyManager {
         existingKey.dailyRequestsUsed = 0; // Reset daily usage
         existingKey.lastResetDate = null; // Clear last reset date
         existingKey.isDisabledByRateLimit = false; // Ensure not disabled by daily limit
+        existingKey.isRevoked = false; // Re-adding a revoked key is an explicit override
         await existingKey.save();
+        await this._releaseSlot(existingKey._id); // The key re-enters through rotation
 
         logKeyEvent('Key Reactivated', {
           keyId: existingKey._id
@@ -357,8 +629,8 @@ class KeyManager {
         return existingKey;
       }
 
-      // Pass dailyRateLimit when creating the key
-      const newKey = await ApiKey.create({ key, name, dailyRateLimit });
+      // Pass the limits when creating the key
+      const newKey = await ApiKey.create({ key, name, dailyRateLimit, rpmLimit, tpmLimit, poolId });
 
       logKeyEvent('New Key Added', {
         keyId: newKey._id
@@ -375,4 +647,4 @@ class KeyManager {
 
 // Export a singleton instance
 const keyManager = new KeyManager();
-export default keyManager;
\ No newline at end of file
+export default keyManager;
@@ -0,0 +1,145 @@
+import { ApiKey } from '../models/ApiKey';
+import { RequestLog } from '../models/RequestLog';
+import { getCoordinationStore } from './coordination';
+
+// Names of the built-in strategies (stored in Settings.keySelectionStrategy)
+export const KEY_SELECTION_STRATEGIES = [
+  'lru',
+  'round-robin',
+  'weighted-random',
+  'least-usage-ratio',
+  'lowest-error-rate',
+] as const;
+
+export type KeySelectionStrategyName = typeof KEY_SELECTION_STRATEGIES[number];
+
+export const DEFAULT_KEY_SELECTION_STRATEGY: KeySelectionStrategyName = 'lru';
+
+// A strategy picks one key out of the keys that are currently available for use.
+// The candidate list is already filtered (active, not cooling down, not daily-limited) and
+// holds keys of a single pool (poolId, null for the default pool).
+export interface KeySelectionStrategy {
+  name: KeySelectionStrategyName;
+  select(candidates: ApiKey[], poolId: string | null): Promise<ApiKey | null>;
+}
+
+// Window used by the error-rate strategy when looking at recent request logs
+const ERROR_RATE_WINDOW_MS = 60 * 60 * 1000; // 1 hour
+
+// Helper: unused keys first, then least recently used (the original rotation behaviour).
+// Also used as the tie-breaker by the other strategies.
+function pickLeastRecentlyUsed(candidates: ApiKey[]): ApiKey | null {
+  if (candidates.length === 0) return null;
+
+  const unused = candidates.find(k => k.lastUsed === null);
+  if (unused) return unused;
+
+  return [...candidates].sort((a, b) => {
+    if (!a.lastUsed) return -1;
+    if (!b.lastUsed) return 1;
+    return new Date(a.lastUsed).getTime() - new Date(b.lastUsed).getTime();
+  })[0];
+}
+
+// Helper: remaining daily quota for a key, or null when the key has no daily limit
+function remainingDailyQuota(key: ApiKey): number | null {
+  const limit = key.dailyRateLimit;
+  if (typeof limit !== 'number' || limit <= 0) return null;
+  return Math.max(0, limit - key.dailyRequestsUsed);
+}
+
+// Keep only the candidates sharing the lowest score, then break ties with LRU
+function pickLowestScore(candidates: ApiKey[], score: (key: ApiKey) => number): ApiKey | null {
+  if (candidates.length === 0) return null;
+  const scored = candidates.map(key => ({ key, score: score(key) }));
+  const best = Math.min(...scored.map(s => s.score));
+  return pickLeastRecentlyUsed(scored.filter(s => s.score === best).map(s => s.key));
+}
+
+const lruStrategy: KeySelectionStrategy = {
+  name: 'lru',
+  async select(candidates) {
+    return pickLeastRecentlyUsed(candidates);
+  },
+};
+
+// Cycles through keys in a stable order (by _id). The position is kept per pool in the coordination
+// store, so all balancer instances share one sequence.
+const roundRobinStrategy: KeySelectionStrategy = {
+  name: 'round-robin',
+  async select(candidates, poolId) {
+    if (candidates.length === 0) return null;
+    const ordered = [...candidates].sort((a, b) => (a._id < b._id ? -1 : a._id > b._id ? 1 : 0));
+    const position = await getCoordinationStore().nextRoundRobin(poolId, 'rotation');
+    return ordered[position % ordered.length];
+  },
+};
+
+// Picks randomly, weighting each key by its remaining daily quota.
+// Keys without a daily limit get the weight of the largest remaining quota (or 1 if no key has a limit).
+const weightedRandomStrategy: KeySelectionStrategy = {
+  name: 'weighted-random',
+  async select(candidates) {
+    if (candidates.length === 0) return null;
+    const quotas = candidates.map(remainingDailyQuota);
+    const finiteQuotas = quotas.filter((q): q is number => q !== null);
+    const unlimitedWeight = finiteQuotas.length > 0 ? Math.max(1, ...finiteQuotas) : 1;
+    const weights = quotas.map(q => (q === null ? unlimitedWeight : q));
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+
+    if (totalWeight <= 0) return pickLeastRecentlyUsed(candidates);
+
+    let roll = Math.random() * totalWeight;
+    for (let i = 0; i < candidates.length; i++) {
+      roll -= weights[i];
+      if (roll < 0) return candidates[i];
+    }
+    return candidates[candidates.length - 1];
+  },
+};
+
+// Picks the key with the lowest dailyRequestsUsed / dailyRateLimit ratio.
+// Keys without a daily limit count as ratio 0.
+const leastUsageRatioStrategy: KeySelectionStrategy = {
+  name: 'least-usage-ratio',
+  async select(candidates) {
+    return pickLowestScore(candidates, key => {
+      const limit = key.dailyRateLimit;
+      if (typeof limit !== 'number' || limit <= 0) return 0;
+      return key.dailyRequestsUsed / limit;
+    });
+  },
+};
+
+// Picks the key with the lowest error rate in the request logs over the last hour.
+// Keys without recent traffic count as error rate 0.
+const lowestErrorRateStrategy: KeySelectionStrategy = {
+  name: 'lowest-error-rate',
+  async select(candidates) {
+    if (candidates.length === 0) return null;
+    const since = new Date(Date.now() - ERROR_RATE_WINDOW_MS).toISOString();
+    const rates = await RequestLog.getErrorCountsByKey(since);
+    return pickLowestScore(candidates, key => {
+      const counts = rates.get(key._id);
+      if (!counts || counts.total === 0) return 0;
+      return counts.errors / counts.total;
+    });
+  },
+};
+
+const strategies: Record<KeySelectionStrategyName, KeySelectionStrategy> = {
+  'lru': lruStrategy,
+  'round-robin': roundRobinStrategy,
+  'weighted-random': weightedRandomStrategy,
+  'least-usage-ratio': leastUsageRatioStrategy,
+  'lowest-error-rate': lowestErrorRateStrategy,
+};
+
+export function isKeySelectionStrategyName(value: any): value is KeySelectionStrategyName {
+  return typeof value === 'string' && (KEY_SELECTION_STRATEGIES as readonly string[]).includes(value);
+}
+
+// Returns the strategy for the given name, falling back to LRU for unknown values
+export function getKeySelectionStrategy(name: string | null | undefined): KeySelectionStrategy {
+  return isKeySelectionStrategyName(name) ? strategies[name] : strategies[DEFAULT_KEY_SELECTION_STRATEGY];
+}
@@ -2,7 +2,8 @@ import winston from 'winston';
 import 'winston-daily-rotate-file';
 import path from 'path';
 import { sanitizeRequest } from '../utils/sanitize';
-import { mkdir, readdir, readFile, stat } from 'fs/promises';
+import { mkdir, readdir, stat } from 'fs/promises';
+import { findRequestIdOffsets, readLineAt, readLinesBackward, readLinesForward } from '../utils/logFiles';
 
 // Create logs directory if it doesn't exist
 const logsDir = path.join(process.cwd(), 'logs');
@@ -190,130 +191,206 @@ export const logError = (error: any, context: any = {}) => {
   });
 };
 
-// Function to get logs
-export const getLogs = async (type: 'requests' | 'errors' | 'keys', options: {
+export type LogType = 'requests' | 'errors' | 'keys';
+
+export interface LogQuery {
   limit?: number;
   startDate?: string; // YYYY-MM-DD
   endDate?: string;   // YYYY-MM-DD
-  search?: string;
-} = {}) => {
-  const { limit = 1000, startDate: startDateStr, endDate: endDateStr, search } = options; // Increase default limit, rename date strings
-  const logPrefix = `${type}-`;
-  const logEntries: any[] = [];
+  search?: string; // Case-insensitive substring of the raw log line
+  level?: string; // Exact level, e.g. 'error'
+  context?: string; // Case-insensitive substring of the context field
+  keyId?: string;
+  requestId?: string; // Looked up through the sidecar index instead of scanning
+  cursor?: string; // nextCursor of the previous page
+}
+
+export interface LogPage {
+  logs: any[]; // Newest first
+  total: number; // All entries matching the filters, across every page
+  nextCursor: string | null; // null on the last page
+}
+
+// Position in the log files: continue with the lines above `offset` in `file`, then older files
+interface LogCursor {
+  file: string;
+  offset: number;
+}
+
+interface LogFile {
+  name: string;
+  path: string;
+  date: string; // YYYY-MM-DD (UTC day covered by the file)
+  part: number; // Size rotation part, 0 for the first file of a day
+}
+
+// requests-2026-01-31.log, plus size-rotated parts such as requests-2026-01-31.log.1
+const LOG_FILE_PATTERN = /^(requests|errors|keys)-(\d{4}-\d{2}-\d{2})(?:\.(\d+))?\.log(?:\.(\d+))?$/;
 
+// Per-file match counts, keyed by file and filters. Files only grow, so a cached count is extended
+// from the byte offset it covers instead of recounting the whole file.
+const MAX_CACHED_COUNTS = 200;
+const countCache = new Map<string, { size: number; count: number }>();
+
+export const DEFAULT_LOG_PAGE_SIZE = 100;
+export const MAX_LOG_PAGE_SIZE = 1000;
+
+function encodeLogCursor(cursor: LogCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeLogCursor(value: string, type: LogType): LogCursor | null {
   try {
-    const files = await readdir(logsDir);
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    const match = typeof cursor?.file === 'string' ? LOG_FILE_PATTERN.exec(cursor.file) : null;
+    if (!match || match[1] !== type || !Number.isInteger(cursor.offset) || cursor.offset < 0) return null;
+    return { file: cursor.file, offset: cursor.offset };
+  } catch {
+    return null;
+  }
+}
 
-    // --- Enhanced Date Filtering ---
-    let startDateTime: Date | null = null;
-    let endDateTime: Date | null = null;
+// Log files of a type that may hold entries of the date range, newest first
+async function listLogFiles(type: LogType, startDate?: string, endDate?: string): Promise<LogFile[]> {
+  const files = await readdir(logsDir);
+  // A file covers a UTC day, a local date range can reach into the previous one
+  const earliest = startDate ? new Date(new Date(startDate + 'T00:00:00').getTime() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10) : null;
+  return files
+    .map(name => ({ name, match: LOG_FILE_PATTERN.exec(name) }))
+    .filter(({ match }) => match && match[1] === type)
+    .map(({ name, match }) => ({
+      name,
+      path: path.join(logsDir, name),
+      date: match![2],
+      part: Number(match![3] ?? match![4] ?? 0),
+    }))
+    .filter(file => (!earliest || file.date >= earliest) && (!endDate || file.date <= endDate))
+    .sort((a, b) => (a.date === b.date ? b.part - a.part : a.date < b.date ? 1 : -1));
+}
 
-    if (startDateStr) {
-      // Assume startDateStr is local day start, convert to UTC start
-      startDateTime = new Date(startDateStr + 'T00:00:00'); // Adjust based on server's local timezone interpretation
-      // Consider potential timezone offset if server != user timezone
+// Builds the per-line filter. Cheap substring checks on the raw line run before JSON.parse.
+function createLogMatcher(options: LogQuery): (line: string) => any | null {
+  const search = options.search?.toLowerCase();
+  const level = options.level?.toLowerCase();
+  const context = options.context?.toLowerCase();
+  const startTime = options.startDate ? new Date(options.startDate + 'T00:00:00').getTime() : null;
+  const endTime = options.endDate ? new Date(options.endDate + 'T23:59:59.999').getTime() : null;
+
+  return (line: string) => {
+    if (options.keyId && !line.includes(options.keyId)) return null;
+    if (options.requestId && !line.includes(options.requestId)) return null;
+    if (search && !line.toLowerCase().includes(search)) return null;
+
+    let entry: any;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      return null; // Ignore lines that are not valid JSON
     }
-    if (endDateStr) {
-      // Assume endDateStr is local day end, convert to UTC end
-      endDateTime = new Date(endDateStr + 'T23:59:59.999'); // Adjust based on server's local timezone interpretation
-      // Consider potential timezone offset
+    const time = new Date(entry.timestamp).getTime();
+    if (startTime !== null && !(time >= startTime)) return null;
+    if (endTime !== null && !(time <= endTime)) return null;
+    if (level && String(entry.level ?? '').toLowerCase() !== level) return null;
+    if (context && !String(entry.context ?? '').toLowerCase().includes(context)) return null;
+    if (options.keyId && entry.keyId !== options.keyId) return null;
+    if (options.requestId && entry.requestId !== options.requestId) return null;
+    return entry;
+  };
+}
+
+// Matching entries of one file, newest first, starting above `before` (a line offset)
+async function* matchFile(file: LogFile, options: LogQuery, matcher: (line: string) => any, before?: number): AsyncGenerator<{ entry: any; offset: number }> {
+  if (options.requestId) {
+    // The sidecar index points straight at the request's lines
+    const offsets = await findRequestIdOffsets(file.path, options.requestId);
+    for (let i = offsets.length - 1; i >= 0; i--) {
+      if (before !== undefined && offsets[i] >= before) continue;
+      const line = await readLineAt(file.path, offsets[i]);
+      const entry = line ? matcher(line.line) : null;
+      if (entry) yield { entry, offset: offsets[i] };
     }
+    return;
+  }
+  for await (const { line, offset } of readLinesBackward(file.path, before)) {
+    const entry = matcher(line);
+    if (entry) yield { entry, offset };
+  }
+}
 
-    // Filter files whose date range *could* overlap with the desired time range
-    const logFiles = files
-      .filter(file => file.startsWith(logPrefix) && file.endsWith('.log'))
-      .map(file => {
-        const dateMatch = file.match(/(\d{4}-\d{2}-\d{2})\.log$/);
-        // Get the date the file *covers* (UTC day)
-        const fileUtcDate = dateMatch ? new Date(dateMatch[1] + 'T00:00:00Z') : null;
-        return { name: file, fileUtcDateStr: dateMatch ? dateMatch[1] : null, fileUtcDate };
-      })
-      .filter(file => {
-        if (!file.fileUtcDate) return false;
-        // Include file if its UTC day might contain relevant timestamps
-        // File covering UTC day X might have logs from local day X or X+1 depending on timezone
-        // A simpler approach: include today's and yesterday's file if filtering by a single day.
-        // More robust: Check if file's UTC day range overlaps query's UTC time range.
-        // For now, let's include files whose date string matches or is one day before endDateStr
-        // This is an approximation and might fetch slightly too much, but timestamp filtering will fix it.
-        if (startDateStr && endDateStr && startDateStr === endDateStr) {
-           const queryDate = startDateStr;
-           const fileDate = file.fileUtcDateStr;
-           if (!fileDate) return false;
-           // Get yesterday's date string
-           const yesterday = new Date(queryDate);
-           yesterday.setDate(yesterday.getDate() - 1);
-           const yesterdayStr = yesterday.toISOString().split('T')[0];
-           return fileDate === queryDate || fileDate === yesterdayStr;
-        }
-        // Basic range check for multi-day queries (can be refined)
-        if (startDateTime && file.fileUtcDate < new Date(startDateTime.getTime() - 24*60*60*1000)) return false; // Don't check files too old
-        if (endDateTime && file.fileUtcDate > endDateTime) return false; // Don't check files too new
-        return true;
-      })
-      .sort((a, b) => b.fileUtcDate!.getTime() - a.fileUtcDate!.getTime()); // Sort newest file first
-
-    // Read files and collect log entries
-    for (const fileInfo of logFiles) {
-      if (logEntries.length >= limit) break;
-
-      const filePath = path.join(logsDir, fileInfo.name);
-      try {
-        const content = await readFile(filePath, 'utf-8');
-        const lines = content.trim().split('\n');
-
-        // Read lines in reverse (newest first)
-        for (let i = lines.length - 1; i >= 0; i--) {
-          if (logEntries.length >= limit) break;
-          const line = lines[i];
-          if (!line) continue;
-
-          try {
-            const logEntry = JSON.parse(line);
-
-            // --- Timestamp Filtering ---
-            const logTimestamp = new Date(logEntry.timestamp);
-            if (startDateTime && logTimestamp < startDateTime) {
-              continue; // Skip logs before the start date/time
-            }
-            if (endDateTime && logTimestamp > endDateTime) {
-              continue; // Skip logs after the end date/time
-            }
-            // --- End Timestamp Filtering ---
-
-            // Apply search filter (if any)
-            if (search) {
-              const searchableString = JSON.stringify(logEntry).toLowerCase();
-              if (!searchableString.includes(search.toLowerCase())) {
-                continue;
-              }
-            }
-
-            logEntries.unshift(logEntry); // Add to beginning to maintain order (newest first in results)
-          } catch (parseError) {
-            // Ignore lines that are not valid JSON
-            console.warn(`Skipping invalid log line in ${fileInfo.name}: ${line}`);
-          }
+async function countMatches(file: LogFile, options: LogQuery, matcher: (line: string) => any): Promise<number> {
+  if (options.requestId) {
+    let count = 0;
+    for await (const _ of matchFile(file, options, matcher)) count++;
+    return count;
+  }
+  const { limit, cursor, ...filters } = options;
+  const cacheKey = `${file.path}\0${JSON.stringify(filters)}`;
+  const cached = countCache.get(cacheKey);
+  const { size } = await stat(file.path);
+  let counted = cached && cached.size <= size ? cached : { size: 0, count: 0 };
+
+  if (counted.size < size) {
+    let count = counted.count;
+    let covered = counted.size;
+    for await (const { line, next } of readLinesForward(file.path, counted.size)) {
+      if (matcher(line)) count++;
+      covered = next;
+    }
+    counted = { size: covered, count };
+  }
+  countCache.delete(cacheKey);
+  countCache.set(cacheKey, counted);
+  if (countCache.size > MAX_CACHED_COUNTS) countCache.delete(countCache.keys().next().value as string);
+  return counted.count;
+}
+
+// Reads a page of log entries, newest first, streaming the files backwards from the cursor
+export const getLogs = async (type: LogType, options: LogQuery = {}): Promise<LogPage> => {
+  const limit = options.limit ?? DEFAULT_LOG_PAGE_SIZE;
+  const matcher = createLogMatcher(options);
+
+  try {
+    const files = await listLogFiles(type, options.startDate, options.endDate);
+    const cursor = options.cursor ? decodeLogCursor(options.cursor, type) : null;
+    if (options.cursor && !cursor) throw new Error('Invalid log cursor');
+
+    let total = 0;
+    for (const file of files) {
+      total += await countMatches(file, options, matcher);
+    }
+
+    const logs: any[] = [];
+    let nextCursor: string | null = null;
+    let lastPosition: LogCursor | null = null;
+    const cursorFile = cursor ? files.find(file => file.name === cursor.file) : undefined;
+    // Files at or below the cursor's file; if it was deleted, the files older than it
+    const startIndex = cursor
+      ? cursorFile
+        ? files.indexOf(cursorFile)
+        : files.findIndex(file => file.name < cursor.file)
+      : 0;
+
+    scan:
+    for (let i = startIndex; i >= 0 && i < files.length; i++) {
+      const file = files[i];
+      const before = cursor && file === cursorFile ? cursor.offset : undefined;
+      for await (const { entry, offset } of matchFile(file, options, matcher, before)) {
+        if (logs.length === limit && lastPosition) {
+          // One more match exists, so the page ends at the last collected entry
+          nextCursor = encodeLogCursor(lastPosition);
+          break scan;
         }
-      } catch (readError) {
-        console.error(`Error reading log file ${fileInfo.name}:`, readError);
+        logs.push(entry);
+        lastPosition = { file: file.name, offset };
       }
     }
 
-    // Return the collected logs (up to the limit)
-    // Note: 'total' here is just the count returned, not the total matching logs across all files.
-    // A more robust solution might involve pagination or streaming.
-    return {
-      logs: logEntries,
-      total: logEntries.length
-    };
-
-  } catch (error) {
-    console.error('Error accessing logs directory:', error);
+    return { logs, total, nextCursor };
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return { logs: [], total: 0, nextCursor: null }; // No logs written yet
+    if (error.message === 'Invalid log cursor') throw error;
+    console.error('Error reading logs:', error);
     logError(error, { context: 'getLogs function' });
-    return {
-      logs: [],
-      total: 0
-    };
+    return { logs: [], total: 0, nextCursor: null };
   }
-};
\ No newline at end of file
+};
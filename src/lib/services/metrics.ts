@@ -0,0 +1,194 @@
+import { ApiKey } from '../models/ApiKey';
+import { KeyPool } from '../models/KeyPool';
+import keyManager from './keyManager';
+import { readSettings } from '@/lib/settings';
+import { isSameQuotaDay } from '@/lib/utils/quotaDay';
+
+// Prometheus metrics for /api/metrics. Counters and histograms are kept in memory and recorded by the
+// proxy as requests finish; gauges are read from the database and the key manager on every scrape.
+// Every instance exposes its own counters (reset on restart), Prometheus tells them apart by target.
+
+type Labels = Record<string, string>;
+
+const METRIC_PREFIX = 'gemini_lb_';
+// Upper bounds (seconds) of the latency histogram buckets; streamed requests can take minutes
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+// Label values may contain anything; the text format needs backslashes, quotes and newlines escaped
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  return Number.isFinite(value) ? String(value) : 'NaN';
+}
+
+function header(name: string, help: string, type: 'counter' | 'gauge' | 'histogram'): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+class Counter {
+  private series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, private help: string) {}
+
+  inc(labels: Labels, value: number = 1) {
+    const id = formatLabels(labels);
+    const entry = this.series.get(id);
+    if (entry) entry.value += value;
+    else this.series.set(id, { labels, value });
+  }
+
+  render(): string[] {
+    return [
+      ...header(this.name, this.help, 'counter'),
+      ...Array.from(this.series.values(), ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`),
+    ];
+  }
+}
+
+class Histogram {
+  private series = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, private help: string, private bounds: number[]) {}
+
+  observe(labels: Labels, value: number) {
+    const id = formatLabels(labels);
+    let entry = this.series.get(id);
+    if (!entry) {
+      entry = { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+      this.series.set(id, entry);
+    }
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) entry!.buckets[index]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  render(): string[] {
+    const lines = header(this.name, this.help, 'histogram');
+    for (const { labels, buckets, sum, count } of Array.from(this.series.values())) {
+      this.bounds.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${buckets[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+function renderGauge(name: string, help: string, samples: { labels: Labels; value: number }[]): string[] {
+  return [
+    ...header(name, help, 'gauge'),
+    ...samples.map(({ labels, value }) => `${name}${formatLabels(labels)} ${formatValue(value)}`),
+  ];
+}
+
+const requestsTotal = new Counter(`${METRIC_PREFIX}requests_total`, 'Proxied requests by model, status code and API key (key_id "none" if no key was involved).');
+const requestDuration = new Histogram(`${METRIC_PREFIX}request_duration_seconds`, 'Time to answer a proxied request, including retries and queueing (until the end of the stream for streamed requests).', LATENCY_BUCKETS);
+const upstreamAttemptsTotal = new Counter(`${METRIC_PREFIX}upstream_attempts_total`, 'Requests sent to Gemini by model, upstream status code ("none" without a response) and error class.');
+const upstreamDuration = new Histogram(`${METRIC_PREFIX}upstream_duration_seconds`, 'Latency of the requests sent to Gemini, until the response headers arrived.', LATENCY_BUCKETS);
+const retriesTotal = new Counter(`${METRIC_PREFIX}retries_total`, 'Upstream attempts after the first one of a request (another key, a fallback model or a retry after a server error).');
+
+// Records a finished proxy request (called with its RequestLog row)
+export function recordRequest(data: { model: string | null; statusCode: number; apiKeyId: string; durationMs: number }) {
+  const model = data.model || 'none';
+  requestsTotal.inc({ model, status: String(data.statusCode), key_id: data.apiKeyId === 'N/A' ? 'none' : data.apiKeyId });
+  requestDuration.observe({ model }, data.durationMs / 1000);
+}
+
+// Records one upstream attempt of a request; every attempt but the first is a retry.
+// A stream's outcome is only known once it ended: with outcomePending, the attempt is counted
+// later through recordUpstreamAttemptOutcome.
+export function recordUpstreamAttempt(data: {
+  model: string | null;
+  statusCode: number | null;
+  errorClass: string | null;
+  latencyMs: number;
+  attempt: number;
+  outcomePending?: boolean;
+}) {
+  const model = data.model || 'none';
+  if (!data.outcomePending) recordUpstreamAttemptOutcome(data);
+  upstreamDuration.observe({ model }, data.latencyMs / 1000);
+  if (data.attempt > 1) retriesTotal.inc({ model });
+}
+
+// Counts an upstream attempt by its final outcome
+export function recordUpstreamAttemptOutcome(data: { model: string | null; statusCode: number | null; errorClass: string | null }) {
+  upstreamAttemptsTotal.inc({
+    model: data.model || 'none',
+    status: data.statusCode !== null ? String(data.statusCode) : 'none',
+    error_class: data.errorClass || 'none',
+  });
+}
+
+// A key is either revoked, disabled (deactivated after failures or by hand), cooling down after a 429,
+// or available for rotation
+function getKeyState(key: ApiKey, now: Date): string {
+  if (key.isRevoked) return 'revoked';
+  if (!key.isActive) return 'disabled';
+  if (key.isDisabledByRateLimit || (key.rateLimitResetAt && new Date(key.rateLimitResetAt) > now)) return 'cooling';
+  return 'available';
+}
+
+// Requests of the key in the current quota day. The stored counter is only reset by the key manager,
+// so it still holds the previous day's count until the key is used or the daily reset ran.
+function getDailyRequestsUsed(key: ApiKey, now: Date, defaultTimeZone: string): number {
+  const lastReset = key.lastResetDate ? new Date(key.lastResetDate) : null;
+  return isSameQuotaDay(lastReset, now, key.getQuotaTimeZone(defaultTimeZone)) ? key.dailyRequestsUsed : 0;
+}
+
+// Renders all metrics in the Prometheus text exposition format (version 0.0.4)
+export async function renderMetrics(now: Date = new Date()): Promise<string> {
+  const [keys, pools, settings] = await Promise.all([ApiKey.findAll({}), KeyPool.findAll(), readSettings()]);
+  const poolNames = new Map(pools.map(pool => [pool._id, pool.name]));
+  const poolOf = (key: ApiKey) => (key.poolId ? poolNames.get(key.poolId) ?? key.poolId : 'default');
+
+  // Every state of every pool is reported, including empty ones, so alerts on e.g. available == 0 keep working
+  const stateCounts = new Map<string, number>();
+  for (const pool of ['default', ...pools.map(pool => pool.name)]) {
+    for (const state of ['available', 'cooling', 'disabled', 'revoked']) stateCounts.set(`${pool}|${state}`, 0);
+  }
+  for (const key of keys) {
+    const id = `${poolOf(key)}|${getKeyState(key, now)}`;
+    stateCounts.set(id, (stateCounts.get(id) ?? 0) + 1);
+  }
+
+  const queue = keyManager.getQueueStats();
+
+  const lines = [
+    ...requestsTotal.render(),
+    ...requestDuration.render(),
+    ...upstreamAttemptsTotal.render(),
+    ...upstreamDuration.render(),
+    ...retriesTotal.render(),
+    ...renderGauge(`${METRIC_PREFIX}keys`, 'API keys by pool and state (available, cooling, disabled or revoked).',
+      Array.from(stateCounts, ([id, value]) => {
+        const separator = id.lastIndexOf('|');
+        return { labels: { pool: id.slice(0, separator), state: id.slice(separator + 1) }, value };
+      })),
+    ...renderGauge(`${METRIC_PREFIX}key_info`, 'Name and pool of each API key, to join with the key_id label of the other metrics.',
+      keys.map(key => ({ labels: { key_id: key._id, key_name: key.name || '', pool: poolOf(key) }, value: 1 }))),
+    ...renderGauge(`${METRIC_PREFIX}key_daily_requests_used`, 'Requests made with the API key in the current quota day.',
+      keys.map(key => ({ labels: { key_id: key._id }, value: getDailyRequestsUsed(key, now, settings.quotaResetTimezone) }))),
+    ...renderGauge(`${METRIC_PREFIX}key_daily_request_limit`, 'Daily request limit of the API key (only keys with a limit).',
+      keys.filter(key => key.dailyRateLimit).map(key => ({ labels: { key_id: key._id }, value: key.dailyRateLimit! }))),
+    ...renderGauge(`${METRIC_PREFIX}queue_depth`, 'Requests waiting for a key on this instance.', [{ labels: {}, value: queue.depth }]),
+    ...renderGauge(`${METRIC_PREFIX}queue_oldest_wait_seconds`, 'How long the oldest waiting request has been queued.', [{ labels: {}, value: queue.oldestWaitMs / 1000 }]),
+    ...header(`${METRIC_PREFIX}queue_rejected_total`, 'Requests turned away because the queue was full.', 'counter'),
+    `${METRIC_PREFIX}queue_rejected_total ${queue.rejected}`,
+    ...header(`${METRIC_PREFIX}queue_timed_out_total`, 'Queued requests that gave up waiting for a key.', 'counter'),
+    `${METRIC_PREFIX}queue_timed_out_total ${queue.timedOut}`,
+  ];
+  return `${lines.join('\n')}\n`;
+}
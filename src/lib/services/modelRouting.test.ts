@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'bun:test';
+import { getRoutingOutcome, parseModelRoutes, resolveModelRoute } from './modelRouting';
+
+const routes = parseModelRoutes([
+  { alias: 'fast', target: 'gemini-2.0-flash', fallbacks: ['gemini-2.0-flash-lite', 'gemini-1.5-flash'] },
+  { alias: 'gemini-2.5-pro', target: 'gemini-2.5-pro', fallbacks: ['gemini-2.5-flash'] },
+])!;
+
+describe('parseModelRoutes', () => {
+  test('normalizes the rows and cleans up the fallback chain', () => {
+    expect(parseModelRoutes([
+      { alias: ' models/smart ', target: 'models/gemini-2.5-pro', fallbacks: ['gemini-2.5-pro', 'models/gemini-2.5-flash', 'gemini-2.5-flash', '', null] },
+    ])).toEqual([{ alias: 'smart', target: 'gemini-2.5-pro', fallbacks: ['gemini-2.5-flash'] }]);
+  });
+
+  test('drops incomplete rows and repeated aliases', () => {
+    expect(parseModelRoutes([
+      { alias: 'fast', target: 'gemini-2.0-flash' },
+      { alias: 'fast', target: 'gemini-1.5-flash', fallbacks: [] },
+      { alias: 'no-target' },
+      { target: 'gemini-2.0-flash' },
+      null,
+    ])).toEqual([{ alias: 'fast', target: 'gemini-2.0-flash', fallbacks: [] }]);
+  });
+
+  test('rejects anything but an array', () => {
+    expect(parseModelRoutes({ alias: 'fast' })).toBeNull();
+    expect(parseModelRoutes(undefined)).toBeNull();
+  });
+});
+
+describe('resolveModelRoute', () => {
+  test('maps an alias to its target followed by the fallbacks', () => {
+    expect(resolveModelRoute('fast', routes)).toEqual({
+      requestedModel: 'fast',
+      models: ['gemini-2.0-flash', 'gemini-2.0-flash-lite', 'gemini-1.5-flash'],
+      route: routes[0],
+    });
+    expect(resolveModelRoute('models/fast', routes).models[0]).toBe('gemini-2.0-flash');
+  });
+
+  test('forwards models without a route untouched', () => {
+    expect(resolveModelRoute('models/gemini-1.0-pro', routes)).toEqual({ requestedModel: 'models/gemini-1.0-pro', models: ['models/gemini-1.0-pro'], route: null });
+    expect(resolveModelRoute(undefined, routes)).toEqual({ requestedModel: null, models: [null], route: null });
+    expect(resolveModelRoute('fast', undefined).route).toBeNull();
+  });
+});
+
+describe('getRoutingOutcome', () => {
+  test('tells the alias target from a fallback', () => {
+    const decision = resolveModelRoute('fast', routes);
+    expect(getRoutingOutcome(decision, 'gemini-2.0-flash')).toBe('alias');
+    expect(getRoutingOutcome(decision, 'gemini-2.0-flash-lite')).toBe('fallback');
+    expect(getRoutingOutcome(decision, 'gemini-1.5-flash')).toBe('fallback');
+  });
+
+  test('reports nothing when the requested model was used as is', () => {
+    const decision = resolveModelRoute('models/gemini-2.5-pro', routes);
+    expect(decision.models).toEqual(['gemini-2.5-pro', 'gemini-2.5-flash']);
+    expect(getRoutingOutcome(decision, 'gemini-2.5-pro')).toBeNull();
+    expect(getRoutingOutcome(decision, 'gemini-2.5-flash')).toBe('fallback');
+    expect(getRoutingOutcome(resolveModelRoute('gemini-1.0-pro', routes), 'gemini-1.0-pro')).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+import { normalizeModelName } from '@/lib/models/KeyModelUsage';
+
+// One row of the model routing table (Settings.modelRoutes).
+// `alias` is what clients send (e.g. 'fast', 'gpt-4o', or a real model name to give it fallbacks),
+// `target` the Gemini model it maps to, and `fallbacks` the models tried in order once no key
+// can serve the previous one.
+export interface ModelRoute {
+  alias: string;
+  target: string;
+  fallbacks: string[];
+}
+
+// How a request's model was routed
+export interface ModelRouteDecision {
+  requestedModel: string | null; // The model string sent by the client
+  models: (string | null)[]; // Models to try in order: the target first, then the fallbacks
+  route: ModelRoute | null; // The matching routing table row, if any
+}
+
+// How the model actually used relates to the requested one, as stored in RequestLog.routing
+export type RoutingOutcome = 'alias' | 'fallback';
+
+// Validates a routing table from the settings API, dropping incomplete rows and duplicate aliases.
+// Returns null if the value is not an array at all.
+export function parseModelRoutes(value: any): ModelRoute[] | null {
+  if (!Array.isArray(value)) return null;
+  const routes: ModelRoute[] = [];
+  const seen = new Set<string>();
+  for (const row of value) {
+    const alias = normalizeModelName(row?.alias);
+    const target = normalizeModelName(row?.target);
+    if (!alias || !target || seen.has(alias)) continue;
+    const fallbacks = (Array.isArray(row.fallbacks) ? row.fallbacks : [])
+      .map((model: any) => normalizeModelName(model))
+      .filter((model: string | null): model is string => !!model && model !== target);
+    seen.add(alias);
+    routes.push({ alias, target, fallbacks: Array.from(new Set<string>(fallbacks)) });
+  }
+  return routes;
+}
+
+// Looks up the requested model in the routing table. Models without a route are forwarded untouched.
+export function resolveModelRoute(model: string | null | undefined, routes: ModelRoute[] | undefined): ModelRouteDecision {
+  const requestedModel = model ?? null;
+  const normalized = normalizeModelName(model);
+  const route = normalized ? (routes || []).find(r => r.alias === normalized) || null : null;
+  if (!route) {
+    return { requestedModel, models: [requestedModel], route: null };
+  }
+  return { requestedModel, models: [route.target, ...route.fallbacks], route };
+}
+
+// Classifies the model used for an attempt: null when the requested model was used as is
+export function getRoutingOutcome(decision: ModelRouteDecision, modelUsed: string | null): RoutingOutcome | null {
+  if (normalizeModelName(modelUsed) === normalizeModelName(decision.requestedModel)) return null;
+  return modelUsed === decision.models[0] ? 'alias' : 'fallback';
+}
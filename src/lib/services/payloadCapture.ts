@@ -0,0 +1,93 @@
+import { RequestPayload } from '../models/RequestPayload';
+import type { ClientKey } from '../models/ClientKey';
+import { logError } from './logger';
+import { readSettings, Settings } from '@/lib/settings';
+import { redactPayload } from '@/lib/utils/sanitize';
+
+// Longest body stored per payload (characters of JSON or text); longer ones are cut and flagged
+export const MAX_CAPTURED_BODY_CHARS = 256 * 1024;
+// How often expired payloads are deleted
+const PURGE_INTERVAL_MS = 15 * 60 * 1000;
+
+// Whether to capture the payloads of a request. A client key's own rate wins over the global setting,
+// so single consumers can be captured (or excluded) while capture is off (or on) for everyone else.
+export function shouldCapturePayload(clientKey: ClientKey | null, settings: Settings, random: number = Math.random()): boolean {
+  const rate = clientKey?.payloadCaptureRate ?? (settings.payloadCaptureEnabled ? settings.payloadCaptureSampleRate : 0);
+  return rate > 0 && random < rate;
+}
+
+function serializeBody(body: any): { text: string | null; isTruncated: boolean } {
+  if (body === undefined || body === null) return { text: null, isTruncated: false };
+  const text = typeof body === 'string' ? body : JSON.stringify(body);
+  return text.length > MAX_CAPTURED_BODY_CHARS
+    ? { text: text.slice(0, MAX_CAPTURED_BODY_CHARS), isTruncated: true }
+    : { text, isTruncated: false };
+}
+
+// Redacts and stores the payloads of a captured request, never failing the request because of it
+export async function capturePayload(data: {
+  requestId: string;
+  clientKeyId: string | null;
+  model: string | null;
+  statusCode: number;
+  request: any; // Body sent by the client
+  response: any; // Upstream response body, error body or the assembled text of a stream
+  isStreamed: boolean;
+  isTruncated?: boolean; // Set when the response was already cut before it got here
+}): Promise<void> {
+  try {
+    const settings = await readSettings();
+    const request = serializeBody(redactPayload(data.request, settings.payloadRedactionPatterns));
+    const response = serializeBody(redactPayload(data.response, settings.payloadRedactionPatterns));
+    await RequestPayload.create({
+      requestId: data.requestId,
+      clientKeyId: data.clientKeyId,
+      model: data.model,
+      statusCode: data.statusCode,
+      expiresAt: new Date(Date.now() + settings.payloadRetentionHours * 60 * 60 * 1000).toISOString(),
+      requestBody: request.text,
+      responseBody: response.text,
+      isStreamed: data.isStreamed,
+      isTruncated: request.isTruncated || response.isTruncated || !!data.isTruncated,
+    });
+  } catch (error: any) {
+    logError(error, { context: 'Payload Capture', requestId: data.requestId });
+  }
+}
+
+// Deletes captured payloads once they expire
+class PayloadPurger {
+  private timer: NodeJS.Timeout | null = null;
+
+  start() {
+    if (this.timer) return;
+    this.runOnce().finally(() => this._scheduleNext());
+  }
+
+  stop() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private _scheduleNext() {
+    this.timer = setTimeout(async () => {
+      await this.runOnce();
+      this._scheduleNext();
+    }, PURGE_INTERVAL_MS);
+    this.timer.unref?.(); // Never keep the process alive just for the purge
+  }
+
+  // Returns the number of payloads deleted
+  async runOnce(): Promise<number> {
+    try {
+      return await RequestPayload.deleteExpired();
+    } catch (error: any) {
+      logError(error, { context: 'Payload purge' });
+      return 0;
+    }
+  }
+}
+
+// Export a singleton instance
+const payloadPurger = new PayloadPurger();
+export default payloadPurger;
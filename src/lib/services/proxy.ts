@@ -0,0 +1,687 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { AxiosResponse } from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import keyManager, { KeyLease } from './keyManager';
+import { logError, requestLogger } from './logger';
+import { readSettings } from '@/lib/settings';
+import { RequestLog, TokenUsage } from '@/lib/models/RequestLog';
+import { RequestAttempt } from '@/lib/models/RequestAttempt';
+import { ClientKey } from '@/lib/models/ClientKey';
+import { KeyPool, KEY_POOL_HEADER } from '@/lib/models/KeyPool';
+import { ModelRouteDecision, getRoutingOutcome, resolveModelRoute } from './modelRouting';
+import { KeyErrorClass, classifyKeyError, readUpstreamErrorBody } from './errorClassifier';
+import { QueueFullError, QueueTimeoutError } from './admissionQueue';
+import { MAX_CAPTURED_BODY_CHARS, capturePayload, shouldCapturePayload } from './payloadCapture';
+import { recordRequest, recordUpstreamAttempt, recordUpstreamAttemptOutcome } from './metrics';
+
+// Builds the JSON error body returned to the client. OpenAI-compatible routes and the
+// native Gemini routes use different shapes; upstreamError is the upstream `error` object, if any.
+export type ErrorBodyFormatter = (statusCode: number, message: string, type: string, upstreamError?: any) => any;
+
+export const openAiErrorBody: ErrorBodyFormatter = (_statusCode, message, type, upstreamError) => ({
+  error: {
+    message,
+    type: upstreamError?.type || type
+  }
+});
+
+// Response header carrying the requestId, so clients can quote it when reporting a problem
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Per-request state shared by the pipeline steps
+export interface ProxyContext {
+  requestId: string; // Ties the file logs, RequestLog row and attempts of the request together
+  startTime: number;
+  ipAddress: string | null;
+  path: string;
+  label: string; // Used as the log context, e.g. 'Chat completions'
+  formatError: ErrorBodyFormatter;
+  clientKey: ClientKey | null; // Set by authenticateClient when a client key was used
+  route: ModelRouteDecision | null; // Set by proxyUpstreamRequest once the model was routed
+  requestedPool: string | null; // Pool name from the X-Key-Pool header, if any
+  poolId: string | null; // Pool serving the current attempt, null for the default pool
+  attemptCount: number; // Upstream attempts made so far, across retries and fallback models
+  capturePayload: boolean; // Set by proxyUpstreamRequest when the request was picked for payload capture
+}
+
+export function createProxyContext(req: NextRequest, label: string, formatError: ErrorBodyFormatter = openAiErrorBody): ProxyContext {
+  return {
+    requestId: uuidv4(),
+    startTime: Date.now(),
+    ipAddress: req.headers.get('x-forwarded-for') || req.ip || null,
+    path: req.nextUrl.pathname,
+    label,
+    formatError,
+    clientKey: null,
+    route: null,
+    requestedPool: req.headers.get(KEY_POOL_HEADER)?.trim() || null,
+    poolId: null,
+    attemptCount: 0,
+    capturePayload: false,
+  };
+}
+
+// Adds the X-Request-Id header to a response of the request
+export function withRequestId<T extends Response>(ctx: ProxyContext, response: T): T {
+  response.headers.set(REQUEST_ID_HEADER, ctx.requestId);
+  return response;
+}
+
+// Extracts the key from an "Authorization: Bearer <key>" header
+export function getBearerToken(req: NextRequest): string | null {
+  return req.headers.get('Authorization')?.split(' ')[1] || null;
+}
+
+// Authenticates the caller with MASTER_API_KEY or one of the client keys. Returns an error response
+// when the request may not proceed, null otherwise (ctx.clientKey is set if a client key was used).
+// Without MASTER_API_KEY and without any client key, any request passes (the pool keys are still used upstream).
+export async function authenticateClient(ctx: ProxyContext, incomingKey: string | null): Promise<NextResponse | null> {
+  const masterApiKey = process.env.MASTER_API_KEY;
+  if (masterApiKey && incomingKey === masterApiKey) return null;
+
+  const clientKey = incomingKey ? await ClientKey.findBySecret(incomingKey) : null;
+  if (!clientKey) {
+    if (!masterApiKey && (await ClientKey.count()) === 0) return null;
+    requestLogger.warn('Unauthorized access attempt', { path: ctx.path, requestId: ctx.requestId });
+    return withRequestId(ctx, NextResponse.json(ctx.formatError(401, 'Unauthorized', 'authentication_error'), { status: 401 }));
+  }
+
+  ctx.clientKey = clientKey;
+  const now = new Date();
+
+  if (!clientKey.isEnabled || clientKey.isExpired(now)) {
+    const message = clientKey.isEnabled ? 'Client key has expired' : 'Client key is disabled';
+    requestLogger.warn('Rejected client key', { path: ctx.path, requestId: ctx.requestId, clientKeyId: clientKey._id, reason: message });
+    return withRequestId(ctx, NextResponse.json(ctx.formatError(403, message, 'permission_error'), { status: 403 }));
+  }
+
+  if (clientKey.applyDailyReset(now)) {
+    await clientKey.save();
+  }
+  const exceededQuota = clientKey.getExceededQuota();
+  if (exceededQuota) {
+    const message = `Daily ${exceededQuota === 'requests' ? 'request' : 'token'} quota exceeded for this client key`;
+    await writeRequestLog(ctx, {
+      apiKeyId: 'N/A', // No key involved
+      statusCode: 429,
+      isError: true,
+      errorType: 'ClientQuotaExceeded',
+      errorMessage: message,
+    });
+    return withRequestId(ctx, NextResponse.json(ctx.formatError(429, message, 'insufficient_quota'), { status: 429 }));
+  }
+
+  return null;
+}
+
+// Writes a RequestLog row, never failing the request because of a DB error
+export async function writeRequestLog(ctx: ProxyContext, data: {
+  apiKeyId: string;
+  statusCode: number;
+  isError: boolean;
+  errorType?: string | null;
+  errorMessage?: string | null;
+  modelUsed?: string | null;
+  usage?: TokenUsage | null;
+}): Promise<void> {
+  const { usage, ...logData } = data;
+  const responseTime = Date.now() - ctx.startTime;
+  recordRequest({ model: data.modelUsed ?? null, statusCode: data.statusCode, apiKeyId: data.apiKeyId, durationMs: responseTime });
+  await RequestLog.create({
+    ...logData,
+    requestedModel: ctx.route ? ctx.route.requestedModel : data.modelUsed ?? null,
+    routing: ctx.route ? getRoutingOutcome(ctx.route, data.modelUsed ?? null) : null,
+    promptTokens: usage?.promptTokens ?? null,
+    completionTokens: usage?.completionTokens ?? null,
+    totalTokens: usage?.totalTokens ?? null,
+    clientKeyId: ctx.clientKey?._id ?? null,
+    poolId: ctx.poolId,
+    responseTime,
+    ipAddress: ctx.ipAddress,
+    requestId: ctx.requestId,
+  }).catch(dbError => logError(dbError, { context: 'RequestLog DB Write Error', requestId: ctx.requestId }));
+
+  // Requests rejected before a key was involved ('N/A') do not count towards the client's quota
+  if (ctx.clientKey && data.apiKeyId !== 'N/A') {
+    await ClientKey.recordUsage(ctx.clientKey._id, usage?.totalTokens)
+      .catch(dbError => logError(dbError, { context: 'ClientKey Usage Write Error', clientKeyId: ctx.clientKey?._id, requestId: ctx.requestId }));
+  }
+}
+
+// Records one upstream attempt of the request, never failing the request because of a DB error.
+// A stream is recorded when its first chunk arrived, with its outcome pending until it ended
+// (see recordStreamOutcome).
+async function recordAttempt(ctx: ProxyContext, lease: KeyLease, model: string | null, startedAt: number, outcome: {
+  statusCode?: number | null;
+  errorClass?: KeyErrorClass | null;
+  errorMessage?: string | null;
+  outcomePending?: boolean;
+}): Promise<RequestAttempt | null> {
+  ctx.attemptCount++;
+  const latency = Date.now() - startedAt;
+  recordUpstreamAttempt({
+    model,
+    statusCode: outcome.statusCode ?? null,
+    errorClass: outcome.errorClass ?? null,
+    latencyMs: latency,
+    attempt: ctx.attemptCount,
+    outcomePending: outcome.outcomePending,
+  });
+  return RequestAttempt.create({
+    requestId: ctx.requestId,
+    attempt: ctx.attemptCount,
+    apiKeyId: lease.id,
+    model,
+    poolId: lease.poolId,
+    timestamp: new Date(startedAt).toISOString(),
+    statusCode: outcome.statusCode ?? null,
+    latency,
+    errorClass: outcome.errorClass ?? null,
+    errorMessage: outcome.errorMessage ?? null,
+  }).catch(dbError => {
+    logError(dbError, { context: 'RequestAttempt DB Write Error', requestId: ctx.requestId });
+    return null;
+  });
+}
+
+// Counts a streamed attempt once the stream ended, and turns its RequestAttempt row
+// into a failure when the stream was interrupted
+async function recordStreamOutcome(ctx: ProxyContext, attempt: RequestAttempt | null, model: string | null, outcome: {
+  statusCode: number;
+  errorClass?: KeyErrorClass | null;
+  errorMessage?: string | null;
+}): Promise<void> {
+  recordUpstreamAttemptOutcome({ model, statusCode: outcome.statusCode, errorClass: outcome.errorClass ?? null });
+  if (!attempt || !outcome.errorClass) return;
+  await RequestAttempt.recordFailure(attempt._id, outcome.errorClass, outcome.errorMessage ?? null)
+    .catch(dbError => logError(dbError, { context: 'RequestAttempt DB Write Error', requestId: ctx.requestId }));
+}
+
+// Stores the request body and the response of a request picked for payload capture
+async function captureRequestPayload(ctx: ProxyContext, request: any, data: {
+  statusCode: number;
+  model: string | null;
+  response: any;
+  isStreamed?: boolean;
+  isTruncated?: boolean;
+}): Promise<void> {
+  if (!ctx.capturePayload) return;
+  await capturePayload({
+    requestId: ctx.requestId,
+    clientKeyId: ctx.clientKey?._id ?? null,
+    model: data.model,
+    statusCode: data.statusCode,
+    request,
+    response: data.response,
+    isStreamed: data.isStreamed ?? false,
+    isTruncated: data.isTruncated,
+  });
+}
+
+// Parses the JSON body, answering with a 400 (and a RequestLog entry) when it is not valid JSON
+export async function parseJsonBody(req: NextRequest, ctx: ProxyContext): Promise<{ body: any } | { response: NextResponse }> {
+  try {
+    return { body: await req.json() };
+  } catch (parseError: any) {
+    logError(parseError, { context: `${ctx.label} - Body Parsing`, requestId: ctx.requestId });
+    await writeRequestLog(ctx, {
+      apiKeyId: 'N/A', // No key involved yet
+      statusCode: 400,
+      isError: true,
+      errorType: 'InvalidRequestError',
+      errorMessage: 'Failed to parse request body: ' + parseError.message,
+    });
+    return {
+      response: withRequestId(ctx, NextResponse.json(ctx.formatError(400, 'Invalid request body', 'invalid_request_error'), { status: 400 }))
+    };
+  }
+}
+
+// Error details used for the RequestLog entry and the client response
+export interface ClassifiedError {
+  statusCode: number;
+  errorType: string; // Stored in RequestLog.errorType
+  clientType: string; // Error type returned to the client
+  message: string;
+  upstreamError?: any; // The upstream `error` object, when the body was readable
+  retryAfterSeconds?: number; // Sent as Retry-After
+}
+
+export function classifyUpstreamError(error: any, lease: KeyLease | null): ClassifiedError {
+  // getKey() threw: there was no key to send the request with
+  if (!lease) {
+    if (error instanceof QueueFullError) {
+      return {
+        statusCode: 429,
+        errorType: 'QueueFullError',
+        clientType: 'rate_limit_exceeded',
+        message: error.message,
+        retryAfterSeconds: error.retryAfterSeconds,
+      };
+    }
+    if (error instanceof QueueTimeoutError) {
+      return {
+        statusCode: 503,
+        errorType: 'QueueTimeoutError',
+        clientType: 'no_key_available',
+        message: error.message,
+      };
+    }
+    return {
+      statusCode: 503,
+      errorType: 'NoAvailableKeysError',
+      clientType: 'no_key_available',
+      message: error.message || 'No available API keys to process the request.',
+    };
+  }
+
+  const { errorClass, upstreamError } = classifyKeyError(error);
+  const statusCode = error.response?.status || 500;
+
+  let errorType = 'UpstreamError';
+  if (errorClass === 'key-fatal' || errorClass === 'key-transient') {
+    errorType = 'ApiKeyError';
+  } else if (errorClass === 'client-error') {
+    errorType = 'InvalidRequestError';
+  } else if (statusCode >= 500 && error.response) {
+    errorType = 'UpstreamServerError';
+  } else if (error.code === 'ECONNABORTED' || error.message?.includes('timeout')) {
+    errorType = 'UpstreamTimeoutError';
+  }
+
+  return {
+    statusCode,
+    errorType,
+    clientType: errorClass === 'client-error' ? 'invalid_request_error' : 'internal_error',
+    message: upstreamError?.message || error.message,
+    upstreamError,
+  };
+}
+
+// Maps an OpenAI-style `usage` block (prompt_tokens, completion_tokens, total_tokens)
+export function fromOpenAiUsage(usage: any): TokenUsage | null {
+  if (!usage || typeof usage !== 'object') return null;
+  const toCount = (value: any) => (typeof value === 'number' ? value : null);
+  return {
+    promptTokens: toCount(usage.prompt_tokens),
+    completionTokens: toCount(usage.completion_tokens),
+    totalTokens: toCount(usage.total_tokens),
+  };
+}
+
+// Delay before retry number `retryCount` (1-based): exponential from retryBackoffMs, capped at retryBackoffMaxMs
+export function getRetryBackoffMs(retryCount: number, baseMs: number, maxMs: number): number {
+  if (!baseMs || baseMs <= 0) return 0;
+  return Math.min(maxMs, baseMs * Math.pow(2, retryCount - 1));
+}
+
+// SSE written to OpenAI-compatible clients when the upstream stream breaks after the first event.
+// The leading blank lines terminate any event the upstream left half-written.
+export function openAiStreamInterruption(message: string): string {
+  const event = { error: { message, type: 'stream_interrupted' } };
+  return `\n\ndata: ${JSON.stringify(event)}\n\ndata: [DONE]\n\n`;
+}
+
+// How a streamed (responseType: 'stream') upstream response is passed on to the client
+export interface StreamOptions {
+  contentType?: string | ((response: AxiosResponse) => string);
+  // Sees the decoded text of every chunk, e.g. to pick up token usage
+  onText?: (text: string) => void;
+  // Token usage seen in the stream, read once the stream has finished
+  getUsage?: () => TokenUsage | null | undefined;
+  // Text sent to the client after a mid-stream failure, before the stream is closed
+  formatInterruption?: (message: string) => string;
+  // Turns the raw stream into the generated text, stored by payload capture (the raw text otherwise)
+  assembleText?: (raw: string) => string;
+}
+
+export interface UpstreamRequestOptions {
+  ctx: ProxyContext;
+  model?: string | null; // Requested model, routed through Settings.modelRoutes before use
+  // Sends the request upstream with the leased key, for the model chosen by the routing table
+  send: (lease: KeyLease, model: string | null) => Promise<AxiosResponse>;
+  // Token usage reported by a successful (non-streamed) response, if any
+  getUsage?: (response: AxiosResponse) => TokenUsage | null | undefined;
+  // Turns the successful upstream response into the client response (non-streamed requests)
+  respond?: (response: AxiosResponse, lease: KeyLease) => Response | Promise<Response>;
+  // Set for streamed requests: the pipeline pipes the stream and settles the key once it ends
+  stream?: StreamOptions;
+  // Request body as sent by the client, stored if the request is picked for payload capture
+  payload?: any;
+}
+
+// Leases a key, sends the request and retries on key and upstream errors; client errors are returned as they are.
+// Keys come from the client key's pool, else the pool named in the X-Key-Pool header (master key only),
+// else from the pool the model is routed to.
+// When no key can serve the model (or it stays rate-limited), the route's fallback models are tried in order.
+// Every attempt marks the leased key and is recorded in request_attempts; the outcome is written to RequestLog once.
+// The response carries the requestId in X-Request-Id.
+export async function proxyUpstreamRequest(options: UpstreamRequestOptions): Promise<Response> {
+  return withRequestId(options.ctx, await sendWithRetries(options));
+}
+
+async function sendWithRetries(options: UpstreamRequestOptions): Promise<Response> {
+  const { ctx } = options;
+  const settings = await readSettings();
+  const maxRetries = settings.maxRetries;
+  ctx.capturePayload = options.payload !== undefined && shouldCapturePayload(ctx.clientKey, settings);
+
+  const route = resolveModelRoute(options.model, settings.modelRoutes);
+  ctx.route = route;
+  let modelIndex = 0; // Position in the fallback chain
+  let model = route.models[0];
+
+  // Client keys may be restricted to some models (either the alias or its target may be listed)
+  if (ctx.clientKey && !ctx.clientKey.allowsModel(route.requestedModel) && !ctx.clientKey.allowsModel(model)) {
+    const message = `This client key is not allowed to use model '${route.requestedModel}'`;
+    await writeRequestLog(ctx, {
+      apiKeyId: 'N/A', // No key involved
+      statusCode: 403,
+      isError: true,
+      errorType: 'ModelNotAllowedError',
+      errorMessage: message,
+      modelUsed: route.requestedModel,
+    });
+    return NextResponse.json(ctx.formatError(403, message, 'permission_error'), { status: 403 });
+  }
+
+  if (ctx.requestedPool && !(await KeyPool.findByName(ctx.requestedPool))) {
+    const message = `Unknown key pool '${ctx.requestedPool}'`;
+    await writeRequestLog(ctx, {
+      apiKeyId: 'N/A', // No key involved
+      statusCode: 400,
+      isError: true,
+      errorType: 'UnknownKeyPoolError',
+      errorMessage: message,
+      modelUsed: route.requestedModel,
+    });
+    return NextResponse.json(ctx.formatError(400, message, 'invalid_request_error'), { status: 400 });
+  }
+
+  // The header is set by the caller, so a client key may only name its own pool: otherwise any client
+  // could spend another team's quota. Clients without a pool are routed by model only.
+  const assignedPool = ctx.clientKey?.poolId ? await KeyPool.findById(ctx.clientKey.poolId) : null;
+  if (ctx.clientKey && ctx.requestedPool && assignedPool?.name.toLowerCase() !== ctx.requestedPool.toLowerCase()) {
+    const message = `This client key is not allowed to use key pool '${ctx.requestedPool}'`;
+    await writeRequestLog(ctx, {
+      apiKeyId: 'N/A', // No key involved
+      statusCode: 403,
+      isError: true,
+      errorType: 'KeyPoolNotAllowedError',
+      errorMessage: message,
+      modelUsed: route.requestedModel,
+    });
+    return NextResponse.json(ctx.formatError(403, message, 'permission_error'), { status: 403 });
+  }
+
+  let retryCount = 0;
+  let apiKeyIdForAttempt: string | null = null; // Store the ID used for the current attempt
+
+  while (retryCount < maxRetries) {
+    let lease: KeyLease | null = null; // Key leased for this attempt
+    let attemptStartedAt = 0; // When the request was sent upstream with the lease
+    let awaitingFirstChunk = false; // True while a stream has not delivered anything yet
+    try {
+      // Fallback models may be routed to another pool, so the pool is resolved for every attempt
+      const pool = await KeyPool.resolve(ctx.requestedPool, model, assignedPool?._id ?? null);
+      ctx.poolId = pool?._id ?? null;
+      // Only wait in the admission queue once no fallback model is left to try
+      lease = await keyManager.getKey(model, ctx.poolId, { queue: modelIndex >= route.models.length - 1, requestId: ctx.requestId });
+      apiKeyIdForAttempt = lease.id;
+
+      attemptStartedAt = Date.now();
+      const response = await options.send(lease, model);
+
+      if (options.stream) {
+        // Wait for the first chunk: until then nothing was sent to the client and the attempt can still be retried
+        awaitingFirstChunk = true;
+        const iterator: AsyncIterator<any> = response.data[Symbol.asyncIterator]();
+        const first = await iterator.next();
+        if (first.done) {
+          throw new Error('Upstream stream ended before sending any data');
+        }
+        awaitingFirstChunk = false;
+        const attempt = await recordAttempt(ctx, lease, model, attemptStartedAt, { statusCode: response.status, outcomePending: true });
+
+        // The key is marked, the attempt counted and the request logged once the stream has ended
+        return pipeUpstreamStream(ctx, model, lease, attempt, response, first.value, iterator, options.stream, options.payload);
+      }
+
+      await recordAttempt(ctx, lease, model, attemptStartedAt, { statusCode: response.status });
+      const usage = options.getUsage?.(response) ?? null;
+      await keyManager.markKeySuccess(lease, { totalTokens: usage?.totalTokens });
+
+      await writeRequestLog(ctx, {
+        apiKeyId: apiKeyIdForAttempt,
+        statusCode: 200,
+        isError: false,
+        modelUsed: model,
+        usage,
+      });
+      await captureRequestPayload(ctx, options.payload, { statusCode: 200, model, response: response.data });
+
+      return await options.respond!(response, lease);
+    } catch (error: any) {
+      // Streamed requests get their error body as a stream, read it so it can be classified and returned
+      await readUpstreamErrorBody(error);
+
+      // Only blame the key that was actually used for this attempt
+      const errorClass = lease ? await keyManager.markKeyError(lease, error) : null;
+      if (lease) {
+        await recordAttempt(ctx, lease, model, attemptStartedAt, {
+          statusCode: error.response?.status,
+          errorClass,
+          errorMessage: classifyKeyError(error).upstreamError?.message || error.message,
+        });
+      }
+      const isRateLimit = errorClass === 'key-transient';
+      const isKeyFatal = errorClass === 'key-fatal';
+      const isServerError = errorClass === 'upstream-transient' || awaitingFirstChunk;
+
+      // Move on to the next model of the route when no key is left for this one, or it stayed rate-limited
+      const isLastAttempt = retryCount >= maxRetries - 1;
+      if (modelIndex < route.models.length - 1 && (!lease || (isRateLimit && isLastAttempt))) {
+        modelIndex++;
+        const fallbackModel = route.models[modelIndex];
+        logError(error, {
+          context: `${ctx.label} - Model Fallback`,
+          requestId: ctx.requestId,
+          fromModel: model,
+          toModel: fallbackModel,
+          keyIdUsed: lease?.id
+        });
+        model = fallbackModel;
+        retryCount = 0; // The fallback model gets its own attempts
+        continue;
+      }
+
+      // Retry while attempts remain: rate limits and revoked keys move straight on to another key
+      // (getKey queues the request if none is free), server errors, timeouts and streams failing
+      // before their first chunk wait for the configured backoff first. Client errors are not retried.
+      if (lease && (isRateLimit || isKeyFatal || isServerError) && !isLastAttempt) {
+        retryCount++;
+        const backoffMs = isRateLimit || isKeyFatal ? 0 : getRetryBackoffMs(retryCount, settings.retryBackoffMs, settings.retryBackoffMaxMs);
+        logError(error, {
+          context: `${ctx.label} - Retrying`,
+          requestId: ctx.requestId,
+          retryCount,
+          keyIdUsed: lease.id,
+          statusCode: error.response?.status,
+          errorClass,
+          backoffMs
+        });
+        if (backoffMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, backoffMs));
+        }
+        continue;
+      }
+
+      const classified = classifyUpstreamError(error, lease);
+
+      await writeRequestLog(ctx, {
+        apiKeyId: apiKeyIdForAttempt || 'UNKNOWN',
+        statusCode: classified.statusCode,
+        isError: true,
+        errorType: classified.errorType,
+        errorMessage: classified.message,
+        modelUsed: model,
+      });
+      // A streamed error body that could not be read is still a stream, store the message instead
+      const errorBody = error.response?.data;
+      await captureRequestPayload(ctx, options.payload, {
+        statusCode: classified.statusCode,
+        model,
+        response: errorBody && typeof errorBody[Symbol.asyncIterator] !== 'function' ? errorBody : { error: classified.message },
+      });
+
+      return NextResponse.json(
+        ctx.formatError(classified.statusCode, classified.message, classified.clientType, classified.upstreamError),
+        {
+          status: classified.statusCode,
+          headers: classified.retryAfterSeconds ? { 'Retry-After': String(classified.retryAfterSeconds) } : undefined,
+        }
+      );
+    }
+  }
+
+  // If loop finishes due to max retries, log the final error
+  logError(new Error('Maximum retries exceeded'), {
+    context: `${ctx.label} - Max Retries`,
+    requestId: ctx.requestId,
+    retryCount,
+    statusCode: 500,
+    responseTime: Date.now() - ctx.startTime,
+    model,
+    errorType: 'MaxRetriesExceeded'
+  });
+
+  await writeRequestLog(ctx, {
+    apiKeyId: apiKeyIdForAttempt || 'UNKNOWN',
+    statusCode: 500,
+    isError: true,
+    errorType: 'MaxRetriesExceeded',
+    errorMessage: 'Maximum retries exceeded after multiple upstream failures.',
+    modelUsed: model,
+  });
+  await captureRequestPayload(ctx, options.payload, { statusCode: 500, model, response: { error: 'Maximum retries exceeded' } });
+
+  return NextResponse.json(ctx.formatError(500, 'Maximum retries exceeded', 'internal_error'), { status: 500 });
+}
+
+// Pipes a streamed upstream response to the client, starting with the chunk that was already read.
+// A failure after that point cannot be retried: the client gets an error event, the key is marked
+// with the error, the attempt is recorded as failed and RequestLog records a StreamInterrupted entry. With payload capture, the text
+// of the stream is collected (up to a limit) and stored once it ends.
+function pipeUpstreamStream(
+  ctx: ProxyContext,
+  model: string | null,
+  lease: KeyLease,
+  attempt: RequestAttempt | null,
+  response: AxiosResponse,
+  firstChunk: any,
+  iterator: AsyncIterator<any>,
+  options: StreamOptions,
+  payload: any
+): Response {
+  const encoder = new TextEncoder();
+  const toBytes = (chunk: any) => (typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+  // One decoder for the whole stream, so a character split across two chunks is decoded once both arrived
+  const decoder = new TextDecoder();
+  const toText = (chunk: any) => (typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true }));
+  let clientClosed = false;
+
+  // Raw stream text for payload capture; SSE framing makes it a few times longer than the text it carries
+  let captured = '';
+  const maxCapturedChars = MAX_CAPTURED_BODY_CHARS * 4;
+  const onText = (text: string) => {
+    options.onText?.(text);
+    if (ctx.capturePayload && captured.length < maxCapturedChars) captured += text;
+  };
+  const captureStream = (statusCode: number) => captureRequestPayload(ctx, payload, {
+    statusCode,
+    model,
+    response: options.assembleText ? options.assembleText(captured) : captured,
+    isStreamed: true,
+    isTruncated: captured.length >= maxCapturedChars,
+  });
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let interruption: any = null;
+      try {
+        controller.enqueue(toBytes(firstChunk));
+        onText(toText(firstChunk));
+        while (!clientClosed) {
+          const next = await iterator.next();
+          if (next.done) break;
+          controller.enqueue(toBytes(next.value));
+          onText(toText(next.value));
+        }
+      } catch (error: any) {
+        // Errors after the client went away are expected (the upstream stream was destroyed)
+        if (!clientClosed) interruption = error;
+      }
+      const rest = decoder.decode(); // Flushes an incomplete character left at the end
+      if (rest) onText(rest);
+
+      if (interruption) {
+        const message = interruption.message || 'Upstream stream interrupted';
+        logError(interruption, {
+          context: `${ctx.label} - Stream Interrupted`,
+          requestId: ctx.requestId,
+          keyIdUsed: lease.id,
+          model
+        });
+        if (options.formatInterruption) {
+          controller.enqueue(encoder.encode(options.formatInterruption(message)));
+        }
+        controller.close();
+
+        const errorClass = await keyManager.markKeyError(lease, interruption);
+        await recordStreamOutcome(ctx, attempt, model, { statusCode: response.status, errorClass, errorMessage: message });
+        await writeRequestLog(ctx, {
+          apiKeyId: lease.id,
+          statusCode: 200, // Headers were already sent with 200
+          isError: true,
+          errorType: 'StreamInterrupted',
+          errorMessage: message,
+          modelUsed: model,
+          usage: options.getUsage?.() ?? null,
+        });
+        await captureStream(200);
+        return;
+      }
+
+      if (!clientClosed) controller.close();
+
+      const usage = options.getUsage?.() ?? null;
+      await keyManager.markKeySuccess(lease, { totalTokens: usage?.totalTokens });
+      await recordStreamOutcome(ctx, attempt, model, { statusCode: response.status });
+      await writeRequestLog(ctx, {
+        apiKeyId: lease.id,
+        statusCode: 200,
+        isError: false,
+        modelUsed: model,
+        usage,
+      });
+      await captureStream(200);
+    },
+    cancel() {
+      // The client disconnected: stop reading from upstream
+      clientClosed = true;
+      response.data?.destroy?.();
+    },
+  });
+
+  const contentType = typeof options.contentType === 'function'
+    ? options.contentType(response)
+    : options.contentType;
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': contentType || 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,64 @@
+import { ApiKey } from '../models/ApiKey';
+import keyManager from './keyManager';
+import { logError, logKeyEvent } from './logger';
+import { readSettings } from '@/lib/settings';
+import { getNextQuotaReset } from '@/lib/utils/quotaDay';
+
+// Wake up at least this often, so a changed reset time zone is picked up without a restart
+const MAX_SLEEP_MS = 60 * 60 * 1000;
+// Run slightly after the boundary so the new quota day has certainly started
+const BOUNDARY_MARGIN_MS = 1000;
+
+class QuotaResetScheduler {
+  private timer: NodeJS.Timeout | null = null;
+
+  // Catches up on resets missed while the server was down, then runs at every quota day boundary
+  start() {
+    if (this.timer) return;
+    this.runOnce().finally(() => this._scheduleNext());
+  }
+
+  stop() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  // Earliest upcoming midnight across the global reset time zone and the per-key overrides
+  async getNextReset(now: Date = new Date()): Promise<Date> {
+    const settings = await readSettings();
+    const timeZones = new Set<string>([settings.quotaResetTimezone]);
+    for (const key of await ApiKey.findAll({})) {
+      timeZones.add(key.getQuotaTimeZone(settings.quotaResetTimezone));
+    }
+    return new Date(Math.min(...Array.from(timeZones).map(timeZone => getNextQuotaReset(now, timeZone).getTime())));
+  }
+
+  private async _scheduleNext() {
+    let delayMs = MAX_SLEEP_MS;
+    try {
+      const nextReset = await this.getNextReset();
+      delayMs = Math.min(MAX_SLEEP_MS, Math.max(0, nextReset.getTime() - Date.now()) + BOUNDARY_MARGIN_MS);
+    } catch (error: any) {
+      logError(error, { context: 'Quota reset scheduling' });
+    }
+    this.timer = setTimeout(async () => {
+      await this.runOnce();
+      this._scheduleNext();
+    }, delayMs);
+    this.timer.unref?.(); // Never keep the process alive just for the reset
+  }
+
+  // Resets every key whose quota day has ended; keys still in their day are left alone
+  async runOnce(): Promise<void> {
+    try {
+      await keyManager.resetDailyCounters();
+      logKeyEvent('Daily Reset Check', { nextReset: (await this.getNextReset()).toISOString() });
+    } catch (error: any) {
+      logError(error, { context: 'Quota reset' });
+    }
+  }
+}
+
+// Export a singleton instance
+const quotaResetScheduler = new QuotaResetScheduler();
+export default quotaResetScheduler;
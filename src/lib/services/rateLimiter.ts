@@ -0,0 +1,26 @@
+// Sliding one-minute window of requests and tokens per API key.
+// The windows themselves live in the coordination store (see coordination.ts), so every
+// balancer instance counts against the same RPM/TPM budget.
+export const WINDOW_MS = 60 * 1000;
+
+export interface MinuteUsage {
+  requests: number; // Requests in the last minute
+  tokens: number; // Tokens in the last minute
+}
+
+export interface MinuteLimits {
+  rpmLimit?: number | null; // NULL or 0 means no limit
+  tpmLimit?: number | null; // NULL or 0 means no limit
+}
+
+export function isLimited(limit: number | null | undefined): limit is number {
+  return typeof limit === 'number' && limit > 0;
+}
+
+// Whether one more request fits into the key's RPM and TPM limits.
+// The token count of the next request is unknown up front, so TPM only blocks once the window is full.
+export function fitsMinuteLimits(usage: MinuteUsage, limits: MinuteLimits): boolean {
+  if (isLimited(limits.rpmLimit) && usage.requests >= limits.rpmLimit) return false;
+  if (isLimited(limits.tpmLimit) && usage.tokens >= limits.tpmLimit) return false;
+  return true;
+}
@@ -0,0 +1,187 @@
+import net from 'net';
+import tls from 'tls';
+
+// Minimal Redis (RESP2) client: one connection, pipelined commands, replies matched in order.
+// Enough for the coordination store, which only sends simple commands and EVAL scripts.
+// A command without a reply within COMMAND_TIMEOUT_MS drops the connection: since replies are matched
+// by order, the ones still in flight cannot be told apart anymore, so they all fail and the next call
+// reconnects. A failed command fails the lease that needed it instead of leaving the request hanging.
+// Works with any Redis-compatible server (Redis, Valkey, KeyDB, Dragonfly, ...).
+
+export type RedisReply = string | number | null | RedisReply[];
+
+export class RedisReplyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedisReplyError';
+  }
+}
+
+interface PendingCommand {
+  resolve: (reply: RedisReply) => void;
+  reject: (error: Error) => void;
+}
+
+const CONNECT_TIMEOUT_MS = 5000;
+const COMMAND_TIMEOUT_MS = 5000;
+
+export class RedisClient {
+  private url: URL;
+  private socket: net.Socket | null = null; // Ready for commands
+  private activeSocket: net.Socket | null = null; // Connecting or ready; events of older sockets are ignored
+  private connecting: Promise<net.Socket> | null = null;
+  private pending: PendingCommand[] = [];
+  private buffer = Buffer.alloc(0);
+
+  // redis://[user:password@]host[:port][/db], or rediss:// for TLS
+  constructor(url: string) {
+    this.url = new URL(url);
+    if (this.url.protocol !== 'redis:' && this.url.protocol !== 'rediss:') {
+      throw new Error(`Unsupported Redis URL protocol '${this.url.protocol}'`);
+    }
+  }
+
+  async call(...args: (string | number)[]): Promise<RedisReply> {
+    const socket = await this._connect();
+    return await this._send(socket, args);
+  }
+
+  private _send(socket: net.Socket, args: (string | number)[]): Promise<RedisReply> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        socket.destroy(new Error(`Redis command ${args[0]} timed out after ${COMMAND_TIMEOUT_MS / 1000}s`));
+      }, COMMAND_TIMEOUT_MS);
+      this.pending.push({
+        resolve: reply => {
+          clearTimeout(timer);
+          resolve(reply);
+        },
+        reject: error => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+      socket.write(this._encode(args));
+    });
+  }
+
+  // Opens the connection on first use and again after it dropped; AUTH and SELECT come from the URL
+  private _connect(): Promise<net.Socket> {
+    if (this.socket) return Promise.resolve(this.socket);
+    if (this.connecting) return this.connecting;
+
+    this.connecting = new Promise<net.Socket>((resolve, reject) => {
+      const host = this.url.hostname || '127.0.0.1';
+      const port = Number(this.url.port) || 6379;
+      const socket: net.Socket = this.url.protocol === 'rediss:'
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port });
+      const readyEvent = this.url.protocol === 'rediss:' ? 'secureConnect' : 'connect';
+      this.activeSocket = socket;
+
+      socket.setTimeout(CONNECT_TIMEOUT_MS, () => socket.destroy(new Error(`Redis connection to ${host}:${port} timed out`)));
+      socket.on('data', chunk => this._onData(socket, chunk));
+      socket.on('error', error => this._onClose(socket, error));
+      socket.on('close', () => this._onClose(socket, new Error('Redis connection closed')));
+      socket.once(readyEvent, async () => {
+        socket.setTimeout(0);
+        try {
+          const password = decodeURIComponent(this.url.password);
+          const username = decodeURIComponent(this.url.username);
+          if (password) await this._send(socket, username ? ['AUTH', username, password] : ['AUTH', password]);
+          const db = this.url.pathname.replace('/', '');
+          if (db) await this._send(socket, ['SELECT', db]);
+          this.socket = socket;
+          resolve(socket);
+        } catch (error: any) {
+          socket.destroy();
+          reject(error);
+        }
+      });
+      socket.once('close', () => reject(new Error(`Could not connect to Redis at ${host}:${port}`)));
+    }).finally(() => {
+      this.connecting = null;
+    });
+    return this.connecting;
+  }
+
+  // Fails every command still waiting for a reply; the next call reconnects
+  private _onClose(socket: net.Socket, error: Error) {
+    if (socket !== this.activeSocket) return; // Already replaced by a new connection
+    this.activeSocket = null;
+    this.socket = null;
+    this.buffer = Buffer.alloc(0);
+    const pending = this.pending;
+    this.pending = [];
+    for (const command of pending) command.reject(error);
+  }
+
+  private _encode(args: (string | number)[]): string {
+    let out = `*${args.length}\r\n`;
+    for (const arg of args) {
+      const value = String(arg);
+      out += `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+    }
+    return out;
+  }
+
+  private _onData(socket: net.Socket, chunk: Buffer) {
+    if (socket !== this.activeSocket) return;
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    while (this.buffer.length > 0) {
+      let parsed: ReturnType<RedisClient['_parse']>;
+      try {
+        parsed = this._parse(0);
+      } catch (error: any) {
+        socket.destroy(error); // Out of sync with the server, start over on a new connection
+        return;
+      }
+      if (!parsed) return; // Incomplete reply, wait for more data
+      this.buffer = this.buffer.subarray(parsed.end);
+      const command = this.pending.shift();
+      if (!command) continue;
+      if (parsed.reply instanceof RedisReplyError) command.reject(parsed.reply);
+      else command.resolve(parsed.reply);
+    }
+  }
+
+  // Parses one reply starting at offset, or returns null when the buffer does not hold all of it yet
+  private _parse(offset: number): { reply: RedisReply | RedisReplyError; end: number } | null {
+    const lineEnd = this.buffer.indexOf('\r\n', offset);
+    if (lineEnd === -1) return null;
+    const type = String.fromCharCode(this.buffer[offset]);
+    const line = this.buffer.toString('utf8', offset + 1, lineEnd);
+    const next = lineEnd + 2;
+
+    switch (type) {
+      case '+':
+        return { reply: line, end: next };
+      case '-':
+        return { reply: new RedisReplyError(line), end: next };
+      case ':':
+        return { reply: Number(line), end: next };
+      case '$': {
+        const length = Number(line);
+        if (length === -1) return { reply: null, end: next };
+        if (this.buffer.length < next + length + 2) return null;
+        return { reply: this.buffer.toString('utf8', next, next + length), end: next + length + 2 };
+      }
+      case '*': {
+        const count = Number(line);
+        if (count === -1) return { reply: null, end: next };
+        const items: (RedisReply | RedisReplyError)[] = [];
+        let end = next;
+        for (let i = 0; i < count; i++) {
+          const item = this._parse(end);
+          if (!item) return null;
+          items.push(item.reply);
+          end = item.end;
+        }
+        const error = items.find((item): item is RedisReplyError => item instanceof RedisReplyError);
+        return { reply: error ?? (items as RedisReply[]), end };
+      }
+      default:
+        throw new Error(`Unexpected Redis reply type '${type}'`);
+    }
+  }
+}
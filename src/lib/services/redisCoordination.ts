@@ -0,0 +1,161 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { CoordinationStore, RotationEntry, RoundRobinSequence } from './coordination';
+import { MinuteLimits, MinuteUsage, WINDOW_MS, isLimited } from './rateLimiter';
+import { RedisClient, RedisReply } from './redisClient';
+
+// Coordination store in a Redis-compatible server. Every check-and-claim runs as a Lua script,
+// which Redis executes atomically. Keys live under the glb: prefix:
+// - glb:rpm:<keyId>   sorted set of leased requests, scored by time
+// - glb:tpm:<keyId>   sorted set of "<id>:<tokens>" token reports, scored by time
+// - glb:rotation      hash keyId -> poolId ('' for the default pool)
+// - glb:rotation:count hash keyId -> requests served since the key entered rotation
+// - glb:rr:<poolId>   round-robin counter of a pool (glb:rr-rotation:<poolId> for keys entering rotation)
+// - glb:lock:<name>   lock owner, expiring with the lock
+
+// Sums the token reports of a window after dropping expired entries
+const SUM_TOKENS = `
+local function sumTokens(key, minScore)
+  redis.call('ZREMRANGEBYSCORE', key, '-inf', minScore)
+  local total = 0
+  for _, member in ipairs(redis.call('ZRANGE', key, 0, -1)) do
+    total = total + tonumber(string.match(member, ':(%d+)$'))
+  end
+  return total
+end
+`;
+
+// KEYS: rpm, tpm; ARGV: now, windowMs, rpmLimit (0 = none), tpmLimit (0 = none), member
+const TRY_RECORD_REQUEST = `${SUM_TOKENS}
+local now, window = tonumber(ARGV[1]), tonumber(ARGV[2])
+local rpm, tpm = tonumber(ARGV[3]), tonumber(ARGV[4])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+if rpm > 0 and redis.call('ZCARD', KEYS[1]) >= rpm then return 0 end
+if tpm > 0 and sumTokens(KEYS[2], now - window) >= tpm then return 0 end
+redis.call('ZADD', KEYS[1], now, ARGV[5])
+redis.call('PEXPIRE', KEYS[1], window)
+return 1
+`;
+
+// KEYS: rpm, tpm; ARGV: now, windowMs
+const GET_MINUTE_USAGE = `${SUM_TOKENS}
+local now, window = tonumber(ARGV[1]), tonumber(ARGV[2])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+return { redis.call('ZCARD', KEYS[1]), sumTokens(KEYS[2], now - window) }
+`;
+
+// KEYS: rpm, rotation count; ARGV: score of the request, keyId
+const RELEASE_REQUEST = `
+local members = redis.call('ZRANGEBYSCORE', KEYS[1], ARGV[1], ARGV[1], 'LIMIT', 0, 1)
+if #members > 0 then redis.call('ZREM', KEYS[1], members[1]) end
+local count = tonumber(redis.call('HGET', KEYS[2], ARGV[2]))
+if count and count > 0 then redis.call('HINCRBY', KEYS[2], ARGV[2], -1) end
+return 1
+`;
+
+// KEYS: rotation; ARGV: keyId, poolId, maxKeys
+const JOIN_ROTATION = `
+if redis.call('HEXISTS', KEYS[1], ARGV[1]) == 1 then return 0 end
+local count = 0
+for _, poolId in ipairs(redis.call('HVALS', KEYS[1])) do
+  if poolId == ARGV[2] then count = count + 1 end
+end
+if count >= tonumber(ARGV[3]) then return 0 end
+redis.call('HSET', KEYS[1], ARGV[1], ARGV[2])
+return 1
+`;
+
+// KEYS: lock; ARGV: owner, ttlMs
+const ACQUIRE_LOCK = `
+local owner = redis.call('GET', KEYS[1])
+if owner and owner ~= ARGV[1] then return 0 end
+redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+return 1
+`;
+
+const ROTATION_KEY = 'glb:rotation';
+const ROTATION_COUNT_KEY = 'glb:rotation:count';
+
+export class RedisCoordinationStore implements CoordinationStore {
+  readonly backend = 'redis' as const;
+  private client: RedisClient;
+  private instanceId: string;
+
+  constructor(url: string, instanceId: string) {
+    this.client = new RedisClient(url);
+    this.instanceId = instanceId;
+  }
+
+  private _eval(script: string, keys: string[], args: (string | number)[]): Promise<RedisReply> {
+    return this.client.call('EVAL', script, keys.length, ...keys, ...args);
+  }
+
+  async tryRecordRequest(keyId: string, limits: MinuteLimits, now: number = Date.now()): Promise<boolean> {
+    const reply = await this._eval(TRY_RECORD_REQUEST, [`glb:rpm:${keyId}`, `glb:tpm:${keyId}`], [
+      now,
+      WINDOW_MS,
+      isLimited(limits.rpmLimit) ? limits.rpmLimit : 0,
+      isLimited(limits.tpmLimit) ? limits.tpmLimit : 0,
+      uuidv4(),
+    ]);
+    return reply === 1;
+  }
+
+  async recordTokens(keyId: string, tokens: number, now: number = Date.now()): Promise<void> {
+    if (!Number.isFinite(tokens) || tokens <= 0) return;
+    const key = `glb:tpm:${keyId}`;
+    await this.client.call('ZADD', key, now, `${uuidv4()}:${Math.round(tokens)}`);
+    await this.client.call('PEXPIRE', key, WINDOW_MS);
+  }
+
+  async getMinuteUsage(keyId: string, now: number = Date.now()): Promise<MinuteUsage> {
+    const reply = await this._eval(GET_MINUTE_USAGE, [`glb:rpm:${keyId}`, `glb:tpm:${keyId}`], [now, WINDOW_MS]);
+    const [requests, tokens] = Array.isArray(reply) ? reply : [0, 0];
+    return { requests: Number(requests) || 0, tokens: Number(tokens) || 0 };
+  }
+
+  async releaseRequest(keyId: string, at: number): Promise<void> {
+    await this._eval(RELEASE_REQUEST, [`glb:rpm:${keyId}`, ROTATION_COUNT_KEY], [at, keyId]);
+  }
+
+  async getRotation(): Promise<RotationEntry[]> {
+    const pools = await this.client.call('HGETALL', ROTATION_KEY);
+    const counts = await this.client.call('HGETALL', ROTATION_COUNT_KEY);
+    const countByKey = new Map<string, number>();
+    if (Array.isArray(counts)) {
+      for (let i = 0; i < counts.length; i += 2) countByKey.set(String(counts[i]), Number(counts[i + 1]) || 0);
+    }
+    const entries: RotationEntry[] = [];
+    if (Array.isArray(pools)) {
+      for (let i = 0; i < pools.length; i += 2) {
+        const keyId = String(pools[i]);
+        entries.push({ keyId, poolId: pools[i + 1] ? String(pools[i + 1]) : null, requestCounter: countByKey.get(keyId) ?? 0 });
+      }
+    }
+    return entries;
+  }
+
+  async joinRotation(keyId: string, poolId: string | null, maxKeys: number): Promise<boolean> {
+    const joined = (await this._eval(JOIN_ROTATION, [ROTATION_KEY], [keyId, poolId ?? '', maxKeys])) === 1;
+    if (joined) await this.client.call('HSET', ROTATION_COUNT_KEY, keyId, 0);
+    return joined;
+  }
+
+  async leaveRotation(keyId: string): Promise<void> {
+    await this.client.call('HDEL', ROTATION_KEY, keyId);
+    await this.client.call('HDEL', ROTATION_COUNT_KEY, keyId);
+  }
+
+  async incrementRotationCounter(keyId: string): Promise<number> {
+    return Number(await this.client.call('HINCRBY', ROTATION_COUNT_KEY, keyId, 1)) || 0;
+  }
+
+  async nextRoundRobin(poolId: string | null, sequence: RoundRobinSequence = 'requests'): Promise<number> {
+    // INCR starts at 1, the database store at 0; only the sequence matters
+    const key = `${sequence === 'rotation' ? 'glb:rr-rotation' : 'glb:rr'}:${poolId ?? ''}`;
+    return Number(await this.client.call('INCR', key)) || 0;
+  }
+
+  async acquireLock(name: string, ttlMs: number): Promise<boolean> {
+    return (await this._eval(ACQUIRE_LOCK, [`glb:lock:${name}`], [this.instanceId, Math.max(1, Math.round(ttlMs))])) === 1;
+  }
+}
@@ -1,5 +1,7 @@
-import { getDb, Settings, DEFAULT_SETTINGS } from './db'; // Import DB connection and types/defaults
+import { getDb, DEFAULT_SETTINGS } from './db'; // Import DB connection and defaults
 import { logError } from '@/lib/services/logger';
+import type { KeySelectionStrategyName } from '@/lib/services/keySelection';
+import type { ModelRoute } from '@/lib/services/modelRouting';
 
 // Define the Settings interface and export it
 export interface Settings {
@@ -7,27 +9,45 @@ export interface Settings {
   maxFailureCount: number;
   rateLimitCooldown: number; // Cooldown in seconds
   logRetentionDays: number;
-  keyRotationDelaySeconds: number; // Delay in seconds before rotating after rate limit
+  queueMaxWaitSeconds: number; // How long a request may wait for a key with capacity, 0 disables queuing
+  queueMaxDepth: number; // Requests allowed to wait at the same time, 0 disables queuing
   maxRetries: number; // Max retries for downstream API calls
+  retryBackoffMs: number; // Delay before the first retry after an upstream server error, doubled on each retry
+  retryBackoffMaxMs: number; // Upper bound for the retry backoff
+  keySelectionStrategy: KeySelectionStrategyName; // How the next key is picked on rotation
+  parallelKeyCount: number; // Number of keys kept in rotation at the same time
+  modelRoutes: ModelRoute[]; // Model aliases and fallback chains
+  healthCheckEnabled: boolean; // Probe keys deactivated after repeated failures in the background
+  healthCheckIntervalSeconds: number; // Time between two probe runs
+  quotaResetTimezone: string; // IANA time zone whose midnight resets the daily key counters
+  payloadCaptureEnabled: boolean; // Store request/response payloads (client keys can override this)
+  payloadCaptureSampleRate: number; // Share of requests captured while enabled, 0-1
+  payloadRetentionHours: number; // Captured payloads are deleted after this long
+  payloadRedactionPatterns: string[]; // Regular expressions replaced with REDACTED in captured payloads
 }
 
-// In-memory cache for settings
+// In-memory cache for settings. Other balancer instances may change the settings at any time,
+// so the cache is trusted for a moment only and then revalidated against the row's version.
 let cachedSettings: Settings | null = null;
+let cachedVersion: number | null = null;
 let lastReadTime: number | null = null;
-const CACHE_DURATION_MS = 60 * 1000; // Cache settings for 60 seconds
+const CACHE_DURATION_MS = 1000; // Revalidate at most once a second
 
 // Function to write settings to the database
 async function writeSettingsToDb(settings: Settings): Promise<void> {
   const db = await getDb();
   try {
-    // Use INSERT OR REPLACE (UPSERT) to ensure the single row (id=1) is updated or inserted
-    await db.run(
-      'INSERT OR REPLACE INTO settings (id, config) VALUES (?, ?)',
+    // UPSERT the single row (id=1) and bump its version so every instance reloads
+    const row = await db.get<{ version: number }>(
+      `INSERT INTO settings (id, config, version) VALUES (?, ?, 1)
+       ON CONFLICT(id) DO UPDATE SET config = excluded.config, version = settings.version + 1
+       RETURNING version`,
       1, // Fixed ID for the single settings row
       JSON.stringify(settings)
     );
     // Invalidate cache after writing
     cachedSettings = settings; // Update cache immediately
+    cachedVersion = row?.version ?? null;
     lastReadTime = Date.now();
   } catch (error) {
     logError(error, { context: 'writeSettingsToDb' });
@@ -39,8 +59,9 @@ async function writeSettingsToDb(settings: Settings): Promise<void> {
 async function readSettingsFromDb(): Promise<Settings> {
   const db = await getDb();
   try {
-    const row = await db.get<{ config: string }>('SELECT config FROM settings WHERE id = 1');
+    const row = await db.get<{ config: string; version: number }>('SELECT config, version FROM settings WHERE id = 1');
     if (row?.config) {
+      cachedVersion = row.version;
       // Merge defaults with loaded settings to ensure all keys are present
       // in case new defaults were added since last save
       return { ...DEFAULT_SETTINGS, ...JSON.parse(row.config) };
@@ -67,6 +88,20 @@ export async function readSettings(): Promise<Settings> {
         return cachedSettings;
     }
 
+    // Still valid if no instance wrote the settings since they were cached (a cheap primary key lookup)
+    if (cachedSettings && cachedVersion !== null) {
+        try {
+            const db = await getDb();
+            const row = await db.get<{ version: number }>('SELECT version FROM settings WHERE id = 1');
+            if (row?.version === cachedVersion) {
+                lastReadTime = now;
+                return cachedSettings;
+            }
+        } catch (error: any) {
+            logError(error, { context: 'readSettings version check' });
+        }
+    }
+
     // console.log('Fetching settings from DB'); // Optional: for debugging
     // Cache is invalid or doesn't exist, read from DB
     cachedSettings = await readSettingsFromDb();
@@ -84,9 +119,7 @@ export async function writeSettings(settings: Settings): Promise<void> {
 // Function to explicitly clear the cache if needed (e.g., after manual DB change)
 export function clearSettingsCache(): void {
     cachedSettings = null;
+    cachedVersion = null;
     lastReadTime = null;
     console.log('Settings cache cleared.');
 }
-
-// Re-export the Settings type for consumers of this module
-export type { Settings };
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { describe, expect, test } from 'bun:test';
+import { toPostgresSql } from './postgres';
+
+describe('toPostgresSql', () => {
+  test('numbers the placeholders in order', () => {
+    expect(toPostgresSql('SELECT * FROM api_keys WHERE key = ? AND name = ?')).toBe('SELECT * FROM api_keys WHERE key = $1 AND name = $2');
+  });
+
+  test('quotes camelCase identifiers so Postgres keeps their case', () => {
+    expect(toPostgresSql('UPDATE api_keys SET isActive = ?, dailyRequestsUsed = dailyRequestsUsed + 1 WHERE _id = ?'))
+      .toBe('UPDATE api_keys SET "isActive" = $1, "dailyRequestsUsed" = "dailyRequestsUsed" + 1 WHERE _id = $2');
+    expect(toPostgresSql('SELECT SUM(requests) AS requests, MAX(at) AS lastAt FROM key_minute_usage'))
+      .toBe('SELECT SUM(requests) AS requests, MAX(at) AS "lastAt" FROM key_minute_usage');
+  });
+
+  test('leaves keywords, snake_case names and qualified columns readable', () => {
+    expect(toPostgresSql('CREATE INDEX IF NOT EXISTS idx_key_minute_usage_apiKeyId_at ON key_minute_usage (apiKeyId, at)', false))
+      .toBe('CREATE INDEX IF NOT EXISTS idx_key_minute_usage_apiKeyId_at ON key_minute_usage ("apiKeyId", at)');
+    expect(toPostgresSql('ON CONFLICT(name) DO UPDATE SET expiresAt = excluded.expiresAt WHERE coordination_locks.expiresAt <= ?'))
+      .toBe('ON CONFLICT(name) DO UPDATE SET "expiresAt" = excluded."expiresAt" WHERE coordination_locks."expiresAt" <= $1');
+  });
+
+  test('skips string literals, quoted identifiers and comments', () => {
+    expect(toPostgresSql(`SELECT 'isActive = ?' AS label, "modelUsed" FROM t -- isError = ?\nWHERE isError = ?`))
+      .toBe(`SELECT 'isActive = ?' AS label, "modelUsed" FROM t -- isError = ?\nWHERE "isError" = $1`);
+  });
+
+  test('keeps `?` in schema statements without parameters', () => {
+    expect(toPostgresSql('ALTER TABLE api_keys ADD COLUMN rpmLimit INTEGER', false)).toBe('ALTER TABLE api_keys ADD COLUMN "rpmLimit" INTEGER');
+  });
+});
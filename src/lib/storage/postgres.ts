@@ -0,0 +1,168 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Pool, PoolClient, QueryResult, types } from 'pg';
+import { logError } from '../services/logger';
+import { PreparedStatement, RunResult, StorageDatabase, normalizeParams } from './types';
+
+// PostgreSQL backend, chosen with DATABASE_URL=postgres://...
+// Queries run on a connection pool (size from PG_POOL_SIZE, default 10). A transaction checks out a
+// connection of its own; every query made inside its callback, including through getDb() in the
+// models, runs on that connection, while concurrent requests keep using the pool.
+
+// COUNT/SUM return int8/numeric, which pg hands out as strings; the models expect numbers
+const typeParsers = {
+  getTypeParser: ((oid: number, format?: any) => {
+    if (oid === types.builtins.INT8) return (value: string) => Number(value);
+    if (oid === types.builtins.NUMERIC) return (value: string) => parseFloat(value);
+    return types.getTypeParser(oid, format);
+  }) as typeof types.getTypeParser,
+};
+
+// Postgres folds unquoted identifiers to lower case, so a camelCase column would come back as e.g.
+// "apikeyid". camelCase identifiers (the models' column names, never SQL keywords or snake_case table
+// and index names) are quoted instead, which keeps their case in the schema and in result rows.
+const CAMEL_CASE_IDENTIFIER = /^[a-z][a-z0-9]*[A-Z][A-Za-z0-9]*$/;
+
+// Adapts sqlite-flavoured SQL to Postgres outside of string literals, quoted identifiers and comments:
+// quotes camelCase identifiers and, for parameterized statements, rewrites `?` placeholders to $1, $2, ...
+export function toPostgresSql(sql: string, positional: boolean = true): string {
+  let out = '';
+  let index = 0;
+  let i = 0;
+  while (i < sql.length) {
+    const ch = sql[i];
+    let end = i + 1;
+    if (ch === "'" || ch === '"') {
+      const close = sql.indexOf(ch, i + 1);
+      end = close === -1 ? sql.length : close + 1;
+    } else if (ch === '-' && sql[i + 1] === '-') {
+      const close = sql.indexOf('\n', i);
+      end = close === -1 ? sql.length : close;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      while (end < sql.length && /[A-Za-z0-9_$]/.test(sql[end])) end++;
+      const word = sql.slice(i, end);
+      out += CAMEL_CASE_IDENTIFIER.test(word) ? `"${word}"` : word;
+      i = end;
+      continue;
+    } else if (/[0-9]/.test(ch)) {
+      while (end < sql.length && /[A-Za-z0-9_.]/.test(sql[end])) end++; // Keeps e.g. 1e5 out of the identifier rule
+    } else if (ch === '?' && positional) {
+      out += `$${++index}`;
+      i = end;
+      continue;
+    }
+    out += sql.slice(i, end);
+    i = end;
+  }
+  return out;
+}
+
+// Converted statements, cleared when it grows past this size (IN lists produce many variants)
+const MAX_CACHED_STATEMENTS = 500;
+
+function toDbValue(value: any): any {
+  if (value === undefined) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0; // Booleans are stored as 0/1 like in sqlite
+  return value;
+}
+
+// Connection of the transaction running in the current async context; done once it committed or
+// rolled back, so work it started in the background falls back to the pool
+interface ActiveTransaction {
+  client: PoolClient;
+  done: boolean;
+}
+
+class PostgresDatabase implements StorageDatabase {
+  readonly dialect = 'postgres' as const;
+  private pool: Pool;
+  private transactions = new AsyncLocalStorage<ActiveTransaction>();
+  private statements = new Map<string, string>();
+
+  constructor(connectionString: string) {
+    this.pool = new Pool({
+      connectionString,
+      types: typeParsers,
+      max: Number(process.env.PG_POOL_SIZE) || 10,
+    });
+    // An idle connection dropped; the pool replaces it on the next checkout
+    this.pool.on('error', (error) => logError(error, { context: 'PostgreSQL connection' }));
+  }
+
+  private _queryable(): Pool | PoolClient {
+    const transaction = this.transactions.getStore();
+    return transaction && !transaction.done ? transaction.client : this.pool;
+  }
+
+  private _prepareSql(sql: string): string {
+    let text = this.statements.get(sql);
+    if (text === undefined) {
+      text = toPostgresSql(sql);
+      if (this.statements.size >= MAX_CACHED_STATEMENTS) this.statements.clear();
+      this.statements.set(sql, text);
+    }
+    return text;
+  }
+
+  private async _query(sql: string, params: any[]): Promise<QueryResult> {
+    const text = this._prepareSql(sql);
+    return this._queryable().query(text, normalizeParams(params).map(toDbValue));
+  }
+
+  async get<T = any>(sql: string, ...params: any[]): Promise<T | undefined> {
+    return (await this._query(sql, params)).rows[0] as T | undefined;
+  }
+
+  async all<T = any[]>(sql: string, ...params: any[]): Promise<T> {
+    return (await this._query(sql, params)).rows as unknown as T;
+  }
+
+  async run(sql: string, ...params: any[]): Promise<RunResult> {
+    const result = await this._query(sql, params);
+    return { changes: result.rowCount ?? 0 };
+  }
+
+  async exec(sql: string): Promise<void> {
+    await this._queryable().query(toPostgresSql(sql, false)); // Schema statements take no parameters
+  }
+
+  async prepare(sql: string): Promise<PreparedStatement> {
+    return {
+      run: (...params: any[]) => this.run(sql, ...params),
+      finalize: async () => {},
+    };
+  }
+
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    const current = this.transactions.getStore();
+    if (current && !current.done) return fn(); // Already inside a transaction
+
+    const transaction: ActiveTransaction = { client: await this.pool.connect(), done: false };
+    let releaseError: Error | undefined;
+    try {
+      await transaction.client.query('BEGIN');
+      const result = await this.transactions.run(transaction, fn);
+      await transaction.client.query('COMMIT');
+      return result;
+    } catch (error: any) {
+      try {
+        await transaction.client.query('ROLLBACK');
+      } catch (rollbackError: any) {
+        releaseError = rollbackError; // The connection is unusable, drop it instead of pooling it
+      }
+      throw error;
+    } finally {
+      transaction.done = true;
+      transaction.client.release(releaseError);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
+
+export async function openPostgres(connectionString: string): Promise<StorageDatabase> {
+  const db = new PostgresDatabase(connectionString);
+  await db.get('SELECT 1'); // Fail at startup, not on the first request, when the server is unreachable
+  return db;
+}
@@ -0,0 +1,85 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { open, Database } from 'sqlite';
+import sqlite3 from 'sqlite3';
+import { Mutex } from 'async-mutex';
+import { PreparedStatement, RunResult, StorageDatabase, normalizeParams } from './types';
+
+// Local database file, the default backend.
+// There is a single connection, so anything sent on it while a transaction is open would become part
+// of that transaction. Statements therefore go through a lock: a transaction holds it from BEGIN to
+// COMMIT, statements of other requests wait for it, statements inside the transaction's callback run directly.
+class SqliteDatabase implements StorageDatabase {
+  readonly dialect = 'sqlite' as const;
+
+  private lock = new Mutex();
+  private transactionContext = new AsyncLocalStorage<true>(); // Set inside a transaction's callback
+
+  constructor(private db: Database) {}
+
+  private _statement<T>(execute: () => Promise<T>): Promise<T> {
+    return this.transactionContext.getStore() ? execute() : this.lock.runExclusive(execute);
+  }
+
+  get<T = any>(sql: string, ...params: any[]): Promise<T | undefined> {
+    return this._statement(() => this.db.get<T>(sql, normalizeParams(params)));
+  }
+
+  all<T = any[]>(sql: string, ...params: any[]): Promise<T> {
+    return this._statement(() => this.db.all<T>(sql, normalizeParams(params)));
+  }
+
+  async run(sql: string, ...params: any[]): Promise<RunResult> {
+    const result = await this._statement(() => this.db.run(sql, normalizeParams(params)));
+    return { changes: result.changes ?? 0 };
+  }
+
+  exec(sql: string): Promise<void> {
+    return this._statement(() => this.db.exec(sql));
+  }
+
+  async prepare(sql: string): Promise<PreparedStatement> {
+    const stmt = await this._statement(() => this.db.prepare(sql));
+    return {
+      run: async (...params: any[]) => {
+        const result = await this._statement(() => stmt.run(normalizeParams(params)));
+        return { changes: result.changes ?? 0 };
+      },
+      finalize: () => this._statement(() => stmt.finalize()),
+    };
+  }
+
+  // Transactions run one at a time; the write lock of the file is taken up front (BEGIN IMMEDIATE)
+  // so instances sharing the file cannot interleave their writes either.
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.transactionContext.getStore()) return fn(); // Nested call, joins the outer transaction
+    return this.lock.runExclusive(async () => {
+      await this.db.run('BEGIN IMMEDIATE');
+      try {
+        const result = await this.transactionContext.run(true, fn);
+        await this.db.run('COMMIT');
+        return result;
+      } catch (error) {
+        await this.db.run('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+
+  close(): Promise<void> {
+    return this.db.close();
+  }
+}
+
+export async function openSqlite(filename: string): Promise<StorageDatabase> {
+  const db = await open({
+    filename,
+    driver: sqlite3.Database,
+  });
+
+  // Enable WAL mode for better concurrency
+  await db.run('PRAGMA journal_mode = WAL;');
+  // Wait for the write lock instead of failing right away when other balancer instances share the file
+  await db.run('PRAGMA busy_timeout = 5000;');
+
+  return new SqliteDatabase(db);
+}
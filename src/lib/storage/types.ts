@@ -0,0 +1,34 @@
+// Storage abstraction shared by the SQLite and PostgreSQL backends.
+// Models keep writing plain SQL with `?` placeholders; each backend adapts it to its driver.
+// Only SQL both databases understand may be used (no strftime, COLLATE NOCASE, `x IS ?`, ...).
+
+export type Dialect = 'sqlite' | 'postgres';
+
+export interface RunResult {
+  changes: number; // Rows inserted, updated or deleted
+}
+
+export interface PreparedStatement {
+  run(...params: any[]): Promise<RunResult>;
+  finalize(): Promise<void>;
+}
+
+export interface StorageDatabase {
+  readonly dialect: Dialect;
+  // Parameters are passed either spread or as a single array, like the sqlite driver accepts them
+  get<T = any>(sql: string, ...params: any[]): Promise<T | undefined>;
+  all<T = any[]>(sql: string, ...params: any[]): Promise<T>;
+  run(sql: string, ...params: any[]): Promise<RunResult>;
+  // Runs one or more statements without parameters (schema changes)
+  exec(sql: string): Promise<void>;
+  prepare(sql: string): Promise<PreparedStatement>;
+  // Runs fn in a transaction: committed when it resolves, rolled back when it throws. Queries made
+  // through getDb() inside fn take part in it; nested calls join the outer transaction.
+  transaction<T>(fn: () => Promise<T>): Promise<T>;
+  close(): Promise<void>;
+}
+
+// Flattens the single-array form of the parameters
+export function normalizeParams(params: any[]): any[] {
+  return params.length === 1 && Array.isArray(params[0]) ? params[0] : params;
+}
@@ -0,0 +1,170 @@
+import path from 'path';
+import { mkdir, open, readFile, rename, stat, writeFile } from 'fs/promises';
+
+// Line-level access to the JSON-lines log files written by winston, without loading whole files.
+// Offsets are byte positions of the first character of a line; they identify a line within its file.
+
+export interface LogLine {
+  line: string;
+  offset: number; // Byte offset of the line in its file
+  next: number; // Byte offset right after the line's newline
+}
+
+const CHUNK_SIZE = 64 * 1024;
+const NEWLINE = 0x0a;
+
+// Yields the lines of a file from the last one to the first. With `before`, starts with the line that
+// ends right before that offset (pass the offset of a line to continue with the lines above it).
+export async function* readLinesBackward(filePath: string, before?: number): AsyncGenerator<LogLine> {
+  const handle = await open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    let position = Math.min(before ?? size, size);
+    let tail = Buffer.alloc(0); // Start of a line whose beginning is in an earlier chunk
+    let tailEnd = position; // File offset where `tail` ends
+
+    while (position > 0) {
+      const length = Math.min(CHUNK_SIZE, position);
+      position -= length;
+      const chunk = Buffer.alloc(length);
+      await handle.read(chunk, 0, length, position);
+      const buffer = tail.length > 0 ? Buffer.concat([chunk, tail]) : chunk;
+
+      let lineEnd = buffer.length;
+      for (let i = buffer.length - 1; i >= 0; i--) {
+        if (buffer[i] !== NEWLINE) continue;
+        if (lineEnd > i + 1) {
+          yield { line: buffer.toString('utf8', i + 1, lineEnd), offset: position + i + 1, next: position + lineEnd + 1 };
+        }
+        lineEnd = i;
+      }
+      tail = buffer.subarray(0, lineEnd);
+      tailEnd = position + lineEnd;
+    }
+    if (tail.length > 0) yield { line: tail.toString('utf8'), offset: 0, next: tailEnd + 1 };
+  } finally {
+    await handle.close();
+  }
+}
+
+// Yields the complete lines of a file from `start` on. A last line without its newline is still
+// being written and is left out, so `next` of the last yielded line is where to resume later.
+export async function* readLinesForward(filePath: string, start: number = 0): AsyncGenerator<LogLine> {
+  const handle = await open(filePath, 'r');
+  try {
+    let position = start;
+    let head = Buffer.alloc(0); // Line started in an earlier chunk
+    let headStart = start;
+
+    while (true) {
+      const chunk = Buffer.alloc(CHUNK_SIZE);
+      const { bytesRead } = await handle.read(chunk, 0, CHUNK_SIZE, position);
+      if (bytesRead === 0) break;
+      const buffer = head.length > 0 ? Buffer.concat([head, chunk.subarray(0, bytesRead)]) : chunk.subarray(0, bytesRead);
+      position += bytesRead;
+
+      let lineStart = 0;
+      for (let i = 0; i < buffer.length; i++) {
+        if (buffer[i] !== NEWLINE) continue;
+        if (i > lineStart) {
+          yield { line: buffer.toString('utf8', lineStart, i), offset: headStart + lineStart, next: headStart + i + 1 };
+        }
+        lineStart = i + 1;
+      }
+      head = Buffer.from(buffer.subarray(lineStart));
+      headStart += lineStart;
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+// Reads the line starting at offset
+export async function readLineAt(filePath: string, offset: number): Promise<LogLine | null> {
+  for await (const line of readLinesForward(filePath, offset)) {
+    return line;
+  }
+  return null;
+}
+
+// --- requestId sidecar index ---
+// Every log file gets a JSON index (logs/.index/<file>.idx.json) that maps each requestId to the
+// offsets of its lines. It is extended incrementally as the file grows and rebuilt if the file shrank.
+
+interface RequestIdIndex {
+  size: number; // Bytes of the log file covered by the index
+  ids: Record<string, number[]>;
+}
+
+const REQUEST_ID_PATTERN = /"requestId":"([^"\\]+)"/;
+// Indexes kept in memory, oldest evicted first
+const MAX_CACHED_INDEXES = 8;
+const indexCache = new Map<string, RequestIdIndex>();
+// Index updates in progress, so concurrent lookups of the same file scan it once
+const pendingUpdates = new Map<string, Promise<RequestIdIndex>>();
+
+export function getIndexPath(filePath: string): string {
+  return path.join(path.dirname(filePath), '.index', `${path.basename(filePath)}.idx.json`);
+}
+
+async function loadIndex(filePath: string): Promise<RequestIdIndex | null> {
+  const cached = indexCache.get(filePath);
+  if (cached) return cached;
+  try {
+    const index = JSON.parse(await readFile(getIndexPath(filePath), 'utf8')) as RequestIdIndex;
+    return typeof index.size === 'number' && index.ids ? index : null;
+  } catch {
+    return null; // Missing or unreadable index, rebuilt from scratch
+  }
+}
+
+function updateIndex(filePath: string): Promise<RequestIdIndex> {
+  let pending = pendingUpdates.get(filePath);
+  if (!pending) {
+    pending = extendIndex(filePath).finally(() => pendingUpdates.delete(filePath));
+    pendingUpdates.set(filePath, pending);
+  }
+  return pending;
+}
+
+async function extendIndex(filePath: string): Promise<RequestIdIndex> {
+  const { size } = await stat(filePath);
+  let index = await loadIndex(filePath);
+  if (!index || index.size > size) index = { size: 0, ids: {} };
+
+  if (index.size < size) {
+    indexCache.delete(filePath); // Reloaded from disk if the scan below fails halfway
+    const ids = index.ids;
+    let covered = index.size;
+    for await (const { line, offset, next } of readLinesForward(filePath, index.size)) {
+      const match = REQUEST_ID_PATTERN.exec(line);
+      if (match) (ids[match[1]] ||= []).push(offset);
+      covered = next;
+    }
+    if (covered !== index.size) {
+      index = { size: covered, ids };
+      const indexPath = getIndexPath(filePath);
+      await mkdir(path.dirname(indexPath), { recursive: true });
+      // Written to a temporary file first so readers never see a half-written index
+      const tempPath = `${indexPath}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify(index));
+      await rename(tempPath, indexPath);
+    }
+  }
+
+  indexCache.delete(filePath);
+  indexCache.set(filePath, index);
+  if (indexCache.size > MAX_CACHED_INDEXES) indexCache.delete(indexCache.keys().next().value as string);
+  return index;
+}
+
+// Offsets of the lines logged for a requestId, in file order
+export async function findRequestIdOffsets(filePath: string, requestId: string): Promise<number[]> {
+  const index = await updateIndex(filePath);
+  return index.ids[requestId] ?? [];
+}
+
+// Drops the cached index of a deleted log file
+export function forgetIndex(filePath: string) {
+  indexCache.delete(filePath);
+}
@@ -0,0 +1,51 @@
+import { describe, expect, test } from 'bun:test';
+import { getNextQuotaReset, getQuotaDay, isSameQuotaDay, isValidTimeZone } from './quotaDay';
+
+const LOS_ANGELES = 'America/Los_Angeles';
+
+describe('getNextQuotaReset', () => {
+  test('returns the next midnight of the time zone', () => {
+    expect(getNextQuotaReset(new Date('2024-06-15T12:00:00Z'), LOS_ANGELES).toISOString()).toBe('2024-06-16T07:00:00.000Z');
+    expect(getNextQuotaReset(new Date('2024-06-15T12:00:00Z'), 'UTC').toISOString()).toBe('2024-06-16T00:00:00.000Z');
+    expect(getNextQuotaReset(new Date('2024-06-15T23:30:00Z'), 'Asia/Tokyo').toISOString()).toBe('2024-06-16T15:00:00.000Z');
+  });
+
+  test('moves on to the following day exactly at midnight', () => {
+    expect(getNextQuotaReset(new Date('2024-06-16T07:00:00Z'), LOS_ANGELES).toISOString()).toBe('2024-06-17T07:00:00.000Z');
+  });
+
+  test('uses the offset of the coming midnight when DST starts', () => {
+    // 2024-03-10 02:00 PST becomes 03:00 PDT
+    expect(getNextQuotaReset(new Date('2024-03-10T07:30:00Z'), LOS_ANGELES).toISOString()).toBe('2024-03-10T08:00:00.000Z');
+    expect(getNextQuotaReset(new Date('2024-03-10T12:00:00Z'), LOS_ANGELES).toISOString()).toBe('2024-03-11T07:00:00.000Z');
+    // 2024-03-31 02:00 CET becomes 03:00 CEST
+    expect(getNextQuotaReset(new Date('2024-03-30T12:00:00Z'), 'Europe/Berlin').toISOString()).toBe('2024-03-30T23:00:00.000Z');
+    expect(getNextQuotaReset(new Date('2024-03-31T12:00:00Z'), 'Europe/Berlin').toISOString()).toBe('2024-03-31T22:00:00.000Z');
+  });
+
+  test('uses the offset of the coming midnight when DST ends', () => {
+    // 2024-11-03 02:00 PDT becomes 01:00 PST
+    expect(getNextQuotaReset(new Date('2024-11-02T12:00:00Z'), LOS_ANGELES).toISOString()).toBe('2024-11-03T07:00:00.000Z');
+    expect(getNextQuotaReset(new Date('2024-11-03T12:00:00Z'), LOS_ANGELES).toISOString()).toBe('2024-11-04T08:00:00.000Z');
+  });
+});
+
+describe('quota days', () => {
+  test('are calendar days of the time zone', () => {
+    expect(getQuotaDay(new Date('2024-03-10T07:59:59Z'), LOS_ANGELES)).toBe('2024-03-09');
+    expect(getQuotaDay(new Date('2024-03-10T08:00:00Z'), LOS_ANGELES)).toBe('2024-03-10');
+    expect(isSameQuotaDay(new Date('2024-03-10T07:59:59Z'), new Date('2024-03-10T08:00:00Z'), LOS_ANGELES)).toBe(false);
+    expect(isSameQuotaDay(new Date('2024-03-10T07:59:59Z'), new Date('2024-03-10T08:00:00Z'), 'UTC')).toBe(true);
+  });
+
+  test('never match a missing date', () => {
+    expect(isSameQuotaDay(null, new Date(), LOS_ANGELES)).toBe(false);
+  });
+
+  test('only accept IANA time zones', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    expect(isValidTimeZone(' ')).toBe(false);
+    expect(isValidTimeZone(42)).toBe(false);
+  });
+});
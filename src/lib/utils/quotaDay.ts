@@ -0,0 +1,68 @@
+/**
+ * Quota days: daily key counters reset at midnight in a configurable IANA time zone.
+ * Google resets Gemini quotas at midnight Pacific time, hence the default.
+ */
+export const DEFAULT_QUOTA_RESET_TIMEZONE = 'America/Los_Angeles';
+
+const formatters = new Map<string, Intl.DateTimeFormat>(); // Building a formatter is costly, reuse them
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// Wall clock fields of a date in the given time zone
+const getZonedParts = (date: Date, timeZone: string) => {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+};
+
+export const isValidTimeZone = (timeZone: any): timeZone is string => {
+  if (typeof timeZone !== 'string' || !timeZone.trim()) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Quota day of a date as YYYY-MM-DD
+export const getQuotaDay = (date: Date, timeZone: string): string => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+export const isSameQuotaDay = (date1: Date | null, date2: Date | null, timeZone: string): boolean => {
+  if (!date1 || !date2) return false;
+  return getQuotaDay(date1, timeZone) === getQuotaDay(date2, timeZone);
+};
+
+// Difference between the wall clock in the time zone and UTC at the given instant
+const getOffsetMs = (date: Date, timeZone: string): number => {
+  const { year, month, day, hour, minute, second } = getZonedParts(date, timeZone);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+// Next midnight in the time zone, i.e. when the current quota day ends
+export const getNextQuotaReset = (now: Date, timeZone: string): Date => {
+  const { year, month, day } = getZonedParts(now, timeZone);
+  const midnightAsUtc = Date.UTC(year, month - 1, day + 1);
+  const guess = midnightAsUtc - getOffsetMs(new Date(midnightAsUtc), timeZone);
+  // Measure the offset again at the guess, in case a DST change falls in between
+  return new Date(midnightAsUtc - getOffsetMs(new Date(guess), timeZone));
+};
@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'bun:test';
+import { compileRedactionPatterns, redactPayload } from './sanitize';
+
+const GOOGLE_KEY = `AIza${'x'.repeat(35)}`;
+const CLIENT_SECRET = `glb-${'0a'.repeat(24)}`;
+
+describe('redactPayload', () => {
+  test('replaces credential fields at any depth, whatever their case', () => {
+    const payload = {
+      headers: { Authorization: 'Bearer abc', 'X-Goog-Api-Key': GOOGLE_KEY },
+      body: { apiKey: 'k1', nested: [{ password: 'hunter2', token: 'abc', name: 'kept' }] },
+    };
+    expect(redactPayload(payload)).toEqual({
+      headers: { Authorization: 'REDACTED', 'X-Goog-Api-Key': 'REDACTED' },
+      body: { apiKey: 'REDACTED', nested: [{ password: 'REDACTED', token: 'REDACTED', name: 'kept' }] },
+    });
+  });
+
+  test('leaves empty credential fields as they are', () => {
+    expect(redactPayload({ key: null, secret: undefined })).toEqual({ key: null, secret: undefined });
+  });
+
+  test('replaces secrets inside strings', () => {
+    const text = `Use ${GOOGLE_KEY} or ${CLIENT_SECRET} with "Bearer eyJhbGciOi.abc" on https://example.com/v1?alt=sse&key=secret123&x=1`;
+    expect(redactPayload({ contents: [{ parts: [{ text }] }] })).toEqual({
+      contents: [{ parts: [{ text: 'Use REDACTED or REDACTED with "REDACTED" on https://example.com/v1?alt=sse&key=REDACTED&x=1' }] }],
+    });
+  });
+
+  test('applies the configured patterns case-insensitively', () => {
+    expect(redactPayload({ text: 'Card 4111-1111 for ACME-42' }, ['\\d{4}-\\d{4}', 'acme-\\d+'])).toEqual({ text: 'Card REDACTED for REDACTED' });
+  });
+
+  test('returns a copy and keeps other values', () => {
+    const payload = { key: 'secret', count: 3, stream: true, items: ['a', 1] };
+    expect(redactPayload(payload)).toEqual({ key: 'REDACTED', count: 3, stream: true, items: ['a', 1] });
+    expect(payload.key).toBe('secret');
+    expect(redactPayload('plain text')).toBe('plain text');
+    expect(redactPayload(null)).toBeNull();
+  });
+});
+
+describe('compileRedactionPatterns', () => {
+  test('reports the first invalid pattern', () => {
+    expect(compileRedactionPatterns(['ok', '(unclosed', '[also'])).toMatchObject({ invalid: '(unclosed' });
+    expect(compileRedactionPatterns(['ok']).invalid).toBeUndefined();
+  });
+});
@@ -1,3 +1,6 @@
+// `key=` query parameter of a URL (Gemini API keys are passed this way)
+const URL_KEY_PATTERN = /([?&]key=)[^&\s"]+/g;
+
 /**
  * Sanitizes request and response data to remove sensitive information
  * before logging.
@@ -17,7 +20,7 @@ export const sanitizeRequest = (request: any) => {
   
   // Redact API key in URL
   if (sanitized.url && typeof sanitized.url === 'string') {
-    sanitized.url = sanitized.url.replace(/([?&]key=)[^&]+/g, '$1REDACTED');
+    sanitized.url = sanitized.url.replace(URL_KEY_PATTERN, '$1REDACTED');
   }
   
   // Redact any key in body
@@ -28,6 +31,62 @@ export const sanitizeRequest = (request: any) => {
   return sanitized;
 };
 
+// Fields whose values are replaced wherever they appear in a captured payload (compared in lower case):
+// the ones sanitizeRequest redacts, plus common names of credentials
+const SENSITIVE_FIELDS = new Set(['authorization', 'apikey', 'api_key', 'key', 'x-goog-api-key', 'password', 'secret', 'token', 'access_token']);
+
+// Credentials that can end up inside prompts and completions
+const SECRET_PATTERNS = [
+  /AIza[0-9A-Za-z_-]{35}/g, // Google API keys
+  /glb-[0-9a-f]{48}/g, // Client key secrets
+  /Bearer\s+[A-Za-z0-9._~+/=-]+/gi,
+];
+
+/**
+ * Compiles configured redaction patterns (regular expression sources, matched case-insensitively).
+ * Returns the first invalid pattern as `invalid` so settings can be rejected before they are saved.
+ */
+export const compileRedactionPatterns = (patterns: string[]): { regexes: RegExp[]; invalid?: string } => {
+  const regexes: RegExp[] = [];
+  for (const pattern of patterns) {
+    try {
+      regexes.push(new RegExp(pattern, 'gi'));
+    } catch {
+      return { regexes, invalid: pattern };
+    }
+  }
+  return { regexes };
+};
+
+/**
+ * Redacts a request or response payload before payload capture stores it. Applies the rules of
+ * sanitizeRequest at every depth of the payload, and replaces secrets and matches of the
+ * configured patterns inside strings. Returns a copy; the payload itself is not changed.
+ */
+export const redactPayload = (payload: any, patterns: string[] = []): any => {
+  const { regexes } = compileRedactionPatterns(patterns);
+  const redactString = (value: string) => {
+    let result = value.replace(URL_KEY_PATTERN, '$1REDACTED');
+    for (const regex of [...SECRET_PATTERNS, ...regexes]) {
+      result = result.replace(regex, 'REDACTED');
+    }
+    return result;
+  };
+  const redact = (value: any): any => {
+    if (typeof value === 'string') return redactString(value);
+    if (Array.isArray(value)) return value.map(redact);
+    if (value && typeof value === 'object') {
+      const result: Record<string, any> = {};
+      for (const [name, fieldValue] of Object.entries(value)) {
+        result[name] = SENSITIVE_FIELDS.has(name.toLowerCase()) && fieldValue != null ? 'REDACTED' : redact(fieldValue);
+      }
+      return result;
+    }
+    return value;
+  };
+  return redact(payload);
+};
+
 /**
  * Masks an API key for display, showing only the first few and last few characters
  */
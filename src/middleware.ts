@@ -12,6 +12,11 @@ const publicPaths = [
   // '/api/health',
 ];
 
+// Public endpoints matched exactly, so nothing nested under them is exempt by accident
+const publicExactPaths = [
+  '/api/metrics', // Authenticated with METRICS_TOKEN by the route itself
+];
+
 // Matcher config ensures middleware runs on appropriate paths
 export const config = {
   matcher: [
@@ -31,7 +36,7 @@ export async function middleware(request: NextRequest) {
   const pathname = request.nextUrl.pathname;
 
   // Check if the path is public
-  const isPublicPath = publicPaths.some(path => pathname.startsWith(path));
+  const isPublicPath = publicPaths.some(path => pathname.startsWith(path)) || publicExactPaths.includes(pathname);
 
   // Allow access to public paths without checking session
   if (isPublicPath) {
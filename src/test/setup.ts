@@ -0,0 +1,37 @@
+import { afterAll, beforeAll } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Client } from 'pg';
+
+// Preloaded by `bun test` (see bunfig.toml) before any test file imports the database module.
+// Without DATABASE_URL the suites run on a SQLite file in a temporary directory. With a postgres://
+// DATABASE_URL they run in a schema of their own on that server, dropped again at the end, so the
+// tables already in the database are left alone.
+
+const databaseUrl = process.env.DATABASE_URL || '';
+
+if (/^postgres(ql)?:\/\//i.test(databaseUrl)) {
+  const schema = `glb_test_${process.pid}_${Date.now()}`;
+  const admin = new Client({ connectionString: databaseUrl });
+  // Set right away: lib/db reads DATABASE_URL when it is imported, the schema is only needed by getDb()
+  const url = new URL(databaseUrl);
+  url.searchParams.set('options', `-c search_path=${schema}`);
+  process.env.DATABASE_URL = url.toString();
+
+  beforeAll(async () => {
+    await admin.connect();
+    await admin.query(`CREATE SCHEMA ${schema}`);
+  });
+  afterAll(async () => {
+    await admin.query(`DROP SCHEMA ${schema} CASCADE`);
+    await admin.end();
+  });
+} else {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'glb-test-'));
+  process.env.DATA_DIR = dataDir;
+
+  afterAll(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+}